@@ -7,6 +7,62 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaService } from './services/prisma.service';
 import { HealthController } from './controllers/health.controller';
+import { AttendanceController } from './controllers/attendance.controller';
+import { AttendanceService } from './services/attendance.service';
+import { AttendanceRepository } from './repositories/attendance.repository';
+import { ClassScheduleController } from './controllers/class-schedule.controller';
+import { ClassScheduleService } from './services/class-schedule.service';
+import { ClassScheduleRepository } from './repositories/class-schedule.repository';
+import { ClassBookingController } from './controllers/class-booking.controller';
+import { ClassBookingService } from './services/class-booking.service';
+import { ClassBookingRepository } from './repositories/class-booking.repository';
+import { ClassAttendanceRepository } from './repositories/class-attendance.repository';
+import { ClassRatingController } from './controllers/class-rating.controller';
+import { ClassRatingService } from './services/class-rating.service';
+import { BookingPenaltyController } from './controllers/booking-penalty.controller';
+import { BookingPolicyService } from './services/booking-policy.service';
+import { NoShowService } from './services/no-show.service';
+import { BookingPenaltyRepository } from './repositories/booking-penalty.repository';
+import { QrCodeController } from './controllers/qr-code.controller';
+import { QrCodeService } from './services/qr-code.service';
+import { GymAccessRepository } from './repositories/gym-access.repository';
+import { AccessDeviceController } from './controllers/access-device.controller';
+import { AccessControlController } from './controllers/access-control.controller';
+import { AccessDeviceService } from './services/access-device.service';
+import { AccessControlService } from './services/access-control.service';
+import { AccessDeviceRepository } from './repositories/access-device.repository';
+import { OccupancyController } from './controllers/occupancy.controller';
+import { PublicOccupancyController } from './controllers/public-occupancy.controller';
+import { OccupancyService } from './services/occupancy.service';
+import { OccupancyAlertRepository } from './repositories/occupancy-alert.repository';
+import { MobileCheckInController } from './controllers/mobile-check-in.controller';
+import { MobileCheckInService } from './services/mobile-check-in.service';
+import { MobileCheckInRepository } from './repositories/mobile-check-in.repository';
+import { PersonalTrainingController } from './controllers/personal-training.controller';
+import { PersonalTrainingService } from './services/personal-training.service';
+import { SessionPackService } from './services/session-pack.service';
+import { PersonalTrainingRepository } from './repositories/personal-training.repository';
+import { TrainerAvailabilityRepository } from './repositories/trainer-availability.repository';
+import { SessionPackRepository } from './repositories/session-pack.repository';
+import { CalendarFeedController } from './controllers/calendar-feed.controller';
+import { PublicCalendarFeedController } from './controllers/public-calendar-feed.controller';
+import { CalendarFeedService } from './services/calendar-feed.service';
+import { CalendarFeedRepository } from './repositories/calendar-feed.repository';
+import { EngagementController } from './controllers/engagement.controller';
+import { EngagementService } from './services/engagement.service';
+import { MemberEngagementRepository } from './repositories/member-engagement.repository';
+import { TeachingActivityController } from './controllers/teaching-activity.controller';
+import { TeachingActivityService } from './services/teaching-activity.service';
+import { ClassTemplateController } from './controllers/class-template.controller';
+import { MemberVisitsController } from './controllers/member-visits.controller';
+import { ClassTemplateService } from './services/class-template.service';
+import { UserClientService } from './services/user-client.service';
+import { CompanyClientService } from './services/company-client.service';
+import { NotificationClientService } from './services/notification-client.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { DeviceAuthGuard } from './guards/device-auth.guard';
+import { InternalServiceGuard } from './guards/internal-service.guard';
 
 @Module({
   imports: [
@@ -14,7 +70,7 @@ import { HealthController } from './controllers/health.controller';
       isGlobal: true,
       envFilePath: ['.env.local', '.env'],
     }),
-    
+
     // Rate limiting
     ThrottlerModule.forRoot([
       {
@@ -32,8 +88,94 @@ import { HealthController } from './controllers/health.controller';
     // Health checks
     TerminusModule,
   ],
-  controllers: [AppController, HealthController],
-  providers: [AppService, PrismaService],
+  controllers: [
+    AppController,
+    HealthController,
+    AttendanceController,
+    ClassScheduleController,
+    ClassBookingController,
+    ClassRatingController,
+    BookingPenaltyController,
+    QrCodeController,
+    AccessDeviceController,
+    AccessControlController,
+    OccupancyController,
+    PublicOccupancyController,
+    MobileCheckInController,
+    PersonalTrainingController,
+    CalendarFeedController,
+    PublicCalendarFeedController,
+    EngagementController,
+    TeachingActivityController,
+    ClassTemplateController,
+    MemberVisitsController,
+  ],
+  providers: [
+    AppService,
+    PrismaService,
+
+    // Attendance
+    AttendanceService,
+    AttendanceRepository,
+    GymAccessRepository,
+    QrCodeService,
+    MobileCheckInService,
+    MobileCheckInRepository,
+
+    // Classes
+    ClassScheduleService,
+    ClassScheduleRepository,
+    ClassBookingService,
+    ClassBookingRepository,
+    ClassAttendanceRepository,
+    ClassRatingService,
+
+    // Booking penalties
+    BookingPolicyService,
+    NoShowService,
+    BookingPenaltyRepository,
+
+    // Access control
+    AccessDeviceService,
+    AccessControlService,
+    AccessDeviceRepository,
+
+    // Occupancy
+    OccupancyService,
+    OccupancyAlertRepository,
+
+    // Personal training
+    PersonalTrainingService,
+    SessionPackService,
+    PersonalTrainingRepository,
+    TrainerAvailabilityRepository,
+    SessionPackRepository,
+
+    // Calendar feeds
+    CalendarFeedService,
+    CalendarFeedRepository,
+
+    // Engagement
+    EngagementService,
+    MemberEngagementRepository,
+
+    // Payroll data
+    TeachingActivityService,
+
+    // Branch setup
+    ClassTemplateService,
+
+    // Service clients
+    CompanyClientService,
+    NotificationClientService,
+    UserClientService,
+
+    // Guards
+    JwtAuthGuard,
+    RolesGuard,
+    DeviceAuthGuard,
+    InternalServiceGuard,
+  ],
   exports: [PrismaService],
 })
 export class AppModule {}
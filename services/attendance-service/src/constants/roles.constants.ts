@@ -0,0 +1,24 @@
+// Role names issued by auth-service (see PROFESSIONAL_ROLES there)
+export const STAFF_ROLES = [
+  'SUPER_ADMIN',
+  'SYSTEM_ADMIN',
+  'COMPANY_OWNER',
+  'FACILITY_MANAGER',
+  'HEAD_TRAINER',
+  'PERSONAL_TRAINER',
+  'RECEPTIONIST',
+];
+
+// Platform operators, not tied to a company
+export const PLATFORM_ADMIN_ROLES = ['SUPER_ADMIN', 'SYSTEM_ADMIN'];
+
+// Staff who may manage branch hardware and configuration
+export const MANAGER_ROLES = ['SUPER_ADMIN', 'SYSTEM_ADMIN', 'COMPANY_OWNER', 'FACILITY_MANAGER'];
+
+export function isStaffUser(user: { roles?: string[] } | undefined): boolean {
+  return !!user?.roles?.some(role => STAFF_ROLES.includes(role));
+}
+
+export function isPlatformAdmin(user: { roles?: string[] } | undefined): boolean {
+  return !!user?.roles?.some(role => PLATFORM_ADMIN_ROLES.includes(role));
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { AccessControlService } from '../services/access-control.service';
+import { DeviceAuthGuard } from '../guards/device-auth.guard';
+import { CurrentDevice } from '../decorators/auth.decorators';
+import { AccessDeviceEntity } from '../entities/access-device.entity';
+import { AccessDecisionDto, OfflineAccessUploadDto } from '../dto/access-control.dto';
+
+/**
+ * Endpoints called by the devices themselves, authenticated by device key.
+ */
+@ApiTags('Access Control')
+@Controller('access')
+@UseGuards(DeviceAuthGuard)
+@ApiHeader({ name: 'x-device-key', description: 'Device API key issued at registration', required: true })
+export class AccessControlController {
+  constructor(private readonly accessControlService: AccessControlService) {}
+
+  @Post('decide')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Allow or deny a presented card or biometric credential' })
+  @ApiResponse({ status: 200, description: 'Decision returned' })
+  @ApiResponse({ status: 401, description: 'Unknown or deactivated device' })
+  async decide(
+    @Body() decisionDto: AccessDecisionDto,
+    @CurrentDevice() device: AccessDeviceEntity,
+    @Request() req: any,
+  ) {
+    const decision = await this.accessControlService.decide(device, decisionDto, req.ip);
+
+    return {
+      success: true,
+      data: decision,
+    };
+  }
+
+  @Post('offline-events')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Upload entries buffered while the device was offline; safe to retry' })
+  @ApiResponse({ status: 200, description: 'Entries synced' })
+  async syncOffline(
+    @Body() uploadDto: OfflineAccessUploadDto,
+    @CurrentDevice() device: AccessDeviceEntity,
+  ) {
+    const result = await this.accessControlService.syncOffline(device, uploadDto);
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.synced} entr${result.synced === 1 ? 'y' : 'ies'} synced`,
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { AccessDeviceService } from '../services/access-device.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import {
+  RegisterAccessDeviceDto,
+  AccessDeviceFiltersDto,
+  CreateAccessCredentialDto,
+  AccessCredentialFiltersDto,
+} from '../dto/access-control.dto';
+
+@ApiTags('Access Control')
+@Controller('access-control')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class AccessDeviceController {
+  private readonly logger = new Logger(AccessDeviceController.name);
+
+  constructor(private readonly accessDeviceService: AccessDeviceService) {}
+
+  // ===================
+  // DEVICES
+  // ===================
+
+  @Post('devices')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Register an access device; the API key is only shown in this response' })
+  @ApiResponse({ status: 201, description: 'Device registered successfully' })
+  async registerDevice(
+    @Body() registerDto: RegisterAccessDeviceDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Registering access device', { branchId: registerDto.branchId, name: registerDto.name });
+
+    const result = await this.accessDeviceService.registerDevice(registerDto, user);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Device registered successfully; store the API key now, it cannot be retrieved later',
+    };
+  }
+
+  @Get('devices')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'List access devices' })
+  @ApiResponse({ status: 200, description: 'Devices retrieved successfully' })
+  async getDevices(@Query() filters: AccessDeviceFiltersDto, @CurrentUser() user: AuthenticatedUser) {
+    const devices = await this.accessDeviceService.getDevices(filters, user);
+
+    return {
+      success: true,
+      data: devices,
+    };
+  }
+
+  @Get('devices/:id')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Get access device by ID' })
+  @ApiParam({ name: 'id', description: 'Device ID' })
+  @ApiResponse({ status: 200, description: 'Device retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  async getDevice(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    const device = await this.accessDeviceService.getDevice(id, user);
+
+    return {
+      success: true,
+      data: device,
+    };
+  }
+
+  @Post('devices/:id/rotate-key')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Issue a new API key; the old key stops working immediately' })
+  @ApiParam({ name: 'id', description: 'Device ID' })
+  @ApiResponse({ status: 201, description: 'Key rotated successfully' })
+  async rotateDeviceKey(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Rotating device key', { id });
+
+    const result = await this.accessDeviceService.rotateDeviceKey(id, user);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Device key rotated successfully',
+    };
+  }
+
+  @Post('devices/:id/deactivate')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Deactivate a device; its requests are rejected' })
+  @ApiParam({ name: 'id', description: 'Device ID' })
+  async deactivateDevice(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Deactivating device', { id });
+
+    const device = await this.accessDeviceService.setDeviceActive(id, false, user);
+
+    return {
+      success: true,
+      data: device,
+      message: 'Device deactivated successfully',
+    };
+  }
+
+  @Post('devices/:id/activate')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Reactivate a device' })
+  @ApiParam({ name: 'id', description: 'Device ID' })
+  async activateDevice(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Activating device', { id });
+
+    const device = await this.accessDeviceService.setDeviceActive(id, true, user);
+
+    return {
+      success: true,
+      data: device,
+      message: 'Device activated successfully',
+    };
+  }
+
+  // ===================
+  // CREDENTIALS
+  // ===================
+
+  @Post('credentials')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Assign an RFID card or biometric template to a member' })
+  @ApiResponse({ status: 201, description: 'Credential issued successfully' })
+  @ApiResponse({ status: 409, description: 'Credential already assigned' })
+  async issueCredential(@Body() createDto: CreateAccessCredentialDto, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Issuing access credential', { userId: createDto.userId, method: createDto.method });
+
+    const credential = await this.accessDeviceService.issueCredential(createDto, user);
+
+    return {
+      success: true,
+      data: credential,
+      message: 'Credential issued successfully',
+    };
+  }
+
+  @Get('credentials/users/:userId')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "List a member's access credentials" })
+  @ApiParam({ name: 'userId', description: 'Member user ID' })
+  async getCredentials(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() filters: AccessCredentialFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const credentials = await this.accessDeviceService.getCredentials(userId, user, filters.companyId);
+
+    return {
+      success: true,
+      data: credentials,
+    };
+  }
+
+  @Post('credentials/:id/revoke')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Revoke a lost or returned credential' })
+  @ApiParam({ name: 'id', description: 'Credential ID' })
+  async revokeCredential(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Revoking access credential', { id });
+
+    const credential = await this.accessDeviceService.revokeCredential(id, user);
+
+    return {
+      success: true,
+      data: credential,
+      message: 'Credential revoked successfully',
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { AttendanceService } from '../services/attendance.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import {
+  CheckInDto,
+  CheckOutDto,
+  MemberCheckOutDto,
+  AttendanceFiltersDto,
+} from '../dto/attendance.dto';
+
+@ApiTags('Attendance')
+@Controller('attendance')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class AttendanceController {
+  private readonly logger = new Logger(AttendanceController.name);
+
+  constructor(private readonly attendanceService: AttendanceService) {}
+
+  // ===================
+  // CHECK IN / CHECK OUT
+  // ===================
+
+  @Post('check-in')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Check a member in at a branch' })
+  @ApiResponse({ status: 201, description: 'Member checked in successfully' })
+  @ApiResponse({ status: 409, description: 'Member already has an open check-in' })
+  async checkIn(@Body() checkInDto: CheckInDto, @CurrentUser() user: AuthenticatedUser, @Request() req) {
+    this.logger.log('Check-in requested', {
+      userId: checkInDto.userId,
+      branchId: checkInDto.branchId,
+    });
+
+    const attendance = await this.attendanceService.checkIn(checkInDto, { staffId: user.id, ipAddress: req.ip }, user);
+
+    return {
+      success: true,
+      data: attendance,
+      message: 'Member checked in successfully',
+    };
+  }
+
+  @Post('check-out')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Check a member out of their open check-in' })
+  @ApiResponse({ status: 201, description: 'Member checked out successfully' })
+  @ApiResponse({ status: 404, description: 'Member has no open check-in' })
+  async checkOutMember(@Body() checkOutDto: MemberCheckOutDto, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Member check-out requested', { userId: checkOutDto.userId });
+
+    const attendance = await this.attendanceService.checkOutMember(checkOutDto.userId, checkOutDto, user, {
+      staffId: user.id,
+    });
+
+    return {
+      success: true,
+      data: attendance,
+      message: 'Member checked out successfully',
+    };
+  }
+
+  @Post(':id/check-out')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Check out a specific attendance record' })
+  @ApiParam({ name: 'id', description: 'Attendance ID' })
+  @ApiResponse({ status: 201, description: 'Member checked out successfully' })
+  @ApiResponse({ status: 404, description: 'Attendance not found' })
+  @ApiResponse({ status: 409, description: 'Attendance already checked out' })
+  async checkOut(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() checkOutDto: CheckOutDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Attendance check-out requested', { id });
+
+    const attendance = await this.attendanceService.checkOut(id, checkOutDto, user, {
+      staffId: user.id,
+    });
+
+    return {
+      success: true,
+      data: attendance,
+      message: 'Member checked out successfully',
+    };
+  }
+
+  // ===================
+  // GET ATTENDANCE
+  // ===================
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'List attendance records with filters' })
+  @ApiResponse({ status: 200, description: 'Attendance records retrieved successfully' })
+  async getAttendances(@Query() filters: AttendanceFiltersDto, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Getting attendance records', { filters });
+
+    const result = await this.attendanceService.getAttendances(filters, user);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Get('users/:userId/open')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "Get a member's open check-in" })
+  @ApiParam({ name: 'userId', description: 'Member user ID' })
+  @ApiResponse({ status: 200, description: 'Open check-in retrieved successfully' })
+  async getOpenCheckIn(@Param('userId', ParseUUIDPipe) userId: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Getting open check-in', { userId });
+
+    const attendance = await this.attendanceService.getOpenCheckIn(userId, user);
+
+    return {
+      success: true,
+      data: attendance,
+      ...(!attendance && { message: 'Member is not checked in' }),
+    };
+  }
+
+  @Get(':id')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Get attendance record by ID' })
+  @ApiParam({ name: 'id', description: 'Attendance ID' })
+  @ApiResponse({ status: 200, description: 'Attendance retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Attendance not found' })
+  async getAttendance(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Getting attendance', { id });
+
+    const attendance = await this.attendanceService.getAttendance(id, user);
+
+    return {
+      success: true,
+      data: attendance,
+    };
+  }
+}
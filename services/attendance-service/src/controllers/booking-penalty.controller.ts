@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { BookingPolicyService } from '../services/booking-policy.service';
+import { NoShowService } from '../services/no-show.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { BookingPenaltyQueryDto } from '../dto/booking-penalty.dto';
+
+@ApiTags('Booking Penalties')
+@Controller('booking-penalties')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class BookingPenaltyController {
+  private readonly logger = new Logger(BookingPenaltyController.name);
+
+  constructor(
+    private readonly bookingPolicyService: BookingPolicyService,
+    private readonly noShowService: NoShowService,
+  ) {}
+
+  @Get('me')
+  @ApiOperation({ summary: "Get the caller's strikes and booking bans" })
+  @ApiResponse({ status: 200, description: 'Penalties retrieved successfully' })
+  async getMyPenalties(
+    @Query() query: BookingPenaltyQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting own booking penalties', { userId: user.id });
+
+    const penalties = await this.bookingPolicyService.getPenalties(user.id, user, query.companyId);
+
+    return {
+      success: true,
+      data: penalties,
+    };
+  }
+
+  @Get('users/:userId')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "Get a member's strikes and booking bans" })
+  @ApiParam({ name: 'userId', description: 'Member user ID' })
+  @ApiResponse({ status: 200, description: 'Penalties retrieved successfully' })
+  async getUserPenalties(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: BookingPenaltyQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting booking penalties', { userId, companyId: query.companyId });
+
+    const penalties = await this.bookingPolicyService.getPenalties(userId, user, query.companyId);
+
+    return {
+      success: true,
+      data: penalties,
+    };
+  }
+
+  @Get('policy/:companyId')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Get the effective booking policy for a company' })
+  @ApiParam({ name: 'companyId', description: 'Company ID' })
+  @ApiResponse({ status: 200, description: 'Policy retrieved successfully' })
+  async getPolicy(
+    @Param('companyId', ParseUUIDPipe) companyId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const policy = await this.bookingPolicyService.getPolicy(companyId, user);
+
+    return {
+      success: true,
+      data: policy,
+    };
+  }
+
+  @Post('bans/:id/lift')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Lift a booking ban early' })
+  @ApiParam({ name: 'id', description: 'Booking ban ID' })
+  @ApiResponse({ status: 200, description: 'Ban lifted successfully' })
+  @ApiResponse({ status: 404, description: 'Ban not found' })
+  async liftBan(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Lifting booking ban', { id, liftedBy: user.id });
+
+    const ban = await this.bookingPolicyService.liftBan(id, user);
+
+    return {
+      success: true,
+      data: ban,
+      message: 'Booking ban lifted successfully',
+    };
+  }
+
+  @Post('classes/:classId/reconcile')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Mark no-shows for a finished class now instead of waiting for the job' })
+  @ApiParam({ name: 'classId', description: 'Class session ID' })
+  @ApiResponse({ status: 200, description: 'No-shows reconciled' })
+  async reconcileClass(@Param('classId', ParseUUIDPipe) classId: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Reconciling no-shows', { classId });
+
+    const result = await this.noShowService.reconcileClass(classId, user);
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.noShows} no-show(s) recorded`,
+    };
+  }
+}
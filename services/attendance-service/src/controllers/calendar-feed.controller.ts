@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CalendarFeedService } from '../services/calendar-feed.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/auth.decorators';
+import { AuthenticatedUser } from '../types/attendance.types';
+
+@ApiTags('Calendar Feeds')
+@Controller('calendar-feeds')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class CalendarFeedController {
+  private readonly logger = new Logger(CalendarFeedController.name);
+
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  @Get('me')
+  @ApiOperation({ summary: "Whether the caller's calendar feed is enabled" })
+  @ApiResponse({ status: 200, description: 'Feed status retrieved successfully' })
+  async getStatus(@CurrentUser() user: AuthenticatedUser) {
+    const status = await this.calendarFeedService.getStatus(user.id);
+
+    return {
+      success: true,
+      data: status,
+    };
+  }
+
+  @Post('me')
+  @ApiOperation({ summary: 'Enable the calendar feed or rotate its secret URL' })
+  @ApiResponse({ status: 201, description: 'Feed URLs issued; previous URLs stop working' })
+  async issue(@CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Issuing calendar feed', { userId: user.id });
+
+    const links = await this.calendarFeedService.issue(user.id);
+
+    return {
+      success: true,
+      data: links,
+      message: 'Calendar feed URLs issued successfully',
+    };
+  }
+
+  @Delete('me')
+  @ApiOperation({ summary: 'Disable the calendar feed' })
+  @ApiResponse({ status: 404, description: 'Feed is not enabled' })
+  async revoke(@CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Revoking calendar feed', { userId: user.id });
+
+    await this.calendarFeedService.revoke(user.id);
+
+    return {
+      success: true,
+      message: 'Calendar feed disabled successfully',
+    };
+  }
+}
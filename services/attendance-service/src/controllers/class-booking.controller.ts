@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ClassBookingService } from '../services/class-booking.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import {
+  CreateClassBookingDto,
+  CancelClassBookingDto,
+  ClassBookingFiltersDto,
+} from '../dto/class-booking.dto';
+
+@ApiTags('Class Bookings')
+@Controller('bookings')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class ClassBookingController {
+  private readonly logger = new Logger(ClassBookingController.name);
+
+  constructor(private readonly classBookingService: ClassBookingService) {}
+
+  // ===================
+  // BOOK / CANCEL
+  // ===================
+
+  @Post()
+  @ApiOperation({ summary: 'Book a class session, or join its waitlist when full' })
+  @ApiResponse({ status: 201, description: 'Class booked or waitlisted' })
+  @ApiResponse({ status: 409, description: 'Member already booked this class' })
+  async bookClass(
+    @Body() createDto: CreateClassBookingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Booking class', { classId: createDto.classId, userId: createDto.userId || user.id });
+
+    const booking = await this.classBookingService.bookClass(createDto, user);
+
+    return {
+      success: true,
+      data: booking,
+      message: booking.waitlistPosition
+        ? `Class is full; added to waitlist at position ${booking.waitlistPosition}`
+        : 'Class booked successfully',
+    };
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel a booking; the next waitlisted member is promoted' })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiResponse({ status: 200, description: 'Booking cancelled successfully' })
+  async cancelBooking(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() cancelDto: CancelClassBookingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Cancelling booking', { id, reason: cancelDto.reason });
+
+    const booking = await this.classBookingService.cancelBooking(id, cancelDto, user);
+
+    return {
+      success: true,
+      data: booking,
+      message: 'Booking cancelled successfully',
+    };
+  }
+
+  // ===================
+  // GET BOOKINGS
+  // ===================
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'List bookings with filters' })
+  @ApiResponse({ status: 200, description: 'Bookings retrieved successfully' })
+  async getBookings(
+    @Query() filters: ClassBookingFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting bookings', { filters });
+
+    const result = await this.classBookingService.getBookings(filters, user);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Get('me')
+  @ApiOperation({ summary: "Get the caller's bookings" })
+  @ApiResponse({ status: 200, description: 'Bookings retrieved successfully' })
+  async getMyBookings(
+    @Query() filters: ClassBookingFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting own bookings', { userId: user.id });
+
+    const result = await this.classBookingService.getBookings({ ...filters, userId: user.id }, user);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Get('classes/:classId/roster')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Get confirmed members and the ordered waitlist for a class' })
+  @ApiParam({ name: 'classId', description: 'Class session ID' })
+  @ApiResponse({ status: 200, description: 'Roster retrieved successfully' })
+  async getRoster(
+    @Param('classId', ParseUUIDPipe) classId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting class roster', { classId });
+
+    const roster = await this.classBookingService.getRoster(classId, user);
+
+    return {
+      success: true,
+      data: roster,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get booking by ID' })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiResponse({ status: 200, description: 'Booking retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  async getBooking(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthenticatedUser) {
+    this.logger.log('Getting booking', { id });
+
+    const booking = await this.classBookingService.getBooking(id, user);
+
+    return {
+      success: true,
+      data: booking,
+    };
+  }
+}
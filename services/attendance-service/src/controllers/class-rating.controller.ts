@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ClassRatingService } from '../services/class-rating.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { RateClassDto, RatingSummaryQueryDto } from '../dto/class-rating.dto';
+
+@ApiTags('Class Ratings')
+@Controller('class-ratings')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class ClassRatingController {
+  private readonly logger = new Logger(ClassRatingController.name);
+
+  constructor(private readonly classRatingService: ClassRatingService) {}
+
+  @Post('classes/:classId')
+  @ApiOperation({ summary: 'Rate a class the caller attended' })
+  @ApiParam({ name: 'classId', description: 'Class ID' })
+  @ApiResponse({ status: 201, description: 'Rating saved successfully' })
+  @ApiResponse({ status: 400, description: 'Class has not ended yet' })
+  @ApiResponse({ status: 403, description: 'Caller did not attend the class' })
+  @ApiResponse({ status: 409, description: 'Class already rated' })
+  async rateClass(
+    @Param('classId', ParseUUIDPipe) classId: string,
+    @Body() rateDto: RateClassDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const attendance = await this.classRatingService.rateClass(classId, user.id, rateDto);
+
+    return {
+      success: true,
+      data: attendance,
+      message: 'Thanks for your feedback',
+    };
+  }
+
+  @Get('trainers')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Trainers ranked by average class rating' })
+  @ApiResponse({ status: 200, description: 'Rankings retrieved successfully' })
+  async getTrainerRankings(
+    @Query() query: RatingSummaryQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting trainer rating rankings', { companyId: query.companyId, branchId: query.branchId });
+
+    const rankings = await this.classRatingService.getTrainerRankings(query, user);
+
+    return {
+      success: true,
+      data: rankings,
+    };
+  }
+
+  @Get('trainers/:trainerId')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Average rating, trend and recent comments for a trainer' })
+  @ApiParam({ name: 'trainerId', description: 'Trainer user ID' })
+  @ApiResponse({ status: 200, description: 'Summary retrieved successfully' })
+  async getTrainerSummary(
+    @Param('trainerId', ParseUUIDPipe) trainerId: string,
+    @Query() query: RatingSummaryQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const summary = await this.classRatingService.getTrainerSummary(trainerId, query, user);
+
+    return {
+      success: true,
+      data: summary,
+    };
+  }
+
+  @Get('categories/:category')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Average rating, trend and recent comments for a class category' })
+  @ApiParam({ name: 'category', description: 'Class category, e.g. yoga' })
+  @ApiResponse({ status: 200, description: 'Summary retrieved successfully' })
+  async getCategorySummary(
+    @Param('category') category: string,
+    @Query() query: RatingSummaryQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const summary = await this.classRatingService.getCategorySummary(category, query, user);
+
+    return {
+      success: true,
+      data: summary,
+    };
+  }
+
+  @Get('branches/:branchId')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Average rating, trend and recent comments for a branch' })
+  @ApiParam({ name: 'branchId', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Summary retrieved successfully' })
+  async getBranchSummary(
+    @Param('branchId', ParseUUIDPipe) branchId: string,
+    @Query() query: RatingSummaryQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const summary = await this.classRatingService.getBranchSummary(branchId, query, user);
+
+    return {
+      success: true,
+      data: summary,
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ClassScheduleService } from '../services/class-schedule.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import {
+  CreateClassScheduleDto,
+  RescheduleClassDto,
+  CancelClassDto,
+  ClassCalendarQueryDto,
+} from '../dto/class-schedule.dto';
+
+@ApiTags('Classes')
+@Controller('classes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class ClassScheduleController {
+  private readonly logger = new Logger(ClassScheduleController.name);
+
+  constructor(private readonly classScheduleService: ClassScheduleService) {}
+
+  // ===================
+  // CLASS SCHEDULES
+  // ===================
+
+  @Post()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Create a one-off class or a recurring class template' })
+  @ApiResponse({ status: 201, description: 'Class schedule created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid class schedule data' })
+  async createSchedule(
+    @Body() createDto: CreateClassScheduleDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Creating class schedule', {
+      branchId: createDto.branchId,
+      className: createDto.className,
+    });
+
+    const schedule = await this.classScheduleService.createSchedule(createDto, user);
+
+    return {
+      success: true,
+      data: schedule,
+      message: 'Class schedule created successfully',
+    };
+  }
+
+  @Get('calendar')
+  @ApiOperation({ summary: 'Get class sessions for a branch or trainer in branch local time' })
+  @ApiResponse({ status: 200, description: 'Calendar retrieved successfully' })
+  async getCalendar(
+    @Query() query: ClassCalendarQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting class calendar', { query });
+
+    const calendar = await this.classScheduleService.getCalendar(query, user);
+
+    return {
+      success: true,
+      data: calendar,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get class schedule by ID' })
+  @ApiParam({ name: 'id', description: 'Class schedule ID' })
+  @ApiResponse({ status: 200, description: 'Class schedule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Class schedule not found' })
+  async getSchedule(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log('Getting class schedule', { id });
+
+    const schedule = await this.classScheduleService.getSchedule(id);
+
+    return {
+      success: true,
+      data: schedule,
+    };
+  }
+
+  // ===================
+  // OCCURRENCE CHANGES
+  // ===================
+
+  @Put(':id/reschedule')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Move a single class session without affecting its series' })
+  @ApiParam({ name: 'id', description: 'Class session ID' })
+  @ApiResponse({ status: 200, description: 'Class rescheduled successfully' })
+  async rescheduleClass(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() rescheduleDto: RescheduleClassDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Rescheduling class', { id });
+
+    const schedule = await this.classScheduleService.rescheduleClass(id, rescheduleDto, user);
+
+    return {
+      success: true,
+      data: schedule,
+      message: 'Class rescheduled successfully',
+    };
+  }
+
+  @Post(':id/cancel')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Cancel a class session, or end a series when given a template' })
+  @ApiParam({ name: 'id', description: 'Class schedule ID' })
+  @ApiResponse({ status: 200, description: 'Class cancelled successfully' })
+  async cancelClass(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() cancelDto: CancelClassDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Cancelling class', { id, reason: cancelDto.reason });
+
+    const schedule = await this.classScheduleService.cancelClass(id, cancelDto, user);
+
+    return {
+      success: true,
+      data: schedule,
+      message: 'Class cancelled successfully',
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { Controller, Get, Post, Body, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { ClassTemplateService } from '../services/class-template.service';
+import { InternalServiceGuard } from '../guards/internal-service.guard';
+import { ClassTemplateQueryDto, ImportClassTemplatesDto } from '../dto/class-template.dto';
+
+@ApiTags('Class Templates')
+@Controller('class-templates')
+@UseGuards(InternalServiceGuard)
+@ApiHeader({ name: 'x-service-token', description: 'Internal service token' })
+@ApiHeader({ name: 'x-service-id', description: 'Calling service' })
+export class ClassTemplateController {
+  constructor(private readonly classTemplateService: ClassTemplateService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Recurring classes of a branch as reusable templates (service-to-service)' })
+  @ApiResponse({ status: 200, description: 'Class templates retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Invalid service token' })
+  async getTemplates(@Query() query: ClassTemplateQueryDto) {
+    const templates = await this.classTemplateService.getTemplates(query.branchId);
+
+    return {
+      success: true,
+      data: templates,
+    };
+  }
+
+  @Post('import')
+  @ApiOperation({ summary: 'Set up recurring classes at a branch from templates (service-to-service)' })
+  @ApiResponse({ status: 201, description: 'Class templates imported successfully' })
+  @ApiResponse({ status: 401, description: 'Invalid service token' })
+  async importTemplates(@Body() importDto: ImportClassTemplatesDto) {
+    const schedules = await this.classTemplateService.importTemplates(importDto);
+
+    return {
+      success: true,
+      data: schedules,
+      message: 'Class templates imported successfully',
+    };
+  }
+}
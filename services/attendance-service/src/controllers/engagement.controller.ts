@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { EngagementService } from '../services/engagement.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { AtRiskMembersQueryDto, EngagementQueryDto } from '../dto/engagement.dto';
+
+@ApiTags('Engagement')
+@Controller('engagement')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class EngagementController {
+  private readonly logger = new Logger(EngagementController.name);
+
+  constructor(private readonly engagementService: EngagementService) {}
+
+  @Get('me')
+  @ApiOperation({ summary: "The caller's streaks, visit milestones and engagement score" })
+  @ApiResponse({ status: 200, description: 'Engagement retrieved successfully' })
+  async getMyEngagement(
+    @Query() query: EngagementQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const engagement = await this.engagementService.getEngagement(user.id, query.companyId, user);
+
+    return {
+      success: true,
+      data: engagement,
+    };
+  }
+
+  @Get('at-risk')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Members whose engagement is dropping, biggest drop first' })
+  @ApiResponse({ status: 200, description: 'At-risk members retrieved successfully' })
+  async getAtRiskMembers(
+    @Query() query: AtRiskMembersQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting at-risk members', { companyId: query.companyId, branchId: query.branchId });
+
+    const members = await this.engagementService.getAtRiskMembers(query.companyId, user, query.branchId, query.limit);
+
+    return {
+      success: true,
+      data: members,
+    };
+  }
+
+  @Get('users/:userId')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "A member's streaks, visit milestones and engagement score" })
+  @ApiParam({ name: 'userId', description: 'Member user ID' })
+  @ApiResponse({ status: 200, description: 'Engagement retrieved successfully' })
+  async getUserEngagement(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: EngagementQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const engagement = await this.engagementService.getEngagement(userId, query.companyId, user);
+
+    return {
+      success: true,
+      data: engagement,
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { AttendanceService } from '../services/attendance.service';
+import { InternalServiceGuard } from '../guards/internal-service.guard';
+import { MemberVisitsQueryDto } from '../dto/attendance.dto';
+
+@ApiTags('Attendance')
+@Controller('member-visits')
+@UseGuards(InternalServiceGuard)
+@ApiHeader({ name: 'x-service-token', description: 'Internal service token' })
+@ApiHeader({ name: 'x-service-id', description: 'Calling service' })
+export class MemberVisitsController {
+  constructor(private readonly attendanceService: AttendanceService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Count a member's visits since a point in time (service-to-service)" })
+  @ApiResponse({ status: 200, description: 'Visit count retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Invalid service token' })
+  async countVisits(@Query() query: MemberVisitsQueryDto) {
+    const count = await this.attendanceService.countMemberVisits(query);
+
+    return {
+      success: true,
+      data: count,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { MobileCheckInService } from '../services/mobile-check-in.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import {
+  MobileCheckInDto,
+  MobileCheckInFiltersDto,
+  ReviewMobileCheckInDto,
+} from '../dto/mobile-check-in.dto';
+
+@ApiTags('Mobile Check-in')
+@Controller('mobile-check-ins')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class MobileCheckInController {
+  private readonly logger = new Logger(MobileCheckInController.name);
+
+  constructor(private readonly mobileCheckInService: MobileCheckInService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Check in from the mobile app using device coordinates' })
+  @ApiResponse({ status: 201, description: 'Member checked in successfully' })
+  @ApiResponse({ status: 400, description: 'Outside the branch geofence' })
+  @ApiResponse({ status: 409, description: 'Member is already checked in' })
+  async checkIn(
+    @Body() checkInDto: MobileCheckInDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Request() req: any,
+  ) {
+    this.logger.log('Mobile check-in', { userId: user.id, branchId: checkInDto.branchId });
+
+    const result = await this.mobileCheckInService.checkIn(checkInDto, user, { ipAddress: req.ip });
+
+    return {
+      success: true,
+      data: result,
+      message: 'Member checked in successfully',
+    };
+  }
+
+  @Get('flagged')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'List flagged mobile check-ins awaiting or past review' })
+  @ApiResponse({ status: 200, description: 'Flagged check-ins retrieved successfully' })
+  async getFlagged(
+    @Query() filters: MobileCheckInFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const result = await this.mobileCheckInService.getFlagged(filters, user);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Post(':id/review')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Clear or confirm a flagged mobile check-in' })
+  @ApiParam({ name: 'id', description: 'Mobile check-in ID' })
+  @ApiResponse({ status: 404, description: 'Mobile check-in not found' })
+  async review(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() reviewDto: ReviewMobileCheckInDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Reviewing mobile check-in', { id, reviewStatus: reviewDto.reviewStatus });
+
+    const result = await this.mobileCheckInService.review(id, reviewDto, user);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Review recorded successfully',
+    };
+  }
+}
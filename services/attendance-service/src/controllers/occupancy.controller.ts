@@ -0,0 +1,162 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { OccupancyService } from '../services/occupancy.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import {
+  OccupancyHeatmapQueryDto,
+  CreateOccupancyAlertDto,
+  UpdateOccupancyAlertDto,
+} from '../dto/occupancy.dto';
+
+@ApiTags('Occupancy')
+@Controller('occupancy')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class OccupancyController {
+  private readonly logger = new Logger(OccupancyController.name);
+
+  constructor(private readonly occupancyService: OccupancyService) {}
+
+  // ===================
+  // OCCUPANCY
+  // ===================
+
+  @Get('branches/:branchId')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Current headcount and percentage of capacity for a branch' })
+  @ApiParam({ name: 'branchId', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Occupancy retrieved successfully' })
+  async getOccupancy(
+    @Param('branchId', ParseUUIDPipe) branchId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const occupancy = await this.occupancyService.getOccupancy(branchId, user);
+
+    return {
+      success: true,
+      data: occupancy,
+    };
+  }
+
+  @Get('branches/:branchId/heatmap')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Average visitors per weekday and hour over recent weeks' })
+  @ApiParam({ name: 'branchId', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Heatmap retrieved successfully' })
+  async getHeatmap(
+    @Param('branchId', ParseUUIDPipe) branchId: string,
+    @Query() query: OccupancyHeatmapQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting occupancy heatmap', { branchId, weeks: query.weeks });
+
+    const heatmap = await this.occupancyService.getHeatmap(branchId, user, query.weeks);
+
+    return {
+      success: true,
+      data: heatmap,
+    };
+  }
+
+  // ===================
+  // ALERTS
+  // ===================
+
+  @Post('alerts')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Create an occupancy threshold alert' })
+  @ApiResponse({ status: 201, description: 'Alert created successfully' })
+  @ApiResponse({ status: 409, description: 'Threshold already configured for the branch' })
+  async createAlert(
+    @Body() createDto: CreateOccupancyAlertDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Creating occupancy alert', { branchId: createDto.branchId, threshold: createDto.thresholdPercent });
+
+    const alert = await this.occupancyService.createAlert(createDto, user);
+
+    return {
+      success: true,
+      data: alert,
+      message: 'Occupancy alert created successfully',
+    };
+  }
+
+  @Get('branches/:branchId/alerts')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'List occupancy alerts for a branch' })
+  @ApiParam({ name: 'branchId', description: 'Branch ID' })
+  async getAlerts(
+    @Param('branchId', ParseUUIDPipe) branchId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const alerts = await this.occupancyService.getAlerts(branchId, user);
+
+    return {
+      success: true,
+      data: alerts,
+    };
+  }
+
+  @Put('alerts/:id')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Update an occupancy alert' })
+  @ApiParam({ name: 'id', description: 'Alert ID' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async updateAlert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateOccupancyAlertDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Updating occupancy alert', { id });
+
+    const alert = await this.occupancyService.updateAlert(id, updateDto, user);
+
+    return {
+      success: true,
+      data: alert,
+      message: 'Occupancy alert updated successfully',
+    };
+  }
+
+  @Delete('alerts/:id')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Delete an occupancy alert' })
+  @ApiParam({ name: 'id', description: 'Alert ID' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async deleteAlert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Deleting occupancy alert', { id });
+
+    await this.occupancyService.deleteAlert(id, user);
+
+    return {
+      success: true,
+      message: 'Occupancy alert deleted successfully',
+    };
+  }
+}
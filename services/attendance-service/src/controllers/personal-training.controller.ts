@@ -0,0 +1,310 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { PersonalTrainingService } from '../services/personal-training.service';
+import { SessionPackService } from '../services/session-pack.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { BookingPenaltyQueryDto } from '../dto/booking-penalty.dto';
+import {
+  CreateTrainerAvailabilityDto,
+  AvailableSlotsQueryDto,
+  TrainerAgendaQueryDto,
+  BookPersonalTrainingDto,
+  CancelPersonalTrainingDto,
+  PersonalTrainingFiltersDto,
+  CreateSessionPackDto,
+} from '../dto/personal-training.dto';
+
+@ApiTags('Personal Training')
+@Controller('personal-training')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class PersonalTrainingController {
+  private readonly logger = new Logger(PersonalTrainingController.name);
+
+  constructor(
+    private readonly personalTrainingService: PersonalTrainingService,
+    private readonly sessionPackService: SessionPackService,
+  ) {}
+
+  // ===================
+  // AVAILABILITY
+  // ===================
+
+  @Post('availability')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Add a weekly availability window for a trainer' })
+  @ApiResponse({ status: 201, description: 'Availability created successfully' })
+  @ApiResponse({ status: 409, description: 'Overlaps an existing window' })
+  async createAvailability(
+    @Body() createDto: CreateTrainerAvailabilityDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Creating trainer availability', { trainerId: createDto.trainerId, weekday: createDto.weekday });
+
+    const availability = await this.personalTrainingService.createAvailability(createDto, user);
+
+    return {
+      success: true,
+      data: availability,
+      message: 'Availability created successfully',
+    };
+  }
+
+  @Delete('availability/:id')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Remove an availability window' })
+  @ApiParam({ name: 'id', description: 'Availability ID' })
+  @ApiResponse({ status: 404, description: 'Availability not found' })
+  async deleteAvailability(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Deleting trainer availability', { id });
+
+    await this.personalTrainingService.deleteAvailability(id, user);
+
+    return {
+      success: true,
+      message: 'Availability deleted successfully',
+    };
+  }
+
+  @Get('trainers/:trainerId/availability')
+  @ApiOperation({ summary: "List a trainer's weekly availability" })
+  @ApiParam({ name: 'trainerId', description: 'Trainer user ID' })
+  @ApiQuery({ name: 'branchId', required: false })
+  async getAvailability(
+    @Param('trainerId', ParseUUIDPipe) trainerId: string,
+    @Query('branchId', new ParseUUIDPipe({ optional: true })) branchId?: string,
+  ) {
+    const availability = await this.personalTrainingService.getAvailability(trainerId, branchId);
+
+    return {
+      success: true,
+      data: availability,
+    };
+  }
+
+  @Get('trainers/:trainerId/slots')
+  @ApiOperation({ summary: 'Bookable start times for a trainer on a branch-local date' })
+  @ApiParam({ name: 'trainerId', description: 'Trainer user ID' })
+  @ApiResponse({ status: 200, description: 'Slots retrieved successfully' })
+  async getAvailableSlots(
+    @Param('trainerId', ParseUUIDPipe) trainerId: string,
+    @Query() query: AvailableSlotsQueryDto,
+  ) {
+    const slots = await this.personalTrainingService.getAvailableSlots(trainerId, query);
+
+    return {
+      success: true,
+      data: slots,
+    };
+  }
+
+  @Get('trainers/:trainerId/agenda')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "A trainer's classes and personal training for one day" })
+  @ApiParam({ name: 'trainerId', description: 'Trainer user ID' })
+  @ApiResponse({ status: 200, description: 'Agenda retrieved successfully' })
+  async getAgenda(
+    @Param('trainerId', ParseUUIDPipe) trainerId: string,
+    @Query() query: TrainerAgendaQueryDto,
+  ) {
+    this.logger.log('Getting trainer agenda', { trainerId, date: query.date });
+
+    const agenda = await this.personalTrainingService.getAgenda(trainerId, query);
+
+    return {
+      success: true,
+      data: agenda,
+    };
+  }
+
+  // ===================
+  // SESSIONS
+  // ===================
+
+  @Post('sessions')
+  @ApiOperation({ summary: 'Book a personal training session' })
+  @ApiResponse({ status: 201, description: 'Session booked successfully' })
+  @ApiResponse({ status: 400, description: 'Trainer unavailable or no session pack' })
+  @ApiResponse({ status: 409, description: 'Trainer or member already booked at that time' })
+  async bookSession(
+    @Body() bookDto: BookPersonalTrainingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const session = await this.personalTrainingService.bookSession(bookDto, user);
+
+    return {
+      success: true,
+      data: session,
+      message: 'Session booked successfully',
+    };
+  }
+
+  @Get('sessions')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'List personal training sessions' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  async getSessions(
+    @Query() filters: PersonalTrainingFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const sessions = await this.personalTrainingService.getSessions(filters, user);
+
+    return {
+      success: true,
+      data: sessions,
+    };
+  }
+
+  @Get('sessions/me')
+  @ApiOperation({ summary: "List the caller's personal training sessions" })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  async getMySessions(
+    @Query() filters: PersonalTrainingFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const sessions = await this.personalTrainingService.getSessions({ ...filters, userId: user.id }, user);
+
+    return {
+      success: true,
+      data: sessions,
+    };
+  }
+
+  @Post('sessions/:id/cancel')
+  @ApiOperation({ summary: 'Cancel a personal training session' })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 400, description: 'Session already started or not scheduled' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async cancelSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() cancelDto: CancelPersonalTrainingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Cancelling personal training session', { id, userId: user.id });
+
+    const session = await this.personalTrainingService.cancelSession(id, cancelDto, user);
+
+    return {
+      success: true,
+      data: session,
+      message: 'Session cancelled successfully',
+    };
+  }
+
+  @Post('sessions/:id/complete')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Mark a session attended and charge it to its pack' })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 400, description: 'Session is not scheduled' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async completeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Completing personal training session', { id, userId: user.id });
+
+    const session = await this.personalTrainingService.completeSession(id, user);
+
+    return {
+      success: true,
+      data: session,
+      message: 'Session completed successfully',
+    };
+  }
+
+  // ===================
+  // SESSION PACKS
+  // ===================
+
+  @Post('packs')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Sell a session pack to a member' })
+  @ApiResponse({ status: 201, description: 'Session pack created successfully' })
+  async createPack(
+    @Body() createDto: CreateSessionPackDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const pack = await this.sessionPackService.createPack(createDto, user);
+
+    return {
+      success: true,
+      data: pack,
+      message: 'Session pack created successfully',
+    };
+  }
+
+  @Get('packs/me')
+  @ApiOperation({ summary: "List the caller's session packs" })
+  async getMyPacks(
+    @Query() query: BookingPenaltyQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const packs = await this.sessionPackService.getPacks(user.id, query.companyId);
+
+    return {
+      success: true,
+      data: packs,
+    };
+  }
+
+  @Get('packs/users/:userId')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "List a member's session packs" })
+  @ApiParam({ name: 'userId', description: 'Member user ID' })
+  async getUserPacks(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: BookingPenaltyQueryDto,
+  ) {
+    const packs = await this.sessionPackService.getPacks(userId, query.companyId);
+
+    return {
+      success: true,
+      data: packs,
+    };
+  }
+
+  @Post('packs/:id/deactivate')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Deactivate a session pack' })
+  @ApiParam({ name: 'id', description: 'Session pack ID' })
+  @ApiResponse({ status: 404, description: 'Session pack not found' })
+  async deactivatePack(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Deactivating session pack', { id });
+
+    const pack = await this.sessionPackService.deactivatePack(id, user);
+
+    return {
+      success: true,
+      data: pack,
+      message: 'Session pack deactivated successfully',
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { CalendarFeedService } from '../services/calendar-feed.service';
+import { CalendarFeedKind } from '../types/calendar-feed.types';
+
+/**
+ * iCalendar subscriptions for phone and desktop calendars; the token in the
+ * path is the only credential.
+ */
+@ApiTags('Calendar Feeds')
+@Controller('public/calendar-feeds')
+@UseGuards(ThrottlerGuard)
+export class PublicCalendarFeedController {
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  @Get(':token/bookings.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Cache-Control', 'private, max-age=300')
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'Booked classes and personal training sessions' })
+  @ApiParam({ name: 'token', description: 'Secret feed token' })
+  @ApiResponse({ status: 404, description: 'Unknown or revoked token' })
+  async getBookings(@Param('token') token: string): Promise<string> {
+    return this.calendarFeedService.render(token, CalendarFeedKind.BOOKINGS);
+  }
+
+  @Get(':token/schedule.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Cache-Control', 'private, max-age=300')
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'Classes and personal training sessions taught by the user' })
+  @ApiParam({ name: 'token', description: 'Secret feed token' })
+  @ApiResponse({ status: 404, description: 'Unknown or revoked token' })
+  async getSchedule(@Param('token') token: string): Promise<string> {
+    return this.calendarFeedService.render(token, CalendarFeedKind.SCHEDULE);
+  }
+}
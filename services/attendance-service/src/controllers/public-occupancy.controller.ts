@@ -0,0 +1,38 @@
+import {
+  Controller,
+  Get,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { OccupancyService } from '../services/occupancy.service';
+
+/**
+ * Unauthenticated "how busy is it" lookup for members and the website.
+ */
+@ApiTags('Occupancy')
+@Controller('public/occupancy')
+@UseGuards(ThrottlerGuard)
+export class PublicOccupancyController {
+  constructor(private readonly occupancyService: OccupancyService) {}
+
+  @Get('branches/:branchId')
+  @ApiOperation({ summary: 'How busy a branch is right now' })
+  @ApiParam({ name: 'branchId', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Busy level retrieved successfully' })
+  async getBusyLevel(@Param('branchId', ParseUUIDPipe) branchId: string) {
+    const occupancy = await this.occupancyService.getPublicOccupancy(branchId);
+
+    return {
+      success: true,
+      data: occupancy,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { QrCodeService } from '../services/qr-code.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { IssueQrCodeQueryDto, VerifyQrCodeDto } from '../dto/qr-code.dto';
+
+@ApiTags('QR Codes')
+@Controller('qr-codes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class QrCodeController {
+  private readonly logger = new Logger(QrCodeController.name);
+
+  constructor(private readonly qrCodeService: QrCodeService) {}
+
+  @Get('me')
+  @ApiOperation({ summary: "Issue the caller's current check-in QR code; refresh before it expires" })
+  @ApiResponse({ status: 200, description: 'QR code issued' })
+  async issueMyCode(
+    @Query() query: IssueQrCodeQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const companyId = query.companyId || user.companyId;
+    if (!companyId) {
+      throw new BadRequestException('companyId is required');
+    }
+
+    const code = this.qrCodeService.issue(user.id, companyId);
+
+    return {
+      success: true,
+      data: code,
+    };
+  }
+
+  @Post('verify')
+  @Roles(...STAFF_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify a scanned QR code and check the member in' })
+  @ApiResponse({ status: 200, description: 'Access granted and recorded' })
+  @ApiResponse({ status: 400, description: 'Invalid, expired or reused QR code' })
+  @ApiResponse({ status: 403, description: 'Membership inactive or code not valid here' })
+  async verify(
+    @Body() verifyDto: VerifyQrCodeDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Request() req: any,
+  ) {
+    this.logger.log('Verifying QR code', { branchId: verifyDto.branchId, scannedBy: user.id });
+
+    const result = await this.qrCodeService.verify(verifyDto, user, {
+      staffId: user.id,
+      ipAddress: req.ip,
+    });
+
+    return {
+      success: true,
+      data: result,
+      message: result.alreadyCheckedIn ? 'Access granted; member was already checked in' : 'Member checked in successfully',
+    };
+  }
+}
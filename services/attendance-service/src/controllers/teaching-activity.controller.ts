@@ -0,0 +1,27 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { TeachingActivityService } from '../services/teaching-activity.service';
+import { InternalServiceGuard } from '../guards/internal-service.guard';
+import { TeachingActivityQueryDto } from '../dto/teaching-activity.dto';
+
+@ApiTags('Teaching Activity')
+@Controller('teaching-activity')
+@UseGuards(InternalServiceGuard)
+@ApiHeader({ name: 'x-service-token', description: 'Internal service token' })
+@ApiHeader({ name: 'x-service-id', description: 'Calling service' })
+export class TeachingActivityController {
+  constructor(private readonly teachingActivityService: TeachingActivityService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Sessions and classes each trainer taught at a branch in a period (service-to-service)' })
+  @ApiResponse({ status: 200, description: 'Teaching activity retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Invalid service token' })
+  async getActivity(@Query() query: TeachingActivityQueryDto) {
+    const activity = await this.teachingActivityService.getActivity(query);
+
+    return {
+      success: true,
+      data: activity,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { SetMetadata, createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { AccessDeviceEntity } from '../entities/access-device.entity';
+
+// Roles decorator
+export const Roles = (...roles: string[]) => SetMetadata('roles', roles);
+
+// Current user decorator
+export const CurrentUser = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AuthenticatedUser => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.user;
+  },
+);
+
+// Current access device decorator (set by DeviceAuthGuard)
+export const CurrentDevice = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AccessDeviceEntity => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.device;
+  },
+);
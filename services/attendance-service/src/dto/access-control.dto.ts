@@ -0,0 +1,143 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type, Transform } from 'class-transformer';
+import {
+  IsString,
+  IsUUID,
+  IsEnum,
+  IsIn,
+  IsBoolean,
+  IsOptional,
+  IsDateString,
+  IsArray,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { AccessDeviceType, CheckInMethod } from '@prisma/client';
+
+// Methods a device can present a credential with
+const DEVICE_CREDENTIAL_METHODS = [CheckInMethod.RFID_CARD, CheckInMethod.BIOMETRIC];
+
+// ===================
+// DEVICES
+// ===================
+
+export class RegisterAccessDeviceDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch the device is installed at' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Device name', example: 'Main entrance turnstile 1' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Device type', enum: AccessDeviceType })
+  @IsEnum(AccessDeviceType)
+  type: AccessDeviceType;
+
+  @ApiPropertyOptional({ description: 'Entrance the device controls', example: 'Main entrance' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  accessPoint?: string;
+}
+
+export class AccessDeviceFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by company ID' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by active flag' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+// ===================
+// CREDENTIALS
+// ===================
+
+export class CreateAccessCredentialDto {
+  @ApiProperty({ description: 'Member user ID' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Credential type', enum: DEVICE_CREDENTIAL_METHODS })
+  @IsIn(DEVICE_CREDENTIAL_METHODS)
+  method: CheckInMethod;
+
+  @ApiProperty({ description: 'Card UID or biometric template ID' })
+  @IsString()
+  @MaxLength(255)
+  credentialId: string;
+
+  @ApiPropertyOptional({ description: 'Label, e.g. the card number printed on it' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
+
+export class AccessCredentialFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by company ID' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+}
+
+// ===================
+// DEVICE REQUESTS
+// ===================
+
+export class AccessDecisionDto {
+  @ApiProperty({ description: 'Credential type presented', enum: DEVICE_CREDENTIAL_METHODS })
+  @IsIn(DEVICE_CREDENTIAL_METHODS)
+  method: CheckInMethod;
+
+  @ApiProperty({ description: 'Card UID or biometric template ID' })
+  @IsString()
+  @MaxLength(255)
+  credentialId: string;
+}
+
+export class OfflineAccessEventDto extends AccessDecisionDto {
+  @ApiProperty({ description: 'Device-generated event ID, used to de-duplicate retries' })
+  @IsString()
+  @MaxLength(100)
+  eventId: string;
+
+  @ApiProperty({ description: 'When the entry happened on the device' })
+  @IsDateString()
+  occurredAt: string;
+
+  @ApiProperty({ description: 'Whether the device let the member through' })
+  @IsBoolean()
+  granted: boolean;
+}
+
+export class OfflineAccessUploadDto {
+  @ApiProperty({ description: 'Buffered entries, oldest first', type: [OfflineAccessEventDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => OfflineAccessEventDto)
+  events: OfflineAccessEventDto[];
+}
@@ -0,0 +1,181 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsUUID,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { AttendanceType, AttendanceStatus, CheckInMethod } from '@prisma/client';
+
+// ===================
+// CHECK IN
+// ===================
+
+export class CheckInDto {
+  @ApiProperty({ description: 'Member user ID' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Check-in method', enum: CheckInMethod })
+  @IsEnum(CheckInMethod)
+  checkInMethod: CheckInMethod;
+
+  @ApiPropertyOptional({ description: 'Attendance type', enum: AttendanceType, default: AttendanceType.GYM })
+  @IsOptional()
+  @IsEnum(AttendanceType)
+  type?: AttendanceType;
+
+  @ApiPropertyOptional({ description: 'Member subscription ID' })
+  @IsOptional()
+  @IsUUID()
+  subscriptionId?: string;
+
+  @ApiPropertyOptional({ description: 'Class ID for class attendance' })
+  @IsOptional()
+  @IsUUID()
+  classId?: string;
+
+  @ApiPropertyOptional({ description: 'Trainer ID for personal training' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiPropertyOptional({ description: 'Device information' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  deviceInfo?: string;
+
+  @ApiPropertyOptional({ description: 'GPS coordinates or area within gym' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Body temperature in celsius' })
+  @IsOptional()
+  @IsNumber()
+  @Min(30)
+  @Max(45)
+  temperature?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+// ===================
+// CHECK OUT
+// ===================
+
+export class CheckOutDto {
+  @ApiProperty({ description: 'Check-out method', enum: CheckInMethod })
+  @IsEnum(CheckInMethod)
+  checkOutMethod: CheckInMethod;
+
+  @ApiPropertyOptional({ description: 'Staff notes' })
+  @IsOptional()
+  @IsString()
+  staffNotes?: string;
+}
+
+export class MemberCheckOutDto extends CheckOutDto {
+  @ApiProperty({ description: 'Member user ID' })
+  @IsUUID()
+  userId: string;
+}
+
+// ===================
+// FILTERS
+// ===================
+
+export class AttendanceFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by member user ID' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by company ID' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by attendance type', enum: AttendanceType })
+  @IsOptional()
+  @IsEnum(AttendanceType)
+  type?: AttendanceType;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: AttendanceStatus })
+  @IsOptional()
+  @IsEnum(AttendanceStatus)
+  status?: AttendanceStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by check-in method', enum: CheckInMethod })
+  @IsOptional()
+  @IsEnum(CheckInMethod)
+  checkInMethod?: CheckInMethod;
+
+  @ApiPropertyOptional({ description: 'Check-ins on or after this date', example: '2025-01-01' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Check-ins on or before this date', example: '2025-01-31' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+// ===================
+// MEMBER VISITS
+// ===================
+
+export class MemberVisitsQueryDto {
+  @ApiProperty({ description: 'Member user ID' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Count visits checked in on or after', example: '2025-01-01T00:00:00Z' })
+  @IsDateString()
+  since: string;
+}
@@ -0,0 +1,9 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class BookingPenaltyQueryDto {
+  @ApiPropertyOptional({ description: 'Restrict to one company' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsString, IsUUID, IsEnum, IsInt, IsOptional, Min, Max } from 'class-validator';
+import { ClassBookingStatus } from '@prisma/client';
+
+// ===================
+// CREATE BOOKING
+// ===================
+
+export class CreateClassBookingDto {
+  @ApiProperty({ description: 'Class session ID' })
+  @IsUUID()
+  classId: string;
+
+  @ApiPropertyOptional({ description: 'Member user ID when staff book on behalf of a member; defaults to the caller' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+// ===================
+// CANCEL BOOKING
+// ===================
+
+export class CancelClassBookingDto {
+  @ApiPropertyOptional({ description: 'Cancellation reason' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+// ===================
+// FILTERS
+// ===================
+
+export class ClassBookingFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by company ID' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by member user ID' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by class session ID' })
+  @IsOptional()
+  @IsUUID()
+  classId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: ClassBookingStatus })
+  @IsOptional()
+  @IsEnum(ClassBookingStatus)
+  status?: ClassBookingStatus;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsEnum,
+  IsDateString,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { RatingTrendInterval } from '../types/class-rating.types';
+
+export class RateClassDto {
+  @ApiProperty({ description: 'Rating from 1 to 5', minimum: 1, maximum: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiPropertyOptional({ description: 'Free-text feedback for the trainer', maxLength: 2000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  feedback?: string;
+}
+
+export class RatingSummaryQueryDto {
+  @ApiPropertyOptional({ description: 'Company ID; required for category summaries' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Restrict to one branch' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Classes starting at or after; defaults to 90 days ago' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Classes starting before; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Trend bucket size', enum: RatingTrendInterval, default: RatingTrendInterval.WEEK })
+  @IsOptional()
+  @IsEnum(RatingTrendInterval)
+  interval?: RatingTrendInterval;
+}
@@ -0,0 +1,190 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsString,
+  IsUUID,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { RecurringType } from '../utils/recurrence.util';
+
+// ===================
+// CREATE CLASS SCHEDULE
+// ===================
+
+export class CreateClassScheduleDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Trainer user ID' })
+  @IsUUID()
+  trainerId: string;
+
+  @ApiProperty({ description: 'Class name', example: 'Morning Spin' })
+  @IsString()
+  @MaxLength(255)
+  className: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Category', example: 'cycling' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @ApiProperty({ description: 'Start time of the class (first occurrence for recurring classes)', example: '2025-03-03T06:30:00Z' })
+  @IsDateString()
+  startTime: string;
+
+  @ApiProperty({ description: 'Duration in minutes', minimum: 5, maximum: 480 })
+  @IsInt()
+  @Min(5)
+  @Max(480)
+  duration: number;
+
+  @ApiProperty({ description: 'Maximum capacity', minimum: 1 })
+  @IsInt()
+  @Min(1)
+  maxCapacity: number;
+
+  @ApiPropertyOptional({ description: 'Room number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  roomNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Equipment needed', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  equipmentNeeded?: string[];
+
+  @ApiPropertyOptional({ description: 'Level', example: 'beginner' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  level?: string;
+
+  @ApiPropertyOptional({ description: 'Whether the class repeats', default: false })
+  @IsOptional()
+  @IsBoolean()
+  isRecurring?: boolean;
+
+  @ApiPropertyOptional({ description: 'Recurrence frequency', enum: RecurringType })
+  @IsOptional()
+  @IsIn(Object.values(RecurringType))
+  recurringType?: RecurringType;
+
+  @ApiPropertyOptional({ description: 'Weekdays for weekly classes, 0-6 for Sunday-Saturday in branch local time', type: [Number] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  recurringDays?: number[];
+
+  @ApiPropertyOptional({ description: 'Last date the series runs (inclusive)', example: '2025-06-30' })
+  @IsOptional()
+  @IsDateString()
+  recurringEndDate?: string;
+
+  @ApiPropertyOptional({ description: 'Price if different from package', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+// ===================
+// OCCURRENCE CHANGES
+// ===================
+
+export class RescheduleClassDto {
+  @ApiProperty({ description: 'New start time', example: '2025-03-05T07:00:00Z' })
+  @IsDateString()
+  startTime: string;
+
+  @ApiPropertyOptional({ description: 'New duration in minutes', minimum: 5, maximum: 480 })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(480)
+  duration?: number;
+
+  @ApiPropertyOptional({ description: 'Substitute trainer user ID' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiPropertyOptional({ description: 'New room number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  roomNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Reason for the change' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class CancelClassDto {
+  @ApiPropertyOptional({ description: 'Cancellation reason' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+// ===================
+// CALENDAR
+// ===================
+
+export class ClassCalendarQueryDto {
+  @ApiPropertyOptional({ description: 'Branch ID' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Trainer user ID' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiProperty({ description: 'Window start', example: '2025-03-01' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ description: 'Window end (exclusive)', example: '2025-04-01' })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({ description: 'Include cancelled occurrences', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeCancelled?: boolean;
+}
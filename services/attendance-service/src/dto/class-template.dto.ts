@@ -0,0 +1,138 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsUUID,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsOptional,
+  IsDateString,
+  ValidateNested,
+  Matches,
+  MaxLength,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { RecurringType } from '../utils/recurrence.util';
+
+export class ClassTemplateQueryDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+}
+
+export class ClassTemplateDto {
+  @ApiPropertyOptional({ description: 'Trainer user ID; defaults to the import trainer' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiProperty({ description: 'Class name', example: 'Morning Spin' })
+  @IsString()
+  @MaxLength(255)
+  className: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Category', example: 'cycling' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @ApiProperty({ description: 'Branch-local start time', example: '06:30' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'localStartTime must be HH:mm' })
+  localStartTime: string;
+
+  @ApiProperty({ description: 'Duration in minutes', minimum: 5, maximum: 480 })
+  @IsInt()
+  @Min(5)
+  @Max(480)
+  duration: number;
+
+  @ApiProperty({ description: 'Maximum capacity', minimum: 1 })
+  @IsInt()
+  @Min(1)
+  maxCapacity: number;
+
+  @ApiPropertyOptional({ description: 'Room number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  roomNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Equipment needed', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  equipmentNeeded?: string[];
+
+  @ApiPropertyOptional({ description: 'Level', example: 'beginner' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  level?: string;
+
+  @ApiProperty({ description: 'Recurrence frequency', enum: RecurringType })
+  @IsIn(Object.values(RecurringType))
+  recurringType: RecurringType;
+
+  @ApiPropertyOptional({ description: 'Weekdays for weekly classes, 0-6 for Sunday-Saturday', type: [Number] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  recurringDays?: number[];
+
+  @ApiPropertyOptional({ description: 'Day of the month for monthly classes', minimum: 1, maximum: 31 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  dayOfMonth?: number;
+
+  @ApiPropertyOptional({ description: 'Price if different from package', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ImportClassTemplatesDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch the classes are set up at' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Trainer for classes that do not name one' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiProperty({ description: 'First day the series may run, branch-local', example: '2025-09-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Classes to set up', type: [ClassTemplateDto] })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ClassTemplateDto)
+  classes: ClassTemplateDto[];
+}
@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsUUID, Min, Max } from 'class-validator';
+
+export class EngagementQueryDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+}
+
+export class AtRiskMembersQueryDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiPropertyOptional({ description: "Restrict to members whose latest visit was at this branch" })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum members to return', minimum: 1, maximum: 500, default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
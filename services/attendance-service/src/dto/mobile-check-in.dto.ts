@@ -0,0 +1,111 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsUUID,
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { AttendanceType, MobileCheckInReview } from '@prisma/client';
+
+export class MobileCheckInDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Device latitude', minimum: -90, maximum: 90 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude: number;
+
+  @ApiProperty({ description: 'Device longitude', minimum: -180, maximum: 180 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude: number;
+
+  @ApiPropertyOptional({ description: 'Reported GPS accuracy in meters' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
+
+  @ApiPropertyOptional({ description: 'Attendance type', enum: AttendanceType, default: AttendanceType.GYM })
+  @IsOptional()
+  @IsEnum(AttendanceType)
+  type?: AttendanceType;
+
+  @ApiPropertyOptional({ description: 'Class ID for class attendance' })
+  @IsOptional()
+  @IsUUID()
+  classId?: string;
+
+  @ApiPropertyOptional({ description: 'Device information' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  deviceInfo?: string;
+}
+
+export class MobileCheckInFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by company ID' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by member user ID' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Review status',
+    enum: MobileCheckInReview,
+    default: MobileCheckInReview.PENDING,
+  })
+  @IsOptional()
+  @IsEnum(MobileCheckInReview)
+  reviewStatus?: MobileCheckInReview;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class ReviewMobileCheckInDto {
+  @ApiProperty({ description: 'Review outcome', enum: [MobileCheckInReview.CLEARED, MobileCheckInReview.CONFIRMED] })
+  @IsIn([MobileCheckInReview.CLEARED, MobileCheckInReview.CONFIRMED])
+  reviewStatus: MobileCheckInReview;
+
+  @ApiPropertyOptional({ description: 'Review notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
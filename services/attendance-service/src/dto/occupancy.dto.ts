@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsUUID, IsInt, IsBoolean, IsOptional, Min, Max } from 'class-validator';
+
+export class OccupancyHeatmapQueryDto {
+  @ApiPropertyOptional({ description: 'Weeks of history to average', minimum: 1, maximum: 8, default: 4 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(8)
+  weeks?: number;
+}
+
+export class CreateOccupancyAlertDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Alert when occupancy reaches this percentage of capacity', minimum: 1, maximum: 200 })
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  thresholdPercent: number;
+}
+
+export class UpdateOccupancyAlertDto {
+  @ApiPropertyOptional({ description: 'Alert threshold as a percentage of capacity', minimum: 1, maximum: 200 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  thresholdPercent?: number;
+
+  @ApiPropertyOptional({ description: 'Enable or disable the alert' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,212 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsUUID,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsDateString,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { PersonalTrainingStatus } from '@prisma/client';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// ===================
+// AVAILABILITY
+// ===================
+
+export class CreateTrainerAvailabilityDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Trainer user ID' })
+  @IsUUID()
+  trainerId: string;
+
+  @ApiProperty({ description: 'Weekday, 0 (Sunday) to 6 (Saturday)', minimum: 0, maximum: 6 })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  weekday: number;
+
+  @ApiProperty({ description: 'Branch-local start time', example: '07:00' })
+  @Matches(TIME_OF_DAY, { message: 'startTime must be HH:mm' })
+  startTime: string;
+
+  @ApiProperty({ description: 'Branch-local end time', example: '12:30' })
+  @Matches(TIME_OF_DAY, { message: 'endTime must be HH:mm' })
+  endTime: string;
+
+  @ApiPropertyOptional({ description: 'First date the window applies' })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Last date the window applies' })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+}
+
+export class AvailableSlotsQueryDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Branch-local date', example: '2025-03-14' })
+  @Matches(DATE_ONLY, { message: 'date must be YYYY-MM-DD' })
+  date: string;
+
+  @ApiPropertyOptional({ description: 'Session length in minutes', minimum: 15, maximum: 240, default: 60 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(15)
+  @Max(240)
+  durationMinutes?: number;
+}
+
+export class TrainerAgendaQueryDto {
+  @ApiProperty({ description: 'Local date', example: '2025-03-14' })
+  @Matches(DATE_ONLY, { message: 'date must be YYYY-MM-DD' })
+  date: string;
+
+  @ApiPropertyOptional({ description: 'Limit to one branch and use its timezone' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+}
+
+// ===================
+// SESSIONS
+// ===================
+
+export class BookPersonalTrainingDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Trainer user ID' })
+  @IsUUID()
+  trainerId: string;
+
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Session start time' })
+  @IsDateString()
+  startTime: string;
+
+  @ApiPropertyOptional({ description: 'Session length in minutes', minimum: 15, maximum: 240, default: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(15)
+  @Max(240)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Member to book for; defaults to the caller (staff only)' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Session pack to draw from; the soonest-expiring usable pack is used when omitted' })
+  @IsOptional()
+  @IsUUID()
+  packId?: string;
+
+  @ApiPropertyOptional({ description: 'Notes for the trainer' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class CancelPersonalTrainingDto {
+  @ApiPropertyOptional({ description: 'Cancellation reason' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class PersonalTrainingFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by company ID' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by member user ID' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by trainer user ID' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: PersonalTrainingStatus })
+  @IsOptional()
+  @IsEnum(PersonalTrainingStatus)
+  status?: PersonalTrainingStatus;
+
+  @ApiPropertyOptional({ description: 'Sessions starting at or after' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Sessions starting before' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+// ===================
+// SESSION PACKS
+// ===================
+
+export class CreateSessionPackDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Member user ID' })
+  @IsUUID()
+  userId: string;
+
+  @ApiPropertyOptional({ description: 'Restrict the pack to one trainer' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiProperty({ description: 'Pack name', example: '10 x PT sessions' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Number of sessions in the pack', minimum: 1, maximum: 200 })
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  totalSessions: number;
+
+  @ApiPropertyOptional({ description: 'Expiry date' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsUUID, IsEnum, IsOptional, MaxLength } from 'class-validator';
+import { AttendanceType } from '@prisma/client';
+
+export class IssueQrCodeQueryDto {
+  @ApiPropertyOptional({ description: 'Company the code is valid for; defaults to the caller\'s company' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+}
+
+export class VerifyQrCodeDto {
+  @ApiProperty({ description: 'Scanned QR payload' })
+  @IsString()
+  @MaxLength(512)
+  payload: string;
+
+  @ApiProperty({ description: 'Branch where the code was scanned' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Attendance type', enum: AttendanceType, default: AttendanceType.GYM })
+  @IsOptional()
+  @IsEnum(AttendanceType)
+  type?: AttendanceType;
+
+  @ApiPropertyOptional({ description: 'Class ID when scanning in for a class' })
+  @IsOptional()
+  @IsUUID()
+  classId?: string;
+
+  @ApiPropertyOptional({ description: 'Entrance the scanner is mounted at' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  accessPoint?: string;
+
+  @ApiPropertyOptional({ description: 'Scanner device identifier' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  deviceId?: string;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsUUID } from 'class-validator';
+
+export class TeachingActivityQueryDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Period start', example: '2025-03-01T00:00:00Z' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ description: 'Period end (exclusive)', example: '2025-04-01T00:00:00Z' })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({ description: 'Only this trainer' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+}
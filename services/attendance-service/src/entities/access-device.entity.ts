@@ -0,0 +1,48 @@
+import { AccessDeviceType, CheckInMethod } from '@prisma/client';
+
+export class AccessDeviceEntity {
+  id: string;
+  companyId: string;
+  branchId: string;
+  name: string;
+  type: AccessDeviceType;
+  accessPoint?: string;
+  apiKeyPrefix: string;
+  isActive: boolean;
+  lastSeenAt?: Date;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateAccessDeviceEntity {
+  companyId: string;
+  branchId: string;
+  name: string;
+  type: AccessDeviceType;
+  accessPoint?: string;
+  apiKeyPrefix: string;
+  apiKeyHash: string;
+  createdBy?: string;
+}
+
+export class AccessCredentialEntity {
+  id: string;
+  userId: string;
+  companyId: string;
+  method: CheckInMethod;
+  credentialId: string;
+  label?: string;
+  isActive: boolean;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateAccessCredentialEntity {
+  userId: string;
+  companyId: string;
+  method: CheckInMethod;
+  credentialId: string;
+  label?: string;
+}
@@ -0,0 +1,56 @@
+import { AttendanceType, AttendanceStatus, CheckInMethod } from '@prisma/client';
+
+export class AttendanceEntity {
+  id: string;
+  userId: string;
+  companyId: string;
+  branchId: string;
+  subscriptionId?: string;
+  classId?: string;
+  trainerId?: string;
+  type: AttendanceType;
+  status: AttendanceStatus;
+  checkInTime: Date;
+  checkOutTime?: Date;
+  duration?: number;
+  checkInMethod: CheckInMethod;
+  checkOutMethod?: CheckInMethod;
+  ipAddress?: string;
+  deviceInfo?: string;
+  location?: string;
+  temperature?: number;
+  notes?: string;
+  staffNotes?: string;
+  checkedInBy?: string;
+  checkedOutBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateAttendanceEntity {
+  userId: string;
+  companyId: string;
+  branchId: string;
+  subscriptionId?: string;
+  classId?: string;
+  trainerId?: string;
+  type: AttendanceType;
+  status: AttendanceStatus;
+  checkInTime: Date;
+  checkInMethod: CheckInMethod;
+  ipAddress?: string;
+  deviceInfo?: string;
+  location?: string;
+  temperature?: number;
+  notes?: string;
+  checkedInBy?: string;
+}
+
+export class UpdateAttendanceEntity {
+  status?: AttendanceStatus;
+  checkOutTime?: Date;
+  duration?: number;
+  checkOutMethod?: CheckInMethod;
+  staffNotes?: string;
+  checkedOutBy?: string;
+}
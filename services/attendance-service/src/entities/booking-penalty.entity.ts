@@ -0,0 +1,34 @@
+import { BookingStrikeReason } from '@prisma/client';
+
+export class BookingStrikeEntity {
+  id: string;
+  userId: string;
+  companyId: string;
+  bookingId: string;
+  classId: string;
+  reason: BookingStrikeReason;
+  createdAt: Date;
+}
+
+export class BookingBanEntity {
+  id: string;
+  userId: string;
+  companyId: string;
+  startsAt: Date;
+  endsAt: Date;
+  strikeCount: number;
+  reason?: string;
+  liftedAt?: Date;
+  liftedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateBookingBanEntity {
+  userId: string;
+  companyId: string;
+  startsAt: Date;
+  endsAt: Date;
+  strikeCount: number;
+  reason?: string;
+}
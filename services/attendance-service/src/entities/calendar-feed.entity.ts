@@ -0,0 +1,7 @@
+export class CalendarFeedEntity {
+  id: string;
+  userId: string;
+  lastAccessedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
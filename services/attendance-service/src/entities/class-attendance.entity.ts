@@ -0,0 +1,19 @@
+import { ClassAttendanceStatus } from '@prisma/client';
+
+export class ClassAttendanceEntity {
+  id: string;
+  userId: string;
+  classId: string;
+  bookingId?: string;
+  attendanceDate: Date;
+  status: ClassAttendanceStatus;
+  checkInTime?: Date;
+  checkOutTime?: Date;
+  rating?: number;
+  feedback?: string;
+  ratedAt?: Date;
+  notes?: string;
+  markedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,27 @@
+import { ClassBookingStatus, PaymentStatus } from '@prisma/client';
+
+export class ClassBookingEntity {
+  id: string;
+  userId: string;
+  classId: string;
+  bookingDate: Date;
+  status: ClassBookingStatus;
+  paymentStatus: PaymentStatus;
+  amount?: number;
+  notes?: string;
+  bookedBy?: string;
+  promotedAt?: Date;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  waitlistPosition?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateClassBookingEntity {
+  userId: string;
+  classId: string;
+  amount?: number;
+  notes?: string;
+  bookedBy?: string;
+}
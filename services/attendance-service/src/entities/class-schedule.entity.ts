@@ -0,0 +1,67 @@
+export class ClassScheduleEntity {
+  id: string;
+  companyId: string;
+  branchId: string;
+  trainerId: string;
+  className: string;
+  description?: string;
+  category?: string;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  maxCapacity: number;
+  currentCapacity: number;
+  roomNumber?: string;
+  equipmentNeeded: string[];
+  level?: string;
+  isRecurring: boolean;
+  recurringType?: string;
+  recurringDays: number[];
+  recurringEndDate?: Date;
+  price?: number;
+  isCancelled: boolean;
+  cancellationReason?: string;
+  cancelledAt?: Date;
+  notes?: string;
+  parentScheduleId?: string;
+  occurrenceDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateClassScheduleEntity {
+  companyId: string;
+  branchId: string;
+  trainerId: string;
+  className: string;
+  description?: string;
+  category?: string;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  maxCapacity: number;
+  roomNumber?: string;
+  equipmentNeeded: string[];
+  level?: string;
+  isRecurring: boolean;
+  recurringType?: string;
+  recurringDays: number[];
+  recurringEndDate?: Date;
+  price?: number;
+  notes?: string;
+  parentScheduleId?: string;
+  occurrenceDate?: Date;
+}
+
+export class UpdateClassScheduleEntity {
+  trainerId?: string;
+  startTime?: Date;
+  endTime?: Date;
+  duration?: number;
+  roomNumber?: string;
+  isCancelled?: boolean;
+  cancellationReason?: string;
+  cancelledAt?: Date;
+  recurringEndDate?: Date;
+  notes?: string;
+}
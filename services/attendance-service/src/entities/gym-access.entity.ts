@@ -0,0 +1,34 @@
+import { CheckInMethod } from '@prisma/client';
+
+export class GymAccessEntity {
+  id: string;
+  userId: string;
+  companyId: string;
+  branchId: string;
+  accessDate: Date;
+  entryTime: Date;
+  exitTime?: Date;
+  duration?: number;
+  accessPoint?: string;
+  method: CheckInMethod;
+  deviceId?: string;
+  ipAddress?: string;
+  granted: boolean;
+  denialReason?: string;
+  offlineEventId?: string;
+  createdAt: Date;
+}
+
+export class CreateGymAccessEntity {
+  userId: string;
+  companyId: string;
+  branchId: string;
+  entryTime: Date;
+  accessPoint?: string;
+  method: CheckInMethod;
+  deviceId?: string;
+  ipAddress?: string;
+  granted?: boolean;
+  denialReason?: string;
+  offlineEventId?: string;
+}
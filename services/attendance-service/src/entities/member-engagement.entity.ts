@@ -0,0 +1,31 @@
+export class MemberEngagementEntity {
+  id: string;
+  userId: string;
+  companyId: string;
+  lastBranchId?: string;
+  lifetimeVisits: number;
+  lastVisitAt?: Date;
+  currentStreak: number;
+  longestStreak: number;
+  score: number;
+  previousScore: number;
+  lastMilestone: number;
+  atRiskSince?: Date;
+  computedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class UpsertMemberEngagementEntity {
+  userId: string;
+  companyId: string;
+  lastBranchId?: string;
+  lifetimeVisits: number;
+  lastVisitAt?: Date;
+  currentStreak: number;
+  longestStreak: number;
+  score: number;
+  previousScore: number;
+  atRiskSince: Date | null;
+  computedAt: Date;
+}
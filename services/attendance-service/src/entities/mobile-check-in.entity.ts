@@ -0,0 +1,36 @@
+import { MobileCheckInFlag, MobileCheckInReview } from '@prisma/client';
+
+export class MobileCheckInEntity {
+  id: string;
+  userId: string;
+  companyId: string;
+  branchId: string;
+  attendanceId?: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  distanceMeters: number;
+  radiusMeters: number;
+  accepted: boolean;
+  flags: MobileCheckInFlag[];
+  reviewStatus?: MobileCheckInReview;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+  createdAt: Date;
+}
+
+export class CreateMobileCheckInEntity {
+  userId: string;
+  companyId: string;
+  branchId: string;
+  attendanceId?: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  distanceMeters: number;
+  radiusMeters: number;
+  accepted: boolean;
+  flags: MobileCheckInFlag[];
+  reviewStatus?: MobileCheckInReview;
+}
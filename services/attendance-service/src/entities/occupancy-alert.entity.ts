@@ -0,0 +1,26 @@
+export class OccupancyAlertEntity {
+  id: string;
+  companyId: string;
+  branchId: string;
+  thresholdPercent: number;
+  isActive: boolean;
+  isTriggered: boolean;
+  lastTriggeredAt?: Date;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateOccupancyAlertEntity {
+  companyId: string;
+  branchId: string;
+  thresholdPercent: number;
+  createdBy?: string;
+}
+
+export class UpdateOccupancyAlertEntity {
+  thresholdPercent?: number;
+  isActive?: boolean;
+  isTriggered?: boolean;
+  lastTriggeredAt?: Date;
+}
@@ -0,0 +1,86 @@
+import { PersonalTrainingStatus } from '@prisma/client';
+
+export class TrainerAvailabilityEntity {
+  id: string;
+  companyId: string;
+  branchId: string;
+  trainerId: string;
+  weekday: number;
+  startMinute: number;
+  endMinute: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateTrainerAvailabilityEntity {
+  companyId: string;
+  branchId: string;
+  trainerId: string;
+  weekday: number;
+  startMinute: number;
+  endMinute: number;
+  validFrom?: Date;
+  validUntil?: Date;
+}
+
+export class PersonalTrainingSessionEntity {
+  id: string;
+  companyId: string;
+  branchId: string;
+  trainerId: string;
+  userId: string;
+  packId?: string;
+  startTime: Date;
+  endTime: Date;
+  status: PersonalTrainingStatus;
+  attendanceId?: string;
+  notes?: string;
+  bookedBy?: string;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreatePersonalTrainingSessionEntity {
+  companyId: string;
+  branchId: string;
+  trainerId: string;
+  userId: string;
+  packId?: string;
+  startTime: Date;
+  endTime: Date;
+  notes?: string;
+  bookedBy?: string;
+}
+
+export class SessionPackEntity {
+  id: string;
+  companyId: string;
+  userId: string;
+  trainerId?: string;
+  name: string;
+  totalSessions: number;
+  remainingSessions: number;
+  purchasedAt: Date;
+  expiresAt?: Date;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateSessionPackEntity {
+  companyId: string;
+  userId: string;
+  trainerId?: string;
+  name: string;
+  totalSessions: number;
+  remainingSessions: number;
+  expiresAt?: Date;
+  createdBy?: string;
+}
@@ -0,0 +1,28 @@
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { AccessDeviceService } from '../services/access-device.service';
+
+/**
+ * Authenticates turnstiles and readers by their `x-device-key` header and
+ * attaches the device to the request.
+ */
+@Injectable()
+export class DeviceAuthGuard implements CanActivate {
+  constructor(private readonly accessDeviceService: AccessDeviceService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const apiKey = request.headers['x-device-key'];
+
+    if (!apiKey || typeof apiKey !== 'string') {
+      throw new UnauthorizedException('Device key required');
+    }
+
+    const device = await this.accessDeviceService.authenticateDevice(apiKey);
+    if (!device) {
+      throw new UnauthorizedException('Invalid device key');
+    }
+
+    request.device = device;
+    return true;
+  }
+}
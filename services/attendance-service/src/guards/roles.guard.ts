@@ -0,0 +1,29 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedUser } from '../types/attendance.types';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    // Get required roles from decorator
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>('roles', [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredRoles) {
+      return true; // No roles required
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user: AuthenticatedUser = request.user;
+
+    if (!user || !requiredRoles.some((role) => user.roles?.includes(role))) {
+      throw new ForbiddenException('Insufficient role');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,203 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CheckInMethod } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  AccessDeviceEntity,
+  CreateAccessDeviceEntity,
+  AccessCredentialEntity,
+  CreateAccessCredentialEntity,
+} from '../entities/access-device.entity';
+import { AccessDeviceFilters } from '../types/access-control.types';
+
+@Injectable()
+export class AccessDeviceRepository {
+  private readonly logger = new Logger(AccessDeviceRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===================
+  // DEVICES
+  // ===================
+
+  async create(data: CreateAccessDeviceEntity): Promise<AccessDeviceEntity> {
+    this.logger.log('Registering access device', { branchId: data.branchId, name: data.name, type: data.type });
+
+    const device = await this.prisma.accessDevice.create({ data });
+    return this.mapDevice(device);
+  }
+
+  async findById(id: string): Promise<AccessDeviceEntity | null> {
+    const device = await this.prisma.accessDevice.findUnique({ where: { id } });
+    return device ? this.mapDevice(device) : null;
+  }
+
+  /**
+   * Device plus its key hash, for authenticating device requests.
+   */
+  async findByKeyPrefix(apiKeyPrefix: string): Promise<{ device: AccessDeviceEntity; apiKeyHash: string } | null> {
+    const device = await this.prisma.accessDevice.findUnique({ where: { apiKeyPrefix } });
+    return device ? { device: this.mapDevice(device), apiKeyHash: device.apiKeyHash } : null;
+  }
+
+  async findAll(filters: AccessDeviceFilters): Promise<AccessDeviceEntity[]> {
+    this.logger.log('Finding access devices', { filters });
+
+    const devices = await this.prisma.accessDevice.findMany({
+      where: {
+        ...(filters.companyId && { companyId: filters.companyId }),
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+      },
+      orderBy: [{ branchId: 'asc' }, { name: 'asc' }],
+    });
+
+    return devices.map(device => this.mapDevice(device));
+  }
+
+  async updateApiKey(id: string, apiKeyPrefix: string, apiKeyHash: string): Promise<AccessDeviceEntity> {
+    this.logger.log('Rotating access device key', { id });
+
+    const device = await this.prisma.accessDevice.update({
+      where: { id },
+      data: { apiKeyPrefix, apiKeyHash },
+    });
+
+    return this.mapDevice(device);
+  }
+
+  async setActive(id: string, isActive: boolean): Promise<AccessDeviceEntity> {
+    this.logger.log('Updating access device status', { id, isActive });
+
+    const device = await this.prisma.accessDevice.update({
+      where: { id },
+      data: { isActive },
+    });
+
+    return this.mapDevice(device);
+  }
+
+  async touch(id: string, at: Date): Promise<void> {
+    await this.prisma.accessDevice.update({
+      where: { id },
+      data: { lastSeenAt: at },
+    });
+  }
+
+  // ===================
+  // CREDENTIALS
+  // ===================
+
+  async createCredential(data: CreateAccessCredentialEntity): Promise<AccessCredentialEntity> {
+    this.logger.log('Creating access credential', { userId: data.userId, method: data.method });
+
+    const credential = await this.prisma.accessCredential.create({ data });
+    return this.mapCredential(credential);
+  }
+
+  /**
+   * Hands a previously revoked card or template to a (possibly different) member.
+   */
+  async reissueCredential(id: string, data: CreateAccessCredentialEntity): Promise<AccessCredentialEntity> {
+    this.logger.log('Reissuing access credential', { id, userId: data.userId });
+
+    const credential = await this.prisma.accessCredential.update({
+      where: { id },
+      data: { ...data, isActive: true, revokedAt: null },
+    });
+
+    return this.mapCredential(credential);
+  }
+
+  async findCredentialById(id: string): Promise<AccessCredentialEntity | null> {
+    const credential = await this.prisma.accessCredential.findUnique({ where: { id } });
+    return credential ? this.mapCredential(credential) : null;
+  }
+
+  async findCredential(
+    companyId: string,
+    method: CheckInMethod,
+    credentialId: string,
+  ): Promise<AccessCredentialEntity | null> {
+    const credential = await this.prisma.accessCredential.findUnique({
+      where: { companyId_method_credentialId: { companyId, method, credentialId } },
+    });
+
+    return credential ? this.mapCredential(credential) : null;
+  }
+
+  /**
+   * Active credentials keyed by "METHOD:credentialId", for resolving offline batches.
+   */
+  async findActiveCredentials(
+    companyId: string,
+    lookups: { method: CheckInMethod; credentialId: string }[],
+  ): Promise<Map<string, AccessCredentialEntity>> {
+    if (lookups.length === 0) {
+      return new Map();
+    }
+
+    const credentials = await this.prisma.accessCredential.findMany({
+      where: {
+        companyId,
+        isActive: true,
+        OR: lookups.map(lookup => ({ method: lookup.method, credentialId: lookup.credentialId })),
+      },
+    });
+
+    return new Map(
+      credentials.map(credential => [`${credential.method}:${credential.credentialId}`, this.mapCredential(credential)]),
+    );
+  }
+
+  async findCredentialsByUser(userId: string, companyId?: string): Promise<AccessCredentialEntity[]> {
+    const credentials = await this.prisma.accessCredential.findMany({
+      where: { userId, ...(companyId && { companyId }) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return credentials.map(credential => this.mapCredential(credential));
+  }
+
+  async revokeCredential(id: string): Promise<AccessCredentialEntity> {
+    this.logger.log('Revoking access credential', { id });
+
+    const credential = await this.prisma.accessCredential.update({
+      where: { id },
+      data: { isActive: false, revokedAt: new Date() },
+    });
+
+    return this.mapCredential(credential);
+  }
+
+  private mapDevice(data: any): AccessDeviceEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      name: data.name,
+      type: data.type,
+      accessPoint: data.accessPoint,
+      apiKeyPrefix: data.apiKeyPrefix,
+      isActive: data.isActive,
+      lastSeenAt: data.lastSeenAt,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+
+  private mapCredential(data: any): AccessCredentialEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      method: data.method,
+      credentialId: data.credentialId,
+      label: data.label,
+      isActive: data.isActive,
+      revokedAt: data.revokedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AttendanceStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  AttendanceEntity,
+  CreateAttendanceEntity,
+  UpdateAttendanceEntity,
+} from '../entities/attendance.entity';
+import { AttendanceFilters, PaginatedAttendance } from '../types/attendance.types';
+import { VisitInterval } from '../types/occupancy.types';
+
+@Injectable()
+export class AttendanceRepository {
+  private readonly logger = new Logger(AttendanceRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Creates a check-in unless the member already has an open one.
+   * Runs serializable so two simultaneous scans cannot both open a session.
+   */
+  async createCheckIn(data: CreateAttendanceEntity): Promise<{
+    attendance: AttendanceEntity;
+    created: boolean;
+  }> {
+    this.logger.log('Creating check-in', {
+      userId: data.userId,
+      branchId: data.branchId,
+      method: data.checkInMethod,
+    });
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        const open = await tx.attendance.findFirst({
+          where: { userId: data.userId, status: AttendanceStatus.CHECKED_IN },
+          orderBy: { checkInTime: 'desc' },
+        });
+
+        if (open) {
+          return { attendance: this.mapToEntity(open), created: false };
+        }
+
+        const attendance = await tx.attendance.create({ data });
+        return { attendance: this.mapToEntity(attendance), created: true };
+      },
+      { isolationLevel: 'Serializable' },
+    );
+  }
+
+  async findAll(filters: AttendanceFilters = {}): Promise<PaginatedAttendance<AttendanceEntity>> {
+    this.logger.log('Finding attendance records', { filters });
+
+    const where: any = {};
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    if (filters.userId) {
+      where.userId = filters.userId;
+    }
+
+    if (filters.companyId) {
+      where.companyId = filters.companyId;
+    }
+
+    if (filters.branchId) {
+      where.branchId = filters.branchId;
+    }
+
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.checkInMethod) {
+      where.checkInMethod = filters.checkInMethod;
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.checkInTime = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate }),
+      };
+    }
+
+    const [records, total] = await Promise.all([
+      this.prisma.attendance.findMany({
+        where,
+        orderBy: { checkInTime: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.attendance.count({ where }),
+    ]);
+
+    return {
+      records: records.map(record => this.mapToEntity(record)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findById(id: string): Promise<AttendanceEntity | null> {
+    this.logger.log('Finding attendance by ID', { id });
+
+    const attendance = await this.prisma.attendance.findUnique({
+      where: { id },
+    });
+
+    return attendance ? this.mapToEntity(attendance) : null;
+  }
+
+  async findOpenByUser(userId: string): Promise<AttendanceEntity | null> {
+    this.logger.log('Finding open check-in for user', { userId });
+
+    const attendance = await this.prisma.attendance.findFirst({
+      where: { userId, status: AttendanceStatus.CHECKED_IN },
+      orderBy: { checkInTime: 'desc' },
+    });
+
+    return attendance ? this.mapToEntity(attendance) : null;
+  }
+
+  /**
+   * Closes an open check-in. The status guard makes concurrent check-outs
+   * of the same session resolve to a single winner.
+   */
+  async closeCheckIn(id: string, data: UpdateAttendanceEntity): Promise<AttendanceEntity | null> {
+    this.logger.log('Closing check-in', { id });
+
+    const result = await this.prisma.attendance.updateMany({
+      where: { id, status: AttendanceStatus.CHECKED_IN },
+      data: {
+        ...data,
+        status: AttendanceStatus.CHECKED_OUT,
+      },
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Members currently inside a branch. Check-ins older than `openSince` are
+   * treated as forgotten check-outs and not counted.
+   */
+  async countOpenAtBranch(branchId: string, openSince: Date): Promise<number> {
+    return this.prisma.attendance.count({
+      where: {
+        branchId,
+        status: AttendanceStatus.CHECKED_IN,
+        checkInTime: { gte: openSince },
+      },
+    });
+  }
+
+  /**
+   * Visit intervals overlapping the window, for occupancy history.
+   */
+  async findVisitIntervals(
+    branchId: string,
+    from: Date,
+    to: Date,
+  ): Promise<VisitInterval[]> {
+    return this.prisma.attendance.findMany({
+      where: {
+        branchId,
+        status: { in: [AttendanceStatus.CHECKED_IN, AttendanceStatus.CHECKED_OUT] },
+        checkInTime: { lt: to },
+        OR: [{ checkOutTime: null }, { checkOutTime: { gt: from } }],
+      },
+      select: { checkInTime: true, checkOutTime: true },
+    });
+  }
+
+  /**
+   * Every visit of the member to the company's branches, oldest first.
+   */
+  async findMemberVisits(userId: string, companyId: string): Promise<{ checkInTime: Date; branchId: string }[]> {
+    return this.prisma.attendance.findMany({
+      where: {
+        userId,
+        companyId,
+        status: { in: [AttendanceStatus.CHECKED_IN, AttendanceStatus.CHECKED_OUT] },
+      },
+      select: { checkInTime: true, branchId: true },
+      orderBy: { checkInTime: 'asc' },
+    });
+  }
+
+  async countMemberVisits(userId: string, companyId: string, since: Date): Promise<number> {
+    return this.prisma.attendance.count({
+      where: {
+        userId,
+        companyId,
+        status: { in: [AttendanceStatus.CHECKED_IN, AttendanceStatus.CHECKED_OUT] },
+        checkInTime: { gte: since },
+      },
+    });
+  }
+
+  /**
+   * Distinct members with a visit since the given time, per company.
+   */
+  async findActiveMembers(since: Date): Promise<{ userId: string; companyId: string }[]> {
+    return this.prisma.attendance.findMany({
+      where: {
+        checkInTime: { gte: since },
+        status: { in: [AttendanceStatus.CHECKED_IN, AttendanceStatus.CHECKED_OUT] },
+      },
+      select: { userId: true, companyId: true },
+      distinct: ['userId', 'companyId'],
+    });
+  }
+
+  private mapToEntity(data: any): AttendanceEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      subscriptionId: data.subscriptionId,
+      classId: data.classId,
+      trainerId: data.trainerId,
+      type: data.type,
+      status: data.status,
+      checkInTime: data.checkInTime,
+      checkOutTime: data.checkOutTime,
+      duration: data.duration,
+      checkInMethod: data.checkInMethod,
+      checkOutMethod: data.checkOutMethod,
+      ipAddress: data.ipAddress,
+      deviceInfo: data.deviceInfo,
+      location: data.location,
+      temperature: data.temperature,
+      notes: data.notes,
+      staffNotes: data.staffNotes,
+      checkedInBy: data.checkedInBy,
+      checkedOutBy: data.checkedOutBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  BookingStrikeEntity,
+  BookingBanEntity,
+  CreateBookingBanEntity,
+} from '../entities/booking-penalty.entity';
+import { StrikeRecord } from '../types/booking-policy.types';
+
+@Injectable()
+export class BookingPenaltyRepository {
+  private readonly logger = new Logger(BookingPenaltyRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===================
+  // STRIKES
+  // ===================
+
+  /**
+   * Records strikes, ignoring bookings that already have one.
+   */
+  async createStrikes(strikes: StrikeRecord[]): Promise<number> {
+    if (strikes.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.bookingStrike.createMany({
+      data: strikes,
+      skipDuplicates: true,
+    });
+
+    this.logger.log('Booking strikes recorded', { requested: strikes.length, created: result.count });
+    return result.count;
+  }
+
+  async countStrikesSince(userId: string, companyId: string, since: Date): Promise<number> {
+    return this.prisma.bookingStrike.count({
+      where: { userId, companyId, createdAt: { gte: since } },
+    });
+  }
+
+  async findStrikes(userId: string, companyId?: string): Promise<BookingStrikeEntity[]> {
+    this.logger.log('Finding booking strikes', { userId, companyId });
+
+    const strikes = await this.prisma.bookingStrike.findMany({
+      where: { userId, ...(companyId && { companyId }) },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return strikes.map(strike => this.mapStrike(strike));
+  }
+
+  // ===================
+  // BANS
+  // ===================
+
+  async createBan(data: CreateBookingBanEntity): Promise<BookingBanEntity> {
+    this.logger.log('Creating booking ban', { userId: data.userId, companyId: data.companyId, endsAt: data.endsAt });
+
+    const ban = await this.prisma.bookingBan.create({ data });
+    return this.mapBan(ban);
+  }
+
+  async findActiveBan(userId: string, companyId: string, at = new Date()): Promise<BookingBanEntity | null> {
+    const ban = await this.prisma.bookingBan.findFirst({
+      where: {
+        userId,
+        companyId,
+        liftedAt: null,
+        startsAt: { lte: at },
+        endsAt: { gt: at },
+      },
+      orderBy: { endsAt: 'desc' },
+    });
+
+    return ban ? this.mapBan(ban) : null;
+  }
+
+  async findBans(userId: string, companyId?: string): Promise<BookingBanEntity[]> {
+    this.logger.log('Finding booking bans', { userId, companyId });
+
+    const bans = await this.prisma.bookingBan.findMany({
+      where: { userId, ...(companyId && { companyId }) },
+      orderBy: { startsAt: 'desc' },
+      take: 50,
+    });
+
+    return bans.map(ban => this.mapBan(ban));
+  }
+
+  async findBanById(id: string): Promise<BookingBanEntity | null> {
+    const ban = await this.prisma.bookingBan.findUnique({ where: { id } });
+    return ban ? this.mapBan(ban) : null;
+  }
+
+  async liftBan(id: string, liftedBy: string): Promise<BookingBanEntity> {
+    this.logger.log('Lifting booking ban', { id, liftedBy });
+
+    const ban = await this.prisma.bookingBan.update({
+      where: { id },
+      data: { liftedAt: new Date(), liftedBy },
+    });
+
+    return this.mapBan(ban);
+  }
+
+  private mapStrike(data: any): BookingStrikeEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      bookingId: data.bookingId,
+      classId: data.classId,
+      reason: data.reason,
+      createdAt: data.createdAt,
+    };
+  }
+
+  private mapBan(data: any): BookingBanEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      startsAt: data.startsAt,
+      endsAt: data.endsAt,
+      strikeCount: data.strikeCount,
+      reason: data.reason,
+      liftedAt: data.liftedAt,
+      liftedBy: data.liftedBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
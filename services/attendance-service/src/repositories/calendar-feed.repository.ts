@@ -0,0 +1,56 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { CalendarFeedEntity } from '../entities/calendar-feed.entity';
+
+@Injectable()
+export class CalendarFeedRepository {
+  private readonly logger = new Logger(CalendarFeedRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Creates the user's feed or replaces its token, invalidating old URLs.
+   */
+  async upsert(userId: string, tokenHash: string): Promise<CalendarFeedEntity> {
+    this.logger.log('Issuing calendar feed token', { userId });
+
+    const feed = await this.prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, tokenHash },
+      update: { tokenHash, lastAccessedAt: null },
+    });
+
+    return this.mapToEntity(feed);
+  }
+
+  async findByUser(userId: string): Promise<CalendarFeedEntity | null> {
+    const feed = await this.prisma.calendarFeed.findUnique({ where: { userId } });
+    return feed ? this.mapToEntity(feed) : null;
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<CalendarFeedEntity | null> {
+    const feed = await this.prisma.calendarFeed.findUnique({ where: { tokenHash } });
+    return feed ? this.mapToEntity(feed) : null;
+  }
+
+  async markAccessed(id: string, at: Date): Promise<void> {
+    await this.prisma.calendarFeed.update({ where: { id }, data: { lastAccessedAt: at } });
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    this.logger.log('Revoking calendar feed', { userId });
+
+    const result = await this.prisma.calendarFeed.deleteMany({ where: { userId } });
+    return result.count;
+  }
+
+  private mapToEntity(data: any): CalendarFeedEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      lastAccessedAt: data.lastAccessedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ClassAttendanceStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { ClassAttendanceEntity } from '../entities/class-attendance.entity';
+import {
+  RatingComment,
+  RatingScope,
+  RatingTrendInterval,
+  RatingTrendPoint,
+  TrainerRating,
+} from '../types/class-rating.types';
+
+const ATTENDED_STATUSES: ClassAttendanceStatus[] = [
+  ClassAttendanceStatus.PRESENT,
+  ClassAttendanceStatus.LATE,
+  ClassAttendanceStatus.LEFT_EARLY,
+];
+
+@Injectable()
+export class ClassAttendanceRepository {
+  private readonly logger = new Logger(ClassAttendanceRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Records that a member showed up for a class. Re-scanning keeps the first check-in time.
+   */
+  async recordPresence(data: {
+    userId: string;
+    classId: string;
+    bookingId?: string;
+    checkInTime: Date;
+    status: ClassAttendanceStatus;
+    markedBy?: string;
+  }): Promise<void> {
+    this.logger.log('Recording class presence', { userId: data.userId, classId: data.classId });
+
+    await this.prisma.classAttendance.upsert({
+      where: { userId_classId: { userId: data.userId, classId: data.classId } },
+      create: {
+        ...data,
+        attendanceDate: data.checkInTime,
+      },
+      update: {
+        bookingId: data.bookingId,
+        markedBy: data.markedBy,
+      },
+    });
+  }
+
+  async findAttendedUserIds(classId: string): Promise<string[]> {
+    const attendances = await this.prisma.classAttendance.findMany({
+      where: { classId, status: { in: ATTENDED_STATUSES } },
+      select: { userId: true },
+    });
+
+    return attendances.map(attendance => attendance.userId);
+  }
+
+  /**
+   * Attended members per class; classes nobody attended are omitted.
+   */
+  async countAttendedByClass(classIds: string[]): Promise<Map<string, number>> {
+    if (classIds.length === 0) {
+      return new Map();
+    }
+
+    const groups = await this.prisma.classAttendance.groupBy({
+      by: ['classId'],
+      where: { classId: { in: classIds }, status: { in: ATTENDED_STATUSES } },
+      _count: { _all: true },
+    });
+
+    return new Map(groups.map(group => [group.classId, group._count._all]));
+  }
+
+  async findByUserAndClass(userId: string, classId: string): Promise<ClassAttendanceEntity | null> {
+    const attendance = await this.prisma.classAttendance.findUnique({
+      where: { userId_classId: { userId, classId } },
+    });
+
+    return attendance ? this.mapToEntity(attendance) : null;
+  }
+
+  /**
+   * Stores a rating unless one was already given; returns null in that case.
+   */
+  async rate(id: string, rating: number, feedback?: string): Promise<ClassAttendanceEntity | null> {
+    this.logger.log('Rating class attendance', { id, rating });
+
+    const result = await this.prisma.classAttendance.updateMany({
+      where: { id, rating: null },
+      data: { rating, feedback, ratedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    const attendance = await this.prisma.classAttendance.findUnique({ where: { id } });
+    return this.mapToEntity(attendance);
+  }
+
+  // ===================
+  // RATING AGGREGATES
+  // ===================
+  // Ranges apply to the class start time so a late rating counts towards
+  // the week the class took place.
+
+  async countRatings(scope: RatingScope, from: Date, to: Date): Promise<Record<number, number>> {
+    const groups = await this.prisma.classAttendance.groupBy({
+      by: ['rating'],
+      where: this.buildRatedWhere(scope, from, to),
+      _count: { _all: true },
+    });
+
+    const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const group of groups) {
+      distribution[group.rating] = group._count._all;
+    }
+
+    return distribution;
+  }
+
+  async getRatingTrend(
+    scope: RatingScope,
+    from: Date,
+    to: Date,
+    interval: RatingTrendInterval,
+  ): Promise<RatingTrendPoint[]> {
+    const rows = await this.prisma.$queryRaw<{ period: Date; average: number; count: number }[]>`
+      SELECT date_trunc(${interval}, cs.start_time) AS period,
+             AVG(ca.rating)::float AS average,
+             COUNT(*)::int AS count
+      FROM class_attendances ca
+      JOIN class_schedules cs ON cs.id = ca.class_id
+      WHERE ca.rating IS NOT NULL
+        AND cs.start_time >= ${from}
+        AND cs.start_time < ${to}
+        AND (${scope.companyId ?? null}::uuid IS NULL OR cs.company_id = ${scope.companyId ?? null}::uuid)
+        AND (${scope.branchId ?? null}::uuid IS NULL OR cs.branch_id = ${scope.branchId ?? null}::uuid)
+        AND (${scope.trainerId ?? null}::uuid IS NULL OR cs.trainer_id = ${scope.trainerId ?? null}::uuid)
+        AND (${scope.category ?? null}::text IS NULL OR cs.category = ${scope.category ?? null})
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    return rows.map(row => ({ period: row.period, averageRating: row.average, ratingCount: row.count }));
+  }
+
+  async getTrainerRatings(scope: RatingScope, from: Date, to: Date): Promise<TrainerRating[]> {
+    const rows = await this.prisma.$queryRaw<{ trainerId: string; average: number; count: number }[]>`
+      SELECT cs.trainer_id AS "trainerId",
+             AVG(ca.rating)::float AS average,
+             COUNT(*)::int AS count
+      FROM class_attendances ca
+      JOIN class_schedules cs ON cs.id = ca.class_id
+      WHERE ca.rating IS NOT NULL
+        AND cs.start_time >= ${from}
+        AND cs.start_time < ${to}
+        AND (${scope.companyId ?? null}::uuid IS NULL OR cs.company_id = ${scope.companyId ?? null}::uuid)
+        AND (${scope.branchId ?? null}::uuid IS NULL OR cs.branch_id = ${scope.branchId ?? null}::uuid)
+        AND (${scope.trainerId ?? null}::uuid IS NULL OR cs.trainer_id = ${scope.trainerId ?? null}::uuid)
+        AND (${scope.category ?? null}::text IS NULL OR cs.category = ${scope.category ?? null})
+      GROUP BY cs.trainer_id
+      ORDER BY average DESC, count DESC
+    `;
+
+    return rows.map(row => ({ trainerId: row.trainerId, averageRating: row.average, ratingCount: row.count }));
+  }
+
+  async findRecentFeedback(scope: RatingScope, from: Date, to: Date, limit: number): Promise<RatingComment[]> {
+    const where = this.buildRatedWhere(scope, from, to);
+
+    const attendances = await this.prisma.classAttendance.findMany({
+      where: { ...where, feedback: { not: null } },
+      include: {
+        class: { select: { className: true, category: true, trainerId: true, startTime: true } },
+      },
+      orderBy: { ratedAt: 'desc' },
+      take: limit,
+    });
+
+    return attendances.map(attendance => ({
+      classId: attendance.classId,
+      className: attendance.class.className,
+      category: attendance.class.category,
+      trainerId: attendance.class.trainerId,
+      classStartTime: attendance.class.startTime,
+      rating: attendance.rating,
+      feedback: attendance.feedback,
+      ratedAt: attendance.ratedAt,
+    }));
+  }
+
+  private buildRatedWhere(scope: RatingScope, from: Date, to: Date) {
+    return {
+      rating: { not: null },
+      class: {
+        startTime: { gte: from, lt: to },
+        ...(scope.companyId && { companyId: scope.companyId }),
+        ...(scope.branchId && { branchId: scope.branchId }),
+        ...(scope.trainerId && { trainerId: scope.trainerId }),
+        ...(scope.category && { category: scope.category }),
+      },
+    };
+  }
+
+  private mapToEntity(data: any): ClassAttendanceEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      classId: data.classId,
+      bookingId: data.bookingId,
+      attendanceDate: data.attendanceDate,
+      status: data.status,
+      checkInTime: data.checkInTime,
+      checkOutTime: data.checkOutTime,
+      rating: data.rating,
+      feedback: data.feedback,
+      ratedAt: data.ratedAt,
+      notes: data.notes,
+      markedBy: data.markedBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,291 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ClassBookingStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { ClassBookingEntity, CreateClassBookingEntity } from '../entities/class-booking.entity';
+import {
+  ACTIVE_BOOKING_STATUSES,
+  ClassBookingFilters,
+  BookingResult,
+  CancellationResult,
+} from '../types/class-booking.types';
+
+@Injectable()
+export class ClassBookingRepository {
+  private readonly logger = new Logger(ClassBookingRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Books a seat or joins the waitlist. The class row is locked for the
+   * duration of the transaction, so concurrent bookings for the same class
+   * are serialized and capacity can never be oversold.
+   */
+  async book(data: CreateClassBookingEntity): Promise<BookingResult> {
+    this.logger.log('Booking class', { userId: data.userId, classId: data.classId });
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockClass(tx, data.classId);
+
+      const existing = await tx.classBooking.findUnique({
+        where: { userId_classId: { userId: data.userId, classId: data.classId } },
+      });
+
+      if (existing && ACTIVE_BOOKING_STATUSES.includes(existing.status)) {
+        return { booking: this.mapToEntity(existing), alreadyBooked: true };
+      }
+
+      const schedule = await tx.classSchedule.findUnique({ where: { id: data.classId } });
+      const hasSeat = schedule.currentCapacity < schedule.maxCapacity;
+      const status = hasSeat ? ClassBookingStatus.CONFIRMED : ClassBookingStatus.WAITLISTED;
+
+      if (hasSeat) {
+        await tx.classSchedule.update({
+          where: { id: data.classId },
+          data: { currentCapacity: { increment: 1 } },
+        });
+      }
+
+      const bookingDate = new Date();
+      const booking = await tx.classBooking.upsert({
+        where: { userId_classId: { userId: data.userId, classId: data.classId } },
+        create: { ...data, status, bookingDate },
+        update: {
+          ...data,
+          status,
+          bookingDate,
+          promotedAt: null,
+          cancelledAt: null,
+          cancellationReason: null,
+        },
+      });
+
+      return { booking: this.mapToEntity(booking), alreadyBooked: false };
+    });
+  }
+
+  /**
+   * Cancels a booking. A freed seat goes straight to the first member on the
+   * waitlist; only when the waitlist is empty does the class count drop.
+   */
+  async cancel(id: string, reason?: string): Promise<CancellationResult | null> {
+    this.logger.log('Cancelling class booking', { id, reason });
+
+    const current = await this.prisma.classBooking.findUnique({ where: { id } });
+    if (!current) {
+      return null;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockClass(tx, current.classId);
+
+      const booking = await tx.classBooking.findUnique({ where: { id } });
+      if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+        return { booking: this.mapToEntity(booking), cancelled: false };
+      }
+
+      const cancelled = await tx.classBooking.update({
+        where: { id },
+        data: {
+          status: ClassBookingStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancellationReason: reason,
+        },
+      });
+
+      if (booking.status !== ClassBookingStatus.CONFIRMED) {
+        return { booking: this.mapToEntity(cancelled), cancelled: true };
+      }
+
+      const next = await tx.classBooking.findFirst({
+        where: { classId: booking.classId, status: ClassBookingStatus.WAITLISTED },
+        orderBy: { bookingDate: 'asc' },
+      });
+
+      if (!next) {
+        await tx.classSchedule.update({
+          where: { id: booking.classId },
+          data: { currentCapacity: { decrement: 1 } },
+        });
+        return { booking: this.mapToEntity(cancelled), cancelled: true };
+      }
+
+      const promoted = await tx.classBooking.update({
+        where: { id: next.id },
+        data: { status: ClassBookingStatus.CONFIRMED, promotedAt: new Date() },
+      });
+
+      return {
+        booking: this.mapToEntity(cancelled),
+        cancelled: true,
+        promoted: this.mapToEntity(promoted),
+      };
+    });
+  }
+
+  async findById(id: string): Promise<ClassBookingEntity | null> {
+    this.logger.log('Finding class booking by ID', { id });
+
+    const booking = await this.prisma.classBooking.findUnique({ where: { id } });
+    return booking ? this.mapToEntity(booking) : null;
+  }
+
+  async findAll(filters: ClassBookingFilters = {}): Promise<{
+    bookings: ClassBookingEntity[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    this.logger.log('Finding class bookings', { filters });
+
+    const where: any = {};
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    if (filters.companyId) {
+      where.class = { companyId: filters.companyId };
+    }
+
+    if (filters.userId) {
+      where.userId = filters.userId;
+    }
+
+    if (filters.classId) {
+      where.classId = filters.classId;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const [bookings, total] = await Promise.all([
+      this.prisma.classBooking.findMany({
+        where,
+        orderBy: { bookingDate: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.classBooking.count({ where }),
+    ]);
+
+    return {
+      bookings: bookings.map(booking => this.mapToEntity(booking)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Active bookings for a class in seat order, waitlisted members numbered from 1.
+   */
+  async findActiveByClass(classId: string): Promise<ClassBookingEntity[]> {
+    this.logger.log('Finding active bookings for class', { classId });
+
+    const bookings = await this.prisma.classBooking.findMany({
+      where: { classId, status: { in: ACTIVE_BOOKING_STATUSES } },
+      orderBy: { bookingDate: 'asc' },
+    });
+
+    let position = 0;
+    return bookings.map(booking => {
+      const entity = this.mapToEntity(booking);
+      if (booking.status === ClassBookingStatus.WAITLISTED) {
+        entity.waitlistPosition = ++position;
+      }
+      return entity;
+    });
+  }
+
+  async getWaitlistPosition(booking: ClassBookingEntity): Promise<number | undefined> {
+    if (booking.status !== ClassBookingStatus.WAITLISTED) {
+      return undefined;
+    }
+
+    const ahead = await this.prisma.classBooking.count({
+      where: {
+        classId: booking.classId,
+        status: ClassBookingStatus.WAITLISTED,
+        bookingDate: { lt: booking.bookingDate },
+      },
+    });
+
+    return ahead + 1;
+  }
+
+  async findConfirmedByClass(classId: string): Promise<ClassBookingEntity[]> {
+    const bookings = await this.prisma.classBooking.findMany({
+      where: { classId, status: ClassBookingStatus.CONFIRMED },
+    });
+
+    return bookings.map(booking => this.mapToEntity(booking));
+  }
+
+  /**
+   * The member's bookings, in any status, for classes starting inside the window.
+   */
+  async findByUserForClassesBetween(userId: string, from: Date, to: Date): Promise<ClassBookingEntity[]> {
+    const bookings = await this.prisma.classBooking.findMany({
+      where: { userId, class: { startTime: { gte: from, lt: to } } },
+      take: 1000,
+    });
+
+    return bookings.map(booking => this.mapToEntity(booking));
+  }
+
+  async findActiveByUserAndClass(userId: string, classId: string): Promise<ClassBookingEntity | null> {
+    const booking = await this.prisma.classBooking.findFirst({
+      where: { userId, classId, status: { in: ACTIVE_BOOKING_STATUSES } },
+    });
+
+    return booking ? this.mapToEntity(booking) : null;
+  }
+
+  /**
+   * Marks the bookings that are still confirmed as no-shows and returns
+   * their IDs; bookings changed in the meantime are left out.
+   */
+  async markNoShows(ids: string[]): Promise<string[]> {
+    const marked: string[] = [];
+
+    for (const id of ids) {
+      const result = await this.prisma.classBooking.updateMany({
+        where: { id, status: ClassBookingStatus.CONFIRMED },
+        data: { status: ClassBookingStatus.NO_SHOW },
+      });
+
+      if (result.count > 0) {
+        marked.push(id);
+      }
+    }
+
+    if (marked.length > 0) {
+      this.logger.log('Bookings marked as no-show', { count: marked.length });
+    }
+
+    return marked;
+  }
+
+  private async lockClass(tx: any, classId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM class_schedules WHERE id = ${classId}::uuid FOR UPDATE`;
+  }
+
+  private mapToEntity(data: any): ClassBookingEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      classId: data.classId,
+      bookingDate: data.bookingDate,
+      status: data.status,
+      paymentStatus: data.paymentStatus,
+      amount: data.amount,
+      notes: data.notes,
+      bookedBy: data.bookedBy,
+      promotedAt: data.promotedAt,
+      cancelledAt: data.cancelledAt,
+      cancellationReason: data.cancellationReason,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,264 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ClassBookingStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  ClassScheduleEntity,
+  CreateClassScheduleEntity,
+  UpdateClassScheduleEntity,
+} from '../entities/class-schedule.entity';
+import { ClassCancellation, ClassSessionFilters } from '../types/class-schedule.types';
+import { ACTIVE_BOOKING_STATUSES } from '../types/class-booking.types';
+
+@Injectable()
+export class ClassScheduleRepository {
+  private readonly logger = new Logger(ClassScheduleRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateClassScheduleEntity): Promise<ClassScheduleEntity> {
+    this.logger.log('Creating class schedule', {
+      branchId: data.branchId,
+      className: data.className,
+      isRecurring: data.isRecurring,
+    });
+
+    const schedule = await this.prisma.classSchedule.create({ data });
+    return this.mapToEntity(schedule);
+  }
+
+  async findById(id: string): Promise<ClassScheduleEntity | null> {
+    this.logger.log('Finding class schedule by ID', { id });
+
+    const schedule = await this.prisma.classSchedule.findUnique({
+      where: { id },
+    });
+
+    return schedule ? this.mapToEntity(schedule) : null;
+  }
+
+  async update(id: string, data: UpdateClassScheduleEntity): Promise<ClassScheduleEntity> {
+    this.logger.log('Updating class schedule', { id, updateFields: Object.keys(data) });
+
+    const schedule = await this.prisma.classSchedule.update({
+      where: { id },
+      data,
+    });
+
+    return this.mapToEntity(schedule);
+  }
+
+  /**
+   * Active recurring templates whose series overlaps the window.
+   */
+  async findRecurringTemplates(filters: ClassSessionFilters): Promise<ClassScheduleEntity[]> {
+    this.logger.log('Finding recurring templates', { filters });
+
+    const templates = await this.prisma.classSchedule.findMany({
+      where: {
+        isRecurring: true,
+        isCancelled: false,
+        startTime: { lt: filters.to },
+        OR: [{ recurringEndDate: null }, { recurringEndDate: { gte: filters.from } }],
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.trainerId && { trainerId: filters.trainerId }),
+      },
+    });
+
+    return templates.map(template => this.mapToEntity(template));
+  }
+
+  /**
+   * Inserts generated occurrences; slots that already exist (including ones
+   * that were moved or cancelled) are left untouched.
+   */
+  async createOccurrences(occurrences: CreateClassScheduleEntity[]): Promise<number> {
+    if (occurrences.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.classSchedule.createMany({
+      data: occurrences,
+      skipDuplicates: true,
+    });
+
+    this.logger.log('Materialized class occurrences', {
+      requested: occurrences.length,
+      created: result.count,
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Concrete sessions (one-off classes and materialized occurrences) in the window.
+   */
+  async findSessions(filters: ClassSessionFilters): Promise<ClassScheduleEntity[]> {
+    this.logger.log('Finding class sessions', { filters });
+
+    const sessions = await this.prisma.classSchedule.findMany({
+      where: {
+        isRecurring: false,
+        startTime: { gte: filters.from, lt: filters.to },
+        ...(!filters.includeCancelled && { isCancelled: false }),
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.trainerId && { trainerId: filters.trainerId }),
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return sessions.map(session => this.mapToEntity(session));
+  }
+
+  async findByIds(ids: string[]): Promise<ClassScheduleEntity[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const schedules = await this.prisma.classSchedule.findMany({ where: { id: { in: ids } } });
+    return schedules.map(schedule => this.mapToEntity(schedule));
+  }
+
+  /**
+   * Materialized occurrences of the templates whose original slot falls in
+   * the window, whoever teaches them now and including cancelled ones.
+   */
+  async findOccurrencesOf(templateIds: string[], from: Date, to: Date): Promise<ClassScheduleEntity[]> {
+    if (templateIds.length === 0) {
+      return [];
+    }
+
+    const occurrences = await this.prisma.classSchedule.findMany({
+      where: {
+        parentScheduleId: { in: templateIds },
+        occurrenceDate: { gte: from, lt: to },
+      },
+      orderBy: { occurrenceDate: 'asc' },
+    });
+
+    return occurrences.map(occurrence => this.mapToEntity(occurrence));
+  }
+
+  /**
+   * Sessions that ended inside the window and still have confirmed bookings,
+   * i.e. classes whose attendance has not been reconciled yet.
+   */
+  async findEndedWithConfirmedBookings(endedAfter: Date, endedBefore: Date): Promise<ClassScheduleEntity[]> {
+    const sessions = await this.prisma.classSchedule.findMany({
+      where: {
+        isRecurring: false,
+        isCancelled: false,
+        endTime: { gt: endedAfter, lte: endedBefore },
+        bookings: { some: { status: ClassBookingStatus.CONFIRMED } },
+      },
+      orderBy: { endTime: 'asc' },
+      take: 200,
+    });
+
+    return sessions.map(session => this.mapToEntity(session));
+  }
+
+  /**
+   * Cancels a session, or ends a series when given a template: the template
+   * is cancelled and its future occurrences with it. Active bookings of the
+   * cancelled sessions are cancelled in the same transaction. Returns null if
+   * the class was cancelled in the meantime.
+   */
+  async cancel(id: string, reason?: string): Promise<ClassCancellation | null> {
+    this.logger.log('Cancelling class', { id, reason });
+
+    const now = new Date();
+    const cancellation = {
+      isCancelled: true,
+      cancellationReason: reason,
+      cancelledAt: now,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const cancelled = await tx.classSchedule.updateMany({
+        where: { id, isCancelled: false },
+        data: cancellation,
+      });
+
+      if (cancelled.count === 0) {
+        return null;
+      }
+
+      let sessionIds = [id];
+      const schedule = await tx.classSchedule.findUnique({ where: { id } });
+
+      if (schedule.isRecurring) {
+        await tx.classSchedule.update({ where: { id }, data: { recurringEndDate: now } });
+
+        const occurrences = await tx.classSchedule.findMany({
+          where: { parentScheduleId: id, isCancelled: false, startTime: { gte: now } },
+          select: { id: true },
+        });
+        sessionIds = occurrences.map(occurrence => occurrence.id);
+
+        await tx.classSchedule.updateMany({
+          where: { id: { in: sessionIds } },
+          data: cancellation,
+        });
+      }
+
+      const bookings = await tx.classBooking.findMany({
+        where: { classId: { in: sessionIds }, status: { in: ACTIVE_BOOKING_STATUSES } },
+        select: { id: true, userId: true, classId: true },
+      });
+
+      await tx.classBooking.updateMany({
+        where: { id: { in: bookings.map(booking => booking.id) } },
+        data: {
+          status: ClassBookingStatus.CANCELLED,
+          cancelledAt: now,
+          cancellationReason: reason ?? 'Class cancelled',
+        },
+      });
+
+      await tx.classSchedule.updateMany({
+        where: { id: { in: sessionIds } },
+        data: { currentCapacity: 0 },
+      });
+
+      const updated = await tx.classSchedule.findUnique({ where: { id } });
+      return {
+        schedule: this.mapToEntity(updated),
+        cancelledSessions: sessionIds.length,
+        cancelledBookings: bookings,
+      };
+    });
+  }
+
+  private mapToEntity(data: any): ClassScheduleEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      trainerId: data.trainerId,
+      className: data.className,
+      description: data.description,
+      category: data.category,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      duration: data.duration,
+      maxCapacity: data.maxCapacity,
+      currentCapacity: data.currentCapacity,
+      roomNumber: data.roomNumber,
+      equipmentNeeded: data.equipmentNeeded,
+      level: data.level,
+      isRecurring: data.isRecurring,
+      recurringType: data.recurringType,
+      recurringDays: data.recurringDays,
+      recurringEndDate: data.recurringEndDate,
+      price: data.price,
+      isCancelled: data.isCancelled,
+      cancellationReason: data.cancellationReason,
+      cancelledAt: data.cancelledAt,
+      notes: data.notes,
+      parentScheduleId: data.parentScheduleId,
+      occurrenceDate: data.occurrenceDate,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
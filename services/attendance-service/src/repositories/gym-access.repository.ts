@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { GymAccessEntity, CreateGymAccessEntity } from '../entities/gym-access.entity';
+
+@Injectable()
+export class GymAccessRepository {
+  private readonly logger = new Logger(GymAccessRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateGymAccessEntity): Promise<GymAccessEntity> {
+    this.logger.log('Recording gym access', {
+      userId: data.userId,
+      branchId: data.branchId,
+      method: data.method,
+    });
+
+    const access = await this.prisma.gymAccess.create({
+      data: { ...data, accessDate: data.entryTime },
+    });
+
+    return this.mapToEntity(access);
+  }
+
+  /**
+   * Bulk insert for entries uploaded after a device outage. Entries already
+   * synced (same device and offline event ID) are skipped.
+   */
+  async createOfflineEntries(entries: CreateGymAccessEntity[]): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.gymAccess.createMany({
+      data: entries.map(entry => ({ ...entry, accessDate: entry.entryTime })),
+      skipDuplicates: true,
+    });
+
+    this.logger.log('Offline gym access entries synced', { requested: entries.length, created: result.count });
+    return result.count;
+  }
+
+  private mapToEntity(data: any): GymAccessEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      accessDate: data.accessDate,
+      entryTime: data.entryTime,
+      exitTime: data.exitTime,
+      duration: data.duration,
+      accessPoint: data.accessPoint,
+      method: data.method,
+      deviceId: data.deviceId,
+      ipAddress: data.ipAddress,
+      granted: data.granted,
+      denialReason: data.denialReason,
+      offlineEventId: data.offlineEventId,
+      createdAt: data.createdAt,
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  MemberEngagementEntity,
+  UpsertMemberEngagementEntity,
+} from '../entities/member-engagement.entity';
+
+@Injectable()
+export class MemberEngagementRepository {
+  private readonly logger = new Logger(MemberEngagementRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async upsert(data: UpsertMemberEngagementEntity): Promise<MemberEngagementEntity> {
+    const engagement = await this.prisma.memberEngagement.upsert({
+      where: { userId_companyId: { userId: data.userId, companyId: data.companyId } },
+      create: data,
+      update: data,
+    });
+
+    return this.mapToEntity(engagement);
+  }
+
+  /**
+   * Advances the highest announced milestone, unless another computation
+   * already moved it; only the caller that wins announces.
+   */
+  async advanceMilestone(userId: string, companyId: string, from: number, to: number): Promise<boolean> {
+    const advanced = await this.prisma.memberEngagement.updateMany({
+      where: { userId, companyId, lastMilestone: from },
+      data: { lastMilestone: to },
+    });
+
+    return advanced.count > 0;
+  }
+
+  async findByUserAndCompany(userId: string, companyId: string): Promise<MemberEngagementEntity | null> {
+    const engagement = await this.prisma.memberEngagement.findUnique({
+      where: { userId_companyId: { userId, companyId } },
+    });
+
+    return engagement ? this.mapToEntity(engagement) : null;
+  }
+
+  async findComputedSince(since: Date): Promise<{ userId: string; companyId: string }[]> {
+    return this.prisma.memberEngagement.findMany({
+      where: { computedAt: { gte: since } },
+      select: { userId: true, companyId: true },
+    });
+  }
+
+  /**
+   * At-risk members, biggest score drop first.
+   */
+  async findAtRisk(companyId: string, branchId?: string, limit = 100): Promise<MemberEngagementEntity[]> {
+    this.logger.log('Finding at-risk members', { companyId, branchId });
+
+    const engagements = await this.prisma.memberEngagement.findMany({
+      where: {
+        companyId,
+        atRiskSince: { not: null },
+        ...(branchId && { lastBranchId: branchId }),
+      },
+      take: 1000,
+    });
+
+    return engagements
+      .map(engagement => this.mapToEntity(engagement))
+      .sort((a, b) => (b.previousScore - b.score) - (a.previousScore - a.score))
+      .slice(0, limit);
+  }
+
+  private mapToEntity(data: any): MemberEngagementEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      lastBranchId: data.lastBranchId,
+      lifetimeVisits: data.lifetimeVisits,
+      lastVisitAt: data.lastVisitAt,
+      currentStreak: data.currentStreak,
+      longestStreak: data.longestStreak,
+      score: data.score,
+      previousScore: data.previousScore,
+      lastMilestone: data.lastMilestone,
+      atRiskSince: data.atRiskSince,
+      computedAt: data.computedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
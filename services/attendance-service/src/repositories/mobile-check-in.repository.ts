@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { MobileCheckInEntity, CreateMobileCheckInEntity } from '../entities/mobile-check-in.entity';
+import { MobileCheckInFilters } from '../types/mobile-check-in.types';
+import { PaginatedAttendance } from '../types/attendance.types';
+
+@Injectable()
+export class MobileCheckInRepository {
+  private readonly logger = new Logger(MobileCheckInRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateMobileCheckInEntity): Promise<MobileCheckInEntity> {
+    this.logger.log('Recording mobile check-in attempt', {
+      userId: data.userId,
+      branchId: data.branchId,
+      accepted: data.accepted,
+      flags: data.flags,
+    });
+
+    const attempt = await this.prisma.mobileCheckIn.create({ data });
+    return this.mapToEntity(attempt);
+  }
+
+  async findById(id: string): Promise<MobileCheckInEntity | null> {
+    const attempt = await this.prisma.mobileCheckIn.findUnique({ where: { id } });
+    return attempt ? this.mapToEntity(attempt) : null;
+  }
+
+  async findLatestByUser(userId: string): Promise<MobileCheckInEntity | null> {
+    const attempt = await this.prisma.mobileCheckIn.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return attempt ? this.mapToEntity(attempt) : null;
+  }
+
+  /**
+   * Attempts at a branch since `since` that landed at least `minDistanceMeters` away.
+   */
+  async countDistantAttempts(userId: string, branchId: string, since: Date, minDistanceMeters: number): Promise<number> {
+    return this.prisma.mobileCheckIn.count({
+      where: {
+        userId,
+        branchId,
+        createdAt: { gte: since },
+        distanceMeters: { gte: minDistanceMeters },
+      },
+    });
+  }
+
+  async findAll(filters: MobileCheckInFilters): Promise<PaginatedAttendance<MobileCheckInEntity>> {
+    this.logger.log('Finding mobile check-ins', { filters });
+
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where = {
+      ...(filters.companyId && { companyId: filters.companyId }),
+      ...(filters.branchId && { branchId: filters.branchId }),
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.reviewStatus ? { reviewStatus: filters.reviewStatus } : { reviewStatus: { not: null } }),
+    };
+
+    const [records, total] = await Promise.all([
+      this.prisma.mobileCheckIn.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.mobileCheckIn.count({ where }),
+    ]);
+
+    return {
+      records: records.map(record => this.mapToEntity(record)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async review(
+    id: string,
+    data: Pick<MobileCheckInEntity, 'reviewStatus' | 'reviewedBy' | 'reviewNotes'>,
+  ): Promise<MobileCheckInEntity> {
+    this.logger.log('Reviewing mobile check-in', { id, reviewStatus: data.reviewStatus });
+
+    const attempt = await this.prisma.mobileCheckIn.update({
+      where: { id },
+      data: { ...data, reviewedAt: new Date() },
+    });
+
+    return this.mapToEntity(attempt);
+  }
+
+  private mapToEntity(data: any): MobileCheckInEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      attendanceId: data.attendanceId,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      accuracy: data.accuracy,
+      distanceMeters: data.distanceMeters,
+      radiusMeters: data.radiusMeters,
+      accepted: data.accepted,
+      flags: data.flags,
+      reviewStatus: data.reviewStatus,
+      reviewedBy: data.reviewedBy,
+      reviewedAt: data.reviewedAt,
+      reviewNotes: data.reviewNotes,
+      createdAt: data.createdAt,
+    };
+  }
+}
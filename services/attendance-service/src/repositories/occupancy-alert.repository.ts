@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  OccupancyAlertEntity,
+  CreateOccupancyAlertEntity,
+  UpdateOccupancyAlertEntity,
+} from '../entities/occupancy-alert.entity';
+
+@Injectable()
+export class OccupancyAlertRepository {
+  private readonly logger = new Logger(OccupancyAlertRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateOccupancyAlertEntity): Promise<OccupancyAlertEntity> {
+    this.logger.log('Creating occupancy alert', { branchId: data.branchId, thresholdPercent: data.thresholdPercent });
+
+    const alert = await this.prisma.occupancyAlert.create({ data });
+    return this.mapToEntity(alert);
+  }
+
+  async findById(id: string): Promise<OccupancyAlertEntity | null> {
+    const alert = await this.prisma.occupancyAlert.findUnique({ where: { id } });
+    return alert ? this.mapToEntity(alert) : null;
+  }
+
+  async findByBranch(branchId: string, activeOnly = false): Promise<OccupancyAlertEntity[]> {
+    const alerts = await this.prisma.occupancyAlert.findMany({
+      where: { branchId, ...(activeOnly && { isActive: true }) },
+      orderBy: { thresholdPercent: 'asc' },
+    });
+
+    return alerts.map(alert => this.mapToEntity(alert));
+  }
+
+  async update(id: string, data: UpdateOccupancyAlertEntity): Promise<OccupancyAlertEntity> {
+    this.logger.log('Updating occupancy alert', { id, updateFields: Object.keys(data) });
+
+    const alert = await this.prisma.occupancyAlert.update({
+      where: { id },
+      data,
+    });
+
+    return this.mapToEntity(alert);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.logger.log('Deleting occupancy alert', { id });
+    await this.prisma.occupancyAlert.delete({ where: { id } });
+  }
+
+  private mapToEntity(data: any): OccupancyAlertEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      thresholdPercent: data.thresholdPercent,
+      isActive: data.isActive,
+      isTriggered: data.isTriggered,
+      lastTriggeredAt: data.lastTriggeredAt,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,241 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PersonalTrainingStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  PersonalTrainingSessionEntity,
+  CreatePersonalTrainingSessionEntity,
+} from '../entities/personal-training.entity';
+import {
+  PersonalTrainingBookingResult,
+  PersonalTrainingFilters,
+} from '../types/personal-training.types';
+
+@Injectable()
+export class PersonalTrainingRepository {
+  private readonly logger = new Logger(PersonalTrainingRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Books a session unless it overlaps another scheduled session of the
+   * trainer or member, or the pack has no unreserved sessions left. Bookings
+   * for the same trainer are serialized with an advisory lock.
+   */
+  async book(data: CreatePersonalTrainingSessionEntity): Promise<PersonalTrainingBookingResult> {
+    this.logger.log('Booking personal training session', {
+      trainerId: data.trainerId,
+      userId: data.userId,
+      startTime: data.startTime,
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${data.trainerId}))`;
+
+      const conflict = await tx.personalTrainingSession.findFirst({
+        where: {
+          status: PersonalTrainingStatus.SCHEDULED,
+          startTime: { lt: data.endTime },
+          endTime: { gt: data.startTime },
+          OR: [{ trainerId: data.trainerId }, { userId: data.userId }],
+        },
+      });
+
+      if (conflict) {
+        return { conflict: this.mapToEntity(conflict) };
+      }
+
+      if (data.packId) {
+        await tx.$queryRaw`SELECT id FROM session_packs WHERE id = ${data.packId}::uuid FOR UPDATE`;
+
+        const [pack, reserved] = await Promise.all([
+          tx.sessionPack.findUnique({ where: { id: data.packId } }),
+          tx.personalTrainingSession.count({
+            where: { packId: data.packId, status: PersonalTrainingStatus.SCHEDULED },
+          }),
+        ]);
+
+        if (!pack || pack.remainingSessions - reserved <= 0) {
+          return { packExhausted: true };
+        }
+      }
+
+      const session = await tx.personalTrainingSession.create({ data });
+      return { session: this.mapToEntity(session) };
+    });
+  }
+
+  async findById(id: string): Promise<PersonalTrainingSessionEntity | null> {
+    const session = await this.prisma.personalTrainingSession.findUnique({ where: { id } });
+    return session ? this.mapToEntity(session) : null;
+  }
+
+  async findAll(filters: PersonalTrainingFilters): Promise<PersonalTrainingSessionEntity[]> {
+    this.logger.log('Finding personal training sessions', { filters });
+
+    const sessions = await this.prisma.personalTrainingSession.findMany({
+      where: {
+        ...(filters.companyId && { companyId: filters.companyId }),
+        ...(filters.userId && { userId: filters.userId }),
+        ...(filters.trainerId && { trainerId: filters.trainerId }),
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.status && { status: filters.status }),
+        ...((filters.from || filters.to) && {
+          startTime: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lt: filters.to }),
+          },
+        }),
+      },
+      orderBy: { startTime: 'asc' },
+      take: 500,
+    });
+
+    return sessions.map(session => this.mapToEntity(session));
+  }
+
+  /**
+   * Completed sessions at the branch that started in [from, to), for payroll.
+   */
+  async findCompletedByBranch(
+    branchId: string,
+    from: Date,
+    to: Date,
+    trainerId?: string,
+  ): Promise<PersonalTrainingSessionEntity[]> {
+    const sessions = await this.prisma.personalTrainingSession.findMany({
+      where: {
+        branchId,
+        status: PersonalTrainingStatus.COMPLETED,
+        startTime: { gte: from, lt: to },
+        ...(trainerId && { trainerId }),
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return sessions.map(session => this.mapToEntity(session));
+  }
+
+  /**
+   * The member's scheduled session that a check-in at `at` most plausibly belongs to.
+   */
+  async findForCheckIn(
+    userId: string,
+    at: Date,
+    earlyMinutes: number,
+    lateMinutes: number,
+    trainerId?: string,
+  ): Promise<PersonalTrainingSessionEntity | null> {
+    const session = await this.prisma.personalTrainingSession.findFirst({
+      where: {
+        userId,
+        status: PersonalTrainingStatus.SCHEDULED,
+        startTime: {
+          gte: new Date(at.getTime() - lateMinutes * 60000),
+          lte: new Date(at.getTime() + earlyMinutes * 60000),
+        },
+        ...(trainerId && { trainerId }),
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return session ? this.mapToEntity(session) : null;
+  }
+
+  async cancel(id: string, reason?: string): Promise<PersonalTrainingSessionEntity | null> {
+    this.logger.log('Cancelling personal training session', { id, reason });
+
+    const result = await this.prisma.personalTrainingSession.updateMany({
+      where: { id, status: PersonalTrainingStatus.SCHEDULED },
+      data: {
+        status: PersonalTrainingStatus.CANCELLED,
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+      },
+    });
+
+    return result.count > 0 ? this.findById(id) : null;
+  }
+
+  /**
+   * Scheduled sessions that ended before the cutoff without being completed.
+   */
+  async findUnattended(endedBefore: Date, limit = 200): Promise<PersonalTrainingSessionEntity[]> {
+    const sessions = await this.prisma.personalTrainingSession.findMany({
+      where: { status: PersonalTrainingStatus.SCHEDULED, endTime: { lte: endedBefore } },
+      orderBy: { endTime: 'asc' },
+      take: limit,
+    });
+
+    return sessions.map(session => this.mapToEntity(session));
+  }
+
+  /**
+   * Marks a session the member did not attend; returns false if it was
+   * completed or cancelled in the meantime. The pack is not charged and its
+   * reservation is released.
+   */
+  async markNoShow(id: string): Promise<boolean> {
+    const result = await this.prisma.personalTrainingSession.updateMany({
+      where: { id, status: PersonalTrainingStatus.SCHEDULED },
+      data: { status: PersonalTrainingStatus.NO_SHOW },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Marks a session attended and uses up one session from its pack. Returns
+   * null when the session was no longer scheduled, so a pack is never
+   * charged twice.
+   */
+  async complete(id: string, attendanceId?: string): Promise<PersonalTrainingSessionEntity | null> {
+    this.logger.log('Completing personal training session', { id, attendanceId });
+
+    return this.prisma.$transaction(async (tx) => {
+      const result = await tx.personalTrainingSession.updateMany({
+        where: { id, status: PersonalTrainingStatus.SCHEDULED },
+        data: {
+          status: PersonalTrainingStatus.COMPLETED,
+          completedAt: new Date(),
+          attendanceId,
+        },
+      });
+
+      if (result.count === 0) {
+        return null;
+      }
+
+      const session = await tx.personalTrainingSession.findUnique({ where: { id } });
+      if (session.packId) {
+        await tx.sessionPack.updateMany({
+          where: { id: session.packId, remainingSessions: { gt: 0 } },
+          data: { remainingSessions: { decrement: 1 } },
+        });
+      }
+
+      return this.mapToEntity(session);
+    });
+  }
+
+  private mapToEntity(data: any): PersonalTrainingSessionEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      trainerId: data.trainerId,
+      userId: data.userId,
+      packId: data.packId,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      status: data.status,
+      attendanceId: data.attendanceId,
+      notes: data.notes,
+      bookedBy: data.bookedBy,
+      completedAt: data.completedAt,
+      cancelledAt: data.cancelledAt,
+      cancellationReason: data.cancellationReason,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
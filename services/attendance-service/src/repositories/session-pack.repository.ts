@@ -0,0 +1,81 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { SessionPackEntity, CreateSessionPackEntity } from '../entities/personal-training.entity';
+
+@Injectable()
+export class SessionPackRepository {
+  private readonly logger = new Logger(SessionPackRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateSessionPackEntity): Promise<SessionPackEntity> {
+    this.logger.log('Creating session pack', { userId: data.userId, totalSessions: data.totalSessions });
+
+    const pack = await this.prisma.sessionPack.create({ data });
+    return this.mapToEntity(pack);
+  }
+
+  async findById(id: string): Promise<SessionPackEntity | null> {
+    const pack = await this.prisma.sessionPack.findUnique({ where: { id } });
+    return pack ? this.mapToEntity(pack) : null;
+  }
+
+  async findByUser(userId: string, companyId?: string): Promise<SessionPackEntity[]> {
+    const packs = await this.prisma.sessionPack.findMany({
+      where: { userId, ...(companyId && { companyId }) },
+      orderBy: { purchasedAt: 'desc' },
+    });
+
+    return packs.map(pack => this.mapToEntity(pack));
+  }
+
+  /**
+   * Packs that could pay for a session with this trainer at `at`, soonest-expiring first.
+   */
+  async findUsable(userId: string, companyId: string, trainerId: string, at: Date): Promise<SessionPackEntity[]> {
+    const packs = await this.prisma.sessionPack.findMany({
+      where: {
+        userId,
+        companyId,
+        isActive: true,
+        remainingSessions: { gt: 0 },
+        AND: [
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: at } }] },
+          { OR: [{ trainerId: null }, { trainerId }] },
+        ],
+      },
+      orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { purchasedAt: 'asc' }],
+    });
+
+    return packs.map(pack => this.mapToEntity(pack));
+  }
+
+  async deactivate(id: string): Promise<SessionPackEntity> {
+    this.logger.log('Deactivating session pack', { id });
+
+    const pack = await this.prisma.sessionPack.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return this.mapToEntity(pack);
+  }
+
+  private mapToEntity(data: any): SessionPackEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      userId: data.userId,
+      trainerId: data.trainerId,
+      name: data.name,
+      totalSessions: data.totalSessions,
+      remainingSessions: data.remainingSessions,
+      purchasedAt: data.purchasedAt,
+      expiresAt: data.expiresAt,
+      isActive: data.isActive,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
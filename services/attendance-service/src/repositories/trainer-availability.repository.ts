@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  TrainerAvailabilityEntity,
+  CreateTrainerAvailabilityEntity,
+} from '../entities/personal-training.entity';
+
+@Injectable()
+export class TrainerAvailabilityRepository {
+  private readonly logger = new Logger(TrainerAvailabilityRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateTrainerAvailabilityEntity): Promise<TrainerAvailabilityEntity> {
+    this.logger.log('Creating trainer availability', { trainerId: data.trainerId, weekday: data.weekday });
+
+    const availability = await this.prisma.trainerAvailability.create({ data });
+    return this.mapToEntity(availability);
+  }
+
+  async findById(id: string): Promise<TrainerAvailabilityEntity | null> {
+    const availability = await this.prisma.trainerAvailability.findUnique({ where: { id } });
+    return availability ? this.mapToEntity(availability) : null;
+  }
+
+  async findByTrainer(trainerId: string, branchId?: string): Promise<TrainerAvailabilityEntity[]> {
+    const availability = await this.prisma.trainerAvailability.findMany({
+      where: { trainerId, isActive: true, ...(branchId && { branchId }) },
+      orderBy: [{ weekday: 'asc' }, { startMinute: 'asc' }],
+    });
+
+    return availability.map(window => this.mapToEntity(window));
+  }
+
+  /**
+   * Windows in effect at a branch on a given local weekday and date.
+   */
+  async findForDay(trainerId: string, branchId: string, weekday: number, at: Date): Promise<TrainerAvailabilityEntity[]> {
+    const availability = await this.prisma.trainerAvailability.findMany({
+      where: {
+        trainerId,
+        branchId,
+        weekday,
+        isActive: true,
+        AND: [
+          { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+          { OR: [{ validUntil: null }, { validUntil: { gte: at } }] },
+        ],
+      },
+      orderBy: { startMinute: 'asc' },
+    });
+
+    return availability.map(window => this.mapToEntity(window));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.logger.log('Deleting trainer availability', { id });
+    await this.prisma.trainerAvailability.delete({ where: { id } });
+  }
+
+  private mapToEntity(data: any): TrainerAvailabilityEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      trainerId: data.trainerId,
+      weekday: data.weekday,
+      startMinute: data.startMinute,
+      endMinute: data.endMinute,
+      validFrom: data.validFrom,
+      validUntil: data.validUntil,
+      isActive: data.isActive,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AttendanceType } from '@prisma/client';
+import { AccessDeviceRepository } from '../repositories/access-device.repository';
+import { GymAccessRepository } from '../repositories/gym-access.repository';
+import { AttendanceService } from './attendance.service';
+import { UserClientService } from './user-client.service';
+import { AccessDeviceEntity } from '../entities/access-device.entity';
+import { CreateGymAccessEntity } from '../entities/gym-access.entity';
+import { AccessDecisionDto, OfflineAccessUploadDto } from '../dto/access-control.dto';
+import { AccessDecision, AccessDenialReason, OfflineSyncResult } from '../types/access-control.types';
+import { canAccessBranch } from '../utils/member-access.util';
+
+/**
+ * Allow/deny decisions for turnstiles and readers, plus sync of entries they
+ * logged while offline.
+ */
+@Injectable()
+export class AccessControlService {
+  private readonly logger = new Logger(AccessControlService.name);
+
+  constructor(
+    private readonly accessDeviceRepository: AccessDeviceRepository,
+    private readonly gymAccessRepository: GymAccessRepository,
+    private readonly attendanceService: AttendanceService,
+    private readonly userClient: UserClientService,
+  ) {}
+
+  /**
+   * Decides on the request path and records the entry afterwards, so the
+   * device is not held open while attendance is written.
+   */
+  async decide(device: AccessDeviceEntity, decisionDto: AccessDecisionDto, ipAddress?: string): Promise<AccessDecision> {
+    const decidedAt = new Date();
+    const credential = await this.accessDeviceRepository.findCredential(
+      device.companyId,
+      decisionDto.method,
+      decisionDto.credentialId,
+    );
+
+    if (!credential) {
+      this.logger.warn('Unknown credential presented', { deviceId: device.id, method: decisionDto.method });
+      return { allowed: false, reason: AccessDenialReason.UNKNOWN_CREDENTIAL, decidedAt };
+    }
+
+    const reason = credential.isActive
+      ? await this.checkMembership(credential.userId, device)
+      : AccessDenialReason.CREDENTIAL_REVOKED;
+
+    const decision: AccessDecision = {
+      allowed: !reason,
+      reason,
+      userId: credential.userId,
+      decidedAt,
+    };
+
+    this.recordDecision(device, decisionDto, decision, ipAddress).catch(error =>
+      this.logger.error('Failed to record access decision', {
+        deviceId: device.id,
+        userId: credential.userId,
+        error: error.message,
+      }),
+    );
+
+    return decision;
+  }
+
+  /**
+   * Stores entries a device buffered during an outage. The device already
+   * made its decision, so entries go to the access log as-is; no check-in is
+   * opened for visits that may have ended long ago.
+   */
+  async syncOffline(device: AccessDeviceEntity, uploadDto: OfflineAccessUploadDto): Promise<OfflineSyncResult> {
+    this.logger.log('Syncing offline access entries', { deviceId: device.id, count: uploadDto.events.length });
+
+    const credentials = await this.accessDeviceRepository.findActiveCredentials(
+      device.companyId,
+      uploadDto.events.map(event => ({ method: event.method, credentialId: event.credentialId })),
+    );
+
+    const entries: CreateGymAccessEntity[] = [];
+    const rejected: OfflineSyncResult['rejected'] = [];
+
+    for (const event of uploadDto.events) {
+      const credential = credentials.get(`${event.method}:${event.credentialId}`);
+      if (!credential) {
+        rejected.push({ eventId: event.eventId, reason: AccessDenialReason.UNKNOWN_CREDENTIAL });
+        continue;
+      }
+
+      entries.push({
+        userId: credential.userId,
+        companyId: device.companyId,
+        branchId: device.branchId,
+        entryTime: new Date(event.occurredAt),
+        accessPoint: device.accessPoint,
+        method: event.method,
+        deviceId: device.id,
+        granted: event.granted,
+        offlineEventId: event.eventId,
+      });
+    }
+
+    const synced = await this.gymAccessRepository.createOfflineEntries(entries);
+
+    return {
+      received: uploadDto.events.length,
+      synced,
+      duplicates: entries.length - synced,
+      rejected,
+    };
+  }
+
+  private async checkMembership(userId: string, device: AccessDeviceEntity): Promise<AccessDenialReason | undefined> {
+    const profile = await this.userClient.getMemberProfile(userId);
+    if (!profile) {
+      return AccessDenialReason.MEMBERSHIP_UNVERIFIED;
+    }
+
+    if (profile.membershipStatus === 'FROZEN') {
+      return AccessDenialReason.MEMBERSHIP_FROZEN;
+    }
+
+    if (profile.membershipStatus !== 'ACTIVE') {
+      return AccessDenialReason.MEMBERSHIP_INACTIVE;
+    }
+
+    return canAccessBranch(profile, device.companyId, device.branchId) ? undefined : AccessDenialReason.BRANCH_NOT_ALLOWED;
+  }
+
+  private async recordDecision(
+    device: AccessDeviceEntity,
+    decisionDto: AccessDecisionDto,
+    decision: AccessDecision,
+    ipAddress?: string,
+  ): Promise<void> {
+    await this.gymAccessRepository.create({
+      userId: decision.userId,
+      companyId: device.companyId,
+      branchId: device.branchId,
+      entryTime: decision.decidedAt,
+      accessPoint: device.accessPoint,
+      method: decisionDto.method,
+      deviceId: device.id,
+      ipAddress,
+      granted: decision.allowed,
+      denialReason: decision.reason,
+    });
+
+    if (decision.allowed) {
+      await this.attendanceService.recordCheckIn({
+        userId: decision.userId,
+        companyId: device.companyId,
+        branchId: device.branchId,
+        checkInMethod: decisionDto.method,
+        type: AttendanceType.GYM,
+        deviceInfo: device.name,
+      }, { ipAddress });
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { AccessDeviceRepository } from '../repositories/access-device.repository';
+import { CompanyClientService } from './company-client.service';
+import { AccessDeviceEntity, AccessCredentialEntity } from '../entities/access-device.entity';
+import {
+  RegisterAccessDeviceDto,
+  AccessDeviceFiltersDto,
+  CreateAccessCredentialDto,
+} from '../dto/access-control.dto';
+import { IssuedDeviceKey } from '../types/access-control.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { assertCanAccessCompany, resolveCompanyScope } from '../utils/tenant-access.util';
+
+const DEVICE_CACHE_TTL = 60 * 1000; // 1 minute
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Device registration, per-device API keys and member credentials.
+ *
+ * A device key is `<prefix>.<secret>`; the prefix is stored in clear for lookup
+ * and the full key only as a SHA-256 hash.
+ */
+@Injectable()
+export class AccessDeviceService {
+  private readonly logger = new Logger(AccessDeviceService.name);
+
+  constructor(
+    private readonly accessDeviceRepository: AccessDeviceRepository,
+    private readonly companyClient: CompanyClientService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  // ===================
+  // DEVICES
+  // ===================
+
+  async registerDevice(registerDto: RegisterAccessDeviceDto, caller: AuthenticatedUser): Promise<IssuedDeviceKey> {
+    this.logger.log('Registering access device', { branchId: registerDto.branchId, name: registerDto.name });
+
+    assertCanAccessCompany(caller, registerDto.companyId);
+
+    const branch = await this.companyClient.getBranch(registerDto.branchId);
+    if (!branch) {
+      throw new ServiceUnavailableException('Branch could not be verified');
+    }
+
+    if (branch.companyId !== registerDto.companyId) {
+      throw new BadRequestException('Branch does not belong to this company');
+    }
+
+    const { apiKey, apiKeyPrefix, apiKeyHash } = this.generateApiKey();
+    const device = await this.accessDeviceRepository.create({
+      companyId: registerDto.companyId,
+      branchId: registerDto.branchId,
+      name: registerDto.name,
+      type: registerDto.type,
+      accessPoint: registerDto.accessPoint,
+      apiKeyPrefix,
+      apiKeyHash,
+      createdBy: caller.id,
+    });
+
+    return { device, apiKey };
+  }
+
+  async getDevice(id: string, caller: AuthenticatedUser): Promise<AccessDeviceEntity> {
+    const device = await this.accessDeviceRepository.findById(id);
+    if (!device) {
+      throw new NotFoundException(`Access device with ID ${id} not found`);
+    }
+
+    assertCanAccessCompany(caller, device.companyId);
+    return device;
+  }
+
+  /**
+   * Company staff only see their own company's devices.
+   */
+  async getDevices(filters: AccessDeviceFiltersDto, caller: AuthenticatedUser): Promise<AccessDeviceEntity[]> {
+    return this.accessDeviceRepository.findAll({ ...filters, companyId: resolveCompanyScope(caller, filters.companyId) });
+  }
+
+  async rotateDeviceKey(id: string, caller: AuthenticatedUser): Promise<IssuedDeviceKey> {
+    const existing = await this.getDevice(id, caller);
+    const { apiKey, apiKeyPrefix, apiKeyHash } = this.generateApiKey();
+
+    const device = await this.accessDeviceRepository.updateApiKey(id, apiKeyPrefix, apiKeyHash);
+    await this.cacheManager.del(this.deviceCacheKey(existing.apiKeyPrefix));
+
+    return { device, apiKey };
+  }
+
+  async setDeviceActive(id: string, isActive: boolean, caller: AuthenticatedUser): Promise<AccessDeviceEntity> {
+    const existing = await this.getDevice(id, caller);
+
+    const device = await this.accessDeviceRepository.setActive(id, isActive);
+    await this.cacheManager.del(this.deviceCacheKey(existing.apiKeyPrefix));
+
+    return device;
+  }
+
+  /**
+   * Resolves a device from its API key; null when the key is unknown, wrong
+   * or belongs to a deactivated device.
+   */
+  async authenticateDevice(apiKey: string): Promise<AccessDeviceEntity | null> {
+    const [apiKeyPrefix, secret] = apiKey.split('.');
+    if (!apiKeyPrefix || !secret) {
+      return null;
+    }
+
+    const cacheKey = this.deviceCacheKey(apiKeyPrefix);
+    let record = await this.cacheManager.get<{ device: AccessDeviceEntity; apiKeyHash: string }>(cacheKey);
+    if (!record) {
+      record = await this.accessDeviceRepository.findByKeyPrefix(apiKeyPrefix);
+      if (!record) {
+        return null;
+      }
+      await this.cacheManager.set(cacheKey, record, DEVICE_CACHE_TTL);
+    }
+
+    const expected = Buffer.from(record.apiKeyHash, 'hex');
+    const actual = this.hashApiKey(apiKey);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    if (!record.device.isActive) {
+      return null;
+    }
+
+    this.markSeen(record.device);
+    return record.device;
+  }
+
+  // ===================
+  // CREDENTIALS
+  // ===================
+
+  async issueCredential(createDto: CreateAccessCredentialDto, caller: AuthenticatedUser): Promise<AccessCredentialEntity> {
+    this.logger.log('Issuing access credential', { userId: createDto.userId, method: createDto.method });
+    assertCanAccessCompany(caller, createDto.companyId);
+
+    const existing = await this.accessDeviceRepository.findCredential(
+      createDto.companyId,
+      createDto.method,
+      createDto.credentialId,
+    );
+
+    if (existing?.isActive) {
+      throw new ConflictException('Credential is already assigned to a member');
+    }
+
+    if (existing) {
+      return this.accessDeviceRepository.reissueCredential(existing.id, createDto);
+    }
+
+    return this.accessDeviceRepository.createCredential(createDto);
+  }
+
+  async getCredentials(userId: string, caller: AuthenticatedUser, companyId?: string): Promise<AccessCredentialEntity[]> {
+    return this.accessDeviceRepository.findCredentialsByUser(userId, resolveCompanyScope(caller, companyId));
+  }
+
+  async revokeCredential(id: string, caller: AuthenticatedUser): Promise<AccessCredentialEntity> {
+    const credential = await this.accessDeviceRepository.findCredentialById(id);
+    if (!credential) {
+      throw new NotFoundException(`Access credential with ID ${id} not found`);
+    }
+
+    assertCanAccessCompany(caller, credential.companyId);
+
+    if (!credential.isActive) {
+      throw new BadRequestException('Credential has already been revoked');
+    }
+
+    return this.accessDeviceRepository.revokeCredential(id);
+  }
+
+  private generateApiKey(): { apiKey: string; apiKeyPrefix: string; apiKeyHash: string } {
+    const apiKeyPrefix = randomBytes(6).toString('hex');
+    const apiKey = `${apiKeyPrefix}.${randomBytes(32).toString('base64url')}`;
+
+    return { apiKey, apiKeyPrefix, apiKeyHash: this.hashApiKey(apiKey).toString('hex') };
+  }
+
+  private hashApiKey(apiKey: string): Buffer {
+    return createHash('sha256').update(apiKey).digest();
+  }
+
+  private deviceCacheKey(apiKeyPrefix: string): string {
+    return `access:device:${apiKeyPrefix}`;
+  }
+
+  /**
+   * Heartbeat bookkeeping stays off the request path and is written at most
+   * once a minute per device.
+   */
+  private markSeen(device: AccessDeviceEntity): void {
+    const now = new Date();
+    if (device.lastSeenAt && now.getTime() - new Date(device.lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) {
+      return;
+    }
+
+    device.lastSeenAt = now;
+    this.accessDeviceRepository.touch(device.id, now).catch(error =>
+      this.logger.warn('Failed to update device heartbeat', { deviceId: device.id, error: error.message }),
+    );
+  }
+}
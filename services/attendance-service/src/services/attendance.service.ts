@@ -0,0 +1,327 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { AttendanceType, AttendanceStatus, ClassAttendanceStatus } from '@prisma/client';
+import { AttendanceRepository } from '../repositories/attendance.repository';
+import { ClassAttendanceRepository } from '../repositories/class-attendance.repository';
+import { ClassBookingRepository } from '../repositories/class-booking.repository';
+import { ClassScheduleRepository } from '../repositories/class-schedule.repository';
+import { OccupancyService } from './occupancy.service';
+import { PersonalTrainingService } from './personal-training.service';
+import { EngagementService } from './engagement.service';
+import { UserClientService } from './user-client.service';
+import { CompanyClientService } from './company-client.service';
+import { AttendanceEntity } from '../entities/attendance.entity';
+import { CheckInDto, CheckOutDto, AttendanceFiltersDto, MemberVisitsQueryDto } from '../dto/attendance.dto';
+import { AuthenticatedUser, CheckInContext, MemberVisitCount, PaginatedAttendance } from '../types/attendance.types';
+import { canAccessBranch } from '../utils/member-access.util';
+import { assertCanAccessCompany, canAccessCompany, resolveCompanyScope } from '../utils/tenant-access.util';
+
+@Injectable()
+export class AttendanceService {
+  private readonly logger = new Logger(AttendanceService.name);
+
+  constructor(
+    private readonly attendanceRepository: AttendanceRepository,
+    private readonly classAttendanceRepository: ClassAttendanceRepository,
+    private readonly classBookingRepository: ClassBookingRepository,
+    private readonly classScheduleRepository: ClassScheduleRepository,
+    private readonly occupancyService: OccupancyService,
+    private readonly personalTrainingService: PersonalTrainingService,
+    private readonly engagementService: EngagementService,
+    private readonly userClient: UserClientService,
+    private readonly companyClient: CompanyClientService,
+  ) {}
+
+  // ===================
+  // CHECK IN / CHECK OUT
+  // ===================
+
+  /**
+   * Staff check-ins are not held up when user-service cannot be reached,
+   * but a frozen membership or a branch outside its scope is turned away.
+   * Staff may only check members in at their own company's branches; without
+   * a caller the branch was verified upstream, as in mobile check-in.
+   */
+  async checkIn(
+    checkInDto: CheckInDto,
+    context: CheckInContext = {},
+    caller?: AuthenticatedUser,
+  ): Promise<AttendanceEntity> {
+    if (caller) {
+      await this.assertCanCheckInAt(checkInDto, caller);
+    }
+
+    const profile = await this.userClient.getMemberProfile(checkInDto.userId);
+    if (profile?.membershipStatus === 'FROZEN') {
+      throw new ForbiddenException('Membership is frozen');
+    }
+
+    if (profile && !canAccessBranch(profile, checkInDto.companyId, checkInDto.branchId)) {
+      throw new ForbiddenException('Membership does not include this branch');
+    }
+
+    const { attendance, created } = await this.recordCheckIn(checkInDto, context);
+
+    if (!created) {
+      throw new ConflictException(
+        `Member is already checked in at branch ${attendance.branchId} since ${attendance.checkInTime.toISOString()}`,
+      );
+    }
+
+    return attendance;
+  }
+
+  /**
+   * Opens a check-in unless the member already has one; the open record is
+   * returned either way so access points can let re-entries through.
+   */
+  async recordCheckIn(
+    checkInDto: CheckInDto,
+    context: CheckInContext = {},
+  ): Promise<{ attendance: AttendanceEntity; created: boolean }> {
+    this.logger.log('Checking in member', {
+      userId: checkInDto.userId,
+      branchId: checkInDto.branchId,
+      method: checkInDto.checkInMethod,
+    });
+
+    const { attendance, created } = await this.attendanceRepository.createCheckIn({
+      userId: checkInDto.userId,
+      companyId: checkInDto.companyId,
+      branchId: checkInDto.branchId,
+      subscriptionId: checkInDto.subscriptionId,
+      classId: checkInDto.classId,
+      trainerId: checkInDto.trainerId,
+      type: checkInDto.type || AttendanceType.GYM,
+      status: AttendanceStatus.CHECKED_IN,
+      checkInTime: new Date(),
+      checkInMethod: checkInDto.checkInMethod,
+      ipAddress: context.ipAddress,
+      deviceInfo: checkInDto.deviceInfo,
+      location: checkInDto.location,
+      temperature: checkInDto.temperature,
+      notes: checkInDto.notes,
+      checkedInBy: context.staffId && context.staffId !== checkInDto.userId ? context.staffId : undefined,
+    });
+
+    if (!created) {
+      return { attendance, created };
+    }
+
+    if (attendance.classId) {
+      await this.recordClassPresence(attendance);
+    }
+
+    if (attendance.type === AttendanceType.PERSONAL_TRAINING) {
+      await this.personalTrainingService.recordAttendance(attendance);
+    }
+
+    this.evaluateOccupancyAlerts(attendance.branchId);
+    this.updateEngagement(attendance);
+
+    this.logger.log('Member checked in successfully', {
+      attendanceId: attendance.id,
+      userId: attendance.userId,
+    });
+
+    return { attendance, created };
+  }
+
+  async checkOut(
+    id: string,
+    checkOutDto: CheckOutDto,
+    caller: AuthenticatedUser,
+    context: CheckInContext = {},
+  ): Promise<AttendanceEntity> {
+    this.logger.log('Checking out attendance', { id, method: checkOutDto.checkOutMethod });
+
+    const attendance = await this.getAttendance(id, caller);
+
+    return this.closeAttendance(attendance, checkOutDto, context);
+  }
+
+  async checkOutMember(
+    userId: string,
+    checkOutDto: CheckOutDto,
+    caller: AuthenticatedUser,
+    context: CheckInContext = {},
+  ): Promise<AttendanceEntity> {
+    this.logger.log('Checking out member', { userId, method: checkOutDto.checkOutMethod });
+
+    const attendance = await this.attendanceRepository.findOpenByUser(userId);
+    if (!attendance) {
+      throw new NotFoundException('Member has no open check-in');
+    }
+
+    assertCanAccessCompany(caller, attendance.companyId);
+
+    return this.closeAttendance(attendance, checkOutDto, context);
+  }
+
+  // ===================
+  // QUERIES
+  // ===================
+
+  async getAttendance(id: string, caller: AuthenticatedUser): Promise<AttendanceEntity> {
+    this.logger.log('Getting attendance', { id });
+
+    const attendance = await this.attendanceRepository.findById(id);
+    if (!attendance) {
+      throw new NotFoundException(`Attendance with ID ${id} not found`);
+    }
+
+    assertCanAccessCompany(caller, attendance.companyId);
+    return attendance;
+  }
+
+  /**
+   * A check-in open at another company is not reported.
+   */
+  async getOpenCheckIn(userId: string, caller: AuthenticatedUser): Promise<AttendanceEntity | null> {
+    this.logger.log('Getting open check-in', { userId });
+
+    const attendance = await this.attendanceRepository.findOpenByUser(userId);
+    return attendance && canAccessCompany(caller, attendance.companyId) ? attendance : null;
+  }
+
+  /**
+   * Visits of the member to the company's branches since the given time;
+   * user-service reads this for visit goals.
+   */
+  async countMemberVisits(query: MemberVisitsQueryDto): Promise<MemberVisitCount> {
+    const since = new Date(query.since);
+    const visits = await this.attendanceRepository.countMemberVisits(query.userId, query.companyId, since);
+
+    return {
+      userId: query.userId,
+      companyId: query.companyId,
+      since,
+      visits,
+    };
+  }
+
+  async getAttendances(filters: AttendanceFiltersDto, caller: AuthenticatedUser): Promise<PaginatedAttendance<AttendanceEntity>> {
+    this.logger.log('Getting attendance records', { filters });
+
+    const startDate = filters.startDate ? new Date(filters.startDate) : undefined;
+    const endDate = filters.endDate ? this.endOfDayIfDateOnly(filters.endDate) : undefined;
+
+    if (startDate && endDate && startDate > endDate) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    return this.attendanceRepository.findAll({
+      userId: filters.userId,
+      companyId: resolveCompanyScope(caller, filters.companyId),
+      branchId: filters.branchId,
+      type: filters.type,
+      status: filters.status,
+      checkInMethod: filters.checkInMethod,
+      startDate,
+      endDate,
+      page: filters.page,
+      limit: filters.limit,
+    });
+  }
+
+  private async assertCanCheckInAt(checkInDto: CheckInDto, caller: AuthenticatedUser): Promise<void> {
+    assertCanAccessCompany(caller, checkInDto.companyId);
+
+    const branch = await this.companyClient.getBranch(checkInDto.branchId);
+    if (!branch) {
+      throw new ServiceUnavailableException('Branch could not be verified');
+    }
+
+    if (branch.companyId !== checkInDto.companyId) {
+      throw new BadRequestException('Branch does not belong to this company');
+    }
+  }
+
+  private async closeAttendance(
+    attendance: AttendanceEntity,
+    checkOutDto: CheckOutDto,
+    context: CheckInContext,
+  ): Promise<AttendanceEntity> {
+    if (attendance.status !== AttendanceStatus.CHECKED_IN) {
+      throw new BadRequestException(`Attendance is not open (status: ${attendance.status})`);
+    }
+
+    const checkOutTime = new Date();
+    const closed = await this.attendanceRepository.closeCheckIn(attendance.id, {
+      checkOutTime,
+      duration: this.calculateDuration(attendance.checkInTime, checkOutTime),
+      checkOutMethod: checkOutDto.checkOutMethod,
+      staffNotes: checkOutDto.staffNotes,
+      checkedOutBy: context.staffId && context.staffId !== attendance.userId ? context.staffId : undefined,
+    });
+
+    if (!closed) {
+      throw new ConflictException('Attendance was already checked out');
+    }
+
+    this.logger.log('Member checked out successfully', {
+      attendanceId: closed.id,
+      duration: closed.duration,
+    });
+
+    this.evaluateOccupancyAlerts(closed.branchId);
+
+    return closed;
+  }
+
+  private calculateDuration(checkInTime: Date, checkOutTime: Date): number {
+    return Math.max(0, Math.round((checkOutTime.getTime() - checkInTime.getTime()) / 60000));
+  }
+
+  private endOfDayIfDateOnly(value: string): Date {
+    const date = new Date(value);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+
+  /**
+   * Marks the member present for the class they checked in for, so the
+   * no-show job does not penalise their booking.
+   */
+  private async recordClassPresence(attendance: AttendanceEntity): Promise<void> {
+    const schedule = await this.classScheduleRepository.findById(attendance.classId);
+    if (!schedule || schedule.isRecurring) {
+      return;
+    }
+
+    const booking = await this.classBookingRepository.findActiveByUserAndClass(attendance.userId, schedule.id);
+
+    await this.classAttendanceRepository.recordPresence({
+      userId: attendance.userId,
+      classId: schedule.id,
+      bookingId: booking?.id,
+      checkInTime: attendance.checkInTime,
+      status: attendance.checkInTime > schedule.startTime ? ClassAttendanceStatus.LATE : ClassAttendanceStatus.PRESENT,
+      markedBy: attendance.checkedInBy,
+    });
+  }
+
+  /**
+   * Runs after the response-critical work; alert failures never fail a check-in.
+   */
+  private evaluateOccupancyAlerts(branchId: string): void {
+    this.occupancyService.evaluateAlerts(branchId).catch(error =>
+      this.logger.error('Occupancy alert evaluation failed', { branchId, error: error.message }),
+    );
+  }
+
+  private updateEngagement(attendance: AttendanceEntity): void {
+    this.engagementService.recompute(attendance.userId, attendance.companyId).catch(error =>
+      this.logger.error('Engagement update failed', { userId: attendance.userId, error: error.message }),
+    );
+  }
+}
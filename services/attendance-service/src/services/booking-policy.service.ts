@@ -0,0 +1,169 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { BookingPenaltyRepository } from '../repositories/booking-penalty.repository';
+import { CompanyClientService } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { BookingBanEntity, BookingStrikeEntity } from '../entities/booking-penalty.entity';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY, StrikeRecord } from '../types/booking-policy.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { assertCanAccessCompany, resolveCompanyScope } from '../utils/tenant-access.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class BookingPolicyService {
+  private readonly logger = new Logger(BookingPolicyService.name);
+
+  constructor(
+    private readonly bookingPenaltyRepository: BookingPenaltyRepository,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  /**
+   * Company policy merged over the defaults. Non-numeric or negative values
+   * in settings are ignored rather than trusted. Staff callers may only read
+   * their own company's policy.
+   */
+  async getPolicy(companyId: string, caller?: AuthenticatedUser): Promise<BookingPolicy> {
+    if (caller) {
+      assertCanAccessCompany(caller, companyId);
+    }
+
+    const company = await this.companyClient.getCompany(companyId);
+    const overrides = company?.settings?.bookingPolicy ?? {};
+
+    const policy = { ...DEFAULT_BOOKING_POLICY };
+    for (const key of Object.keys(DEFAULT_BOOKING_POLICY) as (keyof BookingPolicy)[]) {
+      this.applyOverride(policy, key, overrides[key]);
+    }
+
+    return policy;
+  }
+
+  async assertCanBook(userId: string, companyId: string): Promise<void> {
+    const ban = await this.bookingPenaltyRepository.findActiveBan(userId, companyId);
+    if (ban) {
+      throw new ForbiddenException(`Booking is suspended until ${ban.endsAt.toISOString()}`);
+    }
+  }
+
+  /**
+   * Late cancellations are measured against the class start; cancelling
+   * before the window opens is always free.
+   */
+  isLateCancellation(policy: BookingPolicy, classStart: Date, cancelledAt = new Date()): boolean {
+    const minutesBeforeStart = (classStart.getTime() - cancelledAt.getTime()) / 60000;
+    return minutesBeforeStart < policy.lateCancellationWindowMinutes;
+  }
+
+  /**
+   * Records strikes for one company and bans every affected member who has
+   * reached the limit. Returns the bans that were issued.
+   */
+  async recordStrikes(companyId: string, strikes: StrikeRecord[], policy?: BookingPolicy): Promise<BookingBanEntity[]> {
+    const created = await this.bookingPenaltyRepository.createStrikes(strikes);
+    if (created === 0) {
+      return [];
+    }
+
+    const effectivePolicy = policy ?? (await this.getPolicy(companyId));
+    const userIds = [...new Set(strikes.map(strike => strike.userId))];
+    const bans: BookingBanEntity[] = [];
+
+    for (const userId of userIds) {
+      const ban = await this.evaluateBan(userId, companyId, effectivePolicy);
+      if (ban) {
+        bans.push(ban);
+      }
+    }
+
+    return bans;
+  }
+
+  /**
+   * The member's own penalties in any company, or, for staff looking up a
+   * member, the penalties in their company.
+   */
+  async getPenalties(
+    userId: string,
+    caller: AuthenticatedUser,
+    requestedCompanyId?: string,
+  ): Promise<{ strikes: BookingStrikeEntity[]; bans: BookingBanEntity[]; activeBan: BookingBanEntity | null }> {
+    const companyId = userId === caller.id ? requestedCompanyId : resolveCompanyScope(caller, requestedCompanyId);
+
+    const [strikes, bans] = await Promise.all([
+      this.bookingPenaltyRepository.findStrikes(userId, companyId),
+      this.bookingPenaltyRepository.findBans(userId, companyId),
+    ]);
+
+    const now = new Date();
+    const activeBan = bans.find(ban => !ban.liftedAt && ban.startsAt <= now && ban.endsAt > now) ?? null;
+
+    return { strikes, bans, activeBan };
+  }
+
+  async liftBan(id: string, caller: AuthenticatedUser): Promise<BookingBanEntity> {
+    const ban = await this.bookingPenaltyRepository.findBanById(id);
+    if (!ban) {
+      throw new NotFoundException(`Booking ban with ID ${id} not found`);
+    }
+
+    assertCanAccessCompany(caller, ban.companyId);
+
+    if (ban.liftedAt) {
+      throw new BadRequestException('Booking ban has already been lifted');
+    }
+
+    return this.bookingPenaltyRepository.liftBan(id, caller.id);
+  }
+
+  private applyOverride<K extends keyof BookingPolicy>(policy: BookingPolicy, key: K, value: unknown): void {
+    const fallback = DEFAULT_BOOKING_POLICY[key];
+    if (typeof value === typeof fallback && (typeof value !== 'number' || value >= 0)) {
+      policy[key] = value as BookingPolicy[K];
+    }
+  }
+
+  private async evaluateBan(userId: string, companyId: string, policy: BookingPolicy): Promise<BookingBanEntity | null> {
+    if (policy.strikeLimit <= 0) {
+      return null;
+    }
+
+    const now = new Date();
+    const existing = await this.bookingPenaltyRepository.findActiveBan(userId, companyId, now);
+    if (existing) {
+      return null;
+    }
+
+    // Only strikes after the most recent ban count towards the next one
+    const [lastBan] = await this.bookingPenaltyRepository.findBans(userId, companyId);
+    const windowStart = new Date(now.getTime() - policy.strikeWindowDays * DAY_MS);
+    const since = lastBan && lastBan.createdAt > windowStart ? lastBan.createdAt : windowStart;
+
+    const strikeCount = await this.bookingPenaltyRepository.countStrikesSince(userId, companyId, since);
+    if (strikeCount < policy.strikeLimit) {
+      return null;
+    }
+
+    const ban = await this.bookingPenaltyRepository.createBan({
+      userId,
+      companyId,
+      startsAt: now,
+      endsAt: new Date(now.getTime() + policy.banDurationDays * DAY_MS),
+      strikeCount,
+      reason: `${strikeCount} strikes within ${policy.strikeWindowDays} days`,
+    });
+
+    this.logger.warn('Member banned from booking', { userId, companyId, banId: ban.id, endsAt: ban.endsAt });
+
+    await this.notificationClient.publish('class.booking.banned', {
+      banId: ban.id,
+      userId,
+      companyId,
+      strikeCount,
+      endsAt: ban.endsAt,
+    });
+
+    return ban;
+  }
+}
@@ -0,0 +1,283 @@
+import { Injectable, Logger, Inject, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { ClassBookingStatus, PersonalTrainingStatus } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { CalendarFeedRepository } from '../repositories/calendar-feed.repository';
+import { ClassBookingRepository } from '../repositories/class-booking.repository';
+import { ClassScheduleRepository } from '../repositories/class-schedule.repository';
+import { PersonalTrainingRepository } from '../repositories/personal-training.repository';
+import { ClassScheduleService } from './class-schedule.service';
+import { CompanyClientService } from './company-client.service';
+import { ClassScheduleEntity } from '../entities/class-schedule.entity';
+import { PersonalTrainingSessionEntity } from '../entities/personal-training.entity';
+import { CalendarFeedKind, CalendarFeedLinks, CalendarFeedStatus } from '../types/calendar-feed.types';
+import { buildICalendar, formatRecurrenceRule, ICalEvent, ICalEventStatus } from '../utils/ical.util';
+import { expandRecurrence } from '../utils/recurrence.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const UID_DOMAIN = 'attendance.devsfit';
+
+/**
+ * Subscribable iCalendar feeds. Calendar apps cannot send a JWT, so each
+ * user gets a secret URL token that can be rotated or revoked.
+ */
+@Injectable()
+export class CalendarFeedService {
+  private readonly logger = new Logger(CalendarFeedService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly calendarFeedRepository: CalendarFeedRepository,
+    private readonly classBookingRepository: ClassBookingRepository,
+    private readonly classScheduleRepository: ClassScheduleRepository,
+    private readonly personalTrainingRepository: PersonalTrainingRepository,
+    private readonly classScheduleService: ClassScheduleService,
+    private readonly companyClient: CompanyClientService,
+  ) {}
+
+  // ===================
+  // FEED TOKENS
+  // ===================
+
+  async getStatus(userId: string): Promise<CalendarFeedStatus> {
+    const feed = await this.calendarFeedRepository.findByUser(userId);
+
+    return {
+      enabled: !!feed,
+      issuedAt: feed?.updatedAt,
+      lastAccessedAt: feed?.lastAccessedAt,
+    };
+  }
+
+  /**
+   * Issues a new token, replacing any previous one.
+   */
+  async issue(userId: string): Promise<CalendarFeedLinks> {
+    const token = randomBytes(32).toString('base64url');
+    await this.calendarFeedRepository.upsert(userId, this.hashToken(token));
+
+    const baseUrl = this.configService.get<string>(
+      'CALENDAR_FEED_BASE_URL',
+      `http://localhost:${this.configService.get('PORT', 3000)}/api/v1`,
+    );
+
+    return {
+      token,
+      bookingsUrl: `${baseUrl}/public/calendar-feeds/${token}/${CalendarFeedKind.BOOKINGS}.ics`,
+      scheduleUrl: `${baseUrl}/public/calendar-feeds/${token}/${CalendarFeedKind.SCHEDULE}.ics`,
+    };
+  }
+
+  async revoke(userId: string): Promise<void> {
+    const deleted = await this.calendarFeedRepository.deleteByUser(userId);
+    if (deleted === 0) {
+      throw new NotFoundException('Calendar feed is not enabled');
+    }
+  }
+
+  // ===================
+  // FEEDS
+  // ===================
+
+  async render(token: string, kind: CalendarFeedKind): Promise<string> {
+    const feed = await this.calendarFeedRepository.findByTokenHash(this.hashToken(token));
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const now = new Date();
+    this.calendarFeedRepository.markAccessed(feed.id, now).catch(error =>
+      this.logger.error('Failed to record calendar feed access', { feedId: feed.id, error: error.message }),
+    );
+
+    const cacheKey = `calendar-feed:${feed.id}:${kind}`;
+    const cached = await this.cacheManager.get<string>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const from = new Date(now.getTime() - Number(this.configService.get('CALENDAR_FEED_PAST_DAYS', 30)) * DAY_MS);
+    const to = new Date(now.getTime() + Number(this.configService.get('CALENDAR_FEED_FUTURE_DAYS', 90)) * DAY_MS);
+
+    const calendar =
+      kind === CalendarFeedKind.BOOKINGS
+        ? buildICalendar('My bookings', await this.buildBookingEvents(feed.userId, from, to), now)
+        : buildICalendar('My teaching schedule', await this.buildScheduleEvents(feed.userId, from, to), now);
+
+    await this.cacheManager.set(cacheKey, calendar, FEED_CACHE_TTL);
+    return calendar;
+  }
+
+  private async buildBookingEvents(userId: string, from: Date, to: Date): Promise<ICalEvent[]> {
+    const [bookings, sessions] = await Promise.all([
+      this.classBookingRepository.findByUserForClassesBetween(userId, from, to),
+      this.personalTrainingRepository.findAll({ userId, from, to }),
+    ]);
+
+    const classes = await this.classScheduleRepository.findByIds([...new Set(bookings.map(booking => booking.classId))]);
+    const classesById = new Map(classes.map(schedule => [schedule.id, schedule]));
+    const events: ICalEvent[] = [];
+
+    for (const booking of bookings) {
+      const schedule = classesById.get(booking.classId);
+      if (!schedule) {
+        continue;
+      }
+
+      const waitlisted = booking.status === ClassBookingStatus.WAITLISTED || booking.status === ClassBookingStatus.PENDING;
+      const cancelled = booking.status === ClassBookingStatus.CANCELLED || schedule.isCancelled;
+
+      events.push({
+        ...(await this.describeClass(schedule)),
+        uid: `booking-${booking.id}@${UID_DOMAIN}`,
+        start: schedule.startTime,
+        end: schedule.endTime,
+        summary: waitlisted ? `${schedule.className} (waitlist)` : schedule.className,
+        status: cancelled
+          ? ICalEventStatus.CANCELLED
+          : waitlisted
+            ? ICalEventStatus.TENTATIVE
+            : ICalEventStatus.CONFIRMED,
+        lastModified: booking.updatedAt > schedule.updatedAt ? booking.updatedAt : schedule.updatedAt,
+      });
+    }
+
+    for (const session of sessions) {
+      events.push(await this.toPersonalTrainingEvent(session));
+    }
+
+    return events;
+  }
+
+  /**
+   * Recurring series become one RRULE event each. Occurrences that were
+   * moved or cancelled are written as overrides, and ones handed to another
+   * trainer are excluded with EXDATE.
+   */
+  private async buildScheduleEvents(trainerId: string, from: Date, to: Date): Promise<ICalEvent[]> {
+    const [sessions, templates, ptSessions] = await Promise.all([
+      this.classScheduleService.findSessions({ trainerId, from, to, includeCancelled: true }),
+      this.classScheduleRepository.findRecurringTemplates({ trainerId, from, to }),
+      this.personalTrainingRepository.findAll({ trainerId, from, to }),
+    ]);
+
+    const occurrences = await this.classScheduleRepository.findOccurrencesOf(
+      templates.map(template => template.id),
+      from,
+      to,
+    );
+    const events: ICalEvent[] = [];
+    const coveredIds = new Set<string>();
+
+    for (const template of templates) {
+      const timezone = await this.companyClient.getBranchTimezone(template.branchId);
+      // The series is published from the start of the feed window, like the one-off events
+      const [firstStart] = expandRecurrence(template, from, new Date(from.getTime() + 366 * DAY_MS), timezone);
+      if (!firstStart) {
+        continue;
+      }
+
+      const uid = `class-${template.id}@${UID_DOMAIN}`;
+      const details = await this.describeClass(template);
+      const own = occurrences.filter(occurrence => occurrence.parentScheduleId === template.id);
+      own.forEach(occurrence => coveredIds.add(occurrence.id));
+
+      events.push({
+        ...details,
+        uid,
+        start: firstStart,
+        end: new Date(firstStart.getTime() + template.duration * 60000),
+        summary: template.className,
+        timezone,
+        rrule: formatRecurrenceRule(template, timezone),
+        exdates: own
+          .filter(occurrence => occurrence.trainerId !== trainerId && occurrence.occurrenceDate >= firstStart)
+          .map(occurrence => occurrence.occurrenceDate),
+        lastModified: template.updatedAt,
+      });
+
+      for (const occurrence of own) {
+        if (occurrence.trainerId !== trainerId || occurrence.occurrenceDate < firstStart) {
+          continue;
+        }
+
+        const moved =
+          occurrence.startTime.getTime() !== occurrence.occurrenceDate.getTime() ||
+          occurrence.duration !== template.duration ||
+          occurrence.roomNumber !== template.roomNumber;
+
+        if (moved || occurrence.isCancelled) {
+          events.push({
+            ...(await this.describeClass(occurrence)),
+            uid,
+            start: occurrence.startTime,
+            end: occurrence.endTime,
+            summary: occurrence.className,
+            timezone,
+            recurrenceId: occurrence.occurrenceDate,
+            status: occurrence.isCancelled ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED,
+            lastModified: occurrence.updatedAt,
+          });
+        }
+      }
+    }
+
+    for (const session of sessions) {
+      if (coveredIds.has(session.id)) {
+        continue;
+      }
+
+      events.push({
+        ...(await this.describeClass(session)),
+        uid: `class-${session.id}@${UID_DOMAIN}`,
+        start: session.startTime,
+        end: session.endTime,
+        summary: session.className,
+        status: session.isCancelled ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED,
+        lastModified: session.updatedAt,
+      });
+    }
+
+    for (const session of ptSessions) {
+      events.push(await this.toPersonalTrainingEvent(session));
+    }
+
+    return events;
+  }
+
+  private async toPersonalTrainingEvent(session: PersonalTrainingSessionEntity): Promise<ICalEvent> {
+    const branch = await this.companyClient.getBranch(session.branchId);
+
+    return {
+      uid: `pt-${session.id}@${UID_DOMAIN}`,
+      start: session.startTime,
+      end: session.endTime,
+      summary: 'Personal training',
+      description: session.notes,
+      location: branch?.name,
+      status: session.status === PersonalTrainingStatus.CANCELLED ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED,
+      lastModified: session.updatedAt,
+    };
+  }
+
+  private async describeClass(schedule: ClassScheduleEntity): Promise<Pick<ICalEvent, 'description' | 'location'>> {
+    const branch = await this.companyClient.getBranch(schedule.branchId);
+    const location = [branch?.name, schedule.roomNumber && `Room ${schedule.roomNumber}`].filter(Boolean).join(', ');
+    const description = [schedule.description, schedule.isCancelled && schedule.cancellationReason]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return {
+      description: description || undefined,
+      location: location || undefined,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ClassBookingStatus, BookingStrikeReason } from '@prisma/client';
+import { ClassBookingRepository } from '../repositories/class-booking.repository';
+import { ClassScheduleRepository } from '../repositories/class-schedule.repository';
+import { NotificationClientService } from './notification-client.service';
+import { BookingPolicyService } from './booking-policy.service';
+import { ClassBookingEntity } from '../entities/class-booking.entity';
+import { ClassScheduleEntity } from '../entities/class-schedule.entity';
+import {
+  CreateClassBookingDto,
+  CancelClassBookingDto,
+  ClassBookingFiltersDto,
+} from '../dto/class-booking.dto';
+import { ClassRoster } from '../types/class-booking.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { isStaffUser } from '../constants/roles.constants';
+import { assertCanAccessCompany, canAccessCompany, resolveCompanyScope } from '../utils/tenant-access.util';
+
+@Injectable()
+export class ClassBookingService {
+  private readonly logger = new Logger(ClassBookingService.name);
+
+  constructor(
+    private readonly classBookingRepository: ClassBookingRepository,
+    private readonly classScheduleRepository: ClassScheduleRepository,
+    private readonly notificationClient: NotificationClientService,
+    private readonly bookingPolicyService: BookingPolicyService,
+  ) {}
+
+  // ===================
+  // BOOK / CANCEL
+  // ===================
+
+  async bookClass(createDto: CreateClassBookingDto, caller: AuthenticatedUser): Promise<ClassBookingEntity> {
+    const userId = createDto.userId || caller.id;
+    this.logger.log('Booking class', { userId, classId: createDto.classId });
+
+    if (userId !== caller.id && !isStaffUser(caller)) {
+      throw new ForbiddenException('Only staff can book classes on behalf of other members');
+    }
+
+    const schedule = await this.getBookableClass(createDto.classId);
+    if (userId !== caller.id) {
+      assertCanAccessCompany(caller, schedule.companyId);
+    }
+
+    await this.bookingPolicyService.assertCanBook(userId, schedule.companyId);
+
+    const { booking, alreadyBooked } = await this.classBookingRepository.book({
+      userId,
+      classId: schedule.id,
+      amount: schedule.price,
+      notes: createDto.notes,
+      bookedBy: userId !== caller.id ? caller.id : undefined,
+    });
+
+    if (alreadyBooked) {
+      throw new ConflictException(`Member already has a ${booking.status.toLowerCase()} booking for this class`);
+    }
+
+    booking.waitlistPosition = await this.classBookingRepository.getWaitlistPosition(booking);
+
+    this.logger.log('Class booked successfully', {
+      bookingId: booking.id,
+      status: booking.status,
+      waitlistPosition: booking.waitlistPosition,
+    });
+
+    return booking;
+  }
+
+  async cancelBooking(
+    id: string,
+    cancelDto: CancelClassBookingDto,
+    caller: AuthenticatedUser,
+  ): Promise<ClassBookingEntity> {
+    this.logger.log('Cancelling class booking', { id, reason: cancelDto.reason });
+
+    const booking = await this.getBooking(id, caller);
+    if (booking.userId !== caller.id && !isStaffUser(caller)) {
+      throw new ForbiddenException('You can only cancel your own bookings');
+    }
+
+    const schedule = await this.classScheduleRepository.findById(booking.classId);
+    if (schedule && schedule.startTime <= new Date()) {
+      throw new BadRequestException('Bookings cannot be cancelled after the class has started');
+    }
+
+    const result = await this.classBookingRepository.cancel(id, cancelDto.reason);
+    if (!result.cancelled) {
+      throw new BadRequestException(`Booking is not active (status: ${result.booking.status})`);
+    }
+
+    // Only a held seat is penalised; leaving the waitlist late costs nobody a spot
+    if (schedule && booking.status === ClassBookingStatus.CONFIRMED) {
+      await this.recordLateCancellation(result.booking, schedule);
+    }
+
+    if (result.promoted) {
+      this.logger.log('Waitlisted member promoted', {
+        bookingId: result.promoted.id,
+        userId: result.promoted.userId,
+        classId: result.promoted.classId,
+      });
+
+      await this.notificationClient.publish('class.booking.promoted', {
+        bookingId: result.promoted.id,
+        userId: result.promoted.userId,
+        classId: result.promoted.classId,
+        className: schedule?.className,
+        branchId: schedule?.branchId,
+        startTime: schedule?.startTime,
+      });
+    }
+
+    return result.booking;
+  }
+
+  // ===================
+  // QUERIES
+  // ===================
+
+  /**
+   * Members see their own bookings; staff those for their company's classes.
+   */
+  async getBooking(id: string, caller: AuthenticatedUser): Promise<ClassBookingEntity> {
+    this.logger.log('Getting class booking', { id });
+
+    const booking = await this.classBookingRepository.findById(id);
+    if (!booking) {
+      throw new NotFoundException(`Booking with ID ${id} not found`);
+    }
+
+    if (booking.userId !== caller.id) {
+      const schedule = await this.classScheduleRepository.findById(booking.classId);
+      if (!isStaffUser(caller) || !schedule || !canAccessCompany(caller, schedule.companyId)) {
+        throw new ForbiddenException('You cannot view this booking');
+      }
+    }
+
+    booking.waitlistPosition = await this.classBookingRepository.getWaitlistPosition(booking);
+    return booking;
+  }
+
+  /**
+   * The caller's own bookings in any company, or, for staff, bookings for
+   * their company's classes.
+   */
+  async getBookings(filters: ClassBookingFiltersDto, caller: AuthenticatedUser) {
+    this.logger.log('Getting class bookings', { filters });
+
+    const companyId = filters.userId === caller.id
+      ? filters.companyId
+      : resolveCompanyScope(caller, filters.companyId);
+
+    return this.classBookingRepository.findAll({ ...filters, companyId });
+  }
+
+  async getRoster(classId: string, caller: AuthenticatedUser): Promise<ClassRoster> {
+    this.logger.log('Getting class roster', { classId });
+
+    const schedule = await this.classScheduleRepository.findById(classId);
+    if (!schedule) {
+      throw new NotFoundException(`Class schedule with ID ${classId} not found`);
+    }
+
+    assertCanAccessCompany(caller, schedule.companyId);
+
+    const bookings = await this.classBookingRepository.findActiveByClass(classId);
+
+    return {
+      classId,
+      maxCapacity: schedule.maxCapacity,
+      currentCapacity: schedule.currentCapacity,
+      confirmed: bookings.filter(booking => booking.waitlistPosition === undefined),
+      waitlist: bookings.filter(booking => booking.waitlistPosition !== undefined),
+    };
+  }
+
+  private async recordLateCancellation(booking: ClassBookingEntity, schedule: ClassScheduleEntity): Promise<void> {
+    const policy = await this.bookingPolicyService.getPolicy(schedule.companyId);
+    if (!policy.lateCancellationCountsAsStrike || !this.bookingPolicyService.isLateCancellation(policy, schedule.startTime)) {
+      return;
+    }
+
+    this.logger.log('Late cancellation recorded', { bookingId: booking.id, userId: booking.userId });
+
+    await this.bookingPolicyService.recordStrikes(
+      schedule.companyId,
+      [
+        {
+          userId: booking.userId,
+          companyId: schedule.companyId,
+          bookingId: booking.id,
+          classId: schedule.id,
+          reason: BookingStrikeReason.LATE_CANCELLATION,
+        },
+      ],
+      policy,
+    );
+  }
+
+  private async getBookableClass(classId: string): Promise<ClassScheduleEntity> {
+    const schedule = await this.classScheduleRepository.findById(classId);
+    if (!schedule) {
+      throw new NotFoundException(`Class schedule with ID ${classId} not found`);
+    }
+
+    if (schedule.isRecurring) {
+      throw new BadRequestException('Book a specific class session, not the recurring template');
+    }
+
+    if (schedule.isCancelled) {
+      throw new BadRequestException('Class has been cancelled');
+    }
+
+    if (schedule.startTime <= new Date()) {
+      throw new BadRequestException('Class has already started');
+    }
+
+    return schedule;
+  }
+}
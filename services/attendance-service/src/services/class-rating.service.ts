@@ -0,0 +1,197 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ClassAttendanceStatus } from '@prisma/client';
+import { ClassAttendanceRepository } from '../repositories/class-attendance.repository';
+import { ClassScheduleRepository } from '../repositories/class-schedule.repository';
+import { NotificationClientService } from './notification-client.service';
+import { ClassAttendanceEntity } from '../entities/class-attendance.entity';
+import { RateClassDto, RatingSummaryQueryDto } from '../dto/class-rating.dto';
+import {
+  RatingScope,
+  RatingSummary,
+  RatingTrendInterval,
+  RatingTrendPoint,
+  TrainerRating,
+} from '../types/class-rating.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { resolveCompanyScope } from '../utils/tenant-access.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 366;
+const RECENT_COMMENTS_LIMIT = 20;
+
+@Injectable()
+export class ClassRatingService {
+  private readonly logger = new Logger(ClassRatingService.name);
+
+  constructor(
+    private readonly classAttendanceRepository: ClassAttendanceRepository,
+    private readonly classScheduleRepository: ClassScheduleRepository,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  /**
+   * A member rates a class they attended, once, after it has ended.
+   */
+  async rateClass(classId: string, userId: string, rateDto: RateClassDto): Promise<ClassAttendanceEntity> {
+    this.logger.log('Rating class', { classId, userId, rating: rateDto.rating });
+
+    const schedule = await this.classScheduleRepository.findById(classId);
+    if (!schedule || schedule.isRecurring) {
+      throw new NotFoundException(`Class with ID ${classId} not found`);
+    }
+
+    const attendance = await this.classAttendanceRepository.findByUserAndClass(userId, classId);
+    if (!attendance || attendance.status === ClassAttendanceStatus.ABSENT) {
+      throw new ForbiddenException('You can only rate classes you attended');
+    }
+
+    if (schedule.isCancelled || schedule.endTime > new Date()) {
+      throw new BadRequestException('Classes can only be rated after they have ended');
+    }
+
+    if (attendance.rating != null) {
+      throw new ConflictException('You have already rated this class');
+    }
+
+    const feedback = rateDto.feedback?.trim() || undefined;
+    const rated = await this.classAttendanceRepository.rate(attendance.id, rateDto.rating, feedback);
+    if (!rated) {
+      throw new ConflictException('You have already rated this class');
+    }
+
+    await this.notificationClient.publish('class.rated', {
+      classId,
+      trainerId: schedule.trainerId,
+      branchId: schedule.branchId,
+      rating: rated.rating,
+      hasFeedback: !!feedback,
+    });
+
+    return rated;
+  }
+
+  /**
+   * Summaries and rankings cover the caller's company only; platform admins
+   * may pick any company or none.
+   */
+  async getTrainerSummary(
+    trainerId: string,
+    query: RatingSummaryQueryDto,
+    caller: AuthenticatedUser,
+  ): Promise<RatingSummary> {
+    const companyId = resolveCompanyScope(caller, query.companyId);
+    return this.summarize({ companyId, branchId: query.branchId, trainerId }, query);
+  }
+
+  async getCategorySummary(
+    category: string,
+    query: RatingSummaryQueryDto,
+    caller: AuthenticatedUser,
+  ): Promise<RatingSummary> {
+    const companyId = resolveCompanyScope(caller, query.companyId);
+    if (!companyId) {
+      throw new BadRequestException('companyId is required for category summaries');
+    }
+
+    return this.summarize({ companyId, branchId: query.branchId, category }, query);
+  }
+
+  async getBranchSummary(
+    branchId: string,
+    query: RatingSummaryQueryDto,
+    caller: AuthenticatedUser,
+  ): Promise<RatingSummary> {
+    const companyId = resolveCompanyScope(caller, query.companyId);
+    return this.summarize({ companyId, branchId }, query);
+  }
+
+  /**
+   * Trainers ranked by average rating for side-by-side comparison.
+   */
+  async getTrainerRankings(query: RatingSummaryQueryDto, caller: AuthenticatedUser): Promise<TrainerRating[]> {
+    const companyId = resolveCompanyScope(caller, query.companyId);
+    if (!companyId && !query.branchId) {
+      throw new BadRequestException('companyId or branchId is required');
+    }
+
+    const { from, to } = this.resolveRange(query);
+    const rankings = await this.classAttendanceRepository.getTrainerRatings(
+      { companyId, branchId: query.branchId },
+      from,
+      to,
+    );
+
+    return rankings.map(ranking => ({ ...ranking, averageRating: this.round(ranking.averageRating) }));
+  }
+
+  private async summarize(scope: RatingScope, query: RatingSummaryQueryDto): Promise<RatingSummary> {
+    const { from, to } = this.resolveRange(query);
+    const interval = query.interval ?? RatingTrendInterval.WEEK;
+
+    const [distribution, trend, recentComments] = await Promise.all([
+      this.classAttendanceRepository.countRatings(scope, from, to),
+      this.classAttendanceRepository.getRatingTrend(scope, from, to, interval),
+      this.classAttendanceRepository.findRecentFeedback(scope, from, to, RECENT_COMMENTS_LIMIT),
+    ]);
+
+    const ratingCount = Object.values(distribution).reduce((sum, count) => sum + count, 0);
+    const total = Object.entries(distribution).reduce((sum, [rating, count]) => sum + Number(rating) * count, 0);
+
+    return {
+      scope,
+      from,
+      to,
+      ratingCount,
+      averageRating: ratingCount > 0 ? this.round(total / ratingCount) : undefined,
+      distribution,
+      change: this.calculateChange(trend, new Date((from.getTime() + to.getTime()) / 2)),
+      trend: trend.map(point => ({ ...point, averageRating: this.round(point.averageRating) })),
+      recentComments,
+    };
+  }
+
+  /**
+   * Average of the periods in the second half of the range minus the first
+   * half; undefined unless both halves have ratings.
+   */
+  private calculateChange(trend: RatingTrendPoint[], midpoint: Date): number | undefined {
+    const average = (points: RatingTrendPoint[]) => {
+      const count = points.reduce((sum, point) => sum + point.ratingCount, 0);
+      return count > 0
+        ? points.reduce((sum, point) => sum + point.averageRating * point.ratingCount, 0) / count
+        : undefined;
+    };
+
+    const earlier = average(trend.filter(point => point.period < midpoint));
+    const later = average(trend.filter(point => point.period >= midpoint));
+
+    return earlier !== undefined && later !== undefined ? this.round(later - earlier) : undefined;
+  }
+
+  private resolveRange(query: RatingSummaryQueryDto): { from: Date; to: Date } {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    return { from, to };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
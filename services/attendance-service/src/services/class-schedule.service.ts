@@ -0,0 +1,414 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ServiceUnavailableException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClassScheduleRepository } from '../repositories/class-schedule.repository';
+import { CompanyClientService } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { ClassScheduleEntity, CreateClassScheduleEntity } from '../entities/class-schedule.entity';
+import {
+  CreateClassScheduleDto,
+  RescheduleClassDto,
+  CancelClassDto,
+  ClassCalendarQueryDto,
+} from '../dto/class-schedule.dto';
+import { CalendarEntry, ClassCalendar, ClassCancellation, ClassSessionFilters } from '../types/class-schedule.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { isStaffUser } from '../constants/roles.constants';
+import { assertCanAccessCompany } from '../utils/tenant-access.util';
+import { expandRecurrence, RecurringType } from '../utils/recurrence.util';
+import { formatInTimeZone } from '../utils/timezone.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One-off classes and recurring series. Occurrences of a series are
+ * materialized as concrete sessions ahead of time, by a periodic job and on
+ * staff paths, so members can book them; reads never write.
+ */
+@Injectable()
+export class ClassScheduleService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ClassScheduleService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly classScheduleRepository: ClassScheduleRepository,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('CLASS_MATERIALIZE_INTERVAL_MS', 60 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('Class materialization job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.materializeUpcoming(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  // ===================
+  // CLASS SCHEDULES
+  // ===================
+
+  /**
+   * Creates a class. Without a caller (internal callers such as template
+   * imports) the branch is trusted; staff may only create classes at their
+   * own company's branches.
+   */
+  async createSchedule(createDto: CreateClassScheduleDto, caller?: AuthenticatedUser): Promise<ClassScheduleEntity> {
+    this.logger.log('Creating class schedule', {
+      branchId: createDto.branchId,
+      className: createDto.className,
+      isRecurring: createDto.isRecurring,
+    });
+
+    if (caller) {
+      await this.assertCanScheduleAt(createDto.companyId, createDto.branchId, caller);
+    }
+
+    const startTime = new Date(createDto.startTime);
+    const isRecurring = createDto.isRecurring === true;
+    const recurringEndDate = createDto.recurringEndDate ? this.endOfDayIfDateOnly(createDto.recurringEndDate) : undefined;
+
+    if (isRecurring && !createDto.recurringType) {
+      throw new BadRequestException('recurringType is required for recurring classes');
+    }
+
+    if (isRecurring && recurringEndDate && recurringEndDate < startTime) {
+      throw new BadRequestException('recurringEndDate must be after startTime');
+    }
+
+    if (!isRecurring && (createDto.recurringType || createDto.recurringDays?.length || createDto.recurringEndDate)) {
+      throw new BadRequestException('Recurrence fields require isRecurring to be true');
+    }
+
+    const schedule = await this.classScheduleRepository.create({
+      companyId: createDto.companyId,
+      branchId: createDto.branchId,
+      trainerId: createDto.trainerId,
+      className: createDto.className,
+      description: createDto.description,
+      category: createDto.category,
+      startTime,
+      endTime: this.addMinutes(startTime, createDto.duration),
+      duration: createDto.duration,
+      maxCapacity: createDto.maxCapacity,
+      roomNumber: createDto.roomNumber,
+      equipmentNeeded: createDto.equipmentNeeded || [],
+      level: createDto.level,
+      isRecurring,
+      recurringType: isRecurring ? createDto.recurringType : undefined,
+      recurringDays: isRecurring && createDto.recurringType === RecurringType.WEEKLY ? createDto.recurringDays || [] : [],
+      recurringEndDate,
+      price: createDto.price,
+      notes: createDto.notes,
+    });
+
+    if (schedule.isRecurring) {
+      await this.materializeOccurrences(schedule, new Date(), this.getMaterializationHorizon());
+    }
+
+    this.logger.log('Class schedule created successfully', { id: schedule.id });
+    return schedule;
+  }
+
+  async getSchedule(id: string): Promise<ClassScheduleEntity> {
+    this.logger.log('Getting class schedule', { id });
+
+    const schedule = await this.classScheduleRepository.findById(id);
+    if (!schedule) {
+      throw new NotFoundException(`Class schedule with ID ${id} not found`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Cancels a single session, or ends the whole series when given a template.
+   * Bookings of the cancelled sessions are cancelled and their members told.
+   */
+  async cancelClass(id: string, cancelDto: CancelClassDto, caller: AuthenticatedUser): Promise<ClassScheduleEntity> {
+    this.logger.log('Cancelling class', { id, reason: cancelDto.reason });
+
+    const schedule = await this.getSchedule(id);
+    assertCanAccessCompany(caller, schedule.companyId);
+
+    if (schedule.isCancelled) {
+      throw new BadRequestException('Class is already cancelled');
+    }
+
+    const cancellation = await this.classScheduleRepository.cancel(id, cancelDto.reason);
+    if (!cancellation) {
+      throw new BadRequestException('Class is already cancelled');
+    }
+
+    this.logger.log('Class cancelled', {
+      id,
+      cancelledSessions: cancellation.cancelledSessions,
+      cancelledBookings: cancellation.cancelledBookings.length,
+    });
+
+    await this.notifyCancelledBookings(cancellation, cancelDto.reason);
+    return cancellation.schedule;
+  }
+
+  /**
+   * Moves a single session. Materialized occurrences keep their original
+   * occurrenceDate, so the series never regenerates the old slot.
+   */
+  async rescheduleClass(
+    id: string,
+    rescheduleDto: RescheduleClassDto,
+    caller: AuthenticatedUser,
+  ): Promise<ClassScheduleEntity> {
+    this.logger.log('Rescheduling class', { id, startTime: rescheduleDto.startTime });
+
+    const schedule = await this.getSchedule(id);
+    assertCanAccessCompany(caller, schedule.companyId);
+
+    if (schedule.isRecurring) {
+      throw new BadRequestException('Recurring templates cannot be moved; reschedule individual occurrences instead');
+    }
+
+    if (schedule.isCancelled) {
+      throw new BadRequestException('Cancelled classes cannot be rescheduled');
+    }
+
+    const startTime = new Date(rescheduleDto.startTime);
+    const duration = rescheduleDto.duration || schedule.duration;
+    const note = rescheduleDto.reason ? `Rescheduled: ${rescheduleDto.reason}` : undefined;
+
+    return this.classScheduleRepository.update(id, {
+      startTime,
+      endTime: this.addMinutes(startTime, duration),
+      duration,
+      trainerId: rescheduleDto.trainerId,
+      roomNumber: rescheduleDto.roomNumber,
+      notes: note ? [schedule.notes, note].filter(Boolean).join('\n') : undefined,
+    });
+  }
+
+  // ===================
+  // CALENDAR
+  // ===================
+
+  /**
+   * Sessions in the window. Staff viewing the calendar materialize the
+   * window's occurrences first; members only see what is already there.
+   */
+  async getCalendar(query: ClassCalendarQueryDto, caller: AuthenticatedUser): Promise<ClassCalendar> {
+    this.logger.log('Getting class calendar', { query });
+
+    if (!query.branchId && !query.trainerId) {
+      throw new BadRequestException('branchId or trainerId is required');
+    }
+
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+    this.assertWindow(from, to);
+
+    const filters = {
+      branchId: query.branchId,
+      trainerId: query.trainerId,
+      from,
+      to,
+      includeCancelled: query.includeCancelled,
+    };
+
+    const sessions = isStaffUser(caller)
+      ? await this.materializeSessions(filters)
+      : await this.findSessions(filters);
+    const timezones = await this.resolveTimezones(sessions.map(session => session.branchId));
+    const entries = sessions.map(session => this.toCalendarEntry(session, timezones.get(session.branchId)));
+
+    return {
+      from,
+      to,
+      entries,
+      count: entries.length,
+    };
+  }
+
+  /**
+   * Concrete sessions already in the window; does not write.
+   */
+  async findSessions(filters: ClassSessionFilters): Promise<ClassScheduleEntity[]> {
+    return this.classScheduleRepository.findSessions(filters);
+  }
+
+  /**
+   * Concrete sessions in the window, materializing recurring series first so
+   * occurrences beyond the job's horizon are included.
+   */
+  async materializeSessions(filters: ClassSessionFilters): Promise<ClassScheduleEntity[]> {
+    const templates = await this.classScheduleRepository.findRecurringTemplates(filters);
+    for (const template of templates) {
+      await this.materializeOccurrences(template, filters.from, filters.to);
+    }
+
+    return this.classScheduleRepository.findSessions(filters);
+  }
+
+  /**
+   * Materializes every running series up to the horizon, so members can
+   * browse and book upcoming sessions.
+   */
+  async materializeUpcoming(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let created = 0;
+
+    try {
+      const from = new Date();
+      const to = this.getMaterializationHorizon();
+      const templates = await this.classScheduleRepository.findRecurringTemplates({ from, to });
+
+      for (const template of templates) {
+        try {
+          created += await this.materializeOccurrences(template, from, to);
+        } catch (error) {
+          this.logger.error('Failed to materialize class series', { templateId: template.id, error: error.message });
+        }
+      }
+
+      if (created > 0) {
+        this.logger.log('Class occurrences materialized', { templates: templates.length, created });
+      }
+    } catch (error) {
+      this.logger.error('Class materialization job failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return created;
+  }
+
+  /**
+   * Generates concrete sessions for a template inside the window, in the
+   * branch's timezone. Safe to call repeatedly.
+   */
+  async materializeOccurrences(template: ClassScheduleEntity, from: Date, to: Date): Promise<number> {
+    const timezone = await this.companyClient.getBranchTimezone(template.branchId);
+    const starts = expandRecurrence(template, from, to, timezone);
+
+    const occurrences: CreateClassScheduleEntity[] = starts.map(start => ({
+      companyId: template.companyId,
+      branchId: template.branchId,
+      trainerId: template.trainerId,
+      className: template.className,
+      description: template.description,
+      category: template.category,
+      startTime: start,
+      endTime: this.addMinutes(start, template.duration),
+      duration: template.duration,
+      maxCapacity: template.maxCapacity,
+      roomNumber: template.roomNumber,
+      equipmentNeeded: template.equipmentNeeded,
+      level: template.level,
+      isRecurring: false,
+      recurringDays: [],
+      price: template.price,
+      notes: template.notes,
+      parentScheduleId: template.id,
+      occurrenceDate: start,
+    }));
+
+    return this.classScheduleRepository.createOccurrences(occurrences);
+  }
+
+  private async assertCanScheduleAt(companyId: string, branchId: string, caller: AuthenticatedUser): Promise<void> {
+    assertCanAccessCompany(caller, companyId);
+
+    const branch = await this.companyClient.getBranch(branchId);
+    if (!branch) {
+      throw new ServiceUnavailableException('Branch could not be verified');
+    }
+
+    if (branch.companyId !== companyId) {
+      throw new BadRequestException('Branch does not belong to this company');
+    }
+  }
+
+  private async notifyCancelledBookings(cancellation: ClassCancellation, reason?: string): Promise<void> {
+    const sessions = await this.classScheduleRepository.findByIds([
+      ...new Set(cancellation.cancelledBookings.map(booking => booking.classId)),
+    ]);
+    const sessionsById = new Map(sessions.map(session => [session.id, session]));
+
+    for (const booking of cancellation.cancelledBookings) {
+      const session = sessionsById.get(booking.classId);
+      await this.notificationClient.publish('class.cancelled', {
+        bookingId: booking.id,
+        userId: booking.userId,
+        classId: booking.classId,
+        className: session?.className,
+        startTime: session?.startTime,
+        reason,
+      });
+    }
+  }
+
+  private getMaterializationHorizon(): Date {
+    const daysAhead = Number(this.configService.get('CLASS_MATERIALIZE_DAYS_AHEAD', 28));
+    return new Date(Date.now() + daysAhead * DAY_MS);
+  }
+
+  private async resolveTimezones(branchIds: string[]): Promise<Map<string, string>> {
+    const timezones = new Map<string, string>();
+    for (const branchId of new Set(branchIds)) {
+      timezones.set(branchId, await this.companyClient.getBranchTimezone(branchId));
+    }
+    return timezones;
+  }
+
+  private toCalendarEntry(session: ClassScheduleEntity, timezone: string): CalendarEntry {
+    return {
+      ...session,
+      timezone,
+      localStartTime: formatInTimeZone(session.startTime, timezone),
+      localEndTime: formatInTimeZone(session.endTime, timezone),
+      isRescheduled: !!session.occurrenceDate && session.occurrenceDate.getTime() !== session.startTime.getTime(),
+    };
+  }
+
+  private assertWindow(from: Date, to: Date): void {
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const maxDays = Number(this.configService.get('CALENDAR_MAX_WINDOW_DAYS', 92));
+    if (to.getTime() - from.getTime() > maxDays * 24 * 60 * 60 * 1000) {
+      throw new BadRequestException(`Calendar window cannot exceed ${maxDays} days`);
+    }
+  }
+
+  private addMinutes(date: Date, minutes: number): Date {
+    return new Date(date.getTime() + minutes * 60000);
+  }
+
+  private endOfDayIfDateOnly(value: string): Date {
+    const date = new Date(value);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,135 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ClassScheduleRepository } from '../repositories/class-schedule.repository';
+import { ClassScheduleService } from './class-schedule.service';
+import { CompanyClientService } from './company-client.service';
+import { ClassScheduleEntity } from '../entities/class-schedule.entity';
+import { ClassTemplateDto, ImportClassTemplatesDto } from '../dto/class-template.dto';
+import { ClassTemplateDefinition } from '../types/class-template.types';
+import { getRecurringWeekdays, RecurringType } from '../utils/recurrence.util';
+import { getZonedParts, zonedTimeToUtc } from '../utils/timezone.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TEMPLATE_LOOKAHEAD_DAYS = 366;
+
+/**
+ * Recurring classes exported from one branch and set up at another.
+ * company-service uses this to clone branches and apply setup templates.
+ */
+@Injectable()
+export class ClassTemplateService {
+  private readonly logger = new Logger(ClassTemplateService.name);
+
+  constructor(
+    private readonly classScheduleRepository: ClassScheduleRepository,
+    private readonly classScheduleService: ClassScheduleService,
+    private readonly companyClient: CompanyClientService,
+  ) {}
+
+  /**
+   * Recurring series of the branch that are still running or yet to start.
+   */
+  async getTemplates(branchId: string): Promise<ClassTemplateDefinition[]> {
+    const now = new Date();
+    const [templates, timezone] = await Promise.all([
+      this.classScheduleRepository.findRecurringTemplates({
+        branchId,
+        from: now,
+        to: new Date(now.getTime() + TEMPLATE_LOOKAHEAD_DAYS * DAY_MS),
+      }),
+      this.companyClient.getBranchTimezone(branchId),
+    ]);
+
+    return templates.map(template => this.toDefinition(template, timezone));
+  }
+
+  /**
+   * Creates each class as a recurring series whose first session falls on
+   * or after startDate.
+   */
+  async importTemplates(importDto: ImportClassTemplatesDto): Promise<ClassScheduleEntity[]> {
+    const missingTrainer = importDto.classes.find(definition => !definition.trainerId && !importDto.trainerId);
+    if (missingTrainer) {
+      throw new BadRequestException(`No trainer given for class "${missingTrainer.className}"`);
+    }
+
+    const timezone = await this.companyClient.getBranchTimezone(importDto.branchId);
+    const created: ClassScheduleEntity[] = [];
+
+    for (const definition of importDto.classes) {
+      const schedule = await this.classScheduleService.createSchedule({
+        companyId: importDto.companyId,
+        branchId: importDto.branchId,
+        trainerId: definition.trainerId ?? importDto.trainerId,
+        className: definition.className,
+        description: definition.description,
+        category: definition.category,
+        startTime: this.firstStart(definition, importDto.startDate, timezone).toISOString(),
+        duration: definition.duration,
+        maxCapacity: definition.maxCapacity,
+        roomNumber: definition.roomNumber,
+        equipmentNeeded: definition.equipmentNeeded,
+        level: definition.level,
+        isRecurring: true,
+        recurringType: definition.recurringType,
+        recurringDays: definition.recurringDays,
+        price: definition.price,
+        notes: definition.notes,
+      });
+
+      created.push(schedule);
+    }
+
+    this.logger.log('Class templates imported', { branchId: importDto.branchId, count: created.length });
+    return created;
+  }
+
+  private toDefinition(template: ClassScheduleEntity, timezone: string): ClassTemplateDefinition {
+    const local = getZonedParts(template.startTime, timezone);
+    const recurringType = (template.recurringType || RecurringType.WEEKLY).toLowerCase();
+
+    return {
+      id: template.id,
+      trainerId: template.trainerId,
+      className: template.className,
+      description: template.description,
+      category: template.category,
+      localStartTime: `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`,
+      duration: template.duration,
+      maxCapacity: template.maxCapacity,
+      roomNumber: template.roomNumber,
+      equipmentNeeded: template.equipmentNeeded,
+      level: template.level,
+      recurringType,
+      // Weekly series without explicit days repeat on the first session's weekday
+      recurringDays: recurringType === RecurringType.WEEKLY ? getRecurringWeekdays(template, timezone) : [],
+      dayOfMonth: recurringType === RecurringType.MONTHLY ? local.day : undefined,
+      price: template.price,
+      notes: template.notes,
+    };
+  }
+
+  /**
+   * First local date on or after startDate the class runs on, at its start time.
+   */
+  private firstStart(definition: ClassTemplateDto, startDate: string, timezone: string): Date {
+    const [hour, minute] = definition.localStartTime.split(':').map(Number);
+    const [year, month, day] = startDate.slice(0, 10).split('-').map(Number);
+    const weekdays = definition.recurringDays ?? [];
+
+    // Monthly classes may wait up to a year for a month with that day
+    for (let offset = 0; offset < TEMPLATE_LOOKAHEAD_DAYS; offset++) {
+      const date = new Date(Date.UTC(year, month - 1, day) + offset * DAY_MS);
+
+      const matches =
+        definition.recurringType === RecurringType.DAILY ||
+        (definition.recurringType === RecurringType.WEEKLY && (weekdays.length === 0 || weekdays.includes(date.getUTCDay()))) ||
+        (definition.recurringType === RecurringType.MONTHLY && (!definition.dayOfMonth || date.getUTCDate() === definition.dayOfMonth));
+
+      if (matches) {
+        return zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, timezone);
+      }
+    }
+
+    throw new BadRequestException(`Class "${definition.className}" never runs after ${startDate}`);
+  }
+}
@@ -0,0 +1,95 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { isValidTimeZone } from '../utils/timezone.util';
+
+export interface BranchInfo {
+  id: string;
+  companyId: string;
+  name: string;
+  timezone?: string;
+  capacity?: number;
+  latitude?: number;
+  longitude?: number;
+  status?: string;
+  settings?: Record<string, any>;
+}
+
+export interface CompanyInfo {
+  id: string;
+  name: string;
+  status?: string;
+  settings?: Record<string, any>;
+}
+
+/**
+ * Read-only client for company and branch data owned by company-service.
+ */
+@Injectable()
+export class CompanyClientService {
+  private readonly logger = new Logger(CompanyClientService.name);
+  private readonly cacheTtl = 10 * 60 * 1000; // 10 minutes
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  async getBranch(branchId: string): Promise<BranchInfo | null> {
+    return this.fetchCached<BranchInfo>(`company:branch:${branchId}`, `/branches/${branchId}`);
+  }
+
+  async getCompany(companyId: string): Promise<CompanyInfo | null> {
+    return this.fetchCached<CompanyInfo>(`company:company:${companyId}`, `/companies/${companyId}`);
+  }
+
+  /**
+   * Branch timezone, falling back to DEFAULT_TIMEZONE (UTC) when the branch
+   * has none configured or company-service cannot be reached.
+   */
+  async getBranchTimezone(branchId: string): Promise<string> {
+    const fallback = this.configService.get<string>('DEFAULT_TIMEZONE', 'UTC');
+    const branch = await this.getBranch(branchId);
+
+    if (branch?.timezone && isValidTimeZone(branch.timezone)) {
+      return branch.timezone;
+    }
+
+    return fallback;
+  }
+
+  private async fetchCached<T>(cacheKey: string, path: string): Promise<T | null> {
+    const cached = await this.cacheManager.get<T>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const baseUrl = this.configService.get<string>('COMPANY_SERVICE_URL', 'http://company-service:3030/api/v1');
+
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-service-token': this.configService.get<string>('INTERNAL_SERVICE_TOKEN', ''),
+          'x-service-id': 'attendance-service',
+        },
+        signal: AbortSignal.timeout(Number(this.configService.get('INTERNAL_REQUEST_TIMEOUT_MS', 10000))),
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Company service lookup failed', { path, status: response.status });
+        return null;
+      }
+
+      const body = await response.json();
+      const data: T = body?.data ?? body;
+
+      await this.cacheManager.set(cacheKey, data, this.cacheTtl);
+      return data;
+    } catch (error) {
+      this.logger.warn('Company service unavailable', { path, error: error.message });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,301 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AttendanceRepository } from '../repositories/attendance.repository';
+import { MemberEngagementRepository } from '../repositories/member-engagement.repository';
+import { CompanyClientService } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { MemberEngagementEntity } from '../entities/member-engagement.entity';
+import {
+  DEFAULT_ENGAGEMENT_POLICY,
+  EngagementPolicy,
+  MemberEngagementSummary,
+  VISIT_MILESTONES,
+} from '../types/engagement.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { computeEngagementScore, computeStreaks } from '../utils/engagement.util';
+import { assertCanAccessCompany } from '../utils/tenant-access.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_MEMBER_LOOKBACK_DAYS = 180; // Members idle for longer have decayed to zero already
+const REFRESH_AFTER_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Streaks, visit milestones and a decaying engagement score per member and
+ * company. Recomputed from attendance history on every check-in, and
+ * periodically so inactive members' scores keep decaying.
+ */
+@Injectable()
+export class EngagementService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EngagementService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly attendanceRepository: AttendanceRepository,
+    private readonly memberEngagementRepository: MemberEngagementRepository,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('ENGAGEMENT_JOB_INTERVAL_MS', 6 * 60 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('Engagement refresh job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.refreshAll(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async getPolicy(companyId: string): Promise<EngagementPolicy> {
+    const company = await this.companyClient.getCompany(companyId);
+    const overrides = company?.settings?.engagementPolicy ?? {};
+
+    const policy = { ...DEFAULT_ENGAGEMENT_POLICY };
+    for (const key of Object.keys(DEFAULT_ENGAGEMENT_POLICY) as (keyof EngagementPolicy)[]) {
+      const value = overrides[key];
+      if (typeof value === 'number' && value > 0) {
+        policy[key] = value;
+      }
+    }
+
+    return policy;
+  }
+
+  /**
+   * The stored summary as of the last recomputation; reading never
+   * recomputes or announces anything. Staff may only look up members of
+   * their own company.
+   */
+  async getEngagement(userId: string, companyId: string, caller: AuthenticatedUser): Promise<MemberEngagementSummary> {
+    if (userId !== caller.id) {
+      assertCanAccessCompany(caller, companyId);
+    }
+
+    const [engagement, policy] = await Promise.all([
+      this.memberEngagementRepository.findByUserAndCompany(userId, companyId),
+      this.getPolicy(companyId),
+    ]);
+
+    return engagement
+      ? this.toSummary(engagement, policy.weeklyVisitTarget)
+      : this.emptySummary(userId, companyId, policy.weeklyVisitTarget);
+  }
+
+  async getAtRiskMembers(
+    companyId: string,
+    caller: AuthenticatedUser,
+    branchId?: string,
+    limit?: number,
+  ): Promise<MemberEngagementSummary[]> {
+    assertCanAccessCompany(caller, companyId);
+
+    const engagements = await this.memberEngagementRepository.findAtRisk(companyId, branchId, limit);
+    const policy = await this.getPolicy(companyId);
+
+    return engagements.map(engagement => this.toSummary(engagement, policy.weeklyVisitTarget));
+  }
+
+  /**
+   * Recomputes the member's metrics, announcing new milestones and members
+   * who just became at risk.
+   */
+  async recompute(userId: string, companyId: string): Promise<MemberEngagementSummary> {
+    const now = new Date();
+    const [visits, previous, policy] = await Promise.all([
+      this.attendanceRepository.findMemberVisits(userId, companyId),
+      this.memberEngagementRepository.findByUserAndCompany(userId, companyId),
+      this.getPolicy(companyId),
+    ]);
+
+    const lastVisit = visits[visits.length - 1];
+    const timezone = lastVisit
+      ? await this.companyClient.getBranchTimezone(lastVisit.branchId)
+      : this.configService.get<string>('DEFAULT_TIMEZONE', 'UTC');
+
+    const times = visits.map(visit => visit.checkInTime);
+    const streaks = computeStreaks(times, timezone, policy.weeklyVisitTarget, now);
+    const score = computeEngagementScore(times, now, policy.scoreHalfLifeDays, policy.weeklyVisitTarget);
+    const previousScore = computeEngagementScore(
+      times,
+      new Date(now.getTime() - policy.trendDays * DAY_MS),
+      policy.scoreHalfLifeDays,
+      policy.weeklyVisitTarget,
+    );
+
+    const atRisk = score < policy.atRiskScore && previousScore - score >= policy.atRiskDrop;
+    const reached = VISIT_MILESTONES.filter(milestone => milestone <= visits.length);
+    const highestMilestone = reached.length > 0 ? reached[reached.length - 1] : 0;
+
+    const engagement = await this.memberEngagementRepository.upsert({
+      userId,
+      companyId,
+      lastBranchId: lastVisit?.branchId,
+      lifetimeVisits: visits.length,
+      lastVisitAt: lastVisit?.checkInTime,
+      currentStreak: streaks.currentStreak,
+      longestStreak: streaks.longestStreak,
+      score,
+      previousScore,
+      atRiskSince: atRisk ? (previous?.atRiskSince ?? now) : null,
+      computedAt: now,
+    });
+
+    await this.announceMilestones(engagement, previous, reached, highestMilestone);
+
+    if (atRisk && !previous?.atRiskSince) {
+      await this.notificationClient.publish('member.engagement.at_risk', {
+        userId,
+        companyId,
+        branchId: engagement.lastBranchId,
+        score,
+        previousScore,
+        lastVisitAt: engagement.lastVisitAt,
+      });
+    }
+
+    const summary = this.toSummary(engagement, policy.weeklyVisitTarget);
+    summary.streak.visitsThisWeek = streaks.visitsThisWeek;
+    return summary;
+  }
+
+  /**
+   * Refreshes every recently active member not recomputed in the last
+   * 12 hours, so scores decay and at-risk members surface without a visit.
+   */
+  async refreshAll(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let refreshed = 0;
+
+    try {
+      const now = Date.now();
+      const [members, fresh] = await Promise.all([
+        this.attendanceRepository.findActiveMembers(new Date(now - ACTIVE_MEMBER_LOOKBACK_DAYS * DAY_MS)),
+        this.memberEngagementRepository.findComputedSince(new Date(now - REFRESH_AFTER_MS)),
+      ]);
+      const skip = new Set(fresh.map(member => `${member.userId}:${member.companyId}`));
+
+      for (const member of members) {
+        if (skip.has(`${member.userId}:${member.companyId}`)) {
+          continue;
+        }
+
+        try {
+          await this.recompute(member.userId, member.companyId);
+          refreshed++;
+        } catch (error) {
+          this.logger.error('Engagement refresh failed', { userId: member.userId, error: error.message });
+        }
+      }
+
+      if (refreshed > 0) {
+        this.logger.log('Engagement refresh completed', { refreshed });
+      }
+    } catch (error) {
+      this.logger.error('Engagement refresh failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Publishes milestones passed since the last announcement. The first
+   * computation for a member only announces a milestone the latest visit
+   * reached, so history is not replayed. The stored milestone is advanced
+   * conditionally, so concurrent computations announce each one once.
+   */
+  private async announceMilestones(
+    engagement: MemberEngagementEntity,
+    previous: MemberEngagementEntity | null,
+    reached: number[],
+    highestMilestone: number,
+  ): Promise<void> {
+    if (highestMilestone <= engagement.lastMilestone) {
+      return;
+    }
+
+    const advanced = await this.memberEngagementRepository.advanceMilestone(
+      engagement.userId,
+      engagement.companyId,
+      engagement.lastMilestone,
+      highestMilestone,
+    );
+    if (!advanced) {
+      return;
+    }
+
+    const announced = previous
+      ? reached.filter(milestone => milestone > engagement.lastMilestone)
+      : reached.filter(milestone => milestone === engagement.lifetimeVisits);
+
+    for (const milestone of announced) {
+      this.logger.log('Visit milestone reached', { userId: engagement.userId, milestone });
+
+      await this.notificationClient.publish('member.visit_milestone.reached', {
+        userId: engagement.userId,
+        companyId: engagement.companyId,
+        branchId: engagement.lastBranchId,
+        milestone,
+        lifetimeVisits: engagement.lifetimeVisits,
+        reachedAt: engagement.lastVisitAt,
+      });
+    }
+  }
+
+  private emptySummary(userId: string, companyId: string, weeklyVisitTarget: number): MemberEngagementSummary {
+    const next = VISIT_MILESTONES[0];
+
+    return {
+      userId,
+      companyId,
+      lifetimeVisits: 0,
+      streak: { currentStreak: 0, longestStreak: 0, weeklyVisitTarget },
+      milestones: { reached: [], next, visitsToNext: next },
+      score: 0,
+      previousScore: 0,
+      scoreChange: 0,
+      isAtRisk: false,
+      computedAt: new Date(),
+    };
+  }
+
+  private toSummary(engagement: MemberEngagementEntity, weeklyVisitTarget: number): MemberEngagementSummary {
+    const reached = VISIT_MILESTONES.filter(milestone => milestone <= engagement.lifetimeVisits);
+    const next = VISIT_MILESTONES.find(milestone => milestone > engagement.lifetimeVisits);
+
+    return {
+      userId: engagement.userId,
+      companyId: engagement.companyId,
+      lifetimeVisits: engagement.lifetimeVisits,
+      lastVisitAt: engagement.lastVisitAt,
+      streak: {
+        currentStreak: engagement.currentStreak,
+        longestStreak: engagement.longestStreak,
+        weeklyVisitTarget,
+      },
+      milestones: {
+        reached,
+        next,
+        visitsToNext: next !== undefined ? next - engagement.lifetimeVisits : undefined,
+      },
+      score: engagement.score,
+      previousScore: engagement.previousScore,
+      scoreChange: engagement.score - engagement.previousScore,
+      isAtRisk: !!engagement.atRiskSince,
+      computedAt: engagement.computedAt,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CheckInMethod, MobileCheckInFlag, MobileCheckInReview } from '@prisma/client';
+import { MobileCheckInRepository } from '../repositories/mobile-check-in.repository';
+import { AttendanceService } from './attendance.service';
+import { CompanyClientService, BranchInfo } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { UserClientService } from './user-client.service';
+import { MobileCheckInEntity } from '../entities/mobile-check-in.entity';
+import {
+  MobileCheckInDto,
+  MobileCheckInFiltersDto,
+  ReviewMobileCheckInDto,
+} from '../dto/mobile-check-in.dto';
+import { MobileCheckInResult } from '../types/mobile-check-in.types';
+import { AuthenticatedUser, CheckInContext, PaginatedAttendance } from '../types/attendance.types';
+import { Coordinates, distanceInMeters, formatCoordinates } from '../utils/geo.util';
+import { canAccessBranch } from '../utils/member-access.util';
+import { assertCanAccessCompany, resolveCompanyScope } from '../utils/tenant-access.util';
+
+const EDGE_BAND_RATIO = 0.8; // Attempts beyond 80% of the radius count as edge-of-radius
+const EDGE_ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+const MIN_TRAVEL_DISTANCE_METERS = 1000; // Ignore GPS jitter when checking travel speed
+
+/**
+ * Self check-in from the mobile app, accepted only inside the branch
+ * geofence. Every attempt is stored so suspicious patterns can be flagged
+ * for staff review without blocking the member.
+ */
+@Injectable()
+export class MobileCheckInService {
+  private readonly logger = new Logger(MobileCheckInService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly mobileCheckInRepository: MobileCheckInRepository,
+    private readonly attendanceService: AttendanceService,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+    private readonly userClient: UserClientService,
+  ) {}
+
+  async checkIn(
+    checkInDto: MobileCheckInDto,
+    caller: AuthenticatedUser,
+    context: CheckInContext = {},
+  ): Promise<MobileCheckInResult> {
+    const branch = await this.companyClient.getBranch(checkInDto.branchId);
+    if (!branch) {
+      throw new ServiceUnavailableException('Branch location could not be verified');
+    }
+
+    if (branch.companyId !== checkInDto.companyId) {
+      throw new BadRequestException('Branch does not belong to this company');
+    }
+
+    if (branch.latitude == null || branch.longitude == null) {
+      throw new BadRequestException('Branch does not support mobile check-in');
+    }
+
+    const profile = await this.userClient.getMemberProfile(caller.id);
+    if (!profile) {
+      throw new ForbiddenException('Membership could not be verified');
+    }
+
+    if (profile.membershipStatus !== 'ACTIVE') {
+      throw new ForbiddenException(`Membership is ${profile.membershipStatus.toLowerCase()}`);
+    }
+
+    if (!canAccessBranch(profile, branch.companyId, branch.id)) {
+      throw new ForbiddenException('Membership does not include this branch');
+    }
+
+    const position: Coordinates = { latitude: checkInDto.latitude, longitude: checkInDto.longitude };
+    const radiusMeters = this.getRadius(branch);
+    const distanceMeters = Math.round(
+      distanceInMeters(position, { latitude: branch.latitude, longitude: branch.longitude }),
+    );
+    const accepted = distanceMeters <= radiusMeters;
+    const flags = await this.detectSuspiciousActivity(caller.id, branch.id, position, distanceMeters, radiusMeters);
+
+    const attempt = {
+      userId: caller.id,
+      companyId: branch.companyId,
+      branchId: branch.id,
+      latitude: checkInDto.latitude,
+      longitude: checkInDto.longitude,
+      accuracy: checkInDto.accuracy,
+      distanceMeters,
+      radiusMeters,
+      flags,
+      reviewStatus: flags.length > 0 ? MobileCheckInReview.PENDING : undefined,
+    };
+
+    if (!accepted) {
+      await this.mobileCheckInRepository.create({ ...attempt, accepted: false });
+      throw new BadRequestException(
+        `You are ${distanceMeters}m from the branch; mobile check-in requires being within ${radiusMeters}m`,
+      );
+    }
+
+    const attendance = await this.attendanceService.checkIn(
+      {
+        userId: caller.id,
+        companyId: branch.companyId,
+        branchId: branch.id,
+        checkInMethod: CheckInMethod.MOBILE_APP,
+        type: checkInDto.type,
+        classId: checkInDto.classId,
+        deviceInfo: checkInDto.deviceInfo,
+        location: formatCoordinates(position),
+      },
+      context,
+    );
+
+    const mobileCheckIn = await this.mobileCheckInRepository.create({
+      ...attempt,
+      accepted: true,
+      attendanceId: attendance.id,
+    });
+
+    if (flags.length > 0) {
+      this.logger.warn('Suspicious mobile check-in flagged', { id: mobileCheckIn.id, userId: caller.id, flags });
+
+      await this.notificationClient.publish('attendance.mobile_check_in.flagged', {
+        mobileCheckInId: mobileCheckIn.id,
+        attendanceId: attendance.id,
+        userId: caller.id,
+        companyId: branch.companyId,
+        branchId: branch.id,
+        flags,
+      });
+    }
+
+    return { attendance, mobileCheckIn };
+  }
+
+  async getFlagged(
+    filters: MobileCheckInFiltersDto,
+    caller: AuthenticatedUser,
+  ): Promise<PaginatedAttendance<MobileCheckInEntity>> {
+    return this.mobileCheckInRepository.findAll({
+      ...filters,
+      companyId: resolveCompanyScope(caller, filters.companyId),
+      reviewStatus: filters.reviewStatus ?? MobileCheckInReview.PENDING,
+    });
+  }
+
+  async review(
+    id: string,
+    reviewDto: ReviewMobileCheckInDto,
+    caller: AuthenticatedUser,
+  ): Promise<MobileCheckInEntity> {
+    const attempt = await this.mobileCheckInRepository.findById(id);
+    if (!attempt) {
+      throw new NotFoundException(`Mobile check-in with ID ${id} not found`);
+    }
+
+    assertCanAccessCompany(caller, attempt.companyId);
+
+    if (!attempt.reviewStatus) {
+      throw new BadRequestException('Only flagged check-ins can be reviewed');
+    }
+
+    return this.mobileCheckInRepository.review(id, {
+      reviewStatus: reviewDto.reviewStatus,
+      reviewedBy: caller.id,
+      reviewNotes: reviewDto.notes,
+    });
+  }
+
+  private async detectSuspiciousActivity(
+    userId: string,
+    branchId: string,
+    position: Coordinates,
+    distanceMeters: number,
+    radiusMeters: number,
+  ): Promise<MobileCheckInFlag[]> {
+    const flags: MobileCheckInFlag[] = [];
+    const now = Date.now();
+
+    const previous = await this.mobileCheckInRepository.findLatestByUser(userId);
+    if (previous) {
+      const travelled = distanceInMeters(previous, position);
+      const hours = Math.max(now - previous.createdAt.getTime(), 1000) / 3600000;
+      const maxSpeedKmh = Number(this.configService.get('GEOFENCE_MAX_TRAVEL_SPEED_KMH', 200));
+
+      if (travelled >= MIN_TRAVEL_DISTANCE_METERS && travelled / 1000 / hours > maxSpeedKmh) {
+        flags.push(MobileCheckInFlag.IMPOSSIBLE_TRAVEL);
+      }
+    }
+
+    if (distanceMeters >= radiusMeters * EDGE_BAND_RATIO) {
+      const earlier = await this.mobileCheckInRepository.countDistantAttempts(
+        userId,
+        branchId,
+        new Date(now - EDGE_ATTEMPT_WINDOW_MS),
+        radiusMeters * EDGE_BAND_RATIO,
+      );
+      const maxEdgeAttempts = Number(this.configService.get('GEOFENCE_MAX_EDGE_ATTEMPTS', 3));
+
+      if (earlier + 1 >= maxEdgeAttempts) {
+        flags.push(MobileCheckInFlag.REPEATED_EDGE_ATTEMPTS);
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * Branch.settings.geofenceRadiusMeters, falling back to GEOFENCE_RADIUS_METERS.
+   */
+  private getRadius(branch: BranchInfo): number {
+    const configured = Number(branch.settings?.geofenceRadiusMeters);
+    if (Number.isFinite(configured) && configured > 0) {
+      return configured;
+    }
+
+    return Number(this.configService.get('GEOFENCE_RADIUS_METERS', 150));
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BookingStrikeReason } from '@prisma/client';
+import { ClassBookingRepository } from '../repositories/class-booking.repository';
+import { ClassScheduleRepository } from '../repositories/class-schedule.repository';
+import { ClassAttendanceRepository } from '../repositories/class-attendance.repository';
+import { BookingPolicyService } from './booking-policy.service';
+import { NotificationClientService } from './notification-client.service';
+import { ClassScheduleEntity } from '../entities/class-schedule.entity';
+import { BookingPolicy, NoShowReconciliation } from '../types/booking-policy.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { assertCanAccessCompany } from '../utils/tenant-access.util';
+
+const LOOKBACK_MS = 2 * 24 * 60 * 60 * 1000; // Classes that ended more than two days ago are left alone
+
+/**
+ * Periodically turns confirmed bookings for finished classes into no-shows
+ * when the member never checked in, and records a strike for each.
+ */
+@Injectable()
+export class NoShowService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NoShowService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly classBookingRepository: ClassBookingRepository,
+    private readonly classScheduleRepository: ClassScheduleRepository,
+    private readonly classAttendanceRepository: ClassAttendanceRepository,
+    private readonly bookingPolicyService: BookingPolicyService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('NO_SHOW_JOB_INTERVAL_MS', 5 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('No-show detection job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.detectNoShows(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async detectNoShows(): Promise<NoShowReconciliation[]> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    const results: NoShowReconciliation[] = [];
+
+    try {
+      const now = new Date();
+      const classes = await this.classScheduleRepository.findEndedWithConfirmedBookings(
+        new Date(now.getTime() - LOOKBACK_MS),
+        now,
+      );
+      const policies = new Map<string, BookingPolicy>();
+
+      for (const schedule of classes) {
+        if (!policies.has(schedule.companyId)) {
+          policies.set(schedule.companyId, await this.bookingPolicyService.getPolicy(schedule.companyId));
+        }
+
+        const policy = policies.get(schedule.companyId)!;
+        if (schedule.endTime.getTime() + policy.noShowGraceMinutes * 60000 > now.getTime()) {
+          continue;
+        }
+
+        try {
+          results.push(await this.reconcile(schedule, policy));
+        } catch (error) {
+          this.logger.error('No-show reconciliation failed', { classId: schedule.id, error: error.message });
+        }
+      }
+
+      if (results.length > 0) {
+        this.logger.log('No-show detection completed', {
+          classes: results.length,
+          noShows: results.reduce((sum, result) => sum + result.noShows, 0),
+        });
+      }
+    } catch (error) {
+      this.logger.error('No-show detection failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return results;
+  }
+
+  /**
+   * Reconciles a single finished class on demand, ignoring the grace period.
+   */
+  async reconcileClass(classId: string, caller: AuthenticatedUser): Promise<NoShowReconciliation> {
+    const schedule = await this.classScheduleRepository.findById(classId);
+    if (!schedule) {
+      throw new NotFoundException(`Class schedule with ID ${classId} not found`);
+    }
+
+    assertCanAccessCompany(caller, schedule.companyId);
+
+    if (schedule.endTime > new Date()) {
+      throw new BadRequestException('No-shows can only be recorded once the class has ended');
+    }
+
+    const policy = await this.bookingPolicyService.getPolicy(schedule.companyId);
+    return this.reconcile(schedule, policy);
+  }
+
+  private async reconcile(schedule: ClassScheduleEntity, policy: BookingPolicy): Promise<NoShowReconciliation> {
+    const [bookings, attendedUserIds] = await Promise.all([
+      this.classBookingRepository.findConfirmedByClass(schedule.id),
+      this.classAttendanceRepository.findAttendedUserIds(schedule.id),
+    ]);
+
+    const attended = new Set(attendedUserIds);
+    const noShows = bookings.filter(booking => !attended.has(booking.userId));
+
+    // Another run may have marked some of them already; only ours get a strike
+    const markedIds = new Set(await this.classBookingRepository.markNoShows(noShows.map(booking => booking.id)));
+    const marked = noShows.filter(booking => markedIds.has(booking.id));
+
+    const bans = await this.bookingPolicyService.recordStrikes(
+      schedule.companyId,
+      marked.map(booking => ({
+        userId: booking.userId,
+        companyId: schedule.companyId,
+        bookingId: booking.id,
+        classId: schedule.id,
+        reason: BookingStrikeReason.NO_SHOW,
+      })),
+      policy,
+    );
+
+    for (const booking of marked) {
+      await this.notificationClient.publish('class.booking.no_show', {
+        bookingId: booking.id,
+        userId: booking.userId,
+        classId: schedule.id,
+        className: schedule.className,
+        startTime: schedule.startTime,
+      });
+    }
+
+    return { classId: schedule.id, noShows: marked.length, bansIssued: bans.length };
+  }
+}
@@ -0,0 +1,245 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { AttendanceRepository } from '../repositories/attendance.repository';
+import { OccupancyAlertRepository } from '../repositories/occupancy-alert.repository';
+import { CompanyClientService, BranchInfo } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { OccupancyAlertEntity } from '../entities/occupancy-alert.entity';
+import { CreateOccupancyAlertDto, UpdateOccupancyAlertDto } from '../dto/occupancy.dto';
+import {
+  BranchOccupancy,
+  BusyLevel,
+  OccupancyHeatmap,
+  PublicOccupancy,
+} from '../types/occupancy.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { buildOccupancyHeatmap } from '../utils/occupancy.util';
+import { assertCanAccessCompany } from '../utils/tenant-access.util';
+
+const HOUR_MS = 60 * 60 * 1000;
+const PUBLIC_CACHE_TTL = 60 * 1000; // 1 minute
+const ALERT_REARM_MARGIN = 5; // Percentage points below the threshold before an alert can fire again
+
+@Injectable()
+export class OccupancyService {
+  private readonly logger = new Logger(OccupancyService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly attendanceRepository: AttendanceRepository,
+    private readonly occupancyAlertRepository: OccupancyAlertRepository,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  // ===================
+  // OCCUPANCY
+  // ===================
+
+  async getOccupancy(branchId: string, caller: AuthenticatedUser): Promise<BranchOccupancy> {
+    await this.getAccessibleBranch(branchId, caller);
+    return this.measureOccupancy(branchId);
+  }
+
+  async getHeatmap(branchId: string, caller: AuthenticatedUser, weeks = 4): Promise<OccupancyHeatmap> {
+    this.logger.log('Building occupancy heatmap', { branchId, weeks });
+
+    const branch = await this.getAccessibleBranch(branchId, caller);
+
+    const to = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+    const from = new Date(to.getTime() - weeks * 7 * 24 * HOUR_MS);
+
+    const [visits, timezone] = await Promise.all([
+      this.attendanceRepository.findVisitIntervals(branchId, from, to),
+      this.companyClient.getBranchTimezone(branchId),
+    ]);
+
+    const defaultVisitMinutes = Number(this.configService.get('OCCUPANCY_DEFAULT_VISIT_MINUTES', 90));
+    const capacity = branch.capacity || undefined;
+    const cells = buildOccupancyHeatmap(visits, from, to, timezone, defaultVisitMinutes);
+
+    if (capacity) {
+      for (const cell of cells) {
+        cell.averagePercentage = Math.round((cell.averageVisitors / capacity) * 100);
+      }
+    }
+
+    return { branchId, timezone, from, to, capacity, cells };
+  }
+
+  /**
+   * Coarse busy level for members; exact headcounts are not exposed.
+   */
+  async getPublicOccupancy(branchId: string): Promise<PublicOccupancy> {
+    const cacheKey = `occupancy:public:${branchId}`;
+    const cached = await this.cacheManager.get<PublicOccupancy>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const occupancy = await this.measureOccupancy(branchId);
+    const result: PublicOccupancy = {
+      branchId,
+      level: this.toBusyLevel(occupancy.percentage),
+      percentage: occupancy.percentage !== undefined ? Math.round(occupancy.percentage / 5) * 5 : undefined,
+      updatedAt: occupancy.updatedAt,
+    };
+
+    await this.cacheManager.set(cacheKey, result, PUBLIC_CACHE_TTL);
+    return result;
+  }
+
+  // ===================
+  // ALERTS
+  // ===================
+
+  async createAlert(createDto: CreateOccupancyAlertDto, caller: AuthenticatedUser): Promise<OccupancyAlertEntity> {
+    const branch = await this.getAccessibleBranch(createDto.branchId, caller);
+    if (branch.companyId !== createDto.companyId) {
+      throw new BadRequestException('Branch does not belong to this company');
+    }
+
+    const existing = await this.occupancyAlertRepository.findByBranch(createDto.branchId);
+    if (existing.some(alert => alert.thresholdPercent === createDto.thresholdPercent)) {
+      throw new ConflictException(`An alert at ${createDto.thresholdPercent}% already exists for this branch`);
+    }
+
+    return this.occupancyAlertRepository.create({ ...createDto, createdBy: caller.id });
+  }
+
+  async getAlerts(branchId: string, caller: AuthenticatedUser): Promise<OccupancyAlertEntity[]> {
+    await this.getAccessibleBranch(branchId, caller);
+    return this.occupancyAlertRepository.findByBranch(branchId);
+  }
+
+  async updateAlert(
+    id: string,
+    updateDto: UpdateOccupancyAlertDto,
+    caller: AuthenticatedUser,
+  ): Promise<OccupancyAlertEntity> {
+    const alert = await this.getAlert(id);
+    assertCanAccessCompany(caller, alert.companyId);
+
+    // A changed threshold starts un-triggered and fires on the next evaluation if already exceeded
+    return this.occupancyAlertRepository.update(id, {
+      ...updateDto,
+      ...(updateDto.thresholdPercent !== undefined && { isTriggered: false }),
+    });
+  }
+
+  async deleteAlert(id: string, caller: AuthenticatedUser): Promise<void> {
+    const alert = await this.getAlert(id);
+    assertCanAccessCompany(caller, alert.companyId);
+
+    await this.occupancyAlertRepository.delete(id);
+  }
+
+  /**
+   * Fires alerts whose threshold was crossed upwards and re-arms those that
+   * dropped back below it. Called after every check-in and check-out.
+   */
+  async evaluateAlerts(branchId: string): Promise<void> {
+    const alerts = await this.occupancyAlertRepository.findByBranch(branchId, true);
+    if (alerts.length === 0) {
+      return;
+    }
+
+    const occupancy = await this.measureOccupancy(branchId);
+    if (occupancy.percentage === undefined) {
+      return;
+    }
+
+    for (const alert of alerts) {
+      if (!alert.isTriggered && occupancy.percentage >= alert.thresholdPercent) {
+        await this.occupancyAlertRepository.update(alert.id, { isTriggered: true, lastTriggeredAt: occupancy.updatedAt });
+
+        this.logger.warn('Occupancy threshold crossed', {
+          branchId,
+          thresholdPercent: alert.thresholdPercent,
+          percentage: occupancy.percentage,
+        });
+
+        await this.notificationClient.publish('branch.occupancy.threshold_crossed', {
+          alertId: alert.id,
+          companyId: alert.companyId,
+          branchId,
+          thresholdPercent: alert.thresholdPercent,
+          headcount: occupancy.headcount,
+          capacity: occupancy.capacity,
+          percentage: occupancy.percentage,
+        });
+      } else if (alert.isTriggered && occupancy.percentage < alert.thresholdPercent - ALERT_REARM_MARGIN) {
+        await this.occupancyAlertRepository.update(alert.id, { isTriggered: false });
+      }
+    }
+  }
+
+  private async measureOccupancy(branchId: string): Promise<BranchOccupancy> {
+    const staleHours = Number(this.configService.get('OCCUPANCY_STALE_CHECKIN_HOURS', 12));
+    const now = new Date();
+
+    const [headcount, branch] = await Promise.all([
+      this.attendanceRepository.countOpenAtBranch(branchId, new Date(now.getTime() - staleHours * HOUR_MS)),
+      this.companyClient.getBranch(branchId),
+    ]);
+
+    const capacity = branch?.capacity || undefined;
+
+    return {
+      branchId,
+      headcount,
+      capacity,
+      percentage: capacity ? Math.round((headcount / capacity) * 100) : undefined,
+      updatedAt: now,
+    };
+  }
+
+  private async getAccessibleBranch(branchId: string, caller: AuthenticatedUser): Promise<BranchInfo> {
+    const branch = await this.companyClient.getBranch(branchId);
+    if (!branch) {
+      throw new ServiceUnavailableException('Branch could not be verified');
+    }
+
+    assertCanAccessCompany(caller, branch.companyId);
+    return branch;
+  }
+
+  private async getAlert(id: string): Promise<OccupancyAlertEntity> {
+    const alert = await this.occupancyAlertRepository.findById(id);
+    if (!alert) {
+      throw new NotFoundException(`Occupancy alert with ID ${id} not found`);
+    }
+
+    return alert;
+  }
+
+  private toBusyLevel(percentage?: number): BusyLevel {
+    if (percentage === undefined) {
+      return BusyLevel.UNKNOWN;
+    }
+    if (percentage >= 100) {
+      return BusyLevel.FULL;
+    }
+    if (percentage >= 85) {
+      return BusyLevel.VERY_BUSY;
+    }
+    if (percentage >= 60) {
+      return BusyLevel.BUSY;
+    }
+    if (percentage >= 30) {
+      return BusyLevel.MODERATE;
+    }
+    return BusyLevel.QUIET;
+  }
+}
@@ -0,0 +1,541 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AttendanceType, PersonalTrainingStatus } from '@prisma/client';
+import { PersonalTrainingRepository } from '../repositories/personal-training.repository';
+import { TrainerAvailabilityRepository } from '../repositories/trainer-availability.repository';
+import { ClassScheduleService } from './class-schedule.service';
+import { SessionPackService } from './session-pack.service';
+import { CompanyClientService } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { AttendanceEntity } from '../entities/attendance.entity';
+import {
+  PersonalTrainingSessionEntity,
+  TrainerAvailabilityEntity,
+} from '../entities/personal-training.entity';
+import {
+  CreateTrainerAvailabilityDto,
+  AvailableSlotsQueryDto,
+  TrainerAgendaQueryDto,
+  BookPersonalTrainingDto,
+  CancelPersonalTrainingDto,
+  PersonalTrainingFiltersDto,
+} from '../dto/personal-training.dto';
+import {
+  AgendaItem,
+  AgendaItemKind,
+  AvailableSlot,
+  TrainerAgenda,
+} from '../types/personal-training.types';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { isStaffUser, MANAGER_ROLES } from '../constants/roles.constants';
+import { resolveCompanyScope } from '../utils/tenant-access.util';
+import { formatInTimeZone, getLocalDayBounds, getZonedParts, zonedTimeToUtc } from '../utils/timezone.util';
+
+const DEFAULT_SESSION_MINUTES = 60;
+const SLOT_STEP_MINUTES = 30;
+const MAX_CLASS_LOOKBACK_MS = 24 * 60 * 60 * 1000; // Longest class that can still overlap a slot
+const CHECK_IN_EARLY_MINUTES = 60; // Check-ins this long before a session still count towards it
+const CHECK_IN_LATE_MINUTES = 30;
+
+/**
+ * Trainer availability and personal training sessions paid from session
+ * packs. Sessions still scheduled a while after they ended are periodically
+ * marked as no-shows, so they stop holding pack sessions and time slots.
+ */
+@Injectable()
+export class PersonalTrainingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PersonalTrainingService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly personalTrainingRepository: PersonalTrainingRepository,
+    private readonly trainerAvailabilityRepository: TrainerAvailabilityRepository,
+    private readonly classScheduleService: ClassScheduleService,
+    private readonly sessionPackService: SessionPackService,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('PT_NO_SHOW_JOB_INTERVAL_MS', 15 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('Personal training no-show job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.markNoShows(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  // ===================
+  // AVAILABILITY
+  // ===================
+
+  async createAvailability(
+    createDto: CreateTrainerAvailabilityDto,
+    caller: AuthenticatedUser,
+  ): Promise<TrainerAvailabilityEntity> {
+    this.assertCanManageTrainer(createDto.trainerId, caller);
+
+    const startMinute = this.parseTimeOfDay(createDto.startTime);
+    const endMinute = this.parseTimeOfDay(createDto.endTime);
+    if (endMinute <= startMinute) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+
+    const validFrom = createDto.validFrom ? new Date(createDto.validFrom) : undefined;
+    const validUntil = createDto.validUntil ? new Date(createDto.validUntil) : undefined;
+    if (validFrom && validUntil && validUntil < validFrom) {
+      throw new BadRequestException('validUntil must be after validFrom');
+    }
+
+    const existing = await this.trainerAvailabilityRepository.findByTrainer(createDto.trainerId, createDto.branchId);
+    const overlapping = existing.some(
+      window =>
+        window.weekday === createDto.weekday && window.startMinute < endMinute && window.endMinute > startMinute,
+    );
+    if (overlapping) {
+      throw new ConflictException('Availability overlaps an existing window on that day');
+    }
+
+    return this.trainerAvailabilityRepository.create({
+      companyId: createDto.companyId,
+      branchId: createDto.branchId,
+      trainerId: createDto.trainerId,
+      weekday: createDto.weekday,
+      startMinute,
+      endMinute,
+      validFrom,
+      validUntil,
+    });
+  }
+
+  async getAvailability(trainerId: string, branchId?: string): Promise<TrainerAvailabilityEntity[]> {
+    return this.trainerAvailabilityRepository.findByTrainer(trainerId, branchId);
+  }
+
+  async deleteAvailability(id: string, caller: AuthenticatedUser): Promise<void> {
+    const availability = await this.trainerAvailabilityRepository.findById(id);
+    if (!availability) {
+      throw new NotFoundException(`Availability with ID ${id} not found`);
+    }
+
+    this.assertCanManageTrainer(availability.trainerId, caller);
+    await this.trainerAvailabilityRepository.delete(id);
+  }
+
+  /**
+   * Bookable start times on a branch-local date: inside an availability
+   * window and clear of the trainer's sessions and classes.
+   */
+  async getAvailableSlots(trainerId: string, query: AvailableSlotsQueryDto): Promise<AvailableSlot[]> {
+    const timezone = await this.companyClient.getBranchTimezone(query.branchId);
+    const duration = query.durationMinutes ?? DEFAULT_SESSION_MINUTES;
+    const day = getLocalDayBounds(query.date, timezone);
+    const [year, month, date] = query.date.split('-').map(Number);
+
+    const windows = await this.trainerAvailabilityRepository.findForDay(
+      trainerId,
+      query.branchId,
+      getZonedParts(day.start, timezone).weekday,
+      day.start,
+    );
+    if (windows.length === 0) {
+      return [];
+    }
+
+    const busy = await this.getBusyIntervals(trainerId, day.start, day.end);
+    const now = new Date();
+    const slots: AvailableSlot[] = [];
+
+    for (const window of windows) {
+      for (let minute = window.startMinute; minute + duration <= window.endMinute; minute += SLOT_STEP_MINUTES) {
+        const startTime = zonedTimeToUtc(year, month, date, 0, minute, timezone);
+        const endTime = new Date(startTime.getTime() + duration * 60000);
+
+        const clash = busy.some(interval => interval.start < endTime && interval.end > startTime);
+        if (startTime > now && !clash) {
+          slots.push({ startTime, endTime, localStartTime: formatInTimeZone(startTime, timezone) });
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  // ===================
+  // SESSIONS
+  // ===================
+
+  async bookSession(bookDto: BookPersonalTrainingDto, caller: AuthenticatedUser): Promise<PersonalTrainingSessionEntity> {
+    const userId = bookDto.userId || caller.id;
+    const onBehalf = userId !== caller.id;
+    this.logger.log('Booking personal training', { userId, trainerId: bookDto.trainerId, startTime: bookDto.startTime });
+
+    if (onBehalf && !isStaffUser(caller)) {
+      throw new ForbiddenException('Only staff can book sessions on behalf of other members');
+    }
+
+    if (userId === bookDto.trainerId) {
+      throw new BadRequestException('Trainers cannot book sessions with themselves');
+    }
+
+    const startTime = new Date(bookDto.startTime);
+    const endTime = new Date(startTime.getTime() + (bookDto.durationMinutes ?? DEFAULT_SESSION_MINUTES) * 60000);
+    if (startTime <= new Date()) {
+      throw new BadRequestException('Sessions must be booked in the future');
+    }
+
+    await this.assertWithinAvailability(bookDto.trainerId, bookDto.branchId, startTime, endTime);
+
+    // Booking writes anyway, so series beyond the materialized horizon are expanded too
+    const classes = await this.classScheduleService.materializeSessions({
+      trainerId: bookDto.trainerId,
+      from: new Date(startTime.getTime() - MAX_CLASS_LOOKBACK_MS),
+      to: endTime,
+    });
+    if (classes.some(session => session.endTime > startTime)) {
+      throw new ConflictException('Trainer is teaching a class at that time');
+    }
+
+    const candidatePacks = await this.resolvePacks(bookDto, userId, startTime, isStaffUser(caller));
+    const session = await this.bookWithPacks(
+      {
+        companyId: bookDto.companyId,
+        branchId: bookDto.branchId,
+        trainerId: bookDto.trainerId,
+        userId,
+        startTime,
+        endTime,
+        notes: bookDto.notes,
+        bookedBy: onBehalf ? caller.id : undefined,
+      },
+      candidatePacks,
+    );
+
+    await this.notificationClient.publish('personal_training.session.booked', {
+      sessionId: session.id,
+      trainerId: session.trainerId,
+      userId: session.userId,
+      branchId: session.branchId,
+      startTime: session.startTime,
+    });
+
+    return session;
+  }
+
+  async getSession(id: string): Promise<PersonalTrainingSessionEntity> {
+    const session = await this.personalTrainingRepository.findById(id);
+    if (!session) {
+      throw new NotFoundException(`Personal training session with ID ${id} not found`);
+    }
+
+    return session;
+  }
+
+  /**
+   * The caller's own sessions in any company, or, for staff, sessions of
+   * their company.
+   */
+  async getSessions(
+    filters: PersonalTrainingFiltersDto,
+    caller: AuthenticatedUser,
+  ): Promise<PersonalTrainingSessionEntity[]> {
+    const companyId = filters.userId === caller.id
+      ? filters.companyId
+      : resolveCompanyScope(caller, filters.companyId);
+
+    return this.personalTrainingRepository.findAll({
+      ...filters,
+      companyId,
+      from: filters.from ? new Date(filters.from) : undefined,
+      to: filters.to ? new Date(filters.to) : undefined,
+    });
+  }
+
+  async cancelSession(
+    id: string,
+    cancelDto: CancelPersonalTrainingDto,
+    caller: AuthenticatedUser,
+  ): Promise<PersonalTrainingSessionEntity> {
+    const session = await this.getSession(id);
+    if (session.userId !== caller.id && session.trainerId !== caller.id && !isStaffUser(caller)) {
+      throw new ForbiddenException('You can only cancel your own sessions');
+    }
+
+    if (session.startTime <= new Date()) {
+      throw new BadRequestException('Sessions cannot be cancelled after they have started');
+    }
+
+    const cancelled = await this.personalTrainingRepository.cancel(id, cancelDto.reason);
+    if (!cancelled) {
+      throw new BadRequestException(`Session is not scheduled (status: ${session.status})`);
+    }
+
+    await this.notificationClient.publish('personal_training.session.cancelled', {
+      sessionId: id,
+      trainerId: session.trainerId,
+      userId: session.userId,
+      startTime: session.startTime,
+      cancelledBy: caller.id,
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * Manual completion for sessions the member did not check in for.
+   */
+  async completeSession(id: string, caller: AuthenticatedUser): Promise<PersonalTrainingSessionEntity> {
+    const session = await this.getSession(id);
+    if (session.trainerId !== caller.id && !isStaffUser(caller)) {
+      throw new ForbiddenException('Only the trainer or staff can complete a session');
+    }
+
+    const completed = await this.personalTrainingRepository.complete(id);
+    if (!completed) {
+      throw new BadRequestException(`Session is not scheduled (status: ${session.status})`);
+    }
+
+    return completed;
+  }
+
+  /**
+   * Marks sessions still scheduled once the grace period after their end has
+   * passed as no-shows. The grace period leaves trainers time to complete
+   * sessions the member attended without checking in.
+   */
+  async markNoShows(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let marked = 0;
+
+    try {
+      const graceHours = Number(this.configService.get('PT_NO_SHOW_GRACE_HOURS', 24));
+      const sessions = await this.personalTrainingRepository.findUnattended(
+        new Date(Date.now() - graceHours * 60 * 60 * 1000),
+      );
+
+      for (const session of sessions) {
+        if (!(await this.personalTrainingRepository.markNoShow(session.id))) {
+          continue;
+        }
+
+        marked++;
+        await this.notificationClient.publish('personal_training.session.no_show', {
+          sessionId: session.id,
+          trainerId: session.trainerId,
+          userId: session.userId,
+          startTime: session.startTime,
+        });
+      }
+
+      if (marked > 0) {
+        this.logger.log('Personal training no-shows marked', { count: marked });
+      }
+    } catch (error) {
+      this.logger.error('Personal training no-show job failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return marked;
+  }
+
+  /**
+   * Links a personal-training check-in to the member's session around that
+   * time and charges the session to its pack.
+   */
+  async recordAttendance(attendance: AttendanceEntity): Promise<void> {
+    if (attendance.type !== AttendanceType.PERSONAL_TRAINING) {
+      return;
+    }
+
+    const session = await this.personalTrainingRepository.findForCheckIn(
+      attendance.userId,
+      attendance.checkInTime,
+      CHECK_IN_EARLY_MINUTES,
+      CHECK_IN_LATE_MINUTES,
+      attendance.trainerId,
+    );
+
+    if (!session) {
+      this.logger.warn('No scheduled session for personal training check-in', { attendanceId: attendance.id });
+      return;
+    }
+
+    await this.personalTrainingRepository.complete(session.id, attendance.id);
+  }
+
+  // ===================
+  // AGENDA
+  // ===================
+
+  async getAgenda(trainerId: string, query: TrainerAgendaQueryDto): Promise<TrainerAgenda> {
+    const timezone = query.branchId
+      ? await this.companyClient.getBranchTimezone(query.branchId)
+      : this.configService.get<string>('DEFAULT_TIMEZONE', 'UTC');
+    const { start, end } = getLocalDayBounds(query.date, timezone);
+
+    const [classes, sessions] = await Promise.all([
+      this.classScheduleService.findSessions({ trainerId, branchId: query.branchId, from: start, to: end }),
+      this.personalTrainingRepository.findAll({ trainerId, branchId: query.branchId, from: start, to: end }),
+    ]);
+
+    const items: AgendaItem[] = [
+      ...classes.map(session => ({
+        kind: AgendaItemKind.CLASS,
+        id: session.id,
+        branchId: session.branchId,
+        title: session.className,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        localStartTime: formatInTimeZone(session.startTime, timezone),
+        localEndTime: formatInTimeZone(session.endTime, timezone),
+      })),
+      ...sessions
+        .filter(session => session.status !== PersonalTrainingStatus.CANCELLED)
+        .map(session => ({
+          kind: AgendaItemKind.PERSONAL_TRAINING,
+          id: session.id,
+          branchId: session.branchId,
+          title: 'Personal training',
+          startTime: session.startTime,
+          endTime: session.endTime,
+          localStartTime: formatInTimeZone(session.startTime, timezone),
+          localEndTime: formatInTimeZone(session.endTime, timezone),
+          memberId: session.userId,
+          status: session.status,
+        })),
+    ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    return { trainerId, date: query.date, timezone, items };
+  }
+
+  private async assertWithinAvailability(trainerId: string, branchId: string, startTime: Date, endTime: Date) {
+    const timezone = await this.companyClient.getBranchTimezone(branchId);
+    const start = getZonedParts(startTime, timezone);
+    const end = getZonedParts(new Date(endTime.getTime() - 1), timezone);
+
+    if (start.day !== end.day) {
+      throw new BadRequestException('Sessions cannot span midnight');
+    }
+
+    const startMinute = start.hour * 60 + start.minute;
+    const endMinute = startMinute + Math.round((endTime.getTime() - startTime.getTime()) / 60000);
+    const windows = await this.trainerAvailabilityRepository.findForDay(trainerId, branchId, start.weekday, startTime);
+
+    if (!windows.some(window => window.startMinute <= startMinute && window.endMinute >= endMinute)) {
+      throw new BadRequestException('Trainer is not available at that time');
+    }
+  }
+
+  /**
+   * Intervals the trainer is occupied between from and to: classes and
+   * scheduled personal training.
+   */
+  private async getBusyIntervals(trainerId: string, from: Date, to: Date): Promise<{ start: Date; end: Date }[]> {
+    const classes = await this.classScheduleService.findSessions({
+      trainerId,
+      from: new Date(from.getTime() - MAX_CLASS_LOOKBACK_MS),
+      to,
+    });
+
+    const busy = classes
+      .filter(session => session.endTime > from)
+      .map(session => ({ start: session.startTime, end: session.endTime }));
+
+    const sessions = await this.personalTrainingRepository.findAll({
+      trainerId,
+      status: PersonalTrainingStatus.SCHEDULED,
+      from: new Date(from.getTime() - MAX_CLASS_LOOKBACK_MS),
+      to,
+    });
+
+    busy.push(
+      ...sessions
+        .filter(session => session.endTime > from)
+        .map(session => ({ start: session.startTime, end: session.endTime })),
+    );
+
+    return busy;
+  }
+
+  /**
+   * The explicit pack, or every usable pack in order. Staff may book
+   * without a pack (e.g. pay-as-you-go); members need one.
+   */
+  private async resolvePacks(
+    bookDto: BookPersonalTrainingDto,
+    userId: string,
+    startTime: Date,
+    allowWithoutPack: boolean,
+  ): Promise<(string | undefined)[]> {
+    if (bookDto.packId) {
+      const pack = await this.sessionPackService.getPack(bookDto.packId);
+      this.sessionPackService.assertUsable(pack, userId, bookDto.trainerId, startTime);
+      return [pack.id];
+    }
+
+    const packs = await this.sessionPackService.getUsablePacks(userId, bookDto.companyId, bookDto.trainerId, startTime);
+    if (packs.length === 0 && !allowWithoutPack) {
+      throw new BadRequestException('No session pack with remaining sessions');
+    }
+
+    return packs.length > 0 ? packs.map(pack => pack.id) : [undefined];
+  }
+
+  private async bookWithPacks(
+    data: Omit<Parameters<PersonalTrainingRepository['book']>[0], 'packId'>,
+    packIds: (string | undefined)[],
+  ): Promise<PersonalTrainingSessionEntity> {
+    for (const packId of packIds) {
+      const result = await this.personalTrainingRepository.book({ ...data, packId });
+
+      if (result.conflict) {
+        throw new ConflictException(
+          result.conflict.trainerId === data.trainerId
+            ? 'Trainer already has a session at that time'
+            : 'Member already has a session at that time',
+        );
+      }
+
+      if (result.session) {
+        return result.session;
+      }
+    }
+
+    throw new BadRequestException('All remaining pack sessions are already reserved');
+  }
+
+  private assertCanManageTrainer(trainerId: string, caller: AuthenticatedUser): void {
+    const isManager = caller.roles?.some(role => MANAGER_ROLES.includes(role));
+    if (trainerId !== caller.id && !isManager) {
+      throw new ForbiddenException("Only managers can change another trainer's availability");
+    }
+  }
+
+  private parseTimeOfDay(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
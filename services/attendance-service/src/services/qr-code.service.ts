@@ -0,0 +1,198 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  BadRequestException,
+  ForbiddenException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { CheckInMethod } from '@prisma/client';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AttendanceService } from './attendance.service';
+import { CompanyClientService } from './company-client.service';
+import { UserClientService } from './user-client.service';
+import { GymAccessRepository } from '../repositories/gym-access.repository';
+import { VerifyQrCodeDto } from '../dto/qr-code.dto';
+import { IssuedQrCode, QrCodeClaims, QrVerificationResult } from '../types/qr-code.types';
+import { AuthenticatedUser, CheckInContext } from '../types/attendance.types';
+import { canAccessBranch } from '../utils/member-access.util';
+
+const PAYLOAD_PREFIX = 'GQR1';
+const SIGNATURE_BYTES = 16;
+
+/**
+ * Issues and verifies rotating check-in QR codes.
+ *
+ * A payload is `GQR1.<userId>.<companyId>.<step>.<signature>`, where step is
+ * the current time divided into QR_CODE_STEP_SECONDS windows (TOTP-style) and
+ * the signature is an HMAC over the rest. A screenshot stops working once its
+ * step falls outside the allowed drift, and each step can be scanned once.
+ */
+@Injectable()
+export class QrCodeService {
+  private readonly logger = new Logger(QrCodeService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly attendanceService: AttendanceService,
+    private readonly companyClient: CompanyClientService,
+    private readonly userClient: UserClientService,
+    private readonly gymAccessRepository: GymAccessRepository,
+  ) {}
+
+  issue(userId: string, companyId: string, now = new Date()): IssuedQrCode {
+    const stepSeconds = this.getStepSeconds();
+    const step = Math.floor(now.getTime() / 1000 / stepSeconds);
+    const expiresAt = new Date((step + 1) * stepSeconds * 1000);
+
+    return {
+      payload: this.sign({ userId, companyId, step }),
+      issuedAt: now,
+      expiresAt,
+      refreshInSeconds: Math.max(1, Math.ceil((expiresAt.getTime() - now.getTime()) / 1000)),
+    };
+  }
+
+  async verify(
+    verifyDto: VerifyQrCodeDto,
+    caller: AuthenticatedUser,
+    context: CheckInContext = {},
+  ): Promise<QrVerificationResult> {
+    const claims = this.parse(verifyDto.payload);
+    this.logger.log('Verifying QR code', { userId: claims.userId, branchId: verifyDto.branchId });
+
+    if (caller.companyId && caller.companyId !== claims.companyId) {
+      throw new ForbiddenException('QR code was issued for a different company');
+    }
+
+    const branch = await this.companyClient.getBranch(verifyDto.branchId);
+    if (!branch) {
+      throw new ServiceUnavailableException('Branch could not be verified');
+    }
+
+    if (branch.companyId !== claims.companyId) {
+      throw new ForbiddenException('QR code is not valid at this branch');
+    }
+
+    await this.assertActiveMembership(claims, verifyDto.branchId);
+    await this.consume(claims);
+
+    const { attendance, created } = await this.attendanceService.recordCheckIn(
+      {
+        userId: claims.userId,
+        companyId: claims.companyId,
+        branchId: verifyDto.branchId,
+        checkInMethod: CheckInMethod.QR_CODE,
+        type: verifyDto.type,
+        classId: verifyDto.classId,
+        deviceInfo: verifyDto.deviceId,
+      },
+      context,
+    );
+
+    const access = await this.gymAccessRepository.create({
+      userId: claims.userId,
+      companyId: claims.companyId,
+      branchId: verifyDto.branchId,
+      entryTime: new Date(),
+      accessPoint: verifyDto.accessPoint,
+      method: CheckInMethod.QR_CODE,
+      deviceId: verifyDto.deviceId,
+      ipAddress: context.ipAddress,
+    });
+
+    return {
+      userId: claims.userId,
+      attendance,
+      access,
+      alreadyCheckedIn: !created,
+    };
+  }
+
+  private parse(payload: string, now = new Date()): QrCodeClaims {
+    const parts = payload.trim().split('.');
+    if (parts.length !== 5 || parts[0] !== PAYLOAD_PREFIX) {
+      throw new BadRequestException('Unrecognised QR code');
+    }
+
+    const [, userId, companyId, rawStep, signature] = parts;
+    const step = Number(rawStep);
+    if (!Number.isSafeInteger(step)) {
+      throw new BadRequestException('Unrecognised QR code');
+    }
+
+    const claims = { userId, companyId, step };
+    const expected = Buffer.from(this.sign(claims).split('.')[4]);
+    const actual = Buffer.from(signature);
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new BadRequestException('Invalid QR code signature');
+    }
+
+    const currentStep = Math.floor(now.getTime() / 1000 / this.getStepSeconds());
+    const drift = Number(this.configService.get('QR_CODE_ALLOWED_DRIFT_STEPS', 1));
+    if (Math.abs(currentStep - step) > drift) {
+      throw new BadRequestException('QR code has expired');
+    }
+
+    return claims;
+  }
+
+  private sign(claims: QrCodeClaims): string {
+    const body = `${PAYLOAD_PREFIX}.${claims.userId}.${claims.companyId}.${claims.step}`;
+    const signature = createHmac('sha256', this.getSecret())
+      .update(body)
+      .digest()
+      .subarray(0, SIGNATURE_BYTES)
+      .toString('base64url');
+
+    return `${body}.${signature}`;
+  }
+
+  /**
+   * Each code can be scanned once; a second scan inside its lifetime is a
+   * replayed screenshot or a double read.
+   */
+  private async consume(claims: QrCodeClaims): Promise<void> {
+    const key = `qr:used:${claims.userId}:${claims.step}`;
+    if (await this.cacheManager.get(key)) {
+      throw new BadRequestException('QR code has already been used');
+    }
+
+    const drift = Number(this.configService.get('QR_CODE_ALLOWED_DRIFT_STEPS', 1));
+    await this.cacheManager.set(key, true, (2 * drift + 1) * this.getStepSeconds() * 1000);
+  }
+
+  private async assertActiveMembership(claims: QrCodeClaims, branchId: string): Promise<void> {
+    const profile = await this.userClient.getMemberProfile(claims.userId);
+    if (!profile) {
+      throw new ForbiddenException('Membership could not be verified');
+    }
+
+    if (profile.membershipStatus !== 'ACTIVE') {
+      throw new ForbiddenException(`Membership is ${profile.membershipStatus.toLowerCase()}`);
+    }
+
+    if (!canAccessBranch(profile, claims.companyId, branchId)) {
+      throw new ForbiddenException('Membership does not include this branch');
+    }
+  }
+
+  private getStepSeconds(): number {
+    return Number(this.configService.get('QR_CODE_STEP_SECONDS', 30));
+  }
+
+  private getSecret(): string {
+    const secret = this.configService.get<string>('QR_CODE_SECRET');
+    if (!secret) {
+      this.logger.error('QR_CODE_SECRET is not configured');
+      throw new ServiceUnavailableException('QR check-in is not configured');
+    }
+
+    return secret;
+  }
+}
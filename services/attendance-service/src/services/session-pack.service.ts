@@ -0,0 +1,84 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { SessionPackRepository } from '../repositories/session-pack.repository';
+import { SessionPackEntity } from '../entities/personal-training.entity';
+import { CreateSessionPackDto } from '../dto/personal-training.dto';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { assertCanAccessCompany } from '../utils/tenant-access.util';
+
+@Injectable()
+export class SessionPackService {
+  private readonly logger = new Logger(SessionPackService.name);
+
+  constructor(private readonly sessionPackRepository: SessionPackRepository) {}
+
+  async createPack(createDto: CreateSessionPackDto, caller: AuthenticatedUser): Promise<SessionPackEntity> {
+    this.logger.log('Creating session pack', { userId: createDto.userId, totalSessions: createDto.totalSessions });
+
+    assertCanAccessCompany(caller, createDto.companyId);
+
+    const expiresAt = createDto.expiresAt ? new Date(createDto.expiresAt) : undefined;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    return this.sessionPackRepository.create({
+      companyId: createDto.companyId,
+      userId: createDto.userId,
+      trainerId: createDto.trainerId,
+      name: createDto.name,
+      totalSessions: createDto.totalSessions,
+      remainingSessions: createDto.totalSessions,
+      expiresAt,
+      createdBy: caller.id,
+    });
+  }
+
+  async getPack(id: string): Promise<SessionPackEntity> {
+    const pack = await this.sessionPackRepository.findById(id);
+    if (!pack) {
+      throw new NotFoundException(`Session pack with ID ${id} not found`);
+    }
+
+    return pack;
+  }
+
+  async getPacks(userId: string, companyId?: string): Promise<SessionPackEntity[]> {
+    return this.sessionPackRepository.findByUser(userId, companyId);
+  }
+
+  async deactivatePack(id: string, caller: AuthenticatedUser): Promise<SessionPackEntity> {
+    const pack = await this.getPack(id);
+    assertCanAccessCompany(caller, pack.companyId);
+
+    if (!pack.isActive) {
+      throw new BadRequestException('Session pack is already inactive');
+    }
+
+    return this.sessionPackRepository.deactivate(id);
+  }
+
+  /**
+   * Packs that can pay for a session with the trainer, soonest-expiring first.
+   */
+  async getUsablePacks(userId: string, companyId: string, trainerId: string, at: Date): Promise<SessionPackEntity[]> {
+    return this.sessionPackRepository.findUsable(userId, companyId, trainerId, at);
+  }
+
+  assertUsable(pack: SessionPackEntity, userId: string, trainerId: string, at: Date): void {
+    if (pack.userId !== userId) {
+      throw new BadRequestException('Session pack belongs to another member');
+    }
+
+    if (!pack.isActive || pack.remainingSessions <= 0) {
+      throw new BadRequestException('Session pack has no remaining sessions');
+    }
+
+    if (pack.expiresAt && pack.expiresAt <= at) {
+      throw new BadRequestException('Session pack expires before the session');
+    }
+
+    if (pack.trainerId && pack.trainerId !== trainerId) {
+      throw new BadRequestException('Session pack is limited to another trainer');
+    }
+  }
+}
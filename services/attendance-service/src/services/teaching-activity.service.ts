@@ -0,0 +1,81 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PersonalTrainingRepository } from '../repositories/personal-training.repository';
+import { ClassAttendanceRepository } from '../repositories/class-attendance.repository';
+import { ClassScheduleService } from './class-schedule.service';
+import { TeachingActivityQueryDto } from '../dto/teaching-activity.dto';
+import { TrainerTeachingActivity } from '../types/teaching-activity.types';
+
+const MAX_PERIOD_DAYS = 93;
+
+/**
+ * What each trainer taught at a branch in a period: completed personal
+ * training sessions and classes that took place, with attendee counts.
+ * company-service reads this to calculate trainer commissions.
+ */
+@Injectable()
+export class TeachingActivityService {
+  private readonly logger = new Logger(TeachingActivityService.name);
+
+  constructor(
+    private readonly personalTrainingRepository: PersonalTrainingRepository,
+    private readonly classAttendanceRepository: ClassAttendanceRepository,
+    private readonly classScheduleService: ClassScheduleService,
+  ) {}
+
+  async getActivity(query: TeachingActivityQueryDto): Promise<TrainerTeachingActivity[]> {
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+
+    if (from >= to) {
+      throw new BadRequestException('to must be after from');
+    }
+
+    if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new BadRequestException(`Period cannot exceed ${MAX_PERIOD_DAYS} days`);
+    }
+
+    this.logger.log('Collecting teaching activity', { branchId: query.branchId, from, to });
+
+    const now = new Date();
+    const [sessions, classes] = await Promise.all([
+      this.personalTrainingRepository.findCompletedByBranch(query.branchId, from, to, query.trainerId),
+      this.classScheduleService.findSessions({ branchId: query.branchId, trainerId: query.trainerId, from, to }),
+    ]);
+
+    // Classes still to come in the period have not been taught yet
+    const taught = classes.filter(schedule => schedule.endTime <= now);
+    const attendees = await this.classAttendanceRepository.countAttendedByClass(taught.map(schedule => schedule.id));
+
+    const byTrainer = new Map<string, TrainerTeachingActivity>();
+    const activityOf = (trainerId: string) => {
+      let activity = byTrainer.get(trainerId);
+      if (!activity) {
+        activity = { trainerId, personalTraining: [], classes: [] };
+        byTrainer.set(trainerId, activity);
+      }
+      return activity;
+    };
+
+    for (const session of sessions) {
+      activityOf(session.trainerId).personalTraining.push({
+        id: session.id,
+        userId: session.userId,
+        startTime: session.startTime,
+        endTime: session.endTime,
+      });
+    }
+
+    for (const schedule of taught) {
+      activityOf(schedule.trainerId).classes.push({
+        id: schedule.id,
+        className: schedule.className,
+        category: schedule.category,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        attendees: attendees.get(schedule.id) ?? 0,
+      });
+    }
+
+    return [...byTrainer.values()];
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+
+export interface MemberProfileInfo {
+  userId: string;
+  membershipStatus: string;
+  companyId?: string;
+  homeBranchId?: string;
+  branchAccess?: 'HOME_BRANCH' | 'ALL_BRANCHES' | 'SELECTED_BRANCHES';
+  accessibleBranchIds?: string[];
+}
+
+/**
+ * Read-only client for member profiles owned by user-service.
+ */
+@Injectable()
+export class UserClientService {
+  private readonly logger = new Logger(UserClientService.name);
+  private readonly cacheTtl = 60 * 1000; // 1 minute; membership changes must apply quickly at the door
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  /**
+   * Returns null when the member has no profile or user-service cannot be reached.
+   */
+  async getMemberProfile(userId: string): Promise<MemberProfileInfo | null> {
+    const cacheKey = `user:profile:${userId}`;
+    const cached = await this.cacheManager.get<MemberProfileInfo>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const baseUrl = this.configService.get<string>('USER_SERVICE_URL', 'http://user-service:3002/api/v1');
+
+    try {
+      const response = await fetch(`${baseUrl}/profiles/${userId}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-service-token': this.configService.get<string>('INTERNAL_SERVICE_TOKEN', ''),
+          'x-service-id': 'attendance-service',
+        },
+        signal: AbortSignal.timeout(Number(this.configService.get('INTERNAL_REQUEST_TIMEOUT_MS', 10000))),
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Member profile lookup failed', { userId, status: response.status });
+        return null;
+      }
+
+      const body = await response.json();
+      const profile: MemberProfileInfo = body?.data ?? body;
+
+      await this.cacheManager.set(cacheKey, profile, this.cacheTtl);
+      return profile;
+    } catch (error) {
+      this.logger.warn('User service unavailable', { userId, error: error.message });
+      return null;
+    }
+  }
+}
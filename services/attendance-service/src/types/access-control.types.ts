@@ -0,0 +1,38 @@
+import { AccessDeviceEntity } from '../entities/access-device.entity';
+
+export interface AccessDeviceFilters {
+  companyId?: string;
+  branchId?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Returned once on registration or key rotation; the plain key is never stored.
+ */
+export interface IssuedDeviceKey {
+  device: AccessDeviceEntity;
+  apiKey: string;
+}
+
+export enum AccessDenialReason {
+  UNKNOWN_CREDENTIAL = 'UNKNOWN_CREDENTIAL',
+  CREDENTIAL_REVOKED = 'CREDENTIAL_REVOKED',
+  MEMBERSHIP_INACTIVE = 'MEMBERSHIP_INACTIVE',
+  MEMBERSHIP_FROZEN = 'MEMBERSHIP_FROZEN',
+  MEMBERSHIP_UNVERIFIED = 'MEMBERSHIP_UNVERIFIED',
+  BRANCH_NOT_ALLOWED = 'BRANCH_NOT_ALLOWED',
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason?: AccessDenialReason;
+  userId?: string;
+  decidedAt: Date;
+}
+
+export interface OfflineSyncResult {
+  received: number;
+  synced: number;
+  duplicates: number;
+  rejected: { eventId: string; reason: AccessDenialReason }[];
+}
@@ -0,0 +1,42 @@
+import { AttendanceType, AttendanceStatus, CheckInMethod } from '@prisma/client';
+
+export interface AttendanceFilters {
+  userId?: string;
+  companyId?: string;
+  branchId?: string;
+  type?: AttendanceType;
+  status?: AttendanceStatus;
+  checkInMethod?: CheckInMethod;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedAttendance<T> {
+  records: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  roles: string[];
+  permissions: string[];
+  companyId?: string;
+  userType?: string;
+}
+
+export interface CheckInContext {
+  staffId?: string;
+  ipAddress?: string;
+}
+
+export interface MemberVisitCount {
+  userId: string;
+  companyId: string;
+  since: Date;
+  visits: number;
+}
@@ -0,0 +1,37 @@
+import { BookingStrikeReason } from '@prisma/client';
+
+/**
+ * Per-company booking rules, read from Company.settings.bookingPolicy in
+ * company-service. Missing keys fall back to DEFAULT_BOOKING_POLICY.
+ */
+export interface BookingPolicy {
+  lateCancellationWindowMinutes: number; // Cancelling closer than this to the start is a late cancellation
+  lateCancellationCountsAsStrike: boolean;
+  noShowGraceMinutes: number; // Wait this long after a class ends before marking no-shows
+  strikeLimit: number; // Strikes within strikeWindowDays that trigger a ban; 0 disables bans
+  strikeWindowDays: number;
+  banDurationDays: number;
+}
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  lateCancellationWindowMinutes: 120,
+  lateCancellationCountsAsStrike: true,
+  noShowGraceMinutes: 15,
+  strikeLimit: 3,
+  strikeWindowDays: 30,
+  banDurationDays: 7,
+};
+
+export interface StrikeRecord {
+  userId: string;
+  companyId: string;
+  bookingId: string;
+  classId: string;
+  reason: BookingStrikeReason;
+}
+
+export interface NoShowReconciliation {
+  classId: string;
+  noShows: number;
+  bansIssued: number;
+}
@@ -0,0 +1,16 @@
+export enum CalendarFeedKind {
+  BOOKINGS = 'bookings', // Booked classes and personal training as a member
+  SCHEDULE = 'schedule', // Classes taught and personal training as a trainer
+}
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  issuedAt?: Date; // When the current token was issued
+  lastAccessedAt?: Date;
+}
+
+export interface CalendarFeedLinks {
+  token: string; // Only returned when issued; stored hashed
+  bookingsUrl: string;
+  scheduleUrl: string;
+}
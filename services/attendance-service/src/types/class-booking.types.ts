@@ -0,0 +1,36 @@
+import { ClassBookingStatus } from '@prisma/client';
+import { ClassBookingEntity } from '../entities/class-booking.entity';
+
+export const ACTIVE_BOOKING_STATUSES: ClassBookingStatus[] = [
+  ClassBookingStatus.CONFIRMED,
+  ClassBookingStatus.PENDING,
+  ClassBookingStatus.WAITLISTED,
+];
+
+export interface ClassBookingFilters {
+  companyId?: string;
+  userId?: string;
+  classId?: string;
+  status?: ClassBookingStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface BookingResult {
+  booking: ClassBookingEntity;
+  alreadyBooked: boolean;
+}
+
+export interface CancellationResult {
+  booking: ClassBookingEntity;
+  cancelled: boolean;
+  promoted?: ClassBookingEntity;
+}
+
+export interface ClassRoster {
+  classId: string;
+  maxCapacity: number;
+  currentCapacity: number;
+  confirmed: ClassBookingEntity[];
+  waitlist: ClassBookingEntity[];
+}
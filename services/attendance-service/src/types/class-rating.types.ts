@@ -0,0 +1,49 @@
+export enum RatingTrendInterval {
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+/**
+ * Filters on the rated class; every set field must match.
+ */
+export interface RatingScope {
+  companyId?: string;
+  branchId?: string;
+  trainerId?: string;
+  category?: string;
+}
+
+export interface RatingTrendPoint {
+  period: Date; // Start of the week or month, UTC
+  averageRating: number;
+  ratingCount: number;
+}
+
+export interface RatingComment {
+  classId: string;
+  className: string;
+  category?: string;
+  trainerId: string;
+  classStartTime: Date;
+  rating: number;
+  feedback: string;
+  ratedAt: Date;
+}
+
+export interface RatingSummary {
+  scope: RatingScope;
+  from: Date;
+  to: Date;
+  ratingCount: number;
+  averageRating?: number;
+  distribution: Record<number, number>; // Rating (1-5) -> count
+  change?: number; // Average of the second half of the range minus the first half
+  trend: RatingTrendPoint[];
+  recentComments: RatingComment[];
+}
+
+export interface TrainerRating {
+  trainerId: string;
+  averageRating: number;
+  ratingCount: number;
+}
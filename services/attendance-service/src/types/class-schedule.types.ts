@@ -0,0 +1,35 @@
+import { ClassScheduleEntity } from '../entities/class-schedule.entity';
+
+export interface ClassSessionFilters {
+  branchId?: string;
+  trainerId?: string;
+  from: Date;
+  to: Date;
+  includeCancelled?: boolean;
+}
+
+export interface CalendarEntry extends ClassScheduleEntity {
+  timezone: string;
+  localStartTime: string;
+  localEndTime: string;
+  isRescheduled: boolean;
+}
+
+export interface ClassCalendar {
+  from: Date;
+  to: Date;
+  entries: CalendarEntry[];
+  count: number;
+}
+
+export interface CancelledClassBooking {
+  id: string;
+  userId: string;
+  classId: string;
+}
+
+export interface ClassCancellation {
+  schedule: ClassScheduleEntity;
+  cancelledSessions: number;
+  cancelledBookings: CancelledClassBooking[];
+}
@@ -0,0 +1,22 @@
+/**
+ * A recurring class stripped of its branch and dates, so it can be set up
+ * again at another branch. Times are branch-local wall-clock times.
+ */
+export interface ClassTemplateDefinition {
+  id?: string;
+  trainerId?: string;
+  className: string;
+  description?: string;
+  category?: string;
+  localStartTime: string; // HH:mm
+  duration: number;
+  maxCapacity: number;
+  roomNumber?: string;
+  equipmentNeeded: string[];
+  level?: string;
+  recurringType: string;
+  recurringDays: number[]; // Weekly classes
+  dayOfMonth?: number; // Monthly classes
+  price?: number;
+  notes?: string;
+}
@@ -0,0 +1,48 @@
+/**
+ * Per-company engagement rules, read from Company.settings.engagementPolicy
+ * in company-service. Missing keys fall back to DEFAULT_ENGAGEMENT_POLICY.
+ */
+export interface EngagementPolicy {
+  weeklyVisitTarget: number; // Visits in a week needed to keep a streak going
+  scoreHalfLifeDays: number; // A visit counts half as much towards the score after this many days
+  trendDays: number; // Score change is measured against the score this many days ago
+  atRiskScore: number; // Members below this score...
+  atRiskDrop: number; // ...who lost at least this many points over trendDays are at risk
+}
+
+export const DEFAULT_ENGAGEMENT_POLICY: EngagementPolicy = {
+  weeklyVisitTarget: 2,
+  scoreHalfLifeDays: 14,
+  trendDays: 14,
+  atRiskScore: 30,
+  atRiskDrop: 20,
+};
+
+export const VISIT_MILESTONES = [1, 10, 25, 50, 100, 250, 500, 1000, 2000, 5000];
+
+export interface StreakSummary {
+  currentStreak: number; // Consecutive weeks meeting the target; the current week counts once met
+  longestStreak: number;
+  visitsThisWeek?: number; // Only on live computations
+  weeklyVisitTarget: number;
+}
+
+export interface MilestoneSummary {
+  reached: number[];
+  next?: number;
+  visitsToNext?: number;
+}
+
+export interface MemberEngagementSummary {
+  userId: string;
+  companyId: string;
+  lifetimeVisits: number;
+  lastVisitAt?: Date;
+  streak: StreakSummary;
+  milestones: MilestoneSummary;
+  score: number; // 0-100; 100 means visiting at the weekly target
+  previousScore: number;
+  scoreChange: number;
+  isAtRisk: boolean;
+  computedAt: Date;
+}
@@ -0,0 +1,17 @@
+import { MobileCheckInReview } from '@prisma/client';
+import { AttendanceEntity } from '../entities/attendance.entity';
+import { MobileCheckInEntity } from '../entities/mobile-check-in.entity';
+
+export interface MobileCheckInFilters {
+  companyId?: string;
+  branchId?: string;
+  userId?: string;
+  reviewStatus?: MobileCheckInReview;
+  page?: number;
+  limit?: number;
+}
+
+export interface MobileCheckInResult {
+  attendance: AttendanceEntity;
+  mobileCheckIn: MobileCheckInEntity;
+}
@@ -0,0 +1,45 @@
+export enum BusyLevel {
+  QUIET = 'QUIET',
+  MODERATE = 'MODERATE',
+  BUSY = 'BUSY',
+  VERY_BUSY = 'VERY_BUSY',
+  FULL = 'FULL',
+  UNKNOWN = 'UNKNOWN', // Branch has no capacity configured
+}
+
+export interface BranchOccupancy {
+  branchId: string;
+  headcount: number;
+  capacity?: number;
+  percentage?: number;
+  updatedAt: Date;
+}
+
+export interface HeatmapCell {
+  weekday: number; // 0-6 for Sunday-Saturday, branch-local
+  hour: number; // 0-23, branch-local
+  averageVisitors: number;
+  peakVisitors: number;
+  averagePercentage?: number;
+}
+
+export interface OccupancyHeatmap {
+  branchId: string;
+  timezone: string;
+  from: Date;
+  to: Date;
+  capacity?: number;
+  cells: HeatmapCell[];
+}
+
+export interface PublicOccupancy {
+  branchId: string;
+  level: BusyLevel;
+  percentage?: number; // Rounded to the nearest 5
+  updatedAt: Date;
+}
+
+export interface VisitInterval {
+  checkInTime: Date;
+  checkOutTime: Date | null;
+}
@@ -0,0 +1,49 @@
+import { PersonalTrainingStatus } from '@prisma/client';
+import { PersonalTrainingSessionEntity } from '../entities/personal-training.entity';
+
+export interface PersonalTrainingFilters {
+  companyId?: string;
+  userId?: string;
+  trainerId?: string;
+  branchId?: string;
+  status?: PersonalTrainingStatus;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AvailableSlot {
+  startTime: Date;
+  endTime: Date;
+  localStartTime: string;
+}
+
+export enum AgendaItemKind {
+  CLASS = 'CLASS',
+  PERSONAL_TRAINING = 'PERSONAL_TRAINING',
+}
+
+export interface AgendaItem {
+  kind: AgendaItemKind;
+  id: string;
+  branchId: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  localStartTime: string;
+  localEndTime: string;
+  memberId?: string; // Personal training only
+  status?: string;
+}
+
+export interface TrainerAgenda {
+  trainerId: string;
+  date: string;
+  timezone: string;
+  items: AgendaItem[];
+}
+
+export interface PersonalTrainingBookingResult {
+  session?: PersonalTrainingSessionEntity;
+  conflict?: PersonalTrainingSessionEntity; // Overlapping session of the trainer or member
+  packExhausted?: boolean;
+}
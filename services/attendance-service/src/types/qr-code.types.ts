@@ -0,0 +1,22 @@
+import { AttendanceEntity } from '../entities/attendance.entity';
+import { GymAccessEntity } from '../entities/gym-access.entity';
+
+export interface IssuedQrCode {
+  payload: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  refreshInSeconds: number;
+}
+
+export interface QrCodeClaims {
+  userId: string;
+  companyId: string;
+  step: number;
+}
+
+export interface QrVerificationResult {
+  userId: string;
+  attendance: AttendanceEntity;
+  access: GymAccessEntity;
+  alreadyCheckedIn: boolean;
+}
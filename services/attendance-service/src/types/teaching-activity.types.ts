@@ -0,0 +1,21 @@
+export interface TaughtPersonalTraining {
+  id: string;
+  userId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface TaughtClass {
+  id: string;
+  className: string;
+  category?: string;
+  startTime: Date;
+  endTime: Date;
+  attendees: number; // Members marked present, late or left early
+}
+
+export interface TrainerTeachingActivity {
+  trainerId: string;
+  personalTraining: TaughtPersonalTraining[];
+  classes: TaughtClass[];
+}
@@ -0,0 +1,76 @@
+import { getZonedParts } from './timezone.util';
+
+// ===================
+// ENGAGEMENT METRICS
+// ===================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weekly visit streaks with Monday-based weeks in the given zone. A week
+ * that has not met the target yet does not break the current streak.
+ */
+export function computeStreaks(
+  visits: Date[],
+  timeZone: string,
+  weeklyTarget: number,
+  now: Date = new Date(),
+): { currentStreak: number; longestStreak: number; visitsThisWeek: number } {
+  const counts = new Map<number, number>();
+  for (const visit of visits) {
+    const week = getWeekIndex(visit, timeZone);
+    counts.set(week, (counts.get(week) ?? 0) + 1);
+  }
+
+  const met = (week: number) => (counts.get(week) ?? 0) >= weeklyTarget;
+  const thisWeek = getWeekIndex(now, timeZone);
+
+  let currentStreak = 0;
+  for (let week = met(thisWeek) ? thisWeek : thisWeek - 1; met(week); week--) {
+    currentStreak++;
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: number | undefined;
+  for (const week of [...counts.keys()].filter(met).sort((a, b) => a - b)) {
+    run = previous !== undefined && week === previous + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = week;
+  }
+
+  return { currentStreak, longestStreak, visitsThisWeek: counts.get(thisWeek) ?? 0 };
+}
+
+/**
+ * 0-100 score from exponentially decaying visit weights, normalized so that
+ * visiting steadily at the weekly target scores 100. Visits after `at` are
+ * ignored, so past scores can be reconstructed for trends.
+ */
+export function computeEngagementScore(
+  visits: Date[],
+  at: Date,
+  halfLifeDays: number,
+  weeklyTarget: number,
+): number {
+  const decayPerDay = Math.pow(0.5, 1 / halfLifeDays);
+  let weight = 0;
+
+  for (const visit of visits) {
+    const ageDays = (at.getTime() - visit.getTime()) / DAY_MS;
+    if (ageDays >= 0) {
+      weight += Math.pow(decayPerDay, ageDays);
+    }
+  }
+
+  // Sum of daily weights for someone visiting weeklyTarget / 7 times a day forever
+  const fullWeight = (Math.max(weeklyTarget, 1) / 7) / (1 - decayPerDay);
+
+  return Math.min(100, Math.round((weight / fullWeight) * 100));
+}
+
+function getWeekIndex(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const day = Date.UTC(p.year, p.month - 1, p.day) / DAY_MS;
+  return Math.floor((day - ((p.weekday + 6) % 7)) / 7);
+}
@@ -0,0 +1,28 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Great-circle distance in meters (haversine).
+ */
+export function distanceInMeters(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Stored in Attendance.location as "lat,lng".
+ */
+export function formatCoordinates(coordinates: Coordinates): string {
+  return `${coordinates.latitude.toFixed(6)},${coordinates.longitude.toFixed(6)}`;
+}
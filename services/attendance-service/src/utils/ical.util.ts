@@ -0,0 +1,224 @@
+import { getRecurringWeekdays, RecurrenceRule, RecurringType } from './recurrence.util';
+import { findOffsetTransitions, getTimeZoneOffset, getZonedParts } from './timezone.util';
+
+// ===================
+// ICALENDAR (RFC 5545)
+// ===================
+
+export enum ICalEventStatus {
+  CONFIRMED = 'CONFIRMED',
+  TENTATIVE = 'TENTATIVE',
+  CANCELLED = 'CANCELLED',
+}
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: ICalEventStatus;
+  lastModified?: Date;
+  // Recurring series and their overrides are written as wall-clock times in
+  // this zone so the series keeps its local time across DST changes.
+  timezone?: string;
+  rrule?: string;
+  recurrenceId?: Date;
+  exdates?: Date[];
+}
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_LINE_OCTETS = 75;
+const TIMEZONE_YEARS_AHEAD = 2; // Covers open-ended series past the last dated event
+
+export function buildICalendar(name: string, events: ICalEvent[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Devsfit//Attendance Service//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  lines.push(...buildTimeZones(events, now));
+
+  for (const event of events) {
+    lines.push(...buildEvent(event, now));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * RRULE matching expandRecurrence for the same rule; the series' DTSTART
+ * must be given in the same zone.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule, timeZone: string): string {
+  const type = (rule.recurringType || RecurringType.WEEKLY).toLowerCase();
+  const parts: string[] = [];
+
+  if (type === RecurringType.DAILY) {
+    parts.push('FREQ=DAILY');
+  } else if (type === RecurringType.MONTHLY) {
+    parts.push('FREQ=MONTHLY', `BYMONTHDAY=${getZonedParts(rule.startTime, timeZone).day}`);
+  } else {
+    const weekdays = getRecurringWeekdays(rule, timeZone);
+    parts.push('FREQ=WEEKLY', `BYDAY=${weekdays.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+
+  if (rule.recurringEndDate) {
+    parts.push(`UNTIL=${formatUtc(rule.recurringEndDate)}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * A VTIMEZONE for every zone the events reference, as required for TZID
+ * parameters. Offset changes are listed one by one, from the start of the
+ * year of the earliest referenced time until a few years past the latest.
+ */
+function buildTimeZones(events: ICalEvent[], now: Date): string[] {
+  const datesByZone = new Map<string, Date[]>();
+  for (const event of events) {
+    if (event.timezone) {
+      const dates = datesByZone.get(event.timezone) ?? [];
+      dates.push(event.start, event.end, ...(event.recurrenceId ? [event.recurrenceId] : []), ...(event.exdates ?? []));
+      datesByZone.set(event.timezone, dates);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const [timeZone, dates] of datesByZone) {
+    const times = dates.map(date => date.getTime());
+    const from = new Date(Date.UTC(new Date(Math.min(...times)).getUTCFullYear(), 0, 1));
+    const to = new Date(Date.UTC(new Date(Math.max(...times, now.getTime())).getUTCFullYear() + TIMEZONE_YEARS_AHEAD + 1, 0, 1));
+
+    const transitions = findOffsetTransitions(timeZone, from, to);
+    const initialOffset = getTimeZoneOffset(from, timeZone);
+    const initialIsDaylight = transitions.length > 0 && transitions[0].offsetTo < initialOffset;
+
+    lines.push('BEGIN:VTIMEZONE', `TZID:${timeZone}`);
+    lines.push(...buildObservance(initialIsDaylight, from, initialOffset, initialOffset));
+    for (const transition of transitions) {
+      lines.push(
+        ...buildObservance(transition.offsetTo > transition.offsetFrom, transition.at, transition.offsetFrom, transition.offsetTo),
+      );
+    }
+    lines.push('END:VTIMEZONE');
+  }
+
+  return lines;
+}
+
+function buildObservance(daylight: boolean, at: Date, offsetFrom: number, offsetTo: number): string[] {
+  const kind = daylight ? 'DAYLIGHT' : 'STANDARD';
+  // DTSTART is the local time the change happens at, on the old offset
+  const local = formatUtc(new Date(at.getTime() + offsetFrom * 60000)).replace('Z', '');
+
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${local}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(offsetTo)}`,
+    `END:${kind}`,
+  ];
+}
+
+function buildEvent(event: ICalEvent, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    formatDateProperty('DTSTART', event.start, event.timezone),
+    formatDateProperty('DTEND', event.end, event.timezone),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.recurrenceId) {
+    lines.push(formatDateProperty('RECURRENCE-ID', event.recurrenceId, event.timezone));
+  }
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule}`);
+  }
+  for (const exdate of event.exdates ?? []) {
+    lines.push(formatDateProperty('EXDATE', exdate, event.timezone));
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  }
+
+  lines.push(`STATUS:${event.status ?? ICalEventStatus.CONFIRMED}`, 'END:VEVENT');
+  return lines;
+}
+
+function formatDateProperty(name: string, date: Date, timeZone?: string): string {
+  if (!timeZone) {
+    return `${name}:${formatUtc(date)}`;
+  }
+
+  const p = getZonedParts(date, timeZone);
+  return `${name};TZID=${timeZone}:${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Splits content lines longer than 75 octets, never inside a UTF-8 sequence.
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1; // Continuation lines start with a space
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
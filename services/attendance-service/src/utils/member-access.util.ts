@@ -0,0 +1,24 @@
+import { MemberProfileInfo } from '../services/user-client.service';
+
+/**
+ * Whether the membership covers the branch. Profiles without a company or
+ * home branch predate branch scopes and are not restricted.
+ */
+export function canAccessBranch(profile: MemberProfileInfo, companyId: string, branchId: string): boolean {
+  if (profile.companyId && profile.companyId !== companyId) {
+    return false;
+  }
+
+  if (!profile.homeBranchId || branchId === profile.homeBranchId) {
+    return true;
+  }
+
+  switch (profile.branchAccess) {
+    case 'HOME_BRANCH':
+      return false;
+    case 'SELECTED_BRANCHES':
+      return (profile.accessibleBranchIds ?? []).includes(branchId);
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,71 @@
+import { getZonedParts } from './timezone.util';
+import { HeatmapCell, VisitInterval } from '../types/occupancy.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Counts visitors present in each hour of [from, to) and averages the counts
+ * per branch-local weekday and hour. Visits without a check-out are assumed
+ * to last `defaultVisitMinutes` (capped at `now`).
+ *
+ * Buckets follow UTC hour boundaries, so in zones with a half-hour offset a
+ * cell's hour is the local hour the bucket's midpoint falls in.
+ */
+export function buildOccupancyHeatmap(
+  visits: VisitInterval[],
+  from: Date,
+  to: Date,
+  timeZone: string,
+  defaultVisitMinutes: number,
+  now = new Date(),
+): HeatmapCell[] {
+  const base = Math.floor(from.getTime() / HOUR_MS) * HOUR_MS;
+  const bucketCount = Math.ceil((to.getTime() - base) / HOUR_MS);
+  const counts = new Array<number>(bucketCount).fill(0);
+
+  for (const visit of visits) {
+    const start = visit.checkInTime.getTime();
+    const end = visit.checkOutTime
+      ? visit.checkOutTime.getTime()
+      : Math.min(now.getTime(), start + defaultVisitMinutes * 60000);
+
+    if (end <= start) {
+      continue;
+    }
+
+    const first = Math.max(0, Math.floor((start - base) / HOUR_MS));
+    const last = Math.min(bucketCount - 1, Math.floor((end - 1 - base) / HOUR_MS));
+    for (let bucket = first; bucket <= last; bucket++) {
+      counts[bucket]++;
+    }
+  }
+
+  const totals = new Map<number, { sum: number; samples: number; peak: number }>();
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const midpoint = new Date(base + bucket * HOUR_MS + HOUR_MS / 2);
+    if (midpoint < from || midpoint >= to) {
+      continue;
+    }
+
+    const parts = getZonedParts(midpoint, timeZone);
+    const key = parts.weekday * 24 + parts.hour;
+    const total = totals.get(key) ?? { sum: 0, samples: 0, peak: 0 };
+    total.sum += counts[bucket];
+    total.samples++;
+    total.peak = Math.max(total.peak, counts[bucket]);
+    totals.set(key, total);
+  }
+
+  const cells: HeatmapCell[] = [];
+  for (let key = 0; key < 7 * 24; key++) {
+    const total = totals.get(key);
+    cells.push({
+      weekday: Math.floor(key / 24),
+      hour: key % 24,
+      averageVisitors: total ? Math.round((total.sum / total.samples) * 10) / 10 : 0,
+      peakVisitors: total?.peak ?? 0,
+    });
+  }
+
+  return cells;
+}
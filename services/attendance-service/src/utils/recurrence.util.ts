@@ -0,0 +1,80 @@
+import { getZonedParts, zonedTimeToUtc } from './timezone.util';
+
+// ===================
+// CLASS RECURRENCE
+// ===================
+
+export enum RecurringType {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+}
+
+export interface RecurrenceRule {
+  startTime: Date;
+  recurringType?: string;
+  recurringDays: number[];
+  recurringEndDate?: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days of the week a rule fires on, in the branch's local calendar.
+ * Weekly rules without explicit days repeat on the template's own weekday.
+ */
+export function getRecurringWeekdays(rule: RecurrenceRule, timeZone: string): number[] {
+  if (rule.recurringDays && rule.recurringDays.length > 0) {
+    return [...rule.recurringDays].sort((a, b) => a - b);
+  }
+  return [getZonedParts(rule.startTime, timeZone).weekday];
+}
+
+/**
+ * Start instants of every occurrence of the rule inside [from, to).
+ * recurringEndDate is inclusive: occurrences starting after it are not generated.
+ * The template's local wall-clock time is preserved across DST changes.
+ */
+export function expandRecurrence(rule: RecurrenceRule, from: Date, to: Date, timeZone: string): Date[] {
+  const template = getZonedParts(rule.startTime, timeZone);
+  const type = (rule.recurringType || RecurringType.WEEKLY).toLowerCase();
+  const weekdays = getRecurringWeekdays(rule, timeZone);
+
+  const windowStart = from > rule.startTime ? from : rule.startTime;
+  const windowEnd = to;
+  const seriesEnd = rule.recurringEndDate || null;
+  if (windowStart >= windowEnd || (seriesEnd && seriesEnd < windowStart)) {
+    return [];
+  }
+
+  // Walk local calendar dates; one day of slack on each side covers zone offsets.
+  const first = getZonedParts(windowStart, timeZone);
+  const last = getZonedParts(seriesEnd && seriesEnd < windowEnd ? seriesEnd : windowEnd, timeZone);
+  const startDay = Date.UTC(first.year, first.month - 1, first.day) - DAY_MS;
+  const endDay = Date.UTC(last.year, last.month - 1, last.day) + DAY_MS;
+
+  const occurrences: Date[] = [];
+  for (let day = startDay; day <= endDay; day += DAY_MS) {
+    const date = new Date(day);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const dayOfMonth = date.getUTCDate();
+    const weekday = date.getUTCDay();
+
+    const matches =
+      type === RecurringType.DAILY ||
+      (type === RecurringType.WEEKLY && weekdays.includes(weekday)) ||
+      (type === RecurringType.MONTHLY && dayOfMonth === template.day);
+
+    if (!matches) {
+      continue;
+    }
+
+    const start = zonedTimeToUtc(year, month, dayOfMonth, template.hour, template.minute, timeZone);
+    if (start >= windowStart && start < windowEnd && (!seriesEnd || start <= seriesEnd)) {
+      occurrences.push(start);
+    }
+  }
+
+  return occurrences;
+}
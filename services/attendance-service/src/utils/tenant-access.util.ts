@@ -0,0 +1,30 @@
+import { ForbiddenException } from '@nestjs/common';
+import { AuthenticatedUser } from '../types/attendance.types';
+import { isPlatformAdmin } from '../constants/roles.constants';
+
+/**
+ * Company staff act on their own company's data only; platform admins on
+ * every company's.
+ */
+export function canAccessCompany(user: AuthenticatedUser, companyId: string): boolean {
+  return isPlatformAdmin(user) || (!!user.companyId && user.companyId === companyId);
+}
+
+export function assertCanAccessCompany(user: AuthenticatedUser, companyId: string): void {
+  if (!canAccessCompany(user, companyId)) {
+    throw new ForbiddenException('You do not have access to this company');
+  }
+}
+
+/**
+ * The company a list query is limited to: any requested company for
+ * platform admins, otherwise the caller's own.
+ */
+export function resolveCompanyScope(user: AuthenticatedUser, companyId?: string): string | undefined {
+  if (isPlatformAdmin(user)) {
+    return companyId;
+  }
+
+  assertCanAccessCompany(user, companyId ?? user.companyId);
+  return user.companyId;
+}
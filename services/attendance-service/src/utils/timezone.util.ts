@@ -0,0 +1,180 @@
+// ===================
+// TIMEZONE HELPERS
+// ===================
+// Thin wrappers over Intl so branch-local wall-clock times can be converted
+// without pulling in a date library.
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0-6 for Sunday-Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (UTC+6 => 360).
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Converts a wall-clock time in the zone to the UTC instant it represents.
+ * Times skipped by a DST jump resolve forward to the next valid instant.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  let result = guess - firstOffset * 60000;
+
+  const secondOffset = getTimeZoneOffset(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    result = guess - secondOffset * 60000;
+
+    // Neither offset fits a time in the gap; read on the offset before the
+    // jump it lands just after the gap
+    if (getTimeZoneOffset(new Date(result), timeZone) !== secondOffset) {
+      result = guess - Math.min(firstOffset, secondOffset) * 60000;
+    }
+  }
+
+  return new Date(result);
+}
+
+/**
+ * ISO-8601 representation of the instant in the zone, e.g. 2025-03-10T18:00:00+06:00.
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffset(date, timeZone);
+  const sign = offset >= 0 ? '+' : '-';
+  const abs = Math.abs(offset);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return (
+    `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`
+  );
+}
+
+/**
+ * UTC bounds [start, end) of a local calendar day given as YYYY-MM-DD.
+ */
+export function getLocalDayBounds(date: string, timeZone: string): { start: Date; end: Date } {
+  const [year, month, day] = date.split('-').map(Number);
+
+  return {
+    start: zonedTimeToUtc(year, month, day, 0, 0, timeZone),
+    end: zonedTimeToUtc(year, month, day + 1, 0, 0, timeZone),
+  };
+}
+
+export interface OffsetTransition {
+  at: Date; // First instant on the new offset
+  offsetFrom: number; // Minutes, as getTimeZoneOffset
+  offsetTo: number;
+}
+
+/**
+ * UTC offset changes of the zone between from and to. Zones change offset
+ * at most a few times a year, so days are scanned and each change is then
+ * narrowed down to the minute.
+ */
+export function findOffsetTransitions(timeZone: string, from: Date, to: Date): OffsetTransition[] {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const transitions: OffsetTransition[] = [];
+  const start = Math.floor(from.getTime() / 60000) * 60000;
+  let previous = getTimeZoneOffset(new Date(start), timeZone);
+
+  for (let time = start + DAY_MS; time - DAY_MS < to.getTime(); time += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(time), timeZone);
+    if (offset === previous) {
+      continue;
+    }
+
+    // The change happened within the last day: find its first minute
+    let low = time - DAY_MS;
+    let high = time;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (getTimeZoneOffset(new Date(middle), timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    if (high <= to.getTime()) {
+      transitions.push({ at: new Date(high), offsetFrom: previous, offsetTo: offset });
+    }
+    previous = offset;
+  }
+
+  return transitions;
+}
@@ -8,6 +8,50 @@ import { AppService } from './app.service';
 import { PrismaService } from './services/prisma.service';
 import { HealthController } from './controllers/health.controller';
 import { MetricsController } from './controllers/metrics.controller';
+import { CompanyController } from './controllers/company.controller';
+import { BranchController } from './controllers/branch.controller';
+import { BranchHoursController } from './controllers/branch-hours.controller';
+import { BranchStaffController } from './controllers/branch-staff.controller';
+import { ShiftController } from './controllers/shift.controller';
+import { TimeClockController } from './controllers/time-clock.controller';
+import { PayrollController } from './controllers/payroll.controller';
+import { EquipmentController } from './controllers/equipment.controller';
+import { MaintenancePlanController } from './controllers/maintenance-plan.controller';
+import { EquipmentFaultController } from './controllers/equipment-fault.controller';
+import { BranchSetupController } from './controllers/branch-setup.controller';
+import { SetupTemplateController } from './controllers/setup-template.controller';
+import { CompanyService } from './services/company.service';
+import { BranchService } from './services/branch.service';
+import { BranchHoursService } from './services/branch-hours.service';
+import { BranchStaffService } from './services/branch-staff.service';
+import { ShiftService } from './services/shift.service';
+import { TimeClockService } from './services/time-clock.service';
+import { PayrollService } from './services/payroll.service';
+import { EquipmentService } from './services/equipment.service';
+import { MaintenancePlanService } from './services/maintenance-plan.service';
+import { EquipmentFaultService } from './services/equipment-fault.service';
+import { MaintenanceAlertService } from './services/maintenance-alert.service';
+import { BranchSetupService } from './services/branch-setup.service';
+import { SetupTemplateService } from './services/setup-template.service';
+import { EntitlementService } from './services/entitlement.service';
+import { AttendanceClientService } from './services/attendance-client.service';
+import { NotificationClientService } from './services/notification-client.service';
+import { SubscriptionClientService } from './services/subscription-client.service';
+import { CompanyRepository } from './repositories/company.repository';
+import { BranchRepository } from './repositories/branch.repository';
+import { CompanySubscriptionRepository } from './repositories/company-subscription.repository';
+import { BranchHolidayRepository } from './repositories/branch-holiday.repository';
+import { BranchStaffRepository } from './repositories/branch-staff.repository';
+import { ShiftRepository } from './repositories/shift.repository';
+import { ShiftSwapRepository } from './repositories/shift-swap.repository';
+import { TimeEntryRepository } from './repositories/time-entry.repository';
+import { PayrollRepository } from './repositories/payroll.repository';
+import { EquipmentRepository } from './repositories/equipment.repository';
+import { MaintenancePlanRepository } from './repositories/maintenance-plan.repository';
+import { MaintenanceLogRepository } from './repositories/maintenance-log.repository';
+import { EquipmentFaultRepository } from './repositories/equipment-fault.repository';
+import { SetupTemplateRepository } from './repositories/setup-template.repository';
+import { EquipmentChecklistRepository } from './repositories/equipment-checklist.repository';
 
 @Module({
   imports: [
@@ -33,8 +77,75 @@ import { MetricsController } from './controllers/metrics.controller';
     // Health checks
     TerminusModule,
   ],
-  controllers: [AppController, HealthController, MetricsController],
-  providers: [AppService, PrismaService],
+  controllers: [
+    AppController,
+    HealthController,
+    MetricsController,
+    CompanyController,
+    BranchController,
+    BranchHoursController,
+    BranchStaffController,
+    ShiftController,
+    TimeClockController,
+    PayrollController,
+    EquipmentController,
+    MaintenancePlanController,
+    EquipmentFaultController,
+    BranchSetupController,
+    SetupTemplateController,
+  ],
+  providers: [
+    AppService,
+    PrismaService,
+
+    // Companies & branches
+    CompanyService,
+    BranchService,
+    CompanyRepository,
+    BranchRepository,
+
+    // Plan limits
+    EntitlementService,
+    CompanySubscriptionRepository,
+
+    // Operating hours
+    BranchHoursService,
+    BranchHolidayRepository,
+
+    // Staff & shifts
+    BranchStaffService,
+    ShiftService,
+    TimeClockService,
+    BranchStaffRepository,
+    ShiftRepository,
+    ShiftSwapRepository,
+    TimeEntryRepository,
+
+    // Payroll
+    PayrollService,
+    PayrollRepository,
+
+    // Equipment
+    EquipmentService,
+    MaintenancePlanService,
+    EquipmentFaultService,
+    MaintenanceAlertService,
+    EquipmentRepository,
+    MaintenancePlanRepository,
+    MaintenanceLogRepository,
+    EquipmentFaultRepository,
+
+    // Branch setup
+    BranchSetupService,
+    SetupTemplateService,
+    SetupTemplateRepository,
+    EquipmentChecklistRepository,
+
+    // Service clients
+    AttendanceClientService,
+    NotificationClientService,
+    SubscriptionClientService,
+  ],
   exports: [PrismaService],
 })
 export class AppModule {}
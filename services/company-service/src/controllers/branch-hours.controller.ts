@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { BranchHoursService } from '../services/branch-hours.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { AllowInternalServices, CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  CreateBranchHolidayDto,
+  HolidayRangeQueryDto,
+  OpenStatusQueryDto,
+  OperatingHoursDto,
+} from '../dto/operating-hours.dto';
+
+@ApiTags('Branch Hours')
+@Controller('branches')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class BranchHoursController {
+  constructor(private readonly branchHoursService: BranchHoursService) {}
+
+  @Get(':id/open-status')
+  @AllowInternalServices()
+  @ApiOperation({ summary: 'Whether the branch is open now (or at a given time) and when it next opens' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Open status retrieved successfully' })
+  async getOpenStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: OpenStatusQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const at = query.at ? new Date(query.at) : new Date();
+    const status = await this.branchHoursService.getOpenStatus(id, at, user);
+
+    return {
+      success: true,
+      data: status,
+    };
+  }
+
+  @Get(':id/operating-hours')
+  @ApiOperation({ summary: 'Get weekly operating hours' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Operating hours retrieved successfully' })
+  async getOperatingHours(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const hours = await this.branchHoursService.getOperatingHours(id, user);
+
+    return {
+      success: true,
+      data: hours,
+    };
+  }
+
+  @Put(':id/operating-hours')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Replace weekly operating hours' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Operating hours updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or overlapping ranges, or branch has no timezone' })
+  async setOperatingHours(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() hoursDto: OperatingHoursDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const branch = await this.branchHoursService.setOperatingHours(id, hoursDto, user);
+
+    return {
+      success: true,
+      data: branch,
+      message: 'Operating hours updated successfully',
+    };
+  }
+
+  @Get(':id/holidays')
+  @ApiOperation({ summary: 'List holidays and special closures' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Holidays retrieved successfully' })
+  async getHolidays(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: HolidayRangeQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const holidays = await this.branchHoursService.getHolidays(id, query, user);
+
+    return {
+      success: true,
+      data: holidays,
+    };
+  }
+
+  @Post(':id/holidays')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Add a holiday, special closure or reduced-hours day' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 201, description: 'Holiday created successfully' })
+  @ApiResponse({ status: 409, description: 'Dates overlap an existing holiday' })
+  async createHoliday(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() holidayDto: CreateBranchHolidayDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const holiday = await this.branchHoursService.createHoliday(id, holidayDto, user);
+
+    return {
+      success: true,
+      data: holiday,
+      message: 'Holiday created successfully',
+    };
+  }
+
+  @Delete(':id/holidays/:holidayId')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove a holiday' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiParam({ name: 'holidayId', description: 'Holiday ID' })
+  @ApiResponse({ status: 200, description: 'Holiday removed successfully' })
+  async deleteHoliday(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('holidayId', ParseUUIDPipe) holidayId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.branchHoursService.deleteHoliday(id, holidayId, user);
+
+    return {
+      success: true,
+      message: 'Holiday removed successfully',
+    };
+  }
+}
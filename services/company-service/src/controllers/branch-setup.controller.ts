@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { BranchSetupService } from '../services/branch-setup.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import {
+  COMPANY_OWNER_ROLE,
+  MANAGER_ROLES,
+  PLATFORM_ADMIN_ROLES,
+  STAFF_ROLES,
+} from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import { CloneBranchDto } from '../dto/branch-setup.dto';
+
+@ApiTags('Branch Setup')
+@Controller('branches')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class BranchSetupController {
+  constructor(private readonly branchSetupService: BranchSetupService) {}
+
+  @Post(':id/clone')
+  @Roles(...PLATFORM_ADMIN_ROLES, COMPANY_OWNER_ROLE)
+  @ApiOperation({ summary: 'Open a new branch with the amenities, hours, settings, equipment and selected classes of this one' })
+  @ApiParam({ name: 'id', description: 'Source branch ID' })
+  @ApiResponse({ status: 201, description: 'Branch cloned successfully' })
+  @ApiResponse({ status: 402, description: 'Plan branch limit reached' })
+  @ApiResponse({ status: 409, description: 'Slug already used in this company' })
+  async cloneBranch(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() cloneDto: CloneBranchDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const result = await this.branchSetupService.cloneBranch(id, cloneDto, user);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Branch cloned successfully',
+    };
+  }
+
+  @Get(':id/equipment-checklist')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Equipment the branch still has to receive' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Equipment checklist retrieved successfully' })
+  async getChecklist(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const checklist = await this.branchSetupService.getChecklist(id, user);
+
+    return {
+      success: true,
+      data: checklist,
+    };
+  }
+
+  @Post(':id/equipment-checklist/:itemId/check')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Tick off a checklist item once the equipment is on site' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiParam({ name: 'itemId', description: 'Checklist item ID' })
+  @ApiResponse({ status: 200, description: 'Checklist item checked off successfully' })
+  @ApiResponse({ status: 404, description: 'Checklist item not found' })
+  async checkItem(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const item = await this.branchSetupService.checkItem(id, itemId, user);
+
+    return {
+      success: true,
+      data: item,
+      message: 'Checklist item checked off successfully',
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { BranchStaffService } from '../services/branch-staff.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  BranchStaffQueryDto,
+  CreateBranchStaffDto,
+  EndEmploymentDto,
+  UpdateBranchStaffDto,
+} from '../dto/branch-staff.dto';
+
+@ApiTags('Staff')
+@Controller('staff')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class BranchStaffController {
+  constructor(private readonly branchStaffService: BranchStaffService) {}
+
+  @Post()
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Add a staff member to a branch' })
+  @ApiResponse({ status: 201, description: 'Staff member added successfully' })
+  @ApiResponse({ status: 409, description: 'User already works at this branch' })
+  async addStaff(
+    @Body() createDto: CreateBranchStaffDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const staff = await this.branchStaffService.addStaff(createDto, user);
+
+    return {
+      success: true,
+      data: staff,
+      message: 'Staff member added successfully',
+    };
+  }
+
+  @Get()
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'List staff of a branch' })
+  @ApiResponse({ status: 200, description: 'Staff retrieved successfully' })
+  async getStaff(
+    @Query() query: BranchStaffQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const staff = await this.branchStaffService.getStaff(query.branchId, !!query.includeInactive, user);
+
+    return {
+      success: true,
+      data: staff,
+    };
+  }
+
+  @Get('me')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "The caller's current employments" })
+  @ApiResponse({ status: 200, description: 'Employments retrieved successfully' })
+  async getMyEmployments(@CurrentUser() user: AuthenticatedUser) {
+    const employments = await this.branchStaffService.getMyEmployments(user.id);
+
+    return {
+      success: true,
+      data: employments,
+    };
+  }
+
+  @Put(':id')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Update position or pay of a staff member' })
+  @ApiParam({ name: 'id', description: 'Staff record ID' })
+  @ApiResponse({ status: 200, description: 'Staff member updated successfully' })
+  async updateStaff(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateBranchStaffDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const staff = await this.branchStaffService.updateStaff(id, updateDto, user);
+
+    return {
+      success: true,
+      data: staff,
+      message: 'Staff member updated successfully',
+    };
+  }
+
+  @Post(':id/end')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "End a staff member's employment at the branch" })
+  @ApiParam({ name: 'id', description: 'Staff record ID' })
+  @ApiResponse({ status: 200, description: 'Employment ended successfully' })
+  async endEmployment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() endDto: EndEmploymentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const staff = await this.branchStaffService.endEmployment(id, endDto, user);
+
+    return {
+      success: true,
+      data: staff,
+      message: 'Employment ended successfully',
+    };
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { BranchService } from '../services/branch.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { AllowInternalServices, CurrentUser, Roles } from '../decorators/auth.decorators';
+import { COMPANY_OWNER_ROLE, MANAGER_ROLES, PLATFORM_ADMIN_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  CreateBranchDto,
+  UpdateBranchDto,
+  UpdateBranchStatusDto,
+  BranchFiltersDto,
+} from '../dto/branch.dto';
+
+@ApiTags('Branches')
+@Controller('branches')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class BranchController {
+  private readonly logger = new Logger(BranchController.name);
+
+  constructor(private readonly branchService: BranchService) {}
+
+  @Post()
+  @Roles(...PLATFORM_ADMIN_ROLES, COMPANY_OWNER_ROLE)
+  @ApiOperation({ summary: 'Create a branch' })
+  @ApiResponse({ status: 201, description: 'Branch created successfully' })
+  @ApiResponse({ status: 403, description: 'Branch belongs to another company' })
+  @ApiResponse({ status: 409, description: 'Slug already used in this company' })
+  async createBranch(
+    @Body() createDto: CreateBranchDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const branch = await this.branchService.createBranch(createDto, user);
+
+    return {
+      success: true,
+      data: branch,
+      message: 'Branch created successfully',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: "List branches of the caller's company" })
+  @ApiResponse({ status: 200, description: 'Branches retrieved successfully' })
+  async getBranches(
+    @Query() filters: BranchFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log('Getting branches', { filters });
+
+    const result = await this.branchService.getBranches(filters, user);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Get(':id')
+  @AllowInternalServices()
+  @ApiOperation({ summary: 'Get a branch' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Branch retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Branch not found' })
+  async getBranch(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const branch = await this.branchService.getBranch(id, user);
+
+    return {
+      success: true,
+      data: branch,
+    };
+  }
+
+  @Put(':id')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Update a branch' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Branch updated successfully' })
+  @ApiResponse({ status: 403, description: 'Caller does not manage this branch' })
+  async updateBranch(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateBranchDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const branch = await this.branchService.updateBranch(id, updateDto, user);
+
+    return {
+      success: true,
+      data: branch,
+      message: 'Branch updated successfully',
+    };
+  }
+
+  @Patch(':id/status')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Open, close or put a branch under maintenance' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Status updated successfully' })
+  @ApiResponse({ status: 400, description: 'Status change not allowed' })
+  async updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() statusDto: UpdateBranchStatusDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const branch = await this.branchService.updateStatus(id, statusDto, user);
+
+    return {
+      success: true,
+      data: branch,
+      message: `Branch is now ${branch.status}`,
+    };
+  }
+
+  @Delete(':id')
+  @Roles(...PLATFORM_ADMIN_ROLES, COMPANY_OWNER_ROLE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete an inactive branch' })
+  @ApiParam({ name: 'id', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Branch deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Branch is still active' })
+  async deleteBranch(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.branchService.deleteBranch(id, user);
+
+    return {
+      success: true,
+      message: 'Branch deleted successfully',
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CompanyService } from '../services/company.service';
+import { EntitlementService } from '../services/entitlement.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { AllowInternalServices, CurrentUser, Roles } from '../decorators/auth.decorators';
+import { COMPANY_OWNER_ROLE, PLATFORM_ADMIN_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  CreateCompanyDto,
+  UpdateCompanyDto,
+  UpdateCompanyStatusDto,
+  CompanyFiltersDto,
+} from '../dto/company.dto';
+
+@ApiTags('Companies')
+@Controller('companies')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class CompanyController {
+  private readonly logger = new Logger(CompanyController.name);
+
+  constructor(
+    private readonly companyService: CompanyService,
+    private readonly entitlementService: EntitlementService,
+  ) {}
+
+  @Post()
+  @Roles(...PLATFORM_ADMIN_ROLES)
+  @ApiOperation({ summary: 'Create a company' })
+  @ApiResponse({ status: 201, description: 'Company created successfully' })
+  @ApiResponse({ status: 409, description: 'Slug already taken' })
+  async createCompany(@Body() createDto: CreateCompanyDto) {
+    const company = await this.companyService.createCompany(createDto);
+
+    return {
+      success: true,
+      data: company,
+      message: 'Company created successfully',
+    };
+  }
+
+  @Get()
+  @Roles(...PLATFORM_ADMIN_ROLES)
+  @ApiOperation({ summary: 'List companies' })
+  @ApiResponse({ status: 200, description: 'Companies retrieved successfully' })
+  async getCompanies(@Query() filters: CompanyFiltersDto) {
+    this.logger.log('Getting companies', { filters });
+
+    const result = await this.companyService.getCompanies(filters);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Get(':id')
+  @AllowInternalServices()
+  @ApiOperation({ summary: 'Get a company' })
+  @ApiParam({ name: 'id', description: 'Company ID' })
+  @ApiResponse({ status: 200, description: 'Company retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Company not found' })
+  async getCompany(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const company = await this.companyService.getCompany(id, user);
+
+    return {
+      success: true,
+      data: company,
+    };
+  }
+
+  @Get(':id/entitlements')
+  @AllowInternalServices()
+  @ApiOperation({ summary: "Plan limits and current usage of the company's branches and staff" })
+  @ApiParam({ name: 'id', description: 'Company ID' })
+  @ApiResponse({ status: 200, description: 'Entitlements retrieved successfully' })
+  async getEntitlements(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.companyService.findCompany(id);
+    const entitlements = await this.entitlementService.getEntitlements(id, user);
+
+    return {
+      success: true,
+      data: entitlements,
+    };
+  }
+
+  @Put(':id')
+  @Roles(...PLATFORM_ADMIN_ROLES, COMPANY_OWNER_ROLE)
+  @ApiOperation({ summary: 'Update a company' })
+  @ApiParam({ name: 'id', description: 'Company ID' })
+  @ApiResponse({ status: 200, description: 'Company updated successfully' })
+  @ApiResponse({ status: 409, description: 'Slug already taken' })
+  async updateCompany(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateCompanyDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const company = await this.companyService.updateCompany(id, updateDto, user);
+
+    return {
+      success: true,
+      data: company,
+      message: 'Company updated successfully',
+    };
+  }
+
+  @Patch(':id/status')
+  @Roles(...PLATFORM_ADMIN_ROLES, COMPANY_OWNER_ROLE)
+  @ApiOperation({ summary: 'Activate, deactivate or suspend a company' })
+  @ApiParam({ name: 'id', description: 'Company ID' })
+  @ApiResponse({ status: 200, description: 'Status updated successfully' })
+  @ApiResponse({ status: 400, description: 'Status change not allowed' })
+  async updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() statusDto: UpdateCompanyStatusDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const company = await this.companyService.updateStatus(id, statusDto, user);
+
+    return {
+      success: true,
+      data: company,
+      message: `Company is now ${company.status}`,
+    };
+  }
+
+  @Delete(':id')
+  @Roles(...PLATFORM_ADMIN_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete an inactive company and its branches' })
+  @ApiParam({ name: 'id', description: 'Company ID' })
+  @ApiResponse({ status: 200, description: 'Company deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Company is still active' })
+  async deleteCompany(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.companyService.deleteCompany(id, user);
+
+    return {
+      success: true,
+      message: 'Company deleted successfully',
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { EquipmentFaultService } from '../services/equipment-fault.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import { CloseFaultDto, FaultFiltersDto, ReportFaultDto } from '../dto/equipment.dto';
+
+@ApiTags('Equipment')
+@Controller('equipment-faults')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class EquipmentFaultController {
+  constructor(private readonly equipmentFaultService: EquipmentFaultService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Report faulty equipment (members and staff); it is taken out of service' })
+  @ApiResponse({ status: 201, description: 'Fault reported successfully' })
+  @ApiResponse({ status: 409, description: 'A fault is already open for the equipment' })
+  async reportFault(
+    @Body() reportDto: ReportFaultDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const fault = await this.equipmentFaultService.reportFault(reportDto, user);
+
+    return {
+      success: true,
+      data: fault,
+      message: 'Fault reported successfully',
+    };
+  }
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Fault reports of a branch' })
+  @ApiResponse({ status: 200, description: 'Fault reports retrieved successfully' })
+  async getFaults(
+    @Query() filters: FaultFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const faults = await this.equipmentFaultService.getFaults(filters, user);
+
+    return {
+      success: true,
+      data: faults,
+    };
+  }
+
+  @Post(':id/close')
+  @Roles(...STAFF_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resolve or dismiss a fault report, returning the equipment to service' })
+  @ApiParam({ name: 'id', description: 'Fault report ID' })
+  @ApiResponse({ status: 200, description: 'Fault report closed successfully' })
+  @ApiResponse({ status: 400, description: 'Fault report is already closed' })
+  async closeFault(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() closeDto: CloseFaultDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const fault = await this.equipmentFaultService.closeFault(id, closeDto, user);
+
+    return {
+      success: true,
+      data: fault,
+      message: 'Fault report closed successfully',
+    };
+  }
+}
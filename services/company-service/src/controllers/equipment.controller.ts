@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { EquipmentService } from '../services/equipment.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  CreateEquipmentDto,
+  CreateMaintenanceLogDto,
+  EquipmentAlertsQueryDto,
+  EquipmentFiltersDto,
+  UpdateEquipmentDto,
+} from '../dto/equipment.dto';
+
+@ApiTags('Equipment')
+@Controller('equipment')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@Roles(...STAFF_ROLES)
+@ApiBearerAuth('JWT-auth')
+export class EquipmentController {
+  constructor(private readonly equipmentService: EquipmentService) {}
+
+  @Post()
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Register equipment at a branch' })
+  @ApiResponse({ status: 201, description: 'Equipment created successfully' })
+  async createEquipment(
+    @Body() createDto: CreateEquipmentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const equipment = await this.equipmentService.createEquipment(createDto, user);
+
+    return {
+      success: true,
+      data: equipment,
+      message: 'Equipment created successfully',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Equipment of a branch' })
+  @ApiResponse({ status: 200, description: 'Equipment retrieved successfully' })
+  async getEquipment(
+    @Query() filters: EquipmentFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const equipment = await this.equipmentService.getEquipment(filters, user);
+
+    return {
+      success: true,
+      data: equipment,
+    };
+  }
+
+  @Get('alerts')
+  @ApiOperation({ summary: 'Overdue maintenance, expiring warranties and out-of-service equipment at a branch' })
+  @ApiResponse({ status: 200, description: 'Equipment alerts retrieved successfully' })
+  async getAlerts(
+    @Query() query: EquipmentAlertsQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const alerts = await this.equipmentService.getAlerts(query.branchId, user);
+
+    return {
+      success: true,
+      data: alerts,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get equipment by ID' })
+  @ApiParam({ name: 'id', description: 'Equipment ID' })
+  @ApiResponse({ status: 200, description: 'Equipment retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Equipment not found' })
+  async getEquipmentById(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const equipment = await this.equipmentService.getEquipmentById(id, user);
+
+    return {
+      success: true,
+      data: equipment,
+    };
+  }
+
+  @Put(':id')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Update equipment' })
+  @ApiParam({ name: 'id', description: 'Equipment ID' })
+  @ApiResponse({ status: 200, description: 'Equipment updated successfully' })
+  @ApiResponse({ status: 404, description: 'Equipment not found' })
+  async updateEquipment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateEquipmentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const equipment = await this.equipmentService.updateEquipment(id, updateDto, user);
+
+    return {
+      success: true,
+      data: equipment,
+      message: 'Equipment updated successfully',
+    };
+  }
+
+  @Get(':id/maintenance-logs')
+  @ApiOperation({ summary: 'Maintenance history of the equipment' })
+  @ApiParam({ name: 'id', description: 'Equipment ID' })
+  @ApiResponse({ status: 200, description: 'Maintenance log retrieved successfully' })
+  async getMaintenanceLogs(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const logs = await this.equipmentService.getMaintenanceLogs(id, user);
+
+    return {
+      success: true,
+      data: logs,
+    };
+  }
+
+  @Post(':id/maintenance-logs')
+  @ApiOperation({ summary: 'Record maintenance, an inspection or a repair' })
+  @ApiParam({ name: 'id', description: 'Equipment ID' })
+  @ApiResponse({ status: 201, description: 'Maintenance recorded successfully' })
+  @ApiResponse({ status: 400, description: 'performedAt is in the future' })
+  async recordMaintenance(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() logDto: CreateMaintenanceLogDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const log = await this.equipmentService.recordMaintenance(id, logDto, user);
+
+    return {
+      success: true,
+      data: log,
+      message: 'Maintenance recorded successfully',
+    };
+  }
+}
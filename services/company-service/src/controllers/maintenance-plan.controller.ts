@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { MaintenancePlanService } from '../services/maintenance-plan.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  CreateMaintenancePlanDto,
+  MaintenancePlanQueryDto,
+  UpdateMaintenancePlanDto,
+} from '../dto/maintenance-plan.dto';
+
+@ApiTags('Maintenance')
+@Controller('maintenance-plans')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@Roles(...MANAGER_ROLES)
+@ApiBearerAuth('JWT-auth')
+export class MaintenancePlanController {
+  constructor(private readonly maintenancePlanService: MaintenancePlanService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a maintenance plan for an equipment category' })
+  @ApiResponse({ status: 201, description: 'Maintenance plan created successfully' })
+  async createPlan(
+    @Body() createDto: CreateMaintenancePlanDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const plan = await this.maintenancePlanService.createPlan(createDto, user);
+
+    return {
+      success: true,
+      data: plan,
+      message: 'Maintenance plan created successfully',
+    };
+  }
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Maintenance plans of a company' })
+  @ApiResponse({ status: 200, description: 'Maintenance plans retrieved successfully' })
+  async getPlans(
+    @Query() query: MaintenancePlanQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const plans = await this.maintenancePlanService.getPlans(query, user);
+
+    return {
+      success: true,
+      data: plans,
+    };
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a maintenance plan' })
+  @ApiParam({ name: 'id', description: 'Maintenance plan ID' })
+  @ApiResponse({ status: 200, description: 'Maintenance plan updated successfully' })
+  @ApiResponse({ status: 404, description: 'Maintenance plan not found' })
+  async updatePlan(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateMaintenancePlanDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const plan = await this.maintenancePlanService.updatePlan(id, updateDto, user);
+
+    return {
+      success: true,
+      data: plan,
+      message: 'Maintenance plan updated successfully',
+    };
+  }
+
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Deactivate a maintenance plan' })
+  @ApiParam({ name: 'id', description: 'Maintenance plan ID' })
+  @ApiResponse({ status: 200, description: 'Maintenance plan deactivated successfully' })
+  async deactivatePlan(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const plan = await this.maintenancePlanService.deactivatePlan(id, user);
+
+    return {
+      success: true,
+      data: plan,
+      message: 'Maintenance plan deactivated successfully',
+    };
+  }
+}
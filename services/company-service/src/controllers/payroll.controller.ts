@@ -0,0 +1,176 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { PayrollService } from '../services/payroll.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import { PayrollExportFormat } from '../types/payroll.types';
+import { CreatePayrollRunDto, PayrollExportQueryDto, PayrollRunFiltersDto } from '../dto/payroll.dto';
+
+@ApiTags('Payroll')
+@Controller('payroll-runs')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@Roles(...MANAGER_ROLES)
+@ApiBearerAuth('JWT-auth')
+export class PayrollController {
+  constructor(private readonly payrollService: PayrollService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Calculate a draft payroll run for a branch and pay period' })
+  @ApiResponse({ status: 201, description: 'Payroll run created successfully' })
+  @ApiResponse({ status: 409, description: 'Period overlaps an existing run' })
+  @ApiResponse({ status: 503, description: 'Teaching activity could not be loaded' })
+  async createRun(
+    @Body() createDto: CreatePayrollRunDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const run = await this.payrollService.createRun(createDto, user);
+
+    return {
+      success: true,
+      data: run,
+      message: 'Payroll run created successfully',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Payroll runs of a branch' })
+  @ApiResponse({ status: 200, description: 'Payroll runs retrieved successfully' })
+  async getRuns(
+    @Query() filters: PayrollRunFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const runs = await this.payrollService.getRuns(filters, user);
+
+    return {
+      success: true,
+      data: runs,
+    };
+  }
+
+  @Get('payslips/me')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "The caller's finalized payslips" })
+  @ApiResponse({ status: 200, description: 'Payslips retrieved successfully' })
+  async getMyPayslips(@CurrentUser() user: AuthenticatedUser) {
+    const payslips = await this.payrollService.getMyPayslips(user);
+
+    return {
+      success: true,
+      data: payslips,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Payroll run with its payslips' })
+  @ApiParam({ name: 'id', description: 'Payroll run ID' })
+  @ApiResponse({ status: 200, description: 'Payroll run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Payroll run not found' })
+  async getRun(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const run = await this.payrollService.getRun(id, user);
+
+    return {
+      success: true,
+      data: run,
+    };
+  }
+
+  @Get(':id/export')
+  @ApiProduces('text/csv', 'application/pdf')
+  @ApiOperation({ summary: 'Download the payslip summary of a run as CSV or PDF' })
+  @ApiParam({ name: 'id', description: 'Payroll run ID' })
+  @ApiResponse({ status: 200, description: 'Payslip summary file' })
+  async exportRun(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: PayrollExportQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    const file = await this.payrollService.exportRun(id, query.format ?? PayrollExportFormat.CSV, user);
+
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
+  }
+
+  @Post(':id/recalculate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Recalculate a draft run from current data' })
+  @ApiParam({ name: 'id', description: 'Payroll run ID' })
+  @ApiResponse({ status: 200, description: 'Payroll run recalculated successfully' })
+  @ApiResponse({ status: 400, description: 'Payroll run is finalized' })
+  async recalculate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const run = await this.payrollService.recalculate(id, user);
+
+    return {
+      success: true,
+      data: run,
+      message: 'Payroll run recalculated successfully',
+    };
+  }
+
+  @Post(':id/finalize')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Lock a draft run after the pay period has ended' })
+  @ApiParam({ name: 'id', description: 'Payroll run ID' })
+  @ApiResponse({ status: 200, description: 'Payroll run finalized successfully' })
+  @ApiResponse({ status: 400, description: 'Period not over or time entries still open' })
+  async finalize(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const run = await this.payrollService.finalize(id, user);
+
+    return {
+      success: true,
+      data: run,
+      message: 'Payroll run finalized successfully',
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a draft run' })
+  @ApiParam({ name: 'id', description: 'Payroll run ID' })
+  @ApiResponse({ status: 200, description: 'Payroll run deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Payroll run is finalized' })
+  async deleteRun(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.payrollService.deleteRun(id, user);
+
+    return {
+      success: true,
+      message: 'Payroll run deleted successfully',
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { SetupTemplateService } from '../services/setup-template.service';
+import { BranchSetupService } from '../services/branch-setup.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { COMPANY_OWNER_ROLE, MANAGER_ROLES, PLATFORM_ADMIN_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  ApplySetupTemplateDto,
+  CreateSetupTemplateDto,
+  SetupTemplateQueryDto,
+  UpdateSetupTemplateDto,
+} from '../dto/branch-setup.dto';
+
+@ApiTags('Branch Setup')
+@Controller('setup-templates')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@Roles(...PLATFORM_ADMIN_ROLES, COMPANY_OWNER_ROLE)
+@ApiBearerAuth('JWT-auth')
+export class SetupTemplateController {
+  constructor(
+    private readonly setupTemplateService: SetupTemplateService,
+    private readonly branchSetupService: BranchSetupService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a setup template, optionally captured from an existing branch' })
+  @ApiResponse({ status: 201, description: 'Setup template created successfully' })
+  async createTemplate(
+    @Body() createDto: CreateSetupTemplateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const template = await this.setupTemplateService.createTemplate(createDto, user);
+
+    return {
+      success: true,
+      data: template,
+      message: 'Setup template created successfully',
+    };
+  }
+
+  @Get()
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: "Setup templates available to a company: its own and the platform's" })
+  @ApiResponse({ status: 200, description: 'Setup templates retrieved successfully' })
+  async getTemplates(
+    @Query() query: SetupTemplateQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const templates = await this.setupTemplateService.getTemplates(query, user);
+
+    return {
+      success: true,
+      data: templates,
+    };
+  }
+
+  @Get(':id')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Get a setup template' })
+  @ApiParam({ name: 'id', description: 'Setup template ID' })
+  @ApiResponse({ status: 200, description: 'Setup template retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Setup template not found' })
+  async getTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const template = await this.setupTemplateService.getTemplate(id, user);
+
+    return {
+      success: true,
+      data: template,
+    };
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a setup template' })
+  @ApiParam({ name: 'id', description: 'Setup template ID' })
+  @ApiResponse({ status: 200, description: 'Setup template updated successfully' })
+  async updateTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateSetupTemplateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const template = await this.setupTemplateService.updateTemplate(id, updateDto, user);
+
+    return {
+      success: true,
+      data: template,
+      message: 'Setup template updated successfully',
+    };
+  }
+
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Deactivate a setup template' })
+  @ApiParam({ name: 'id', description: 'Setup template ID' })
+  @ApiResponse({ status: 200, description: 'Setup template deactivated successfully' })
+  async deactivateTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const template = await this.setupTemplateService.deactivateTemplate(id, user);
+
+    return {
+      success: true,
+      data: template,
+      message: 'Setup template deactivated successfully',
+    };
+  }
+
+  @Post(':id/apply')
+  @ApiOperation({ summary: 'Open a new branch from a setup template' })
+  @ApiParam({ name: 'id', description: 'Setup template ID' })
+  @ApiResponse({ status: 201, description: 'Branch created from template successfully' })
+  @ApiResponse({ status: 402, description: 'Plan branch limit reached' })
+  async applyTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() applyDto: ApplySetupTemplateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const result = await this.branchSetupService.applyTemplate(id, applyDto, user);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Branch created from template successfully',
+    };
+  }
+}
@@ -0,0 +1,325 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ShiftService } from '../services/shift.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  AssignShiftDto,
+  CreateShiftDto,
+  CreateShiftSwapDto,
+  CreateShiftTemplateDto,
+  GenerateShiftsDto,
+  MyShiftsQueryDto,
+  RespondShiftSwapDto,
+  ReviewShiftSwapDto,
+  ShiftFiltersDto,
+  ShiftSwapFiltersDto,
+} from '../dto/shift.dto';
+
+@ApiTags('Shifts')
+@Controller('shifts')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@Roles(...STAFF_ROLES)
+@ApiBearerAuth('JWT-auth')
+export class ShiftController {
+  constructor(private readonly shiftService: ShiftService) {}
+
+  // ===================
+  // TEMPLATES
+  // ===================
+
+  @Post('templates')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Create a recurring shift template' })
+  @ApiResponse({ status: 201, description: 'Template created successfully' })
+  async createTemplate(
+    @Body() createDto: CreateShiftTemplateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const template = await this.shiftService.createTemplate(createDto, user);
+
+    return {
+      success: true,
+      data: template,
+      message: 'Shift template created successfully',
+    };
+  }
+
+  @Get('templates')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'List active shift templates of a branch' })
+  @ApiQuery({ name: 'branchId', description: 'Branch ID' })
+  @ApiResponse({ status: 200, description: 'Templates retrieved successfully' })
+  async getTemplates(
+    @Query('branchId', ParseUUIDPipe) branchId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const templates = await this.shiftService.getTemplates(branchId, user);
+
+    return {
+      success: true,
+      data: templates,
+    };
+  }
+
+  @Post('templates/:id/generate')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Generate shifts from a template for a date range' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: 200, description: 'Shifts generated successfully' })
+  async generateShifts(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() generateDto: GenerateShiftsDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const result = await this.shiftService.generateShifts(id, generateDto, user);
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.created} shifts generated`,
+    };
+  }
+
+  @Post('templates/:id/deactivate')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop a template from generating shifts' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: 200, description: 'Template deactivated successfully' })
+  async deactivateTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const template = await this.shiftService.deactivateTemplate(id, user);
+
+    return {
+      success: true,
+      data: template,
+      message: 'Shift template deactivated successfully',
+    };
+  }
+
+  // ===================
+  // SWAPS
+  // ===================
+
+  @Get('swaps')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'List swap requests of a branch' })
+  @ApiResponse({ status: 200, description: 'Swap requests retrieved successfully' })
+  async getSwaps(
+    @Query() filters: ShiftSwapFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const swaps = await this.shiftService.getSwaps(filters, user);
+
+    return {
+      success: true,
+      data: swaps,
+    };
+  }
+
+  @Get('swaps/me')
+  @ApiOperation({ summary: 'Swap requests the caller made or was asked to take' })
+  @ApiResponse({ status: 200, description: 'Swap requests retrieved successfully' })
+  async getMySwaps(@CurrentUser() user: AuthenticatedUser) {
+    const swaps = await this.shiftService.getMySwaps(user);
+
+    return {
+      success: true,
+      data: swaps,
+    };
+  }
+
+  @Post('swaps/:id/respond')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Accept or decline a swap you were asked to take' })
+  @ApiParam({ name: 'id', description: 'Swap request ID' })
+  @ApiResponse({ status: 200, description: 'Response recorded successfully' })
+  async respondToSwap(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() respondDto: RespondShiftSwapDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const swap = await this.shiftService.respondToSwap(id, respondDto, user);
+
+    return {
+      success: true,
+      data: swap,
+      message: respondDto.accept ? 'Swap accepted; waiting for manager approval' : 'Swap declined',
+    };
+  }
+
+  @Post('swaps/:id/review')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve or reject an accepted swap' })
+  @ApiParam({ name: 'id', description: 'Swap request ID' })
+  @ApiResponse({ status: 200, description: 'Swap reviewed successfully' })
+  @ApiResponse({ status: 409, description: 'Shifts changed or would overlap' })
+  async reviewSwap(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() reviewDto: ReviewShiftSwapDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const swap = await this.shiftService.reviewSwap(id, reviewDto, user);
+
+    return {
+      success: true,
+      data: swap,
+      message: reviewDto.approve ? 'Swap approved' : 'Swap rejected',
+    };
+  }
+
+  @Post('swaps/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Withdraw your swap request' })
+  @ApiParam({ name: 'id', description: 'Swap request ID' })
+  @ApiResponse({ status: 200, description: 'Swap request cancelled successfully' })
+  async cancelSwap(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const swap = await this.shiftService.cancelSwap(id, user);
+
+    return {
+      success: true,
+      data: swap,
+      message: 'Swap request cancelled',
+    };
+  }
+
+  // ===================
+  // SHIFTS
+  // ===================
+
+  @Post()
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Create a one-off shift' })
+  @ApiResponse({ status: 201, description: 'Shift created successfully' })
+  @ApiResponse({ status: 409, description: 'Staff member already has a shift at that time' })
+  async createShift(
+    @Body() createDto: CreateShiftDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const shift = await this.shiftService.createShift(createDto, user);
+
+    return {
+      success: true,
+      data: shift,
+      message: 'Shift created successfully',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Branch roster for a period' })
+  @ApiResponse({ status: 200, description: 'Shifts retrieved successfully' })
+  async getShifts(
+    @Query() filters: ShiftFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const shifts = await this.shiftService.getShifts(filters, user);
+
+    return {
+      success: true,
+      data: shifts,
+    };
+  }
+
+  @Get('me')
+  @ApiOperation({ summary: "The caller's upcoming shifts" })
+  @ApiResponse({ status: 200, description: 'Shifts retrieved successfully' })
+  async getMyShifts(
+    @Query() query: MyShiftsQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const shifts = await this.shiftService.getMyShifts(query, user);
+
+    return {
+      success: true,
+      data: shifts,
+    };
+  }
+
+  @Patch(':id/assign')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Assign a shift to a staff member or make it open' })
+  @ApiParam({ name: 'id', description: 'Shift ID' })
+  @ApiResponse({ status: 200, description: 'Shift assigned successfully' })
+  @ApiResponse({ status: 409, description: 'Staff member already has a shift at that time' })
+  async assignShift(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() assignDto: AssignShiftDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const shift = await this.shiftService.assignShift(id, assignDto, user);
+
+    return {
+      success: true,
+      data: shift,
+      message: shift.staffId ? 'Shift assigned successfully' : 'Shift is now open',
+    };
+  }
+
+  @Post(':id/cancel')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a shift' })
+  @ApiParam({ name: 'id', description: 'Shift ID' })
+  @ApiResponse({ status: 200, description: 'Shift cancelled successfully' })
+  async cancelShift(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const shift = await this.shiftService.cancelShift(id, user);
+
+    return {
+      success: true,
+      data: shift,
+      message: 'Shift cancelled successfully',
+    };
+  }
+
+  @Post(':id/swaps')
+  @ApiOperation({ summary: 'Ask a colleague to take or exchange your shift' })
+  @ApiParam({ name: 'id', description: 'Shift ID' })
+  @ApiResponse({ status: 201, description: 'Swap requested successfully' })
+  @ApiResponse({ status: 409, description: 'Shift already has an open swap request' })
+  async requestSwap(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() swapDto: CreateShiftSwapDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const swap = await this.shiftService.requestSwap(id, swapDto, user);
+
+    return {
+      success: true,
+      data: swap,
+      message: 'Swap requested; waiting for your colleague to respond',
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { TimeClockService } from '../services/time-clock.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  ClockInDto,
+  ClockOutDto,
+  CorrectTimeEntryDto,
+  MyTimeEntriesQueryDto,
+  TimesheetQueryDto,
+} from '../dto/time-clock.dto';
+
+@ApiTags('Time Clock')
+@Controller('time-clock')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@Roles(...STAFF_ROLES)
+@ApiBearerAuth('JWT-auth')
+export class TimeClockController {
+  constructor(private readonly timeClockService: TimeClockService) {}
+
+  @Post('clock-in')
+  @ApiOperation({ summary: 'Clock in at a branch' })
+  @ApiResponse({ status: 201, description: 'Clocked in successfully' })
+  @ApiResponse({ status: 409, description: 'Already clocked in' })
+  async clockIn(
+    @Body() clockInDto: ClockInDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const entry = await this.timeClockService.clockIn(clockInDto, user);
+
+    return {
+      success: true,
+      data: entry,
+      message: 'Clocked in successfully',
+    };
+  }
+
+  @Post('clock-out')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Clock out of the open time entry' })
+  @ApiResponse({ status: 200, description: 'Clocked out successfully' })
+  @ApiResponse({ status: 404, description: 'Not clocked in' })
+  async clockOut(
+    @Body() clockOutDto: ClockOutDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const entry = await this.timeClockService.clockOut(clockOutDto, user);
+
+    return {
+      success: true,
+      data: entry,
+      message: 'Clocked out successfully',
+    };
+  }
+
+  @Get('me/open')
+  @ApiOperation({ summary: "The caller's open time entry, if clocked in" })
+  @ApiResponse({ status: 200, description: 'Open entry retrieved successfully' })
+  async getOpenEntry(@CurrentUser() user: AuthenticatedUser) {
+    const entry = await this.timeClockService.getOpenEntry(user);
+
+    return {
+      success: true,
+      data: entry,
+    };
+  }
+
+  @Get('me/entries')
+  @ApiOperation({ summary: "The caller's time entries" })
+  @ApiResponse({ status: 200, description: 'Time entries retrieved successfully' })
+  async getMyEntries(
+    @Query() query: MyTimeEntriesQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const entries = await this.timeClockService.getMyEntries(query, user);
+
+    return {
+      success: true,
+      data: entries,
+    };
+  }
+
+  @Patch('entries/:id')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Correct a time entry' })
+  @ApiParam({ name: 'id', description: 'Time entry ID' })
+  @ApiResponse({ status: 200, description: 'Time entry corrected successfully' })
+  @ApiResponse({ status: 403, description: 'Managers cannot correct their own entries' })
+  async correctEntry(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() correctDto: CorrectTimeEntryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const entry = await this.timeClockService.correctEntry(id, correctDto, user);
+
+    return {
+      success: true,
+      data: entry,
+      message: 'Time entry corrected successfully',
+    };
+  }
+
+  @Get('timesheets')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Scheduled versus worked hours per staff member for a period' })
+  @ApiResponse({ status: 200, description: 'Timesheet retrieved successfully' })
+  async getTimesheet(
+    @Query() query: TimesheetQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const timesheet = await this.timeClockService.getTimesheet(query, user);
+
+    return {
+      success: true,
+      data: timesheet,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { SetMetadata, createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedUser } from '../types/company.types';
+
+export const INTERNAL_SERVICE_ACCESS = 'internalServiceAccess';
+
+// Roles decorator
+export const Roles = (...roles: string[]) => SetMetadata('roles', roles);
+
+// Lets other services call the route with their service token instead of a JWT
+export const AllowInternalServices = () => SetMetadata(INTERNAL_SERVICE_ACCESS, true);
+
+// Current user decorator (undefined for internal service callers)
+export const CurrentUser = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AuthenticatedUser => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.user;
+  },
+);
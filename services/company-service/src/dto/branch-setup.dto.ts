@@ -0,0 +1,309 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsDateString,
+  IsUUID,
+  ValidateNested,
+  Matches,
+  MaxLength,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { CreateBranchDto } from './branch.dto';
+import { OperatingHoursDto } from './operating-hours.dto';
+
+const RECURRING_TYPES = ['daily', 'weekly', 'monthly'];
+
+// ===================
+// TEMPLATE CONTENTS
+// ===================
+
+export class EquipmentChecklistEntryDto {
+  @ApiProperty({ description: 'Equipment name', example: 'Treadmill' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'Equipment category', example: 'cardio' })
+  @IsString()
+  @MaxLength(100)
+  category: string;
+
+  @ApiPropertyOptional({ description: 'Brand' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  brand?: string;
+
+  @ApiPropertyOptional({ description: 'Model' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  model?: string;
+
+  @ApiProperty({ description: 'Units needed', minimum: 1, maximum: 1000 })
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  quantity: number;
+}
+
+export class ClassTemplateDto {
+  @ApiProperty({ description: 'Class name', example: 'Morning Spin' })
+  @IsString()
+  @MaxLength(255)
+  className: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Category', example: 'cycling' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @ApiProperty({ description: 'Branch-local start time', example: '06:30' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'localStartTime must be HH:mm' })
+  localStartTime: string;
+
+  @ApiProperty({ description: 'Duration in minutes', minimum: 5, maximum: 480 })
+  @IsInt()
+  @Min(5)
+  @Max(480)
+  duration: number;
+
+  @ApiProperty({ description: 'Maximum capacity', minimum: 1 })
+  @IsInt()
+  @Min(1)
+  maxCapacity: number;
+
+  @ApiPropertyOptional({ description: 'Room number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  roomNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Equipment needed', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  equipmentNeeded?: string[];
+
+  @ApiPropertyOptional({ description: 'Level', example: 'beginner' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  level?: string;
+
+  @ApiProperty({ description: 'Recurrence frequency', enum: RECURRING_TYPES })
+  @IsIn(RECURRING_TYPES)
+  recurringType: string;
+
+  @ApiPropertyOptional({ description: 'Weekdays for weekly classes, 0-6 for Sunday-Saturday', type: [Number] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  recurringDays?: number[];
+
+  @ApiPropertyOptional({ description: 'Day of the month for monthly classes', minimum: 1, maximum: 31 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  dayOfMonth?: number;
+
+  @ApiPropertyOptional({ description: 'Price if different from package', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+// ===================
+// SETUP TEMPLATES
+// ===================
+
+export class CreateSetupTemplateDto {
+  @ApiPropertyOptional({ description: 'Owning company; omit for a platform template (platform admins only)' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiProperty({ description: 'Template name', example: 'Standard city gym' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Capture amenities, hours, settings, equipment and classes from this branch' })
+  @IsOptional()
+  @IsUUID()
+  sourceBranchId?: string;
+
+  @ApiPropertyOptional({ description: 'Recurring classes of the source branch to capture', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  classScheduleIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Amenities', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  amenities?: string[];
+
+  @ApiPropertyOptional({ description: 'Weekly operating hours', type: OperatingHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OperatingHoursDto)
+  operatingHours?: OperatingHoursDto;
+
+  @ApiPropertyOptional({ description: 'Branch settings' })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Equipment checklist', type: [EquipmentChecklistEntryDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => EquipmentChecklistEntryDto)
+  equipment?: EquipmentChecklistEntryDto[];
+
+  @ApiPropertyOptional({ description: 'Recurring classes', type: [ClassTemplateDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ClassTemplateDto)
+  classes?: ClassTemplateDto[];
+}
+
+export class UpdateSetupTemplateDto {
+  @ApiPropertyOptional({ description: 'Template name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Amenities', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  amenities?: string[];
+
+  @ApiPropertyOptional({ description: 'Weekly operating hours', type: OperatingHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OperatingHoursDto)
+  operatingHours?: OperatingHoursDto;
+
+  @ApiPropertyOptional({ description: 'Branch settings, replacing the current ones' })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Equipment checklist', type: [EquipmentChecklistEntryDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => EquipmentChecklistEntryDto)
+  equipment?: EquipmentChecklistEntryDto[];
+
+  @ApiPropertyOptional({ description: 'Recurring classes', type: [ClassTemplateDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ClassTemplateDto)
+  classes?: ClassTemplateDto[];
+}
+
+export class SetupTemplateQueryDto {
+  @ApiPropertyOptional({ description: "Company whose templates to include alongside platform templates; defaults to the caller's" })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Include deactivated templates', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean;
+}
+
+// ===================
+// NEW BRANCHES
+// ===================
+
+export class ApplySetupTemplateDto extends CreateBranchDto {
+  @ApiPropertyOptional({ description: "Trainer who runs the template's classes; classes are skipped without one" })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiPropertyOptional({ description: 'First day classes run; defaults to the opening date or today', example: '2025-09-01' })
+  @IsOptional()
+  @IsDateString()
+  classesStartDate?: string;
+}
+
+/**
+ * The new branch's own details. Amenities, settings, timezone and capacity
+ * default to the source branch's when omitted.
+ */
+export class CloneBranchDto extends OmitType(CreateBranchDto, ['companyId'] as const) {
+  @ApiPropertyOptional({ description: 'Recurring classes of the source branch to copy', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  classScheduleIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Trainer for the copied classes; defaults to their current trainers' })
+  @IsOptional()
+  @IsUUID()
+  trainerId?: string;
+
+  @ApiPropertyOptional({ description: 'First day copied classes run; defaults to the opening date or today', example: '2025-09-01' })
+  @IsOptional()
+  @IsDateString()
+  classesStartDate?: string;
+
+  @ApiPropertyOptional({ description: "Copy the source branch's equipment as a checklist", default: true })
+  @IsOptional()
+  @IsBoolean()
+  includeEquipmentChecklist?: boolean;
+}
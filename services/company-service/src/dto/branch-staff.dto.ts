@@ -0,0 +1,140 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsBoolean,
+  IsOptional,
+  IsDateString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateBranchStaffDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'User ID from auth-service' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Position', example: 'Receptionist' })
+  @IsString()
+  @MaxLength(100)
+  position: string;
+
+  @ApiPropertyOptional({ description: 'Department', example: 'Front desk' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  department?: string;
+
+  @ApiPropertyOptional({ description: 'Monthly salary', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  salary?: number;
+
+  @ApiPropertyOptional({ description: 'Hourly rate', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  hourlyRate?: number;
+
+  @ApiPropertyOptional({ description: 'Commission per completed personal training session; overrides the company default', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  ptSessionCommission?: number;
+
+  @ApiPropertyOptional({ description: 'Commission per class taught; overrides the company default', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  classCommission?: number;
+
+  @ApiPropertyOptional({ description: 'Commission per member attending a class taught; overrides the company default', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  classAttendeeCommission?: number;
+
+  @ApiProperty({ description: 'Employment start date', example: '2025-01-15' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class UpdateBranchStaffDto {
+  @ApiPropertyOptional({ description: 'Position' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  position?: string;
+
+  @ApiPropertyOptional({ description: 'Department' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  department?: string;
+
+  @ApiPropertyOptional({ description: 'Monthly salary', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  salary?: number;
+
+  @ApiPropertyOptional({ description: 'Hourly rate', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  hourlyRate?: number;
+
+  @ApiPropertyOptional({ description: 'Commission per completed personal training session; null restores the company default', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  ptSessionCommission?: number | null;
+
+  @ApiPropertyOptional({ description: 'Commission per class taught; null restores the company default', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  classCommission?: number | null;
+
+  @ApiPropertyOptional({ description: 'Commission per member attending a class taught; null restores the company default', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  classAttendeeCommission?: number | null;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class EndEmploymentDto {
+  @ApiPropertyOptional({ description: 'Last working day; defaults to today', example: '2025-06-30' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class BranchStaffQueryDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Include former staff', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean;
+}
@@ -0,0 +1,326 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsDateString,
+  IsUUID,
+  IsUrl,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { BranchStatus } from '@prisma/client';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// ===================
+// CREATE BRANCH
+// ===================
+
+export class CreateBranchDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiProperty({ description: 'Branch name', example: 'Downtown' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'URL slug, unique within the company; generated from the name when omitted' })
+  @IsOptional()
+  @Matches(SLUG_PATTERN, { message: 'slug may only contain lowercase letters, digits and single hyphens' })
+  @MaxLength(100)
+  slug?: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Street address' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'City' })
+  @IsString()
+  @MaxLength(100)
+  city: string;
+
+  @ApiProperty({ description: 'State or region' })
+  @IsString()
+  @MaxLength(100)
+  state: string;
+
+  @ApiProperty({ description: 'Country' })
+  @IsString()
+  @MaxLength(100)
+  country: string;
+
+  @ApiProperty({ description: 'Postal code' })
+  @IsString()
+  @MaxLength(20)
+  postalCode: string;
+
+  @ApiPropertyOptional({ description: 'Contact phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @ApiPropertyOptional({ description: 'Contact email' })
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
+  @ApiPropertyOptional({ description: 'Facility manager user ID' })
+  @IsOptional()
+  @IsUUID()
+  managerId?: string;
+
+  @ApiPropertyOptional({ description: 'Latitude', minimum: -90, maximum: 90 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude', minimum: -180, maximum: 180 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: 'IANA timezone', example: 'Europe/Berlin' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum members on site at once', minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+
+  @ApiPropertyOptional({ description: 'Floor area in square meters', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  area?: number;
+
+  @ApiPropertyOptional({ description: 'Amenities', type: [String], example: ['sauna', 'parking'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  amenities?: string[];
+
+  @ApiPropertyOptional({ description: 'Image URLs', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  images?: string[];
+
+  @ApiPropertyOptional({ description: 'Opening date', example: '2025-09-01' })
+  @IsOptional()
+  @IsDateString()
+  openingDate?: string;
+
+  @ApiPropertyOptional({ description: 'Branch settings' })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, any>;
+}
+
+// ===================
+// UPDATE BRANCH
+// ===================
+
+export class UpdateBranchDto {
+  @ApiPropertyOptional({ description: 'Branch name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'URL slug; unchanged when the name changes unless given' })
+  @IsOptional()
+  @Matches(SLUG_PATTERN, { message: 'slug may only contain lowercase letters, digits and single hyphens' })
+  @MaxLength(100)
+  slug?: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Street address' })
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @ApiPropertyOptional({ description: 'City' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'State or region' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  state?: string;
+
+  @ApiPropertyOptional({ description: 'Country' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  country?: string;
+
+  @ApiPropertyOptional({ description: 'Postal code' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  postalCode?: string;
+
+  @ApiPropertyOptional({ description: 'Contact phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @ApiPropertyOptional({ description: 'Contact email' })
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
+  @ApiPropertyOptional({ description: 'Facility manager user ID; only owners may reassign it' })
+  @IsOptional()
+  @IsUUID()
+  managerId?: string;
+
+  @ApiPropertyOptional({ description: 'Latitude', minimum: -90, maximum: 90 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude', minimum: -180, maximum: 180 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: 'IANA timezone', example: 'Europe/Berlin' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum members on site at once', minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+
+  @ApiPropertyOptional({ description: 'Floor area in square meters', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  area?: number;
+
+  @ApiPropertyOptional({ description: 'Amenities', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  amenities?: string[];
+
+  @ApiPropertyOptional({ description: 'Image URLs', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  images?: string[];
+
+  @ApiPropertyOptional({ description: 'Opening date', example: '2025-09-01' })
+  @IsOptional()
+  @IsDateString()
+  openingDate?: string;
+
+  @ApiPropertyOptional({ description: 'Settings to merge into the existing ones; a null value removes the key' })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, any>;
+}
+
+// ===================
+// STATUS & FILTERS
+// ===================
+
+export class UpdateBranchStatusDto {
+  @ApiProperty({ description: 'New status', enum: BranchStatus })
+  @IsEnum(BranchStatus)
+  status: BranchStatus;
+
+  @ApiPropertyOptional({ description: 'Reason for the change, kept in the service log' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class BranchFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by company ID; defaults to the caller\'s company' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: BranchStatus })
+  @IsOptional()
+  @IsEnum(BranchStatus)
+  status?: BranchStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by city' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by facility manager user ID' })
+  @IsOptional()
+  @IsUUID()
+  managerId?: string;
+
+  @ApiPropertyOptional({ description: 'Search by name or address' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
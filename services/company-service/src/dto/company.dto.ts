@@ -0,0 +1,254 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsDateString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { CompanyStatus } from '@prisma/client';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// ===================
+// CREATE COMPANY
+// ===================
+
+export class CreateCompanyDto {
+  @ApiProperty({ description: 'Company name', example: 'Iron Temple Fitness' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'URL slug; generated from the name when omitted', example: 'iron-temple' })
+  @IsOptional()
+  @Matches(SLUG_PATTERN, { message: 'slug may only contain lowercase letters, digits and single hyphens' })
+  @MaxLength(100)
+  slug?: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Logo URL' })
+  @IsOptional()
+  @IsUrl()
+  logo?: string;
+
+  @ApiPropertyOptional({ description: 'Website URL' })
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+
+  @ApiPropertyOptional({ description: 'Contact email' })
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
+  @ApiPropertyOptional({ description: 'Contact phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @ApiPropertyOptional({ description: 'Street address' })
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @ApiPropertyOptional({ description: 'City' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'State or region' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  state?: string;
+
+  @ApiPropertyOptional({ description: 'Country' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  country?: string;
+
+  @ApiPropertyOptional({ description: 'Postal code' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  postalCode?: string;
+
+  @ApiPropertyOptional({ description: 'Tax ID' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  taxId?: string;
+
+  @ApiPropertyOptional({ description: 'Business license number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  licenseNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Founding date', example: '2015-04-01' })
+  @IsOptional()
+  @IsDateString()
+  foundedDate?: string;
+
+  @ApiPropertyOptional({ description: 'Company settings, e.g. bookingPolicy' })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, any>;
+}
+
+// ===================
+// UPDATE COMPANY
+// ===================
+
+export class UpdateCompanyDto {
+  @ApiPropertyOptional({ description: 'Company name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'URL slug; unchanged when the name changes unless given' })
+  @IsOptional()
+  @Matches(SLUG_PATTERN, { message: 'slug may only contain lowercase letters, digits and single hyphens' })
+  @MaxLength(100)
+  slug?: string;
+
+  @ApiPropertyOptional({ description: 'Description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Logo URL' })
+  @IsOptional()
+  @IsUrl()
+  logo?: string;
+
+  @ApiPropertyOptional({ description: 'Website URL' })
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+
+  @ApiPropertyOptional({ description: 'Contact email' })
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
+  @ApiPropertyOptional({ description: 'Contact phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @ApiPropertyOptional({ description: 'Street address' })
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @ApiPropertyOptional({ description: 'City' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'State or region' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  state?: string;
+
+  @ApiPropertyOptional({ description: 'Country' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  country?: string;
+
+  @ApiPropertyOptional({ description: 'Postal code' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  postalCode?: string;
+
+  @ApiPropertyOptional({ description: 'Tax ID' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  taxId?: string;
+
+  @ApiPropertyOptional({ description: 'Business license number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  licenseNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Founding date', example: '2015-04-01' })
+  @IsOptional()
+  @IsDateString()
+  foundedDate?: string;
+
+  @ApiPropertyOptional({ description: 'Settings to merge into the existing ones; a null value removes the key' })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, any>;
+}
+
+// ===================
+// STATUS & FILTERS
+// ===================
+
+export class UpdateCompanyStatusDto {
+  @ApiProperty({ description: 'New status', enum: CompanyStatus })
+  @IsEnum(CompanyStatus)
+  status: CompanyStatus;
+
+  @ApiPropertyOptional({ description: 'Reason for the change, kept in the service log' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class CompanyFiltersDto {
+  @ApiPropertyOptional({ description: 'Filter by status', enum: CompanyStatus })
+  @IsOptional()
+  @IsEnum(CompanyStatus)
+  status?: CompanyStatus;
+
+  @ApiPropertyOptional({ description: 'Search by name or slug' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,309 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsDateString,
+  IsUrl,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { EquipmentFaultStatus, MaintenanceType } from '@prisma/client';
+import { EQUIPMENT_CONDITIONS } from '../types/equipment.types';
+
+// ===================
+// EQUIPMENT
+// ===================
+
+export class CreateEquipmentDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Name', example: 'Treadmill #3' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'Category; maintenance plans apply by category', example: 'treadmill' })
+  @IsString()
+  @MaxLength(100)
+  category: string;
+
+  @ApiPropertyOptional({ description: 'Brand' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  brand?: string;
+
+  @ApiPropertyOptional({ description: 'Model' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  model?: string;
+
+  @ApiPropertyOptional({ description: 'Serial number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  serialNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Purchase date', example: '2024-05-01' })
+  @IsOptional()
+  @IsDateString()
+  purchaseDate?: string;
+
+  @ApiPropertyOptional({ description: 'Purchase price', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  purchasePrice?: number;
+
+  @ApiPropertyOptional({ description: 'Warranty expiry date', example: '2027-05-01' })
+  @IsOptional()
+  @IsDateString()
+  warrantyExpiry?: string;
+
+  @ApiPropertyOptional({ description: 'Last maintenance date' })
+  @IsOptional()
+  @IsDateString()
+  lastMaintenance?: string;
+
+  @ApiPropertyOptional({ description: 'Next maintenance date; derived from the maintenance plan when one applies' })
+  @IsOptional()
+  @IsDateString()
+  nextMaintenance?: string;
+
+  @ApiPropertyOptional({ description: 'Condition', enum: EQUIPMENT_CONDITIONS })
+  @IsOptional()
+  @IsIn(EQUIPMENT_CONDITIONS)
+  condition?: string;
+
+  @ApiPropertyOptional({ description: 'Location within the branch', example: 'Cardio area' })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Image URLs', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  images?: string[];
+
+  @ApiPropertyOptional({ description: 'Manual URL' })
+  @IsOptional()
+  @IsUrl()
+  manualUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class UpdateEquipmentDto {
+  @ApiPropertyOptional({ description: 'Name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Category' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @ApiPropertyOptional({ description: 'Brand' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  brand?: string;
+
+  @ApiPropertyOptional({ description: 'Model' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  model?: string;
+
+  @ApiPropertyOptional({ description: 'Serial number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  serialNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Purchase date' })
+  @IsOptional()
+  @IsDateString()
+  purchaseDate?: string;
+
+  @ApiPropertyOptional({ description: 'Purchase price', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  purchasePrice?: number;
+
+  @ApiPropertyOptional({ description: 'Warranty expiry date' })
+  @IsOptional()
+  @IsDateString()
+  warrantyExpiry?: string;
+
+  @ApiPropertyOptional({ description: 'Next maintenance date, overriding the plan until the next service' })
+  @IsOptional()
+  @IsDateString()
+  nextMaintenance?: string;
+
+  @ApiPropertyOptional({ description: 'Maintenance notes' })
+  @IsOptional()
+  @IsString()
+  maintenanceNotes?: string;
+
+  @ApiPropertyOptional({ description: 'Condition', enum: EQUIPMENT_CONDITIONS })
+  @IsOptional()
+  @IsIn(EQUIPMENT_CONDITIONS)
+  condition?: string;
+
+  @ApiPropertyOptional({ description: 'Location within the branch' })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Image URLs', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  images?: string[];
+
+  @ApiPropertyOptional({ description: 'Manual URL' })
+  @IsOptional()
+  @IsUrl()
+  manualUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiPropertyOptional({ description: 'Retire (false) or reinstate the equipment' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class EquipmentFiltersDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Category' })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiPropertyOptional({ description: 'Only equipment that is (or is not) out of service' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  outOfService?: boolean;
+
+  @ApiPropertyOptional({ description: 'Include retired equipment', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean;
+}
+
+export class EquipmentAlertsQueryDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+}
+
+// ===================
+// MAINTENANCE LOG
+// ===================
+
+export class CreateMaintenanceLogDto {
+  @ApiProperty({ description: 'Kind of work; SCHEDULED moves the next due date', enum: MaintenanceType })
+  @IsEnum(MaintenanceType)
+  type: MaintenanceType;
+
+  @ApiProperty({ description: 'What was done', example: 'Replaced belt, lubricated deck' })
+  @IsString()
+  description: string;
+
+  @ApiPropertyOptional({ description: 'When the work was done; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  performedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Cost of parts and labour', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  cost?: number;
+
+  @ApiPropertyOptional({ description: 'Condition after the work', enum: EQUIPMENT_CONDITIONS })
+  @IsOptional()
+  @IsIn(EQUIPMENT_CONDITIONS)
+  conditionAfter?: string;
+}
+
+// ===================
+// FAULTS
+// ===================
+
+export class ReportFaultDto {
+  @ApiProperty({ description: 'Equipment ID' })
+  @IsUUID()
+  equipmentId: string;
+
+  @ApiProperty({ description: 'What is wrong', example: 'Belt slips at higher speeds' })
+  @IsString()
+  @MaxLength(2000)
+  description: string;
+}
+
+export class CloseFaultDto {
+  @ApiProperty({ description: 'RESOLVED after a repair, DISMISSED if nothing was wrong', enum: [EquipmentFaultStatus.RESOLVED, EquipmentFaultStatus.DISMISSED] })
+  @IsIn([EquipmentFaultStatus.RESOLVED, EquipmentFaultStatus.DISMISSED])
+  status: EquipmentFaultStatus;
+
+  @ApiPropertyOptional({ description: 'What was done or found' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+
+  @ApiPropertyOptional({ description: 'Repair cost', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  cost?: number;
+
+  @ApiPropertyOptional({ description: 'Condition after the repair', enum: EQUIPMENT_CONDITIONS })
+  @IsOptional()
+  @IsIn(EQUIPMENT_CONDITIONS)
+  conditionAfter?: string;
+}
+
+export class FaultFiltersDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Fault status', enum: EquipmentFaultStatus })
+  @IsOptional()
+  @IsEnum(EquipmentFaultStatus)
+  status?: EquipmentFaultStatus;
+
+  @ApiPropertyOptional({ description: 'Equipment ID' })
+  @IsOptional()
+  @IsUUID()
+  equipmentId?: string;
+}
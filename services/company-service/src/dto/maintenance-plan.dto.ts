@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsString,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+
+export class CreateMaintenancePlanDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiPropertyOptional({ description: 'Limit the plan to one branch; omit for every branch' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiProperty({ description: 'Equipment category the plan covers', example: 'treadmill' })
+  @IsString()
+  @MaxLength(100)
+  category: string;
+
+  @ApiProperty({ description: 'Plan name', example: 'Quarterly treadmill service' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'Days between services', minimum: 1, maximum: 1825 })
+  @IsInt()
+  @Min(1)
+  @Max(1825)
+  intervalDays: number;
+
+  @ApiPropertyOptional({ description: 'Checklist for the technician', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  tasks?: string[];
+}
+
+export class UpdateMaintenancePlanDto {
+  @ApiPropertyOptional({ description: 'Plan name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Days between services', minimum: 1, maximum: 1825 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1825)
+  intervalDays?: number;
+
+  @ApiPropertyOptional({ description: 'Checklist for the technician', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  tasks?: string[];
+}
+
+export class MaintenancePlanQueryDto {
+  @ApiProperty({ description: 'Company ID' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiPropertyOptional({ description: 'Include deactivated plans', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean;
+}
@@ -0,0 +1,146 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsDateString,
+  Matches,
+  MaxLength,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+
+const TIME_PATTERN = /^(?:([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ===================
+// OPERATING HOURS
+// ===================
+
+export class OpeningRangeDto {
+  @ApiProperty({ description: 'Opening time, branch-local', example: '06:00' })
+  @Matches(TIME_PATTERN, { message: 'open must be HH:mm' })
+  open: string;
+
+  @ApiProperty({ description: 'Closing time; earlier than open runs past midnight, 24:00 is midnight', example: '22:00' })
+  @Matches(TIME_PATTERN, { message: 'close must be HH:mm' })
+  close: string;
+}
+
+export class OperatingHoursDto {
+  @ApiPropertyOptional({ type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  monday?: OpeningRangeDto[];
+
+  @ApiPropertyOptional({ type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  tuesday?: OpeningRangeDto[];
+
+  @ApiPropertyOptional({ type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  wednesday?: OpeningRangeDto[];
+
+  @ApiPropertyOptional({ type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  thursday?: OpeningRangeDto[];
+
+  @ApiPropertyOptional({ type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  friday?: OpeningRangeDto[];
+
+  @ApiPropertyOptional({ type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  saturday?: OpeningRangeDto[];
+
+  @ApiPropertyOptional({ type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  sunday?: OpeningRangeDto[];
+}
+
+// ===================
+// HOLIDAYS
+// ===================
+
+export class CreateBranchHolidayDto {
+  @ApiProperty({ description: 'Name shown to members', example: 'Christmas Day' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'First day, branch-local', example: '2025-12-25' })
+  @Matches(DATE_PATTERN, { message: 'startDate must be YYYY-MM-DD' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({ description: 'Last day (inclusive); defaults to startDate', example: '2025-12-26' })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'endDate must be YYYY-MM-DD' })
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Reduced hours for these days; omit to close all day', type: [OpeningRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => OpeningRangeDto)
+  openingHours?: OpeningRangeDto[];
+
+  @ApiPropertyOptional({ description: 'Repeat on the same dates every year', default: false })
+  @IsOptional()
+  @IsBoolean()
+  recursAnnually?: boolean;
+}
+
+export class HolidayRangeQueryDto {
+  @ApiPropertyOptional({ description: 'First date, branch-local', example: '2025-01-01' })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'from must be YYYY-MM-DD' })
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Last date (inclusive), branch-local', example: '2025-12-31' })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'to must be YYYY-MM-DD' })
+  to?: string;
+}
+
+// ===================
+// OPEN STATUS
+// ===================
+
+export class OpenStatusQueryDto {
+  @ApiPropertyOptional({ description: 'Instant to evaluate; defaults to now', example: '2025-03-10T18:30:00Z' })
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsUUID, Matches } from 'class-validator';
+import { PayrollRunStatus } from '@prisma/client';
+import { PayrollExportFormat } from '../types/payroll.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CreatePayrollRunDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'First day of the pay period, branch-local', example: '2025-03-01' })
+  @Matches(DATE_PATTERN, { message: 'periodStart must be YYYY-MM-DD' })
+  periodStart: string;
+
+  @ApiProperty({ description: 'Last day of the pay period (inclusive), branch-local', example: '2025-03-31' })
+  @Matches(DATE_PATTERN, { message: 'periodEnd must be YYYY-MM-DD' })
+  periodEnd: string;
+}
+
+export class PayrollRunFiltersDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Run status', enum: PayrollRunStatus })
+  @IsOptional()
+  @IsEnum(PayrollRunStatus)
+  status?: PayrollRunStatus;
+}
+
+export class PayrollExportQueryDto {
+  @ApiPropertyOptional({ description: 'File format', enum: PayrollExportFormat, default: PayrollExportFormat.CSV })
+  @IsOptional()
+  @IsEnum(PayrollExportFormat)
+  format?: PayrollExportFormat;
+}
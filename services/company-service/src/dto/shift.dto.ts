@@ -0,0 +1,231 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsString,
+  IsInt,
+  IsEnum,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsDateString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { ShiftStatus, ShiftSwapStatus } from '@prisma/client';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ===================
+// SHIFT TEMPLATES
+// ===================
+
+export class CreateShiftTemplateDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Template name', example: 'Morning front desk' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Position the shift is for', example: 'Receptionist' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  position?: string;
+
+  @ApiProperty({ description: 'Start time, branch-local', example: '06:00' })
+  @Matches(TIME_PATTERN, { message: 'startTime must be HH:mm' })
+  startTime: string;
+
+  @ApiProperty({ description: 'End time; earlier than startTime runs past midnight', example: '14:00' })
+  @Matches(TIME_PATTERN, { message: 'endTime must be HH:mm' })
+  endTime: string;
+
+  @ApiProperty({ description: 'Weekdays, 0-6 for Sunday-Saturday', type: [Number], example: [1, 2, 3, 4, 5] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek: number[];
+
+  @ApiPropertyOptional({ description: 'Unpaid break in minutes', minimum: 0, maximum: 240, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Staff record assigned to generated shifts' })
+  @IsOptional()
+  @IsUUID()
+  defaultStaffId?: string;
+
+  @ApiProperty({ description: 'First date the template applies', example: '2025-03-03' })
+  @Matches(DATE_PATTERN, { message: 'validFrom must be YYYY-MM-DD' })
+  validFrom: string;
+
+  @ApiPropertyOptional({ description: 'Last date the template applies (inclusive)', example: '2025-12-31' })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'validUntil must be YYYY-MM-DD' })
+  validUntil?: string;
+}
+
+export class GenerateShiftsDto {
+  @ApiProperty({ description: 'First date to generate, branch-local', example: '2025-03-03' })
+  @Matches(DATE_PATTERN, { message: 'from must be YYYY-MM-DD' })
+  from: string;
+
+  @ApiProperty({ description: 'Last date to generate (inclusive)', example: '2025-03-30' })
+  @Matches(DATE_PATTERN, { message: 'to must be YYYY-MM-DD' })
+  to: string;
+}
+
+// ===================
+// SHIFTS
+// ===================
+
+export class CreateShiftDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Staff record to assign; omit for an open shift' })
+  @IsOptional()
+  @IsUUID()
+  staffId?: string;
+
+  @ApiPropertyOptional({ description: 'Position the shift is for' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  position?: string;
+
+  @ApiProperty({ description: 'Start time', example: '2025-03-08T08:00:00Z' })
+  @IsDateString()
+  startTime: string;
+
+  @ApiProperty({ description: 'End time', example: '2025-03-08T16:00:00Z' })
+  @IsDateString()
+  endTime: string;
+
+  @ApiPropertyOptional({ description: 'Unpaid break in minutes', minimum: 0, maximum: 240, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class AssignShiftDto {
+  @ApiPropertyOptional({ description: 'Staff record to assign; null to make it an open shift', nullable: true })
+  @IsOptional()
+  @IsUUID()
+  staffId?: string | null;
+}
+
+export class ShiftFiltersDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'Shifts starting from', example: '2025-03-03T00:00:00Z' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ description: 'Shifts starting before', example: '2025-03-10T00:00:00Z' })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({ description: 'Only this staff record' })
+  @IsOptional()
+  @IsUUID()
+  staffId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: ShiftStatus })
+  @IsOptional()
+  @IsEnum(ShiftStatus)
+  status?: ShiftStatus;
+
+  @ApiPropertyOptional({ description: 'Only open (unassigned) shifts', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  unassigned?: boolean;
+}
+
+export class MyShiftsQueryDto {
+  @ApiPropertyOptional({ description: 'Shifts starting from; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Shifts starting before; defaults to two weeks after from' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+// ===================
+// SWAPS
+// ===================
+
+export class CreateShiftSwapDto {
+  @ApiProperty({ description: 'Staff record of the colleague taking the shift' })
+  @IsUUID()
+  targetStaffId: string;
+
+  @ApiPropertyOptional({ description: "Colleague's shift taken in exchange; omit to give the shift away" })
+  @IsOptional()
+  @IsUUID()
+  targetShiftId?: string;
+
+  @ApiPropertyOptional({ description: 'Reason' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RespondShiftSwapDto {
+  @ApiProperty({ description: 'Whether the colleague agrees to the swap' })
+  @IsBoolean()
+  accept: boolean;
+}
+
+export class ReviewShiftSwapDto {
+  @ApiProperty({ description: 'Approve or reject the swap' })
+  @IsBoolean()
+  approve: boolean;
+
+  @ApiPropertyOptional({ description: 'Note for the staff involved' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class ShiftSwapFiltersDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: ShiftSwapStatus })
+  @IsOptional()
+  @IsEnum(ShiftSwapStatus)
+  status?: ShiftSwapStatus;
+}
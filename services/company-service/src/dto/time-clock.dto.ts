@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsInt,
+  IsOptional,
+  IsDateString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ClockInDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class ClockOutDto {
+  @ApiPropertyOptional({ description: "Unpaid break taken, in minutes; defaults to the shift's break" })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(480)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class CorrectTimeEntryDto {
+  @ApiPropertyOptional({ description: 'Corrected clock-in time' })
+  @IsOptional()
+  @IsDateString()
+  clockIn?: string;
+
+  @ApiPropertyOptional({ description: 'Corrected clock-out time' })
+  @IsOptional()
+  @IsDateString()
+  clockOut?: string;
+
+  @ApiPropertyOptional({ description: 'Unpaid break in minutes' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(480)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Shift the entry belongs to' })
+  @IsOptional()
+  @IsUUID()
+  shiftId?: string;
+
+  @ApiPropertyOptional({ description: 'Reason for the correction' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class TimesheetQueryDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsUUID()
+  branchId: string;
+
+  @ApiProperty({ description: 'First day, branch-local', example: '2025-03-01' })
+  @Matches(DATE_PATTERN, { message: 'from must be YYYY-MM-DD' })
+  from: string;
+
+  @ApiProperty({ description: 'Last day (inclusive), branch-local', example: '2025-03-31' })
+  @Matches(DATE_PATTERN, { message: 'to must be YYYY-MM-DD' })
+  to: string;
+
+  @ApiPropertyOptional({ description: 'Only this staff record' })
+  @IsOptional()
+  @IsUUID()
+  staffId?: string;
+}
+
+export class MyTimeEntriesQueryDto {
+  @ApiPropertyOptional({ description: 'Entries from; defaults to 30 days ago' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Entries before; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -0,0 +1,24 @@
+import { OpeningRange } from '../types/operating-hours.types';
+
+export class BranchHolidayEntity {
+  id: string;
+  branchId: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, branch-local
+  endDate: string;
+  openingHours?: OpeningRange[];
+  recursAnnually: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateBranchHolidayEntity {
+  branchId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  openingHours?: OpeningRange[];
+  recursAnnually?: boolean;
+  createdBy?: string;
+}
@@ -0,0 +1,46 @@
+import { ClassTemplateDefinition, EquipmentChecklistEntry } from '../types/branch-setup.types';
+
+export class SetupTemplateEntity {
+  id: string;
+  companyId?: string;
+  name: string;
+  description?: string;
+  amenities: string[];
+  operatingHours?: Record<string, any>;
+  settings?: Record<string, any>;
+  equipment: EquipmentChecklistEntry[];
+  classes: ClassTemplateDefinition[];
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateSetupTemplateEntity {
+  companyId?: string;
+  name: string;
+  description?: string;
+  amenities?: string[];
+  operatingHours?: Record<string, any>;
+  settings?: Record<string, any>;
+  equipment?: EquipmentChecklistEntry[];
+  classes?: ClassTemplateDefinition[];
+  createdBy?: string;
+}
+
+export type UpdateSetupTemplateEntity = Partial<Omit<CreateSetupTemplateEntity, 'companyId' | 'createdBy'>> & {
+  isActive?: boolean;
+};
+
+export class EquipmentChecklistItemEntity {
+  id: string;
+  branchId: string;
+  name: string;
+  category: string;
+  brand?: string;
+  model?: string;
+  quantity: number;
+  checkedAt?: Date;
+  checkedBy?: string;
+  createdAt: Date;
+}
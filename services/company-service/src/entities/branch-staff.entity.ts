@@ -0,0 +1,37 @@
+export class BranchStaffEntity {
+  id: string;
+  branchId: string;
+  userId: string;
+  position: string;
+  department?: string;
+  salary?: number;
+  hourlyRate?: number;
+  ptSessionCommission?: number; // Per completed PT session; overrides the company's payroll policy
+  classCommission?: number; // Per class taught
+  classAttendeeCommission?: number; // Per member attending a class taught
+  startDate: Date;
+  endDate?: Date;
+  isActive: boolean;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateBranchStaffEntity {
+  branchId: string;
+  userId: string;
+  position: string;
+  department?: string;
+  salary?: number;
+  hourlyRate?: number;
+  ptSessionCommission?: number;
+  classCommission?: number;
+  classAttendeeCommission?: number;
+  startDate: Date;
+  endDate?: Date;
+  notes?: string;
+}
+
+export type UpdateBranchStaffEntity = Partial<Omit<CreateBranchStaffEntity, 'branchId' | 'userId'>> & {
+  isActive?: boolean;
+};
@@ -0,0 +1,56 @@
+import { BranchStatus } from '@prisma/client';
+
+export class BranchEntity {
+  id: string;
+  companyId: string;
+  name: string;
+  slug: string;
+  description?: string;
+  address: string;
+  city: string;
+  state: string;
+  country: string;
+  postalCode: string;
+  phone?: string;
+  email?: string;
+  managerId?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  operatingHours?: Record<string, any>;
+  capacity?: number;
+  area?: number;
+  amenities: string[];
+  images: string[];
+  status: BranchStatus;
+  openingDate?: Date;
+  settings?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateBranchEntity {
+  companyId: string;
+  name: string;
+  slug: string;
+  description?: string;
+  address: string;
+  city: string;
+  state: string;
+  country: string;
+  postalCode: string;
+  phone?: string;
+  email?: string;
+  managerId?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  capacity?: number;
+  area?: number;
+  amenities?: string[];
+  images?: string[];
+  openingDate?: Date;
+  settings?: Record<string, any>;
+}
+
+export type UpdateBranchEntity = Partial<Omit<CreateBranchEntity, 'companyId'>>;
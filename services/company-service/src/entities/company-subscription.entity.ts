@@ -0,0 +1,13 @@
+// Plan limits the company is subscribed to; billing lives in subscription-service
+export class CompanySubscriptionEntity {
+  id: string;
+  companyId: string;
+  planName: string;
+  planType: string;
+  startDate: Date;
+  endDate: Date;
+  isActive: boolean;
+  maxBranches: number;
+  maxMembers: number;
+  maxStaff: number;
+}
@@ -0,0 +1,45 @@
+import { CompanyStatus } from '@prisma/client';
+
+export class CompanyEntity {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  logo?: string;
+  website?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  postalCode?: string;
+  taxId?: string;
+  licenseNumber?: string;
+  foundedDate?: Date;
+  status: CompanyStatus;
+  settings?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateCompanyEntity {
+  name: string;
+  slug: string;
+  description?: string;
+  logo?: string;
+  website?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  postalCode?: string;
+  taxId?: string;
+  licenseNumber?: string;
+  foundedDate?: Date;
+  settings?: Record<string, any>;
+}
+
+export type UpdateCompanyEntity = Partial<CreateCompanyEntity>;
@@ -0,0 +1,113 @@
+import { EquipmentFaultStatus, MaintenanceType } from '@prisma/client';
+
+export class EquipmentEntity {
+  id: string;
+  branchId: string;
+  name: string;
+  category: string;
+  brand?: string;
+  model?: string;
+  serialNumber?: string;
+  purchaseDate?: Date;
+  purchasePrice?: number;
+  warrantyExpiry?: Date;
+  lastMaintenance?: Date;
+  nextMaintenance?: Date;
+  maintenanceNotes?: string;
+  condition?: string;
+  isActive: boolean;
+  location?: string;
+  images: string[];
+  manualUrl?: string;
+  notes?: string;
+  outOfService: boolean;
+  maintenanceAlertedAt?: Date;
+  warrantyAlertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateEquipmentEntity {
+  branchId: string;
+  name: string;
+  category: string;
+  brand?: string;
+  model?: string;
+  serialNumber?: string;
+  purchaseDate?: Date;
+  purchasePrice?: number;
+  warrantyExpiry?: Date;
+  lastMaintenance?: Date;
+  nextMaintenance?: Date;
+  condition?: string;
+  location?: string;
+  images?: string[];
+  manualUrl?: string;
+  notes?: string;
+}
+
+export type UpdateEquipmentEntity = Partial<Omit<CreateEquipmentEntity, 'branchId'>> & {
+  maintenanceNotes?: string;
+  isActive?: boolean;
+  outOfService?: boolean;
+  maintenanceAlertedAt?: Date | null;
+  warrantyAlertedAt?: Date | null;
+};
+
+export class MaintenancePlanEntity {
+  id: string;
+  companyId: string;
+  branchId?: string;
+  category: string;
+  name: string;
+  intervalDays: number;
+  tasks: string[];
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateMaintenancePlanEntity {
+  companyId: string;
+  branchId?: string;
+  category: string;
+  name: string;
+  intervalDays: number;
+  tasks?: string[];
+  createdBy?: string;
+}
+
+export type UpdateMaintenancePlanEntity = Partial<Pick<CreateMaintenancePlanEntity, 'name' | 'intervalDays' | 'tasks'>> & {
+  isActive?: boolean;
+};
+
+export class MaintenanceLogEntity {
+  id: string;
+  equipmentId: string;
+  planId?: string;
+  faultId?: string;
+  type: MaintenanceType;
+  description: string;
+  cost?: number;
+  conditionAfter?: string;
+  performedBy: string;
+  performedAt: Date;
+  createdAt: Date;
+}
+
+export type CreateMaintenanceLogEntity = Omit<MaintenanceLogEntity, 'id' | 'createdAt'>;
+
+export class EquipmentFaultEntity {
+  id: string;
+  equipmentId: string;
+  branchId: string;
+  description: string;
+  status: EquipmentFaultStatus;
+  reportedBy: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
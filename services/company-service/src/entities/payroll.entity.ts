@@ -0,0 +1,53 @@
+import { PayrollRunStatus } from '@prisma/client';
+
+export class PayslipEntity {
+  id: string;
+  runId: string;
+  staffId: string;
+  userId: string;
+  position: string;
+  salaryPay: number;
+  hourlyRate?: number;
+  workedMinutes: number;
+  hourlyPay: number;
+  openEntries: number;
+  ptSessions: number;
+  ptSessionRate: number;
+  ptCommission: number;
+  classesTaught: number;
+  classAttendees: number;
+  classRate: number;
+  classAttendeeRate: number;
+  classCommission: number;
+  grossPay: number;
+  createdAt: Date;
+}
+
+export type CreatePayslipEntity = Omit<PayslipEntity, 'id' | 'runId' | 'createdAt'>;
+
+export class PayrollRunEntity {
+  id: string;
+  companyId: string;
+  branchId: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;
+  status: PayrollRunStatus;
+  currency: string;
+  totalGross: number;
+  calculatedAt: Date;
+  createdBy: string;
+  finalizedBy?: string;
+  finalizedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  payslips?: PayslipEntity[];
+}
+
+export class CreatePayrollRunEntity {
+  companyId: string;
+  branchId: string;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  createdBy: string;
+}
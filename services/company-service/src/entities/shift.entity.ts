@@ -0,0 +1,108 @@
+import { ShiftStatus, ShiftSwapStatus } from '@prisma/client';
+
+export class ShiftTemplateEntity {
+  id: string;
+  branchId: string;
+  name: string;
+  position?: string;
+  startTime: string; // HH:mm, branch-local
+  endTime: string;
+  daysOfWeek: number[];
+  breakMinutes: number;
+  defaultStaffId?: string;
+  validFrom: string; // YYYY-MM-DD
+  validUntil?: string;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateShiftTemplateEntity {
+  branchId: string;
+  name: string;
+  position?: string;
+  startTime: string;
+  endTime: string;
+  daysOfWeek: number[];
+  breakMinutes?: number;
+  defaultStaffId?: string;
+  validFrom: string;
+  validUntil?: string;
+  createdBy?: string;
+}
+
+export class ShiftEntity {
+  id: string;
+  branchId: string;
+  staffId?: string;
+  templateId?: string;
+  position?: string;
+  startTime: Date;
+  endTime: Date;
+  breakMinutes: number;
+  status: ShiftStatus;
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateShiftEntity {
+  branchId: string;
+  staffId?: string;
+  templateId?: string;
+  position?: string;
+  startTime: Date;
+  endTime: Date;
+  breakMinutes?: number;
+  notes?: string;
+  createdBy?: string;
+}
+
+export class ShiftSwapRequestEntity {
+  id: string;
+  shiftId: string;
+  requesterId: string;
+  targetStaffId: string;
+  targetShiftId?: string;
+  status: ShiftSwapStatus;
+  reason?: string;
+  respondedAt?: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateShiftSwapRequestEntity {
+  shiftId: string;
+  requesterId: string;
+  targetStaffId: string;
+  targetShiftId?: string;
+  reason?: string;
+}
+
+export class TimeEntryEntity {
+  id: string;
+  branchId: string;
+  staffId: string;
+  shiftId?: string;
+  clockIn: Date;
+  clockOut?: Date;
+  breakMinutes: number;
+  notes?: string;
+  editedBy?: string;
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateTimeEntryEntity {
+  branchId: string;
+  staffId: string;
+  shiftId?: string;
+  clockIn: Date;
+  notes?: string;
+}
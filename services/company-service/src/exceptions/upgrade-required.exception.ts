@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { EntitlementResource } from '../types/entitlement.types';
+
+/**
+ * The company's plan does not allow adding more of a resource. Sent as
+ * 402 so clients can offer an upgrade instead of a generic error.
+ */
+export class UpgradeRequiredException extends HttpException {
+  constructor(reason: string, resource: EntitlementResource, limit: number) {
+    super(
+      {
+        statusCode: HttpStatus.PAYMENT_REQUIRED,
+        error: 'Upgrade Required',
+        message: `Upgrade required: ${reason}`,
+        resource,
+        limit,
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
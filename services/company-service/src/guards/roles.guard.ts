@@ -0,0 +1,31 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedUser } from '../types/company.types';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    // Get required roles from decorator
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>('roles', [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const request = context.switchToHttp().getRequest();
+
+    // Service callers only reach routes that allow them (see ServiceOrJwtAuthGuard)
+    if (!requiredRoles || request.serviceInfo) {
+      return true;
+    }
+
+    const user: AuthenticatedUser = request.user;
+
+    if (!user || !requiredRoles.some((role) => user.roles?.includes(role))) {
+      throw new ForbiddenException('Insufficient role');
+    }
+
+    return true;
+  }
+}
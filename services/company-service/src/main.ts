@@ -70,6 +70,15 @@ async function bootstrap() {
         'JWT-auth',
       )
       .addTag('Companies', 'Company management endpoints')
+      .addTag('Branches', 'Branch management endpoints')
+      .addTag('Branch Hours', 'Operating hours, holidays and open status')
+      .addTag('Staff', 'Branch staff assignments')
+      .addTag('Shifts', 'Shift templates, rosters and swap requests')
+      .addTag('Time Clock', 'Clock-in/out, corrections and timesheets')
+      .addTag('Payroll', 'Payroll runs, trainer commissions and payslip exports')
+      .addTag('Equipment', 'Equipment inventory, maintenance log and fault reports')
+      .addTag('Maintenance', 'Maintenance plans per equipment category')
+      .addTag('Branch Setup', 'Branch cloning, setup templates and equipment checklists')
       .build();
 
     const document = SwaggerModule.createDocument(app, swaggerConfig);
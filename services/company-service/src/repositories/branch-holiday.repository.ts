@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { BranchHolidayEntity, CreateBranchHolidayEntity } from '../entities/branch-holiday.entity';
+
+@Injectable()
+export class BranchHolidayRepository {
+  private readonly logger = new Logger(BranchHolidayRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateBranchHolidayEntity): Promise<BranchHolidayEntity> {
+    this.logger.log('Creating branch holiday', { branchId: data.branchId, name: data.name, startDate: data.startDate });
+
+    const holiday = await this.prisma.branchHoliday.create({
+      data: {
+        branchId: data.branchId,
+        name: data.name,
+        startDate: this.toDate(data.startDate),
+        endDate: this.toDate(data.endDate),
+        openingHours: data.openingHours
+          ? (data.openingHours as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        recursAnnually: data.recursAnnually,
+        createdBy: data.createdBy,
+      },
+    });
+
+    return this.mapToEntity(holiday);
+  }
+
+  async findById(id: string): Promise<BranchHolidayEntity | null> {
+    const holiday = await this.prisma.branchHoliday.findUnique({ where: { id } });
+    return holiday ? this.mapToEntity(holiday) : null;
+  }
+
+  /**
+   * Holidays touching the date range (YYYY-MM-DD, inclusive), plus every
+   * annual one that started on or before its end, since those repeat.
+   */
+  async findByBranch(branchId: string, from?: string, to?: string): Promise<BranchHolidayEntity[]> {
+    const holidays = await this.prisma.branchHoliday.findMany({
+      where: {
+        branchId,
+        OR: [
+          {
+            recursAnnually: false,
+            ...(to && { startDate: { lte: this.toDate(to) } }),
+            ...(from && { endDate: { gte: this.toDate(from) } }),
+          },
+          {
+            recursAnnually: true,
+            ...(to && { startDate: { lte: this.toDate(to) } }),
+          },
+        ],
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    return holidays.map(holiday => this.mapToEntity(holiday));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.logger.log('Deleting branch holiday', { id });
+
+    await this.prisma.branchHoliday.delete({ where: { id } });
+  }
+
+  private toDate(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+  }
+
+  private mapToEntity(data: any): BranchHolidayEntity {
+    return {
+      id: data.id,
+      branchId: data.branchId,
+      name: data.name,
+      startDate: data.startDate.toISOString().slice(0, 10),
+      endDate: data.endDate.toISOString().slice(0, 10),
+      openingHours: data.openingHours ?? undefined,
+      recursAnnually: data.recursAnnually,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  BranchStaffEntity,
+  CreateBranchStaffEntity,
+  UpdateBranchStaffEntity,
+} from '../entities/branch-staff.entity';
+
+@Injectable()
+export class BranchStaffRepository {
+  private readonly logger = new Logger(BranchStaffRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Adds the staff member unless the company already has maxStaff active
+   * staff; returns null in that case. Null maxStaff means unlimited.
+   */
+  async create(
+    data: CreateBranchStaffEntity,
+    companyId: string,
+    maxStaff: number | null = null,
+  ): Promise<BranchStaffEntity | null> {
+    this.logger.log('Adding branch staff', { branchId: data.branchId, userId: data.userId, position: data.position });
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.hasStaffSeat(tx, companyId, maxStaff))) {
+        return null;
+      }
+
+      const staff = await tx.branchStaff.create({ data });
+      return this.mapToEntity(staff);
+    });
+  }
+
+  /**
+   * Reactivates a former employment, with the same limit as create.
+   */
+  async rehire(
+    id: string,
+    data: UpdateBranchStaffEntity,
+    companyId: string,
+    maxStaff: number | null = null,
+  ): Promise<BranchStaffEntity | null> {
+    this.logger.log('Rehiring branch staff', { id });
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.hasStaffSeat(tx, companyId, maxStaff))) {
+        return null;
+      }
+
+      const staff = await tx.branchStaff.update({ where: { id }, data: { ...data, isActive: true } });
+      return this.mapToEntity(staff);
+    });
+  }
+
+  async findById(id: string): Promise<BranchStaffEntity | null> {
+    const staff = await this.prisma.branchStaff.findUnique({ where: { id } });
+    return staff ? this.mapToEntity(staff) : null;
+  }
+
+  async findByBranchAndUser(branchId: string, userId: string): Promise<BranchStaffEntity | null> {
+    const staff = await this.prisma.branchStaff.findUnique({
+      where: { branchId_userId: { branchId, userId } },
+    });
+
+    return staff ? this.mapToEntity(staff) : null;
+  }
+
+  async findByBranch(branchId: string, includeInactive = false): Promise<BranchStaffEntity[]> {
+    const staff = await this.prisma.branchStaff.findMany({
+      where: {
+        branchId,
+        ...(!includeInactive && { isActive: true }),
+      },
+      orderBy: [{ position: 'asc' }, { startDate: 'asc' }],
+    });
+
+    return staff.map(member => this.mapToEntity(member));
+  }
+
+  async findByUser(userId: string, includeInactive = false): Promise<BranchStaffEntity[]> {
+    const staff = await this.prisma.branchStaff.findMany({
+      where: {
+        userId,
+        ...(!includeInactive && { isActive: true }),
+      },
+    });
+
+    return staff.map(member => this.mapToEntity(member));
+  }
+
+  /**
+   * People currently employed anywhere in the company; someone working at
+   * several branches counts once.
+   */
+  async countActiveByCompany(companyId: string): Promise<number> {
+    const staff = await this.prisma.branchStaff.findMany({
+      where: { isActive: true, branch: { companyId } },
+      distinct: ['userId'],
+      select: { userId: true },
+    });
+
+    return staff.length;
+  }
+
+  async isActiveInCompany(userId: string, companyId: string): Promise<boolean> {
+    const count = await this.prisma.branchStaff.count({
+      where: { userId, isActive: true, branch: { companyId } },
+    });
+
+    return count > 0;
+  }
+
+  async update(id: string, data: UpdateBranchStaffEntity): Promise<BranchStaffEntity> {
+    this.logger.log('Updating branch staff', { id });
+
+    const staff = await this.prisma.branchStaff.update({ where: { id }, data });
+    return this.mapToEntity(staff);
+  }
+
+  /**
+   * Counts the company's active staff under a per-company lock, so
+   * concurrent hires cannot exceed the plan together.
+   */
+  private async hasStaffSeat(tx: any, companyId: string, maxStaff: number | null): Promise<boolean> {
+    if (maxStaff === null) {
+      return true;
+    }
+
+    await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${`staff:${companyId}`}))`;
+
+    const staff = await tx.branchStaff.findMany({
+      where: { isActive: true, branch: { companyId } },
+      distinct: ['userId'],
+      select: { userId: true },
+    });
+
+    return staff.length < maxStaff;
+  }
+
+  private mapToEntity(data: any): BranchStaffEntity {
+    return {
+      id: data.id,
+      branchId: data.branchId,
+      userId: data.userId,
+      position: data.position,
+      department: data.department,
+      salary: data.salary,
+      hourlyRate: data.hourlyRate,
+      ptSessionCommission: data.ptSessionCommission,
+      classCommission: data.classCommission,
+      classAttendeeCommission: data.classAttendeeCommission,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      isActive: data.isActive,
+      notes: data.notes,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BranchStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { BranchEntity, CreateBranchEntity, UpdateBranchEntity } from '../entities/branch.entity';
+import { BranchFilters, PaginatedResult } from '../types/company.types';
+import { COUNTED_BRANCH_STATUSES } from '../types/entitlement.types';
+
+@Injectable()
+export class BranchRepository {
+  private readonly logger = new Logger(BranchRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Creates the branch unless the company already has maxBranches counted
+   * branches; returns null in that case. Null maxBranches means unlimited.
+   */
+  async create(data: CreateBranchEntity, maxBranches: number | null = null): Promise<BranchEntity | null> {
+    this.logger.log('Creating branch', { companyId: data.companyId, name: data.name, slug: data.slug });
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.hasBranchSeat(tx, data.companyId, maxBranches))) {
+        return null;
+      }
+
+      const branch = await tx.branch.create({ data });
+      return this.mapToEntity(branch);
+    });
+  }
+
+  async findById(id: string): Promise<BranchEntity | null> {
+    const branch = await this.prisma.branch.findUnique({ where: { id } });
+    return branch ? this.mapToEntity(branch) : null;
+  }
+
+  async findBySlug(companyId: string, slug: string): Promise<BranchEntity | null> {
+    const branch = await this.prisma.branch.findUnique({
+      where: { companyId_slug: { companyId, slug } },
+    });
+
+    return branch ? this.mapToEntity(branch) : null;
+  }
+
+  async findAll(filters: BranchFilters = {}): Promise<PaginatedResult<BranchEntity>> {
+    this.logger.log('Finding branches', { filters });
+
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: any = {
+      ...(filters.companyId && { companyId: filters.companyId }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.managerId && { managerId: filters.managerId }),
+      ...(filters.city && { city: { equals: filters.city, mode: 'insensitive' } }),
+      ...(filters.search && {
+        OR: [
+          { name: { contains: filters.search, mode: 'insensitive' } },
+          { address: { contains: filters.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [records, total] = await Promise.all([
+      this.prisma.branch.findMany({
+        where,
+        orderBy: [{ companyId: 'asc' }, { name: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.branch.count({ where }),
+    ]);
+
+    return {
+      records: records.map(record => this.mapToEntity(record)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findSlugsStartingWith(companyId: string, prefix: string): Promise<string[]> {
+    const branches = await this.prisma.branch.findMany({
+      where: { companyId, slug: { startsWith: prefix } },
+      select: { slug: true },
+    });
+
+    return branches.map(branch => branch.slug);
+  }
+
+  async countByCompany(companyId: string, statuses?: BranchStatus[]): Promise<number> {
+    return this.prisma.branch.count({
+      where: {
+        companyId,
+        ...(statuses && { status: { in: statuses } }),
+      },
+    });
+  }
+
+  async update(id: string, data: UpdateBranchEntity): Promise<BranchEntity> {
+    this.logger.log('Updating branch', { id });
+
+    const branch = await this.prisma.branch.update({ where: { id }, data });
+    return this.mapToEntity(branch);
+  }
+
+  async updateOperatingHours(id: string, operatingHours: Record<string, any>): Promise<BranchEntity> {
+    this.logger.log('Updating branch operating hours', { id });
+
+    const branch = await this.prisma.branch.update({ where: { id }, data: { operatingHours } });
+    return this.mapToEntity(branch);
+  }
+
+  /**
+   * Changes the status. When maxBranches is given (reopening an inactive
+   * branch), returns null instead if the company has no branch left on its plan.
+   */
+  async updateStatus(id: string, status: BranchStatus, maxBranches: number | null = null): Promise<BranchEntity | null> {
+    this.logger.log('Updating branch status', { id, status });
+
+    return this.prisma.$transaction(async (tx) => {
+      if (maxBranches !== null) {
+        const { companyId } = await tx.branch.findUniqueOrThrow({ where: { id }, select: { companyId: true } });
+        if (!(await this.hasBranchSeat(tx, companyId, maxBranches))) {
+          return null;
+        }
+      }
+
+      const branch = await tx.branch.update({ where: { id }, data: { status } });
+      return this.mapToEntity(branch);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.logger.log('Deleting branch', { id });
+
+    await this.prisma.branch.delete({ where: { id } });
+  }
+
+  /**
+   * Counts the company's branches under a per-company lock, so concurrent
+   * creates and reopenings cannot exceed the plan together.
+   */
+  private async hasBranchSeat(tx: any, companyId: string, maxBranches: number | null): Promise<boolean> {
+    if (maxBranches === null) {
+      return true;
+    }
+
+    await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${`branches:${companyId}`}))`;
+
+    const used = await tx.branch.count({
+      where: { companyId, status: { in: COUNTED_BRANCH_STATUSES } },
+    });
+
+    return used < maxBranches;
+  }
+
+  private mapToEntity(data: any): BranchEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      name: data.name,
+      slug: data.slug,
+      description: data.description,
+      address: data.address,
+      city: data.city,
+      state: data.state,
+      country: data.country,
+      postalCode: data.postalCode,
+      phone: data.phone,
+      email: data.email,
+      managerId: data.managerId,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      timezone: data.timezone,
+      operatingHours: data.operatingHours,
+      capacity: data.capacity,
+      area: data.area,
+      amenities: data.amenities ?? [],
+      images: data.images ?? [],
+      status: data.status,
+      openingDate: data.openingDate,
+      settings: data.settings,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { CompanySubscriptionEntity } from '../entities/company-subscription.entity';
+
+@Injectable()
+export class CompanySubscriptionRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * The company's most recent plan, current or not.
+   */
+  async findLatest(companyId: string): Promise<CompanySubscriptionEntity | null> {
+    const subscription = await this.prisma.companySubscription.findFirst({
+      where: { companyId },
+      orderBy: [{ isActive: 'desc' }, { endDate: 'desc' }],
+    });
+
+    return subscription ? this.mapToEntity(subscription) : null;
+  }
+
+  private mapToEntity(data: any): CompanySubscriptionEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      planName: data.planName,
+      planType: data.planType,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      isActive: data.isActive,
+      maxBranches: data.maxBranches,
+      maxMembers: data.maxMembers,
+      maxStaff: data.maxStaff,
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CompanyStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { CompanyEntity, CreateCompanyEntity, UpdateCompanyEntity } from '../entities/company.entity';
+import { CompanyFilters, PaginatedResult } from '../types/company.types';
+
+@Injectable()
+export class CompanyRepository {
+  private readonly logger = new Logger(CompanyRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateCompanyEntity): Promise<CompanyEntity> {
+    this.logger.log('Creating company', { name: data.name, slug: data.slug });
+
+    const company = await this.prisma.company.create({ data });
+    return this.mapToEntity(company);
+  }
+
+  async findById(id: string): Promise<CompanyEntity | null> {
+    const company = await this.prisma.company.findUnique({ where: { id } });
+    return company ? this.mapToEntity(company) : null;
+  }
+
+  async findBySlug(slug: string): Promise<CompanyEntity | null> {
+    const company = await this.prisma.company.findUnique({ where: { slug } });
+    return company ? this.mapToEntity(company) : null;
+  }
+
+  async findAll(filters: CompanyFilters = {}): Promise<PaginatedResult<CompanyEntity>> {
+    this.logger.log('Finding companies', { filters });
+
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: any = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.search && {
+        OR: [
+          { name: { contains: filters.search, mode: 'insensitive' } },
+          { slug: { contains: filters.search.toLowerCase() } },
+        ],
+      }),
+    };
+
+    const [records, total] = await Promise.all([
+      this.prisma.company.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.company.count({ where }),
+    ]);
+
+    return {
+      records: records.map(record => this.mapToEntity(record)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Existing slugs equal to or starting with the prefix, for picking a free
+   * suffixed slug.
+   */
+  async findSlugsStartingWith(prefix: string): Promise<string[]> {
+    const companies = await this.prisma.company.findMany({
+      where: { slug: { startsWith: prefix } },
+      select: { slug: true },
+    });
+
+    return companies.map(company => company.slug);
+  }
+
+  async update(id: string, data: UpdateCompanyEntity): Promise<CompanyEntity> {
+    this.logger.log('Updating company', { id });
+
+    const company = await this.prisma.company.update({ where: { id }, data });
+    return this.mapToEntity(company);
+  }
+
+  async updateStatus(id: string, status: CompanyStatus): Promise<CompanyEntity> {
+    this.logger.log('Updating company status', { id, status });
+
+    const company = await this.prisma.company.update({ where: { id }, data: { status } });
+    return this.mapToEntity(company);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.logger.log('Deleting company', { id });
+
+    await this.prisma.company.delete({ where: { id } });
+  }
+
+  private mapToEntity(data: any): CompanyEntity {
+    return {
+      id: data.id,
+      name: data.name,
+      slug: data.slug,
+      description: data.description,
+      logo: data.logo,
+      website: data.website,
+      email: data.email,
+      phone: data.phone,
+      address: data.address,
+      city: data.city,
+      state: data.state,
+      country: data.country,
+      postalCode: data.postalCode,
+      taxId: data.taxId,
+      licenseNumber: data.licenseNumber,
+      foundedDate: data.foundedDate,
+      status: data.status,
+      settings: data.settings,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { EquipmentChecklistItemEntity } from '../entities/branch-setup.entity';
+import { EquipmentChecklistEntry } from '../types/branch-setup.types';
+
+@Injectable()
+export class EquipmentChecklistRepository {
+  private readonly logger = new Logger(EquipmentChecklistRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async createMany(branchId: string, entries: EquipmentChecklistEntry[]): Promise<EquipmentChecklistItemEntity[]> {
+    this.logger.log('Creating equipment checklist', { branchId, items: entries.length });
+
+    if (entries.length > 0) {
+      await this.prisma.equipmentChecklistItem.createMany({
+        data: entries.map(entry => ({ ...entry, branchId })),
+      });
+    }
+
+    return this.findByBranch(branchId);
+  }
+
+  async findById(id: string): Promise<EquipmentChecklistItemEntity | null> {
+    const item = await this.prisma.equipmentChecklistItem.findUnique({ where: { id } });
+    return item ? this.mapToEntity(item) : null;
+  }
+
+  async findByBranch(branchId: string): Promise<EquipmentChecklistItemEntity[]> {
+    const items = await this.prisma.equipmentChecklistItem.findMany({
+      where: { branchId },
+      orderBy: [{ category: 'asc' }, { name: 'asc' }],
+    });
+
+    return items.map(item => this.mapToEntity(item));
+  }
+
+  /**
+   * Returns null when the item was already ticked off.
+   */
+  async markChecked(id: string, checkedBy: string): Promise<EquipmentChecklistItemEntity | null> {
+    const result = await this.prisma.equipmentChecklistItem.updateMany({
+      where: { id, checkedAt: null },
+      data: { checkedAt: new Date(), checkedBy },
+    });
+
+    return result.count > 0 ? this.findById(id) : null;
+  }
+
+  private mapToEntity(data: any): EquipmentChecklistItemEntity {
+    return {
+      id: data.id,
+      branchId: data.branchId,
+      name: data.name,
+      category: data.category,
+      brand: data.brand,
+      model: data.model,
+      quantity: data.quantity,
+      checkedAt: data.checkedAt,
+      checkedBy: data.checkedBy,
+      createdAt: data.createdAt,
+    };
+  }
+}
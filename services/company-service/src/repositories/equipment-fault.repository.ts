@@ -0,0 +1,121 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EquipmentFaultStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { CreateMaintenanceLogEntity, EquipmentFaultEntity } from '../entities/equipment.entity';
+import { EquipmentFaultFilters } from '../types/equipment.types';
+
+@Injectable()
+export class EquipmentFaultRepository {
+  private readonly logger = new Logger(EquipmentFaultRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Records the fault and takes the equipment out of service.
+   */
+  async report(data: {
+    equipmentId: string;
+    branchId: string;
+    description: string;
+    reportedBy: string;
+  }): Promise<EquipmentFaultEntity> {
+    this.logger.log('Reporting equipment fault', { equipmentId: data.equipmentId, reportedBy: data.reportedBy });
+
+    return this.prisma.$transaction(async (tx) => {
+      const fault = await tx.equipmentFault.create({ data });
+      await tx.equipment.update({
+        where: { id: data.equipmentId },
+        data: { outOfService: true },
+      });
+
+      return this.mapToEntity(fault);
+    });
+  }
+
+  async findById(id: string): Promise<EquipmentFaultEntity | null> {
+    const fault = await this.prisma.equipmentFault.findUnique({ where: { id } });
+    return fault ? this.mapToEntity(fault) : null;
+  }
+
+  async findOpenForEquipment(equipmentId: string): Promise<EquipmentFaultEntity | null> {
+    const fault = await this.prisma.equipmentFault.findFirst({
+      where: { equipmentId, status: EquipmentFaultStatus.OPEN },
+    });
+
+    return fault ? this.mapToEntity(fault) : null;
+  }
+
+  async findAll(filters: EquipmentFaultFilters): Promise<EquipmentFaultEntity[]> {
+    const faults = await this.prisma.equipmentFault.findMany({
+      where: {
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.equipmentId && { equipmentId: filters.equipmentId }),
+        ...(filters.status && { status: filters.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    return faults.map(fault => this.mapToEntity(fault));
+  }
+
+  /**
+   * Closes an open fault, records the repair when given, and puts the
+   * equipment back in service once no other fault is open. Null when the
+   * fault was already closed.
+   */
+  async close(
+    id: string,
+    status: EquipmentFaultStatus,
+    resolvedBy: string,
+    resolutionNote?: string,
+    repair?: CreateMaintenanceLogEntity,
+    condition?: string,
+  ): Promise<EquipmentFaultEntity | null> {
+    this.logger.log('Closing equipment fault', { id, status, resolvedBy });
+
+    return this.prisma.$transaction(async (tx) => {
+      const closed = await tx.equipmentFault.updateMany({
+        where: { id, status: EquipmentFaultStatus.OPEN },
+        data: { status, resolvedBy, resolvedAt: new Date(), resolutionNote },
+      });
+      if (closed.count === 0) {
+        return null;
+      }
+
+      const fault = await tx.equipmentFault.findUnique({ where: { id } });
+      if (repair) {
+        await tx.maintenanceLog.create({ data: repair });
+      }
+
+      const stillOpen = await tx.equipmentFault.count({
+        where: { equipmentId: fault.equipmentId, status: EquipmentFaultStatus.OPEN },
+      });
+      await tx.equipment.update({
+        where: { id: fault.equipmentId },
+        data: {
+          ...(stillOpen === 0 && { outOfService: false }),
+          ...(condition && { condition }),
+        },
+      });
+
+      return this.mapToEntity(fault);
+    });
+  }
+
+  private mapToEntity(data: any): EquipmentFaultEntity {
+    return {
+      id: data.id,
+      equipmentId: data.equipmentId,
+      branchId: data.branchId,
+      description: data.description,
+      status: data.status,
+      reportedBy: data.reportedBy,
+      resolvedBy: data.resolvedBy,
+      resolvedAt: data.resolvedAt,
+      resolutionNote: data.resolutionNote,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  CreateEquipmentEntity,
+  EquipmentEntity,
+  UpdateEquipmentEntity,
+} from '../entities/equipment.entity';
+import { EquipmentFilters } from '../types/equipment.types';
+
+@Injectable()
+export class EquipmentRepository {
+  private readonly logger = new Logger(EquipmentRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateEquipmentEntity): Promise<EquipmentEntity> {
+    this.logger.log('Creating equipment', { branchId: data.branchId, name: data.name, category: data.category });
+
+    const equipment = await this.prisma.equipment.create({ data });
+    return this.mapToEntity(equipment);
+  }
+
+  async findById(id: string): Promise<EquipmentEntity | null> {
+    const equipment = await this.prisma.equipment.findUnique({ where: { id } });
+    return equipment ? this.mapToEntity(equipment) : null;
+  }
+
+  async findAll(filters: EquipmentFilters): Promise<EquipmentEntity[]> {
+    const equipment = await this.prisma.equipment.findMany({
+      where: {
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.category && { category: { equals: filters.category, mode: 'insensitive' } }),
+        ...(filters.outOfService !== undefined && { outOfService: filters.outOfService }),
+        ...(!filters.includeInactive && { isActive: true }),
+      },
+      orderBy: [{ category: 'asc' }, { name: 'asc' }],
+    });
+
+    return equipment.map(item => this.mapToEntity(item));
+  }
+
+  /**
+   * Active equipment of the category that a plan for the company (and
+   * optionally one branch) applies to.
+   */
+  async findForPlan(companyId: string, category: string, branchId?: string): Promise<EquipmentEntity[]> {
+    const equipment = await this.prisma.equipment.findMany({
+      where: {
+        isActive: true,
+        category: { equals: category, mode: 'insensitive' },
+        ...(branchId ? { branchId } : { branch: { companyId } }),
+      },
+    });
+
+    return equipment.map(item => this.mapToEntity(item));
+  }
+
+  /**
+   * Active equipment due for maintenance before the given time that has
+   * not been alerted about yet.
+   */
+  async findMaintenanceDueUnalerted(before: Date): Promise<EquipmentEntity[]> {
+    const equipment = await this.prisma.equipment.findMany({
+      where: { isActive: true, nextMaintenance: { lte: before }, maintenanceAlertedAt: null },
+      orderBy: { nextMaintenance: 'asc' },
+    });
+
+    return equipment.map(item => this.mapToEntity(item));
+  }
+
+  async findWarrantyExpiringUnalerted(from: Date, before: Date): Promise<EquipmentEntity[]> {
+    const equipment = await this.prisma.equipment.findMany({
+      where: { isActive: true, warrantyExpiry: { gte: from, lte: before }, warrantyAlertedAt: null },
+      orderBy: { warrantyExpiry: 'asc' },
+    });
+
+    return equipment.map(item => this.mapToEntity(item));
+  }
+
+  async update(id: string, data: UpdateEquipmentEntity): Promise<EquipmentEntity> {
+    this.logger.log('Updating equipment', { id });
+
+    const equipment = await this.prisma.equipment.update({ where: { id }, data });
+    return this.mapToEntity(equipment);
+  }
+
+  private mapToEntity(data: any): EquipmentEntity {
+    return {
+      id: data.id,
+      branchId: data.branchId,
+      name: data.name,
+      category: data.category,
+      brand: data.brand,
+      model: data.model,
+      serialNumber: data.serialNumber,
+      purchaseDate: data.purchaseDate,
+      purchasePrice: data.purchasePrice,
+      warrantyExpiry: data.warrantyExpiry,
+      lastMaintenance: data.lastMaintenance,
+      nextMaintenance: data.nextMaintenance,
+      maintenanceNotes: data.maintenanceNotes,
+      condition: data.condition,
+      isActive: data.isActive,
+      location: data.location,
+      images: data.images,
+      manualUrl: data.manualUrl,
+      notes: data.notes,
+      outOfService: data.outOfService,
+      maintenanceAlertedAt: data.maintenanceAlertedAt,
+      warrantyAlertedAt: data.warrantyAlertedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
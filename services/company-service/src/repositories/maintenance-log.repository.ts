@@ -0,0 +1,45 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { CreateMaintenanceLogEntity, MaintenanceLogEntity } from '../entities/equipment.entity';
+
+@Injectable()
+export class MaintenanceLogRepository {
+  private readonly logger = new Logger(MaintenanceLogRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateMaintenanceLogEntity): Promise<MaintenanceLogEntity> {
+    this.logger.log('Recording maintenance', { equipmentId: data.equipmentId, type: data.type });
+
+    const log = await this.prisma.maintenanceLog.create({ data });
+    return this.mapToEntity(log);
+  }
+
+  /**
+   * Maintenance history of the equipment, most recent first.
+   */
+  async findByEquipment(equipmentId: string): Promise<MaintenanceLogEntity[]> {
+    const logs = await this.prisma.maintenanceLog.findMany({
+      where: { equipmentId },
+      orderBy: { performedAt: 'desc' },
+    });
+
+    return logs.map(log => this.mapToEntity(log));
+  }
+
+  private mapToEntity(data: any): MaintenanceLogEntity {
+    return {
+      id: data.id,
+      equipmentId: data.equipmentId,
+      planId: data.planId,
+      faultId: data.faultId,
+      type: data.type,
+      description: data.description,
+      cost: data.cost,
+      conditionAfter: data.conditionAfter,
+      performedBy: data.performedBy,
+      performedAt: data.performedAt,
+      createdAt: data.createdAt,
+    };
+  }
+}
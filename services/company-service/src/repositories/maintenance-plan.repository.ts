@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  CreateMaintenancePlanEntity,
+  MaintenancePlanEntity,
+  UpdateMaintenancePlanEntity,
+} from '../entities/equipment.entity';
+
+@Injectable()
+export class MaintenancePlanRepository {
+  private readonly logger = new Logger(MaintenancePlanRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateMaintenancePlanEntity): Promise<MaintenancePlanEntity> {
+    this.logger.log('Creating maintenance plan', { companyId: data.companyId, category: data.category });
+
+    const plan = await this.prisma.maintenancePlan.create({ data });
+    return this.mapToEntity(plan);
+  }
+
+  async findById(id: string): Promise<MaintenancePlanEntity | null> {
+    const plan = await this.prisma.maintenancePlan.findUnique({ where: { id } });
+    return plan ? this.mapToEntity(plan) : null;
+  }
+
+  async findByCompany(companyId: string, includeInactive = false): Promise<MaintenancePlanEntity[]> {
+    const plans = await this.prisma.maintenancePlan.findMany({
+      where: {
+        companyId,
+        ...(!includeInactive && { isActive: true }),
+      },
+      orderBy: [{ category: 'asc' }, { name: 'asc' }],
+    });
+
+    return plans.map(plan => this.mapToEntity(plan));
+  }
+
+  /**
+   * Active plans of the company for the category, company-wide or for the branch.
+   */
+  async findApplicable(companyId: string, category: string, branchId?: string): Promise<MaintenancePlanEntity[]> {
+    const plans = await this.prisma.maintenancePlan.findMany({
+      where: {
+        companyId,
+        isActive: true,
+        category: { equals: category, mode: 'insensitive' },
+        OR: [{ branchId: null }, ...(branchId ? [{ branchId }] : [])],
+      },
+    });
+
+    return plans.map(plan => this.mapToEntity(plan));
+  }
+
+  async update(id: string, data: UpdateMaintenancePlanEntity): Promise<MaintenancePlanEntity> {
+    this.logger.log('Updating maintenance plan', { id });
+
+    const plan = await this.prisma.maintenancePlan.update({ where: { id }, data });
+    return this.mapToEntity(plan);
+  }
+
+  private mapToEntity(data: any): MaintenancePlanEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      category: data.category,
+      name: data.name,
+      intervalDays: data.intervalDays,
+      tasks: data.tasks,
+      isActive: data.isActive,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PayrollRunStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  CreatePayrollRunEntity,
+  CreatePayslipEntity,
+  PayrollRunEntity,
+  PayslipEntity,
+} from '../entities/payroll.entity';
+import { PayrollRunFilters } from '../types/payroll.types';
+
+@Injectable()
+export class PayrollRepository {
+  private readonly logger = new Logger(PayrollRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreatePayrollRunEntity, payslips: CreatePayslipEntity[], totalGross: number): Promise<PayrollRunEntity> {
+    this.logger.log('Creating payroll run', {
+      branchId: data.branchId,
+      periodStart: data.periodStart,
+      periodEnd: data.periodEnd,
+    });
+
+    const run = await this.prisma.payrollRun.create({
+      data: {
+        ...data,
+        periodStart: this.toDate(data.periodStart),
+        periodEnd: this.toDate(data.periodEnd),
+        totalGross,
+        calculatedAt: new Date(),
+        payslips: { create: payslips },
+      },
+      include: { payslips: { orderBy: { position: 'asc' } } },
+    });
+
+    return this.mapToEntity(run);
+  }
+
+  async findById(id: string): Promise<PayrollRunEntity | null> {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id },
+      include: { payslips: { orderBy: { position: 'asc' } } },
+    });
+
+    return run ? this.mapToEntity(run) : null;
+  }
+
+  /**
+   * Runs without their payslips, newest period first.
+   */
+  async findAll(filters: PayrollRunFilters): Promise<PayrollRunEntity[]> {
+    const runs = await this.prisma.payrollRun.findMany({
+      where: {
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.status && { status: filters.status }),
+      },
+      orderBy: { periodStart: 'desc' },
+    });
+
+    return runs.map(run => this.mapToEntity(run));
+  }
+
+  /**
+   * Runs of the branch whose period shares a day with start..end (inclusive).
+   */
+  async findOverlapping(branchId: string, start: string, end: string, excludeId?: string): Promise<PayrollRunEntity[]> {
+    const runs = await this.prisma.payrollRun.findMany({
+      where: {
+        branchId,
+        periodStart: { lte: this.toDate(end) },
+        periodEnd: { gte: this.toDate(start) },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    return runs.map(run => this.mapToEntity(run));
+  }
+
+  /**
+   * Finalized payslips of the given staff records, with their run.
+   */
+  async findFinalizedPayslips(staffIds: string[]): Promise<(PayslipEntity & { run: PayrollRunEntity })[]> {
+    const payslips = await this.prisma.payslip.findMany({
+      where: { staffId: { in: staffIds }, run: { status: PayrollRunStatus.FINALIZED } },
+      include: { run: true },
+      orderBy: { run: { periodStart: 'desc' } },
+    });
+
+    return payslips.map(payslip => ({
+      ...this.mapPayslip(payslip),
+      run: this.mapToEntity(payslip.run),
+    }));
+  }
+
+  /**
+   * Replaces the payslips of a draft run; null when the run is no longer a draft.
+   */
+  async replacePayslips(id: string, payslips: CreatePayslipEntity[], totalGross: number): Promise<PayrollRunEntity | null> {
+    this.logger.log('Recalculating payroll run', { id, payslips: payslips.length });
+
+    const replaced = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.payrollRun.updateMany({
+        where: { id, status: PayrollRunStatus.DRAFT },
+        data: { totalGross, calculatedAt: new Date() },
+      });
+      if (updated.count === 0) {
+        return false;
+      }
+
+      await tx.payslip.deleteMany({ where: { runId: id } });
+      await tx.payslip.createMany({ data: payslips.map(payslip => ({ ...payslip, runId: id })) });
+      return true;
+    });
+
+    return replaced ? this.findById(id) : null;
+  }
+
+  /**
+   * Locks a draft run; null when it was already finalized.
+   */
+  async finalize(id: string, finalizedBy: string): Promise<PayrollRunEntity | null> {
+    this.logger.log('Finalizing payroll run', { id, finalizedBy });
+
+    const result = await this.prisma.payrollRun.updateMany({
+      where: { id, status: PayrollRunStatus.DRAFT },
+      data: { status: PayrollRunStatus.FINALIZED, finalizedBy, finalizedAt: new Date() },
+    });
+
+    return result.count > 0 ? this.findById(id) : null;
+  }
+
+  /**
+   * Deletes a draft run; false when it was finalized in the meantime.
+   */
+  async deleteDraft(id: string): Promise<boolean> {
+    this.logger.log('Deleting payroll run', { id });
+
+    const result = await this.prisma.payrollRun.deleteMany({
+      where: { id, status: PayrollRunStatus.DRAFT },
+    });
+
+    return result.count > 0;
+  }
+
+  private toDate(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+  }
+
+  private mapToEntity(data: any): PayrollRunEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      branchId: data.branchId,
+      periodStart: data.periodStart.toISOString().slice(0, 10),
+      periodEnd: data.periodEnd.toISOString().slice(0, 10),
+      status: data.status,
+      currency: data.currency,
+      totalGross: data.totalGross,
+      calculatedAt: data.calculatedAt,
+      createdBy: data.createdBy,
+      finalizedBy: data.finalizedBy,
+      finalizedAt: data.finalizedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+      ...(data.payslips && { payslips: data.payslips.map((payslip: any) => this.mapPayslip(payslip)) }),
+    };
+  }
+
+  private mapPayslip(data: any): PayslipEntity {
+    return {
+      id: data.id,
+      runId: data.runId,
+      staffId: data.staffId,
+      userId: data.userId,
+      position: data.position,
+      salaryPay: data.salaryPay,
+      hourlyRate: data.hourlyRate,
+      workedMinutes: data.workedMinutes,
+      hourlyPay: data.hourlyPay,
+      openEntries: data.openEntries,
+      ptSessions: data.ptSessions,
+      ptSessionRate: data.ptSessionRate,
+      ptCommission: data.ptCommission,
+      classesTaught: data.classesTaught,
+      classAttendees: data.classAttendees,
+      classRate: data.classRate,
+      classAttendeeRate: data.classAttendeeRate,
+      classCommission: data.classCommission,
+      grossPay: data.grossPay,
+      createdAt: data.createdAt,
+    };
+  }
+}
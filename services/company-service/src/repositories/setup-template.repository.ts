@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  CreateSetupTemplateEntity,
+  SetupTemplateEntity,
+  UpdateSetupTemplateEntity,
+} from '../entities/branch-setup.entity';
+
+@Injectable()
+export class SetupTemplateRepository {
+  private readonly logger = new Logger(SetupTemplateRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateSetupTemplateEntity): Promise<SetupTemplateEntity> {
+    this.logger.log('Creating setup template', { companyId: data.companyId, name: data.name });
+
+    const input: Prisma.SetupTemplateCreateInput = {
+      ...(data.companyId && { company: { connect: { id: data.companyId } } }),
+      name: data.name,
+      description: data.description,
+      amenities: data.amenities,
+      operatingHours: this.toJson(data.operatingHours),
+      settings: this.toJson(data.settings),
+      equipment: this.toJson(data.equipment),
+      classes: this.toJson(data.classes),
+      createdBy: data.createdBy,
+    };
+
+    const template = await this.prisma.setupTemplate.create({ data: input });
+    return this.mapToEntity(template);
+  }
+
+  async findById(id: string): Promise<SetupTemplateEntity | null> {
+    const template = await this.prisma.setupTemplate.findUnique({ where: { id } });
+    return template ? this.mapToEntity(template) : null;
+  }
+
+  /**
+   * The company's own templates followed by platform templates. Without a
+   * company only platform templates are returned.
+   */
+  async findAvailable(companyId?: string, includeInactive = false): Promise<SetupTemplateEntity[]> {
+    const templates = await this.prisma.setupTemplate.findMany({
+      where: {
+        OR: [{ companyId: null }, ...(companyId ? [{ companyId }] : [])],
+        ...(!includeInactive && { isActive: true }),
+      },
+      orderBy: [{ companyId: { sort: 'asc', nulls: 'last' } }, { name: 'asc' }],
+    });
+
+    return templates.map(template => this.mapToEntity(template));
+  }
+
+  async update(id: string, data: UpdateSetupTemplateEntity): Promise<SetupTemplateEntity> {
+    this.logger.log('Updating setup template', { id, updateFields: Object.keys(data) });
+
+    const input: Prisma.SetupTemplateUpdateInput = {
+      name: data.name,
+      description: data.description,
+      amenities: data.amenities,
+      operatingHours: this.toJson(data.operatingHours),
+      settings: this.toJson(data.settings),
+      equipment: this.toJson(data.equipment),
+      classes: this.toJson(data.classes),
+      isActive: data.isActive,
+    };
+
+    const template = await this.prisma.setupTemplate.update({ where: { id }, data: input });
+    return this.mapToEntity(template);
+  }
+
+  private toJson(value?: object): Prisma.InputJsonValue | undefined {
+    return value as unknown as Prisma.InputJsonValue | undefined;
+  }
+
+  private mapToEntity(data: any): SetupTemplateEntity {
+    return {
+      id: data.id,
+      companyId: data.companyId,
+      name: data.name,
+      description: data.description,
+      amenities: data.amenities,
+      operatingHours: data.operatingHours,
+      settings: data.settings,
+      equipment: data.equipment ?? [],
+      classes: data.classes ?? [],
+      isActive: data.isActive,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
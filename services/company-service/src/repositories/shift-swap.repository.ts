@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ShiftSwapStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { ShiftSwapRequestEntity, CreateShiftSwapRequestEntity } from '../entities/shift.entity';
+import { ShiftSwapFilters } from '../types/shift.types';
+
+@Injectable()
+export class ShiftSwapRepository {
+  private readonly logger = new Logger(ShiftSwapRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateShiftSwapRequestEntity): Promise<ShiftSwapRequestEntity> {
+    this.logger.log('Creating shift swap request', { shiftId: data.shiftId, targetStaffId: data.targetStaffId });
+
+    const request = await this.prisma.shiftSwapRequest.create({ data });
+    return this.mapToEntity(request);
+  }
+
+  async findById(id: string): Promise<ShiftSwapRequestEntity | null> {
+    const request = await this.prisma.shiftSwapRequest.findUnique({ where: { id } });
+    return request ? this.mapToEntity(request) : null;
+  }
+
+  async findAll(filters: ShiftSwapFilters): Promise<ShiftSwapRequestEntity[]> {
+    const requests = await this.prisma.shiftSwapRequest.findMany({
+      where: {
+        ...(filters.branchId && { shift: { branchId: filters.branchId } }),
+        ...(filters.staffId && {
+          OR: [{ requesterId: filters.staffId }, { targetStaffId: filters.staffId }],
+        }),
+        ...(filters.status && { status: filters.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return requests.map(request => this.mapToEntity(request));
+  }
+
+  /**
+   * Open (pending or accepted) request involving the shift on either side.
+   */
+  async findOpenForShift(shiftId: string): Promise<ShiftSwapRequestEntity | null> {
+    const request = await this.prisma.shiftSwapRequest.findFirst({
+      where: {
+        OR: [{ shiftId }, { targetShiftId: shiftId }],
+        status: { in: [ShiftSwapStatus.PENDING, ShiftSwapStatus.ACCEPTED] },
+      },
+    });
+
+    return request ? this.mapToEntity(request) : null;
+  }
+
+  /**
+   * Moves the request from one of the expected statuses to the next; null
+   * when it was changed concurrently.
+   */
+  async transition(
+    id: string,
+    from: ShiftSwapStatus[],
+    data: {
+      status: ShiftSwapStatus;
+      respondedAt?: Date;
+      reviewedBy?: string;
+      reviewedAt?: Date;
+      reviewNote?: string;
+    },
+  ): Promise<ShiftSwapRequestEntity | null> {
+    const result = await this.prisma.shiftSwapRequest.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+
+    return result.count > 0 ? this.findById(id) : null;
+  }
+
+  /**
+   * Approves the request and exchanges the assignments in one transaction.
+   * Returns null if the request or either shift changed in the meantime.
+   */
+  async approve(
+    request: ShiftSwapRequestEntity,
+    reviewedBy: string,
+    reviewNote?: string,
+  ): Promise<ShiftSwapRequestEntity | null> {
+    this.logger.log('Approving shift swap', { id: request.id, reviewedBy });
+
+    return this.prisma.$transaction(async tx => {
+      const approved = await tx.shiftSwapRequest.updateMany({
+        where: { id: request.id, status: ShiftSwapStatus.ACCEPTED },
+        data: { status: ShiftSwapStatus.APPROVED, reviewedBy, reviewedAt: new Date(), reviewNote },
+      });
+      if (approved.count === 0) {
+        return null;
+      }
+
+      const given = await tx.shift.updateMany({
+        where: { id: request.shiftId, staffId: request.requesterId },
+        data: { staffId: request.targetStaffId },
+      });
+      if (given.count === 0) {
+        throw new StaleSwapError();
+      }
+
+      if (request.targetShiftId) {
+        const returned = await tx.shift.updateMany({
+          where: { id: request.targetShiftId, staffId: request.targetStaffId },
+          data: { staffId: request.requesterId },
+        });
+        if (returned.count === 0) {
+          throw new StaleSwapError();
+        }
+      }
+
+      const updated = await tx.shiftSwapRequest.findUnique({ where: { id: request.id } });
+      return this.mapToEntity(updated);
+    }).catch(error => {
+      if (error instanceof StaleSwapError) {
+        return null;
+      }
+      throw error;
+    });
+  }
+
+  private mapToEntity(data: any): ShiftSwapRequestEntity {
+    return {
+      id: data.id,
+      shiftId: data.shiftId,
+      requesterId: data.requesterId,
+      targetStaffId: data.targetStaffId,
+      targetShiftId: data.targetShiftId,
+      status: data.status,
+      reason: data.reason,
+      respondedAt: data.respondedAt,
+      reviewedBy: data.reviewedBy,
+      reviewedAt: data.reviewedAt,
+      reviewNote: data.reviewNote,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
+
+// Rolls the approval back when a shift was reassigned after the request was made
+class StaleSwapError extends Error {}
@@ -0,0 +1,202 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ShiftStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  ShiftTemplateEntity,
+  CreateShiftTemplateEntity,
+  ShiftEntity,
+  CreateShiftEntity,
+} from '../entities/shift.entity';
+import { ShiftFilters } from '../types/shift.types';
+
+@Injectable()
+export class ShiftRepository {
+  private readonly logger = new Logger(ShiftRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===================
+  // TEMPLATES
+  // ===================
+
+  async createTemplate(data: CreateShiftTemplateEntity): Promise<ShiftTemplateEntity> {
+    this.logger.log('Creating shift template', { branchId: data.branchId, name: data.name });
+
+    const template = await this.prisma.shiftTemplate.create({
+      data: {
+        ...data,
+        validFrom: this.toDate(data.validFrom),
+        validUntil: data.validUntil ? this.toDate(data.validUntil) : undefined,
+      },
+    });
+
+    return this.mapTemplate(template);
+  }
+
+  async findTemplateById(id: string): Promise<ShiftTemplateEntity | null> {
+    const template = await this.prisma.shiftTemplate.findUnique({ where: { id } });
+    return template ? this.mapTemplate(template) : null;
+  }
+
+  async findTemplates(branchId: string, includeInactive = false): Promise<ShiftTemplateEntity[]> {
+    const templates = await this.prisma.shiftTemplate.findMany({
+      where: {
+        branchId,
+        ...(!includeInactive && { isActive: true }),
+      },
+      orderBy: [{ startTime: 'asc' }, { name: 'asc' }],
+    });
+
+    return templates.map(template => this.mapTemplate(template));
+  }
+
+  async deactivateTemplate(id: string): Promise<ShiftTemplateEntity> {
+    this.logger.log('Deactivating shift template', { id });
+
+    const template = await this.prisma.shiftTemplate.update({ where: { id }, data: { isActive: false } });
+    return this.mapTemplate(template);
+  }
+
+  // ===================
+  // SHIFTS
+  // ===================
+
+  async create(data: CreateShiftEntity): Promise<ShiftEntity> {
+    this.logger.log('Creating shift', { branchId: data.branchId, staffId: data.staffId, startTime: data.startTime });
+
+    const shift = await this.prisma.shift.create({ data });
+    return this.mapShift(shift);
+  }
+
+  /**
+   * Inserts generated shifts, skipping occurrences the template already
+   * produced. Returns the number created.
+   */
+  async createMany(data: CreateShiftEntity[]): Promise<number> {
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.shift.createMany({ data, skipDuplicates: true });
+    return result.count;
+  }
+
+  async findById(id: string): Promise<ShiftEntity | null> {
+    const shift = await this.prisma.shift.findUnique({ where: { id } });
+    return shift ? this.mapShift(shift) : null;
+  }
+
+  /**
+   * Shifts starting in [from, to).
+   */
+  async findAll(filters: ShiftFilters): Promise<ShiftEntity[]> {
+    const shifts = await this.prisma.shift.findMany({
+      where: {
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.staffIds && { staffId: { in: filters.staffIds } }),
+        ...(filters.unassigned && { staffId: null }),
+        ...(filters.status && { status: filters.status }),
+        ...((filters.from || filters.to) && {
+          startTime: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lt: filters.to }),
+          },
+        }),
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return shifts.map(shift => this.mapShift(shift));
+  }
+
+  /**
+   * Scheduled shifts of the staff member overlapping [start, end).
+   */
+  async findOverlapping(staffId: string, start: Date, end: Date, excludeIds: string[] = []): Promise<ShiftEntity[]> {
+    const shifts = await this.prisma.shift.findMany({
+      where: {
+        staffId,
+        status: ShiftStatus.SCHEDULED,
+        startTime: { lt: end },
+        endTime: { gt: start },
+        ...(excludeIds.length > 0 && { id: { notIn: excludeIds } }),
+      },
+    });
+
+    return shifts.map(shift => this.mapShift(shift));
+  }
+
+  /**
+   * Scheduled shift of the staff member running at the instant, or starting
+   * within the early window after it.
+   */
+  async findCurrentForStaff(staffId: string, at: Date, earlyMinutes: number): Promise<ShiftEntity | null> {
+    const shift = await this.prisma.shift.findFirst({
+      where: {
+        staffId,
+        status: ShiftStatus.SCHEDULED,
+        startTime: { lte: new Date(at.getTime() + earlyMinutes * 60000) },
+        endTime: { gt: at },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return shift ? this.mapShift(shift) : null;
+  }
+
+  async assign(id: string, staffId: string | null): Promise<ShiftEntity> {
+    this.logger.log('Assigning shift', { id, staffId });
+
+    const shift = await this.prisma.shift.update({ where: { id }, data: { staffId } });
+    return this.mapShift(shift);
+  }
+
+  async cancel(id: string): Promise<ShiftEntity> {
+    this.logger.log('Cancelling shift', { id });
+
+    const shift = await this.prisma.shift.update({ where: { id }, data: { status: ShiftStatus.CANCELLED } });
+    return this.mapShift(shift);
+  }
+
+  private toDate(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+  }
+
+  private mapTemplate(data: any): ShiftTemplateEntity {
+    return {
+      id: data.id,
+      branchId: data.branchId,
+      name: data.name,
+      position: data.position,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      daysOfWeek: data.daysOfWeek ?? [],
+      breakMinutes: data.breakMinutes,
+      defaultStaffId: data.defaultStaffId,
+      validFrom: data.validFrom.toISOString().slice(0, 10),
+      validUntil: data.validUntil ? data.validUntil.toISOString().slice(0, 10) : undefined,
+      isActive: data.isActive,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+
+  private mapShift(data: any): ShiftEntity {
+    return {
+      id: data.id,
+      branchId: data.branchId,
+      staffId: data.staffId,
+      templateId: data.templateId,
+      position: data.position,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      breakMinutes: data.breakMinutes,
+      status: data.status,
+      notes: data.notes,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { TimeEntryEntity, CreateTimeEntryEntity } from '../entities/shift.entity';
+import { TimeEntryFilters } from '../types/shift.types';
+
+@Injectable()
+export class TimeEntryRepository {
+  private readonly logger = new Logger(TimeEntryRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateTimeEntryEntity): Promise<TimeEntryEntity> {
+    this.logger.log('Clocking in', { staffId: data.staffId, branchId: data.branchId, shiftId: data.shiftId });
+
+    const entry = await this.prisma.timeEntry.create({ data });
+    return this.mapToEntity(entry);
+  }
+
+  async findById(id: string): Promise<TimeEntryEntity | null> {
+    const entry = await this.prisma.timeEntry.findUnique({ where: { id } });
+    return entry ? this.mapToEntity(entry) : null;
+  }
+
+  async findOpen(staffIds: string[]): Promise<TimeEntryEntity | null> {
+    const entry = await this.prisma.timeEntry.findFirst({
+      where: { staffId: { in: staffIds }, clockOut: null },
+      orderBy: { clockIn: 'desc' },
+    });
+
+    return entry ? this.mapToEntity(entry) : null;
+  }
+
+  /**
+   * Entries clocked in during [from, to).
+   */
+  async findAll(filters: TimeEntryFilters): Promise<TimeEntryEntity[]> {
+    const entries = await this.prisma.timeEntry.findMany({
+      where: {
+        ...(filters.branchId && { branchId: filters.branchId }),
+        ...(filters.staffIds && { staffId: { in: filters.staffIds } }),
+        ...((filters.from || filters.to) && {
+          clockIn: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lt: filters.to }),
+          },
+        }),
+      },
+      orderBy: { clockIn: 'asc' },
+    });
+
+    return entries.map(entry => this.mapToEntity(entry));
+  }
+
+  /**
+   * Closes the entry unless it was already closed; null in that case.
+   */
+  async clockOut(id: string, clockOut: Date, breakMinutes: number, notes?: string): Promise<TimeEntryEntity | null> {
+    this.logger.log('Clocking out', { id });
+
+    const result = await this.prisma.timeEntry.updateMany({
+      where: { id, clockOut: null },
+      data: { clockOut, breakMinutes, ...(notes && { notes }) },
+    });
+
+    return result.count > 0 ? this.findById(id) : null;
+  }
+
+  async correct(
+    id: string,
+    data: { clockIn?: Date; clockOut?: Date; breakMinutes?: number; notes?: string; shiftId?: string },
+    editedBy: string,
+  ): Promise<TimeEntryEntity> {
+    this.logger.log('Correcting time entry', { id, editedBy });
+
+    const entry = await this.prisma.timeEntry.update({
+      where: { id },
+      data: { ...data, editedBy, editedAt: new Date() },
+    });
+
+    return this.mapToEntity(entry);
+  }
+
+  private mapToEntity(data: any): TimeEntryEntity {
+    return {
+      id: data.id,
+      branchId: data.branchId,
+      staffId: data.staffId,
+      shiftId: data.shiftId,
+      clockIn: data.clockIn,
+      clockOut: data.clockOut,
+      breakMinutes: data.breakMinutes,
+      notes: data.notes,
+      editedBy: data.editedBy,
+      editedAt: data.editedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TrainerTeachingActivity } from '../types/payroll.types';
+import { ClassTemplateDefinition } from '../types/branch-setup.types';
+
+export interface ImportClassTemplatesRequest {
+  companyId: string;
+  branchId: string;
+  trainerId?: string;
+  startDate: string;
+  classes: ClassTemplateDefinition[];
+}
+
+/**
+ * Client for teaching data and class schedules owned by attendance-service.
+ */
+@Injectable()
+export class AttendanceClientService {
+  private readonly logger = new Logger(AttendanceClientService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Completed PT sessions and taught classes per trainer at the branch in
+   * [from, to). Payroll must not silently drop commissions, so failures
+   * throw instead of returning an empty list.
+   */
+  async getTeachingActivity(branchId: string, from: Date, to: Date): Promise<TrainerTeachingActivity[]> {
+    const query = new URLSearchParams({ branchId, from: from.toISOString(), to: to.toISOString() });
+
+    return this.request(`/teaching-activity?${query}`, { method: 'GET' }, 'Could not load teaching activity from attendance-service', { branchId });
+  }
+
+  /**
+   * Recurring classes of the branch, as templates that can be set up elsewhere.
+   */
+  async getClassTemplates(branchId: string): Promise<ClassTemplateDefinition[]> {
+    const query = new URLSearchParams({ branchId });
+
+    return this.request(`/class-templates?${query}`, { method: 'GET' }, 'Could not load class templates from attendance-service', { branchId });
+  }
+
+  /**
+   * Creates the classes as recurring series at the branch; returns how many were created.
+   */
+  async importClassTemplates(importRequest: ImportClassTemplatesRequest): Promise<number> {
+    const schedules = await this.request<unknown[]>(
+      '/class-templates/import',
+      { method: 'POST', body: JSON.stringify(importRequest) },
+      'Could not set up classes in attendance-service',
+      { branchId: importRequest.branchId },
+    );
+
+    return schedules.length;
+  }
+
+  private async request<T>(path: string, init: RequestInit, failureMessage: string, context: Record<string, any>): Promise<T> {
+    const baseUrl = this.configService.get<string>('ATTENDANCE_SERVICE_URL', 'http://attendance-service:3009/api/v1');
+
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-service-token': this.configService.get<string>('INTERNAL_SERVICE_TOKEN', ''),
+          'x-service-id': 'company-service',
+        },
+        signal: AbortSignal.timeout(Number(this.configService.get('INTERNAL_REQUEST_TIMEOUT_MS', 10000))),
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Attendance service request failed', { ...context, path, status: response.status });
+        throw new ServiceUnavailableException(failureMessage);
+      }
+
+      const body = await response.json();
+      return body?.data ?? body;
+    } catch (error) {
+      if (error instanceof ServiceUnavailableException) {
+        throw error;
+      }
+
+      this.logger.warn('Attendance service unavailable', { ...context, error: error.message });
+      throw new ServiceUnavailableException(failureMessage);
+    }
+  }
+}
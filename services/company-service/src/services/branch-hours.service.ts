@@ -0,0 +1,243 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { BranchStatus } from '@prisma/client';
+import { BranchRepository } from '../repositories/branch.repository';
+import { BranchHolidayRepository } from '../repositories/branch-holiday.repository';
+import { BranchService } from './branch.service';
+import { BranchEntity } from '../entities/branch.entity';
+import { BranchHolidayEntity } from '../entities/branch-holiday.entity';
+import { CreateBranchHolidayDto, HolidayRangeQueryDto, OperatingHoursDto } from '../dto/operating-hours.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  ALWAYS_OPEN_HOURS,
+  BranchClosedReason,
+  BranchOpenStatus,
+  OpenInterval,
+  WeeklyOperatingHours,
+  WEEKDAYS,
+} from '../types/operating-hours.types';
+import { assertCanManageBranch, assertCanReadCompany } from '../utils/tenant-access.util';
+import { formatInTimeZone } from '../utils/timezone.util';
+import {
+  coversDate,
+  getLocalDates,
+  mergeIntervals,
+  normalizeWeeklyHours,
+  sortRanges,
+  toIntervals,
+  validateOpeningRanges,
+  validateWeeklyHours,
+} from '../utils/operating-hours.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOOKAHEAD_DAYS = 14; // How far ahead to search for the next opening
+const MAX_HOLIDAY_DAYS = 366;
+
+/**
+ * Weekly opening hours, holiday closures and the open-now check other
+ * services use to reject check-ins and classes outside opening hours.
+ */
+@Injectable()
+export class BranchHoursService {
+  private readonly logger = new Logger(BranchHoursService.name);
+
+  constructor(
+    private readonly branchRepository: BranchRepository,
+    private readonly branchHolidayRepository: BranchHolidayRepository,
+    private readonly branchService: BranchService,
+  ) {}
+
+  // ===================
+  // OPERATING HOURS
+  // ===================
+
+  async getOperatingHours(branchId: string, user: AuthenticatedUser) {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    return {
+      branchId: branch.id,
+      timezone: this.branchService.resolveTimezone(branch),
+      hoursConfigured: !!branch.operatingHours,
+      operatingHours: (branch.operatingHours as WeeklyOperatingHours) ?? ALWAYS_OPEN_HOURS,
+    };
+  }
+
+  async setOperatingHours(
+    branchId: string,
+    hoursDto: OperatingHoursDto,
+    user: AuthenticatedUser,
+  ): Promise<BranchEntity> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanManageBranch(user, branch);
+
+    if (!branch.timezone) {
+      throw new BadRequestException('Set the branch timezone before configuring operating hours');
+    }
+
+    const errors = validateWeeklyHours(hoursDto);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    this.logger.log('Setting operating hours', { branchId, userId: user.id });
+    return this.branchRepository.updateOperatingHours(branchId, normalizeWeeklyHours(hoursDto));
+  }
+
+  // ===================
+  // HOLIDAYS
+  // ===================
+
+  async getHolidays(
+    branchId: string,
+    query: HolidayRangeQueryDto,
+    user: AuthenticatedUser,
+  ): Promise<BranchHolidayEntity[]> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    return this.branchHolidayRepository.findByBranch(branchId, query.from, query.to);
+  }
+
+  async createHoliday(
+    branchId: string,
+    holidayDto: CreateBranchHolidayDto,
+    user: AuthenticatedUser,
+  ): Promise<BranchHolidayEntity> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanManageBranch(user, branch);
+
+    const startDate = holidayDto.startDate;
+    const endDate = holidayDto.endDate ?? startDate;
+    const days = this.listDates(startDate, endDate);
+
+    if (days.length === 0) {
+      throw new BadRequestException('endDate cannot be before startDate');
+    }
+    if (days.length > MAX_HOLIDAY_DAYS) {
+      throw new BadRequestException(`A holiday cannot span more than ${MAX_HOLIDAY_DAYS} days`);
+    }
+
+    if (holidayDto.openingHours?.length) {
+      const errors = validateOpeningRanges(holidayDto.openingHours, 'openingHours');
+      if (errors.length > 0) {
+        throw new BadRequestException(errors);
+      }
+    }
+
+    const existing = await this.branchHolidayRepository.findByBranch(branchId, startDate, endDate);
+    const clash = existing.find(holiday => days.some(day => coversDate(holiday, day)));
+    if (clash) {
+      throw new ConflictException(`Dates overlap the existing holiday "${clash.name}"`);
+    }
+
+    this.logger.log('Creating branch holiday', { branchId, startDate, endDate, userId: user.id });
+
+    return this.branchHolidayRepository.create({
+      branchId,
+      name: holidayDto.name,
+      startDate,
+      endDate,
+      openingHours: holidayDto.openingHours?.length ? sortRanges(holidayDto.openingHours) : undefined,
+      recursAnnually: holidayDto.recursAnnually ?? false,
+      createdBy: user.id,
+    });
+  }
+
+  async deleteHoliday(branchId: string, holidayId: string, user: AuthenticatedUser): Promise<void> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanManageBranch(user, branch);
+
+    const holiday = await this.branchHolidayRepository.findById(holidayId);
+    if (!holiday || holiday.branchId !== branchId) {
+      throw new NotFoundException(`Holiday with ID ${holidayId} not found`);
+    }
+
+    await this.branchHolidayRepository.delete(holidayId);
+  }
+
+  // ===================
+  // OPEN STATUS
+  // ===================
+
+  /**
+   * Whether the branch is open at the instant, when the current opening
+   * ends and when it next opens. User is undefined for service callers.
+   */
+  async getOpenStatus(branchId: string, at: Date, user?: AuthenticatedUser): Promise<BranchOpenStatus> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    const timezone = this.branchService.resolveTimezone(branch);
+    const status: BranchOpenStatus = {
+      branchId,
+      timezone,
+      at,
+      localTime: formatInTimeZone(at, timezone),
+      isOpen: false,
+      hoursConfigured: !!branch.operatingHours,
+    };
+
+    if (branch.status !== BranchStatus.ACTIVE) {
+      status.reason =
+        branch.status === BranchStatus.UNDER_MAINTENANCE
+          ? BranchClosedReason.UNDER_MAINTENANCE
+          : BranchClosedReason.BRANCH_INACTIVE;
+      return status;
+    }
+
+    const dates = getLocalDates(at, LOOKAHEAD_DAYS, timezone);
+    const holidays = await this.branchHolidayRepository.findByBranch(
+      branchId,
+      dates[0].iso,
+      dates[dates.length - 1].iso,
+    );
+    const weekly = (branch.operatingHours as WeeklyOperatingHours) ?? ALWAYS_OPEN_HOURS;
+
+    const intervals: OpenInterval[] = [];
+    for (const date of dates) {
+      const holiday = holidays.find(candidate => coversDate(candidate, date.iso));
+      const ranges = holiday ? (holiday.openingHours ?? []) : (weekly[WEEKDAYS[date.weekday]] ?? []);
+      intervals.push(...toIntervals(date, ranges, timezone));
+    }
+
+    const openings = mergeIntervals(intervals);
+    const current = openings.find(opening => opening.start <= at && at < opening.end);
+    const today = dates[1].iso; // dates start the day before
+    const holidayToday = holidays.find(holiday => coversDate(holiday, today));
+
+    status.holiday = holidayToday?.name;
+
+    if (current) {
+      status.isOpen = true;
+      status.opensAt = current.start;
+      status.closesAt = current.end;
+      status.nextOpening = openings.find(opening => opening.start > current.end)?.start;
+    } else {
+      status.reason = holidayToday ? BranchClosedReason.HOLIDAY : BranchClosedReason.OUTSIDE_HOURS;
+      status.nextOpening = openings.find(opening => opening.start > at)?.start;
+    }
+
+    return status;
+  }
+
+  private listDates(startDate: string, endDate: string): string[] {
+    const dates: string[] = [];
+    const end = new Date(`${endDate}T00:00:00.000Z`).getTime();
+
+    for (
+      let time = new Date(`${startDate}T00:00:00.000Z`).getTime();
+      time <= end && dates.length <= MAX_HOLIDAY_DAYS;
+      time += DAY_MS
+    ) {
+      dates.push(new Date(time).toISOString().slice(0, 10));
+    }
+
+    return dates;
+  }
+}
@@ -0,0 +1,263 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { BranchRepository } from '../repositories/branch.repository';
+import { EquipmentRepository } from '../repositories/equipment.repository';
+import { EquipmentChecklistRepository } from '../repositories/equipment-checklist.repository';
+import { SetupTemplateRepository } from '../repositories/setup-template.repository';
+import { BranchService } from './branch.service';
+import { AttendanceClientService } from './attendance-client.service';
+import { EquipmentChecklistItemEntity } from '../entities/branch-setup.entity';
+import { CreateBranchDto } from '../dto/branch.dto';
+import { ApplySetupTemplateDto, CloneBranchDto } from '../dto/branch-setup.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  BranchSetupResult,
+  ClassTemplateDefinition,
+  EquipmentChecklistEntry,
+} from '../types/branch-setup.types';
+import {
+  assertCanManageBranch,
+  assertCanManageCompany,
+  assertCanReadCompany,
+} from '../utils/tenant-access.util';
+
+interface BranchSetup {
+  operatingHours?: Record<string, any>;
+  equipment: EquipmentChecklistEntry[];
+  classes: ClassTemplateDefinition[];
+  trainerId?: string;
+  classesStartDate?: string;
+}
+
+/**
+ * Opens new branches from an existing branch or a setup template: amenities,
+ * operating hours, settings, an equipment checklist to procure against and
+ * recurring classes in attendance-service.
+ */
+@Injectable()
+export class BranchSetupService {
+  private readonly logger = new Logger(BranchSetupService.name);
+
+  constructor(
+    private readonly branchRepository: BranchRepository,
+    private readonly equipmentRepository: EquipmentRepository,
+    private readonly equipmentChecklistRepository: EquipmentChecklistRepository,
+    private readonly setupTemplateRepository: SetupTemplateRepository,
+    private readonly branchService: BranchService,
+    private readonly attendanceClient: AttendanceClientService,
+  ) {}
+
+  // ===================
+  // NEW BRANCHES
+  // ===================
+
+  async cloneBranch(sourceId: string, cloneDto: CloneBranchDto, user: AuthenticatedUser): Promise<BranchSetupResult> {
+    const source = await this.branchService.findBranch(sourceId);
+    assertCanManageCompany(user, source.companyId);
+
+    const { classScheduleIds, trainerId, classesStartDate, includeEquipmentChecklist, ...details } = cloneDto;
+
+    // Checked before the branch exists so a bad selection creates nothing
+    const classes = await this.selectClasses(source.id, classScheduleIds);
+    const equipment = includeEquipmentChecklist === false ? [] : await this.captureEquipment(source.id);
+
+    this.logger.log('Cloning branch', { sourceId, name: details.name, userId: user.id });
+
+    return this.setUpBranch(
+      {
+        ...details,
+        companyId: source.companyId,
+        timezone: details.timezone ?? source.timezone,
+        capacity: details.capacity ?? source.capacity,
+        amenities: details.amenities ?? source.amenities,
+        settings: details.settings ?? source.settings,
+      },
+      {
+        operatingHours: source.operatingHours,
+        equipment,
+        classes: classes.map(definition => ({ ...definition, trainerId: trainerId ?? definition.trainerId })),
+        classesStartDate,
+      },
+      user,
+    );
+  }
+
+  async applyTemplate(
+    templateId: string,
+    applyDto: ApplySetupTemplateDto,
+    user: AuthenticatedUser,
+  ): Promise<BranchSetupResult> {
+    const template = await this.setupTemplateRepository.findById(templateId);
+    if (!template || !template.isActive || (template.companyId && template.companyId !== applyDto.companyId)) {
+      throw new NotFoundException(`Setup template with ID ${templateId} not found`);
+    }
+
+    const { trainerId, classesStartDate, ...details } = applyDto;
+
+    if (template.operatingHours && !details.timezone) {
+      throw new BadRequestException("Set the branch timezone to apply the template's operating hours");
+    }
+
+    this.logger.log('Applying setup template', { templateId, companyId: applyDto.companyId, userId: user.id });
+
+    const result = await this.setUpBranch(
+      {
+        ...details,
+        amenities: details.amenities ?? template.amenities,
+        settings: details.settings ?? template.settings,
+      },
+      {
+        operatingHours: template.operatingHours,
+        equipment: template.equipment,
+        classes: trainerId ? template.classes : [],
+        trainerId,
+        classesStartDate,
+      },
+      user,
+    );
+
+    if (!trainerId && template.classes.length > 0) {
+      result.warnings.push('Classes were not set up because no trainer was given');
+    }
+
+    return result;
+  }
+
+  // ===================
+  // EQUIPMENT CHECKLIST
+  // ===================
+
+  async getChecklist(branchId: string, user: AuthenticatedUser): Promise<EquipmentChecklistItemEntity[]> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    return this.equipmentChecklistRepository.findByBranch(branch.id);
+  }
+
+  async checkItem(branchId: string, itemId: string, user: AuthenticatedUser): Promise<EquipmentChecklistItemEntity> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanManageBranch(user, branch);
+
+    const item = await this.equipmentChecklistRepository.findById(itemId);
+    if (!item || item.branchId !== branch.id) {
+      throw new NotFoundException(`Checklist item with ID ${itemId} not found`);
+    }
+
+    const checked = await this.equipmentChecklistRepository.markChecked(item.id, user.id);
+    if (!checked) {
+      throw new BadRequestException('Checklist item is already checked off');
+    }
+
+    return checked;
+  }
+
+  // ===================
+  // CAPTURE
+  // ===================
+
+  /**
+   * The branch's active equipment as checklist entries, one per distinct
+   * make and model with the number of units.
+   */
+  async captureEquipment(branchId: string): Promise<EquipmentChecklistEntry[]> {
+    const equipment = await this.equipmentRepository.findAll({ branchId });
+    const entries = new Map<string, EquipmentChecklistEntry>();
+
+    for (const item of equipment) {
+      const key = [item.name, item.category, item.brand, item.model].map(part => (part ?? '').toLowerCase()).join('|');
+      const entry = entries.get(key);
+
+      if (entry) {
+        entry.quantity++;
+      } else {
+        entries.set(key, {
+          name: item.name,
+          category: item.category,
+          brand: item.brand ?? undefined,
+          model: item.model ?? undefined,
+          quantity: 1,
+        });
+      }
+    }
+
+    return [...entries.values()];
+  }
+
+  /**
+   * The requested recurring classes of the branch; every ID must be a
+   * series still running there.
+   */
+  async selectClasses(branchId: string, classScheduleIds?: string[]): Promise<ClassTemplateDefinition[]> {
+    if (!classScheduleIds?.length) {
+      return [];
+    }
+
+    const templates = await this.attendanceClient.getClassTemplates(branchId);
+    const byId = new Map(templates.map(template => [template.id, template]));
+
+    return [...new Set(classScheduleIds)].map(id => {
+      const template = byId.get(id);
+      if (!template) {
+        throw new BadRequestException(`Class schedule ${id} is not a running recurring class at this branch`);
+      }
+
+      const { id: _id, ...definition } = template;
+      return definition;
+    });
+  }
+
+  private async setUpBranch(createDto: CreateBranchDto, setup: BranchSetup, user: AuthenticatedUser): Promise<BranchSetupResult> {
+    const warnings: string[] = [];
+    let branch = await this.branchService.createBranch(createDto, user);
+
+    if (setup.operatingHours) {
+      if (branch.timezone) {
+        branch = await this.branchRepository.updateOperatingHours(branch.id, setup.operatingHours);
+      } else {
+        warnings.push('Operating hours were not copied because the branch has no timezone');
+      }
+    }
+
+    const equipmentChecklist = await this.equipmentChecklistRepository.createMany(branch.id, setup.equipment);
+
+    let classesCreated = 0;
+    if (setup.classes.length > 0) {
+      try {
+        classesCreated = await this.attendanceClient.importClassTemplates({
+          companyId: branch.companyId,
+          branchId: branch.id,
+          trainerId: setup.trainerId,
+          startDate: this.resolveClassesStartDate(setup.classesStartDate, branch.openingDate),
+          classes: setup.classes,
+        });
+      } catch (error) {
+        // The branch already exists; classes can be added by hand
+        this.logger.error('Class setup failed', { branchId: branch.id, error: error.message });
+        warnings.push(`Classes were not set up: ${error.message}`);
+      }
+    }
+
+    this.logger.log('Branch set up', {
+      branchId: branch.id,
+      checklistItems: equipmentChecklist.length,
+      classesCreated,
+    });
+
+    return { branch, equipmentChecklist, classesCreated, warnings };
+  }
+
+  /**
+   * Classes start on the requested day, otherwise on the opening date, but
+   * never in the past.
+   */
+  private resolveClassesStartDate(requested?: string, openingDate?: Date): string {
+    const today = new Date().toISOString().slice(0, 10);
+    const start = requested?.slice(0, 10) ?? openingDate?.toISOString().slice(0, 10) ?? today;
+
+    return start > today ? start : today;
+  }
+}
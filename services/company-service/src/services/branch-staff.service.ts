@@ -0,0 +1,149 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { BranchStaffRepository } from '../repositories/branch-staff.repository';
+import { BranchService } from './branch.service';
+import { EntitlementService } from './entitlement.service';
+import { BranchStaffEntity } from '../entities/branch-staff.entity';
+import { CreateBranchStaffDto, EndEmploymentDto, UpdateBranchStaffDto } from '../dto/branch-staff.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import { EntitlementResource } from '../types/entitlement.types';
+import { assertCanManageBranch } from '../utils/tenant-access.util';
+
+/**
+ * Employment records linking auth-service users to the branches they work
+ * at. Pay details are only visible to whoever manages the branch.
+ */
+@Injectable()
+export class BranchStaffService {
+  private readonly logger = new Logger(BranchStaffService.name);
+
+  constructor(
+    private readonly branchStaffRepository: BranchStaffRepository,
+    private readonly branchService: BranchService,
+    private readonly entitlementService: EntitlementService,
+  ) {}
+
+  async addStaff(createDto: CreateBranchStaffDto, user: AuthenticatedUser): Promise<BranchStaffEntity> {
+    const branch = await this.branchService.findBranch(createDto.branchId);
+    assertCanManageBranch(user, branch);
+
+    const existing = await this.branchStaffRepository.findByBranchAndUser(createDto.branchId, createDto.userId);
+    if (existing?.isActive) {
+      throw new ConflictException('User already works at this branch');
+    }
+
+    const maxStaff = await this.entitlementService.assertCanAddStaff(branch.companyId, createDto.userId);
+
+    this.logger.log('Adding staff', { branchId: branch.id, userId: createDto.userId, addedBy: user.id });
+
+    // Rehiring reuses the record, since staff are unique per branch and user
+    const staff = existing
+      ? await this.branchStaffRepository.rehire(
+          existing.id,
+          {
+            position: createDto.position,
+            department: createDto.department,
+            salary: createDto.salary,
+            hourlyRate: createDto.hourlyRate,
+            ptSessionCommission: createDto.ptSessionCommission,
+            classCommission: createDto.classCommission,
+            classAttendeeCommission: createDto.classAttendeeCommission,
+            startDate: new Date(createDto.startDate),
+            endDate: null,
+            notes: createDto.notes,
+          },
+          branch.companyId,
+          maxStaff,
+        )
+      : await this.branchStaffRepository.create(
+          { ...createDto, startDate: new Date(createDto.startDate) },
+          branch.companyId,
+          maxStaff,
+        );
+
+    if (!staff) {
+      throw await this.entitlementService.limitReached(branch.companyId, EntitlementResource.STAFF, maxStaff);
+    }
+
+    await this.entitlementService.syncUsage(branch.companyId);
+    return staff;
+  }
+
+  async getStaff(branchId: string, includeInactive: boolean, user: AuthenticatedUser): Promise<BranchStaffEntity[]> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanManageBranch(user, branch);
+
+    return this.branchStaffRepository.findByBranch(branchId, includeInactive);
+  }
+
+  async getMyEmployments(userId: string): Promise<BranchStaffEntity[]> {
+    return this.branchStaffRepository.findByUser(userId);
+  }
+
+  async updateStaff(id: string, updateDto: UpdateBranchStaffDto, user: AuthenticatedUser): Promise<BranchStaffEntity> {
+    const staff = await this.findManagedStaff(id, user);
+
+    this.logger.log('Updating staff', { id, updatedBy: user.id });
+    return this.branchStaffRepository.update(staff.id, updateDto);
+  }
+
+  async endEmployment(id: string, endDto: EndEmploymentDto, user: AuthenticatedUser): Promise<BranchStaffEntity> {
+    const staff = await this.findManagedStaff(id, user);
+
+    if (!staff.isActive) {
+      throw new BadRequestException('Employment has already ended');
+    }
+
+    if (staff.userId === user.id) {
+      throw new ForbiddenException('You cannot end your own employment');
+    }
+
+    const endDate = endDto.endDate ? new Date(endDto.endDate) : new Date();
+    if (endDate < staff.startDate) {
+      throw new BadRequestException('endDate cannot be before the start date');
+    }
+
+    this.logger.log('Ending employment', { id, endDate, endedBy: user.id });
+    const ended = await this.branchStaffRepository.update(staff.id, { endDate, isActive: false });
+
+    const branch = await this.branchService.findBranch(staff.branchId);
+    await this.entitlementService.syncUsage(branch.companyId);
+
+    return ended;
+  }
+
+  async findStaff(id: string): Promise<BranchStaffEntity> {
+    const staff = await this.branchStaffRepository.findById(id);
+    if (!staff) {
+      throw new NotFoundException(`Staff record with ID ${id} not found`);
+    }
+
+    return staff;
+  }
+
+  /**
+   * Active staff record at the branch, or 400 naming the problem.
+   */
+  async findActiveAtBranch(id: string, branchId: string): Promise<BranchStaffEntity> {
+    const staff = await this.findStaff(id);
+    if (staff.branchId !== branchId || !staff.isActive) {
+      throw new BadRequestException('Staff member does not currently work at this branch');
+    }
+
+    return staff;
+  }
+
+  private async findManagedStaff(id: string, user: AuthenticatedUser): Promise<BranchStaffEntity> {
+    const staff = await this.findStaff(id);
+    const branch = await this.branchService.findBranch(staff.branchId);
+    assertCanManageBranch(user, branch);
+
+    return staff;
+  }
+}
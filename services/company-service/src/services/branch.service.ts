@@ -0,0 +1,228 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BranchStatus, CompanyStatus } from '@prisma/client';
+import { BranchRepository } from '../repositories/branch.repository';
+import { CompanyService } from './company.service';
+import { EntitlementService } from './entitlement.service';
+import { BranchEntity } from '../entities/branch.entity';
+import {
+  CreateBranchDto,
+  UpdateBranchDto,
+  UpdateBranchStatusDto,
+  BranchFiltersDto,
+} from '../dto/branch.dto';
+import { AuthenticatedUser, BRANCH_STATUS_TRANSITIONS, PaginatedResult } from '../types/company.types';
+import { EntitlementResource } from '../types/entitlement.types';
+import { isPlatformAdmin } from '../constants/roles.constants';
+import {
+  assertCanManageBranch,
+  assertCanManageCompany,
+  assertCanReadCompany,
+  canManageCompany,
+} from '../utils/tenant-access.util';
+import { nextAvailableSlug, slugify } from '../utils/slug.util';
+import { mergeSettings } from '../utils/settings.util';
+import { isValidTimeZone } from '../utils/timezone.util';
+
+@Injectable()
+export class BranchService {
+  private readonly logger = new Logger(BranchService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly branchRepository: BranchRepository,
+    private readonly companyService: CompanyService,
+    private readonly entitlementService: EntitlementService,
+  ) {}
+
+  async createBranch(createDto: CreateBranchDto, user: AuthenticatedUser): Promise<BranchEntity> {
+    this.logger.log('Creating branch', { companyId: createDto.companyId, name: createDto.name, userId: user.id });
+
+    const company = await this.companyService.findCompany(createDto.companyId);
+    assertCanManageCompany(user, company.id);
+
+    if (company.status !== CompanyStatus.ACTIVE) {
+      throw new BadRequestException(`Cannot add branches to a ${company.status.toLowerCase()} company`);
+    }
+
+    this.assertValidTimezone(createDto.timezone);
+    const maxBranches = await this.entitlementService.assertCanAddBranch(company.id);
+
+    const slug = createDto.slug
+      ? await this.assertSlugAvailable(company.id, createDto.slug)
+      : await this.generateSlug(company.id, createDto.name);
+
+    const branch = await this.branchRepository.create(
+      {
+        ...createDto,
+        slug,
+        openingDate: createDto.openingDate ? new Date(createDto.openingDate) : undefined,
+      },
+      maxBranches,
+    );
+
+    if (!branch) {
+      throw await this.entitlementService.limitReached(company.id, EntitlementResource.BRANCHES, maxBranches);
+    }
+
+    await this.entitlementService.syncUsage(company.id);
+    return branch;
+  }
+
+  /**
+   * Branches of the caller's company; only platform admins may list across
+   * companies.
+   */
+  async getBranches(filters: BranchFiltersDto, user: AuthenticatedUser): Promise<PaginatedResult<BranchEntity>> {
+    if (isPlatformAdmin(user)) {
+      return this.branchRepository.findAll(filters);
+    }
+
+    const companyId = filters.companyId ?? user.companyId;
+    if (!companyId) {
+      throw new ForbiddenException('You are not assigned to a company');
+    }
+    assertCanReadCompany(user, companyId);
+
+    return this.branchRepository.findAll({ ...filters, companyId });
+  }
+
+  /**
+   * Branch by ID; user is undefined for internal service callers.
+   */
+  async getBranch(id: string, user?: AuthenticatedUser): Promise<BranchEntity> {
+    const branch = await this.findBranch(id);
+    assertCanReadCompany(user, branch.companyId);
+
+    return branch;
+  }
+
+  async updateBranch(id: string, updateDto: UpdateBranchDto, user: AuthenticatedUser): Promise<BranchEntity> {
+    this.logger.log('Updating branch', { id, userId: user.id });
+
+    const branch = await this.findBranch(id);
+    assertCanManageBranch(user, branch);
+
+    const { settings, openingDate, slug, managerId, ...fields } = updateDto;
+
+    if (managerId !== undefined && managerId !== branch.managerId && !canManageCompany(user, branch.companyId)) {
+      throw new ForbiddenException('Only the company owner can reassign the branch manager');
+    }
+
+    this.assertValidTimezone(fields.timezone);
+
+    return this.branchRepository.update(id, {
+      ...fields,
+      ...(managerId !== undefined && { managerId }),
+      ...(slug && slug !== branch.slug && { slug: await this.assertSlugAvailable(branch.companyId, slug) }),
+      ...(openingDate && { openingDate: new Date(openingDate) }),
+      ...(settings && { settings: mergeSettings(branch.settings, settings) }),
+    });
+  }
+
+  async updateStatus(id: string, statusDto: UpdateBranchStatusDto, user: AuthenticatedUser): Promise<BranchEntity> {
+    const branch = await this.findBranch(id);
+    assertCanManageBranch(user, branch);
+
+    if (branch.status === statusDto.status) {
+      return branch;
+    }
+
+    if (!BRANCH_STATUS_TRANSITIONS[branch.status].includes(statusDto.status)) {
+      throw new BadRequestException(`Branch cannot change from ${branch.status} to ${statusDto.status}`);
+    }
+
+    if (statusDto.status === BranchStatus.ACTIVE) {
+      const company = await this.companyService.findCompany(branch.companyId);
+      if (company.status !== CompanyStatus.ACTIVE) {
+        throw new BadRequestException(`Cannot reopen a branch of a ${company.status.toLowerCase()} company`);
+      }
+    }
+
+    // Reopened branches count towards the plan again
+    const maxBranches =
+      branch.status === BranchStatus.INACTIVE
+        ? await this.entitlementService.assertCanAddBranch(branch.companyId)
+        : null;
+
+    this.logger.log('Changing branch status', {
+      id,
+      from: branch.status,
+      to: statusDto.status,
+      reason: statusDto.reason,
+      userId: user.id,
+    });
+
+    const updated = await this.branchRepository.updateStatus(id, statusDto.status, maxBranches);
+    if (!updated) {
+      throw await this.entitlementService.limitReached(branch.companyId, EntitlementResource.BRANCHES, maxBranches);
+    }
+
+    await this.entitlementService.syncUsage(branch.companyId);
+
+    return updated;
+  }
+
+  /**
+   * Branches must be deactivated before they can be deleted.
+   */
+  async deleteBranch(id: string, user: AuthenticatedUser): Promise<void> {
+    const branch = await this.findBranch(id);
+    assertCanManageCompany(user, branch.companyId);
+
+    if (branch.status !== BranchStatus.INACTIVE) {
+      throw new BadRequestException('Deactivate the branch before deleting it');
+    }
+
+    this.logger.log('Deleting branch', { id, companyId: branch.companyId, userId: user.id });
+    await this.branchRepository.delete(id);
+  }
+
+  async findBranch(id: string): Promise<BranchEntity> {
+    const branch = await this.branchRepository.findById(id);
+    if (!branch) {
+      throw new NotFoundException(`Branch with ID ${id} not found`);
+    }
+
+    return branch;
+  }
+
+  /**
+   * Branch timezone, falling back to DEFAULT_TIMEZONE (UTC) when none is set.
+   */
+  resolveTimezone(branch: BranchEntity): string {
+    return branch.timezone && isValidTimeZone(branch.timezone)
+      ? branch.timezone
+      : this.configService.get<string>('DEFAULT_TIMEZONE', 'UTC');
+  }
+
+  private async generateSlug(companyId: string, name: string): Promise<string> {
+    const base = slugify(name);
+    if (!base) {
+      throw new BadRequestException('Cannot generate a slug from this name; provide one explicitly');
+    }
+
+    return nextAvailableSlug(base, await this.branchRepository.findSlugsStartingWith(companyId, base));
+  }
+
+  private async assertSlugAvailable(companyId: string, slug: string): Promise<string> {
+    if (await this.branchRepository.findBySlug(companyId, slug)) {
+      throw new ConflictException(`Branch slug "${slug}" is already used in this company`);
+    }
+
+    return slug;
+  }
+
+  private assertValidTimezone(timezone?: string): void {
+    if (timezone && !isValidTimeZone(timezone)) {
+      throw new BadRequestException(`Unknown timezone "${timezone}"`);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CompanyStatus } from '@prisma/client';
+import { CompanyRepository } from '../repositories/company.repository';
+import { CompanyEntity } from '../entities/company.entity';
+import {
+  CreateCompanyDto,
+  UpdateCompanyDto,
+  UpdateCompanyStatusDto,
+  CompanyFiltersDto,
+} from '../dto/company.dto';
+import { AuthenticatedUser, COMPANY_STATUS_TRANSITIONS, PaginatedResult } from '../types/company.types';
+import { isPlatformAdmin } from '../constants/roles.constants';
+import { assertCanManageCompany, assertCanReadCompany } from '../utils/tenant-access.util';
+import { nextAvailableSlug, slugify } from '../utils/slug.util';
+import { mergeSettings } from '../utils/settings.util';
+
+@Injectable()
+export class CompanyService {
+  private readonly logger = new Logger(CompanyService.name);
+
+  constructor(private readonly companyRepository: CompanyRepository) {}
+
+  async createCompany(createDto: CreateCompanyDto): Promise<CompanyEntity> {
+    this.logger.log('Creating company', { name: createDto.name });
+
+    const slug = createDto.slug
+      ? await this.assertSlugAvailable(createDto.slug)
+      : await this.generateSlug(createDto.name);
+
+    return this.companyRepository.create({
+      ...createDto,
+      slug,
+      foundedDate: createDto.foundedDate ? new Date(createDto.foundedDate) : undefined,
+    });
+  }
+
+  async getCompanies(filters: CompanyFiltersDto): Promise<PaginatedResult<CompanyEntity>> {
+    return this.companyRepository.findAll(filters);
+  }
+
+  /**
+   * Company by ID; user is undefined for internal service callers.
+   */
+  async getCompany(id: string, user?: AuthenticatedUser): Promise<CompanyEntity> {
+    const company = await this.findCompany(id);
+    assertCanReadCompany(user, company.id);
+
+    return company;
+  }
+
+  async updateCompany(id: string, updateDto: UpdateCompanyDto, user: AuthenticatedUser): Promise<CompanyEntity> {
+    this.logger.log('Updating company', { id, userId: user.id });
+
+    const company = await this.findCompany(id);
+    assertCanManageCompany(user, company.id);
+
+    const { settings, foundedDate, slug, ...fields } = updateDto;
+
+    return this.companyRepository.update(id, {
+      ...fields,
+      ...(slug && slug !== company.slug && { slug: await this.assertSlugAvailable(slug) }),
+      ...(foundedDate && { foundedDate: new Date(foundedDate) }),
+      ...(settings && { settings: mergeSettings(company.settings, settings) }),
+    });
+  }
+
+  /**
+   * Owners can deactivate and reactivate their company; suspension, and
+   * lifting it, is left to platform admins.
+   */
+  async updateStatus(id: string, statusDto: UpdateCompanyStatusDto, user: AuthenticatedUser): Promise<CompanyEntity> {
+    const company = await this.findCompany(id);
+    assertCanManageCompany(user, company.id);
+
+    if (company.status === statusDto.status) {
+      return company;
+    }
+
+    if (!COMPANY_STATUS_TRANSITIONS[company.status].includes(statusDto.status)) {
+      throw new BadRequestException(`Company cannot change from ${company.status} to ${statusDto.status}`);
+    }
+
+    const involvesSuspension =
+      company.status === CompanyStatus.SUSPENDED || statusDto.status === CompanyStatus.SUSPENDED;
+    if (involvesSuspension && !isPlatformAdmin(user)) {
+      throw new ForbiddenException('Only platform administrators can suspend or reinstate a company');
+    }
+
+    this.logger.log('Changing company status', {
+      id,
+      from: company.status,
+      to: statusDto.status,
+      reason: statusDto.reason,
+      userId: user.id,
+    });
+
+    return this.companyRepository.updateStatus(id, statusDto.status);
+  }
+
+  /**
+   * Deletes the company with all of its branches; it must be deactivated
+   * first so live gyms are not removed by accident.
+   */
+  async deleteCompany(id: string, user: AuthenticatedUser): Promise<void> {
+    const company = await this.findCompany(id);
+
+    if (company.status !== CompanyStatus.INACTIVE) {
+      throw new BadRequestException('Deactivate the company before deleting it');
+    }
+
+    this.logger.log('Deleting company', { id, userId: user.id });
+    await this.companyRepository.delete(id);
+  }
+
+  async findCompany(id: string): Promise<CompanyEntity> {
+    const company = await this.companyRepository.findById(id);
+    if (!company) {
+      throw new NotFoundException(`Company with ID ${id} not found`);
+    }
+
+    return company;
+  }
+
+  private async generateSlug(name: string): Promise<string> {
+    const base = slugify(name);
+    if (!base) {
+      throw new BadRequestException('Cannot generate a slug from this name; provide one explicitly');
+    }
+
+    return nextAvailableSlug(base, await this.companyRepository.findSlugsStartingWith(base));
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<string> {
+    if (await this.companyRepository.findBySlug(slug)) {
+      throw new ConflictException(`Company slug "${slug}" is already taken`);
+    }
+
+    return slug;
+  }
+}
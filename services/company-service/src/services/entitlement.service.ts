@@ -0,0 +1,172 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BranchRepository } from '../repositories/branch.repository';
+import { BranchStaffRepository } from '../repositories/branch-staff.repository';
+import { CompanySubscriptionRepository } from '../repositories/company-subscription.repository';
+import { SubscriptionClientService } from './subscription-client.service';
+import { CompanySubscriptionEntity } from '../entities/company-subscription.entity';
+import {
+  COUNTED_BRANCH_STATUSES,
+  CompanyEntitlements,
+  EntitlementResource,
+  PlanLimits,
+} from '../types/entitlement.types';
+import { AuthenticatedUser } from '../types/company.types';
+import { UpgradeRequiredException } from '../exceptions/upgrade-required.exception';
+import { assertCanReadCompany } from '../utils/tenant-access.util';
+
+/**
+ * Plan limits on branches, staff and members. Companies without any plan
+ * on record are unrestricted; once a plan has lapsed nothing can be added
+ * until it is renewed.
+ */
+@Injectable()
+export class EntitlementService {
+  private readonly logger = new Logger(EntitlementService.name);
+
+  constructor(
+    private readonly branchRepository: BranchRepository,
+    private readonly branchStaffRepository: BranchStaffRepository,
+    private readonly companySubscriptionRepository: CompanySubscriptionRepository,
+    private readonly subscriptionClient: SubscriptionClientService,
+  ) {}
+
+  /**
+   * Limits and current usage; user is undefined for internal service callers.
+   */
+  async getEntitlements(companyId: string, user?: AuthenticatedUser): Promise<CompanyEntitlements> {
+    assertCanReadCompany(user, companyId);
+
+    const [subscription, branches, staff] = await Promise.all([
+      this.companySubscriptionRepository.findLatest(companyId),
+      this.countBranches(companyId),
+      this.branchStaffRepository.countActiveByCompany(companyId),
+    ]);
+
+    return {
+      companyId,
+      plan: subscription
+        ? {
+            name: subscription.planName,
+            type: subscription.planType,
+            endDate: subscription.endDate,
+            isCurrent: this.isCurrent(subscription),
+          }
+        : undefined,
+      limits: this.toLimits(subscription),
+      usage: { branches, staff },
+    };
+  }
+
+  /**
+   * Returns the branch limit, null when unlimited. The repository checks it
+   * again under a lock when inserting, since this check alone can race.
+   */
+  async assertCanAddBranch(companyId: string): Promise<number | null> {
+    return this.assertWithinLimit(companyId, EntitlementResource.BRANCHES, () => this.countBranches(companyId));
+  }
+
+  /**
+   * Returns the staff limit, as assertCanAddBranch. Adding someone who
+   * already works at another of the company's branches doesn't use up a
+   * staff seat, so the limit is null then.
+   */
+  async assertCanAddStaff(companyId: string, userId: string): Promise<number | null> {
+    if (await this.branchStaffRepository.isActiveInCompany(userId, companyId)) {
+      return null;
+    }
+
+    return this.assertWithinLimit(companyId, EntitlementResource.STAFF, () =>
+      this.branchStaffRepository.countActiveByCompany(companyId),
+    );
+  }
+
+  /**
+   * The error for a limit found reached when inserting.
+   */
+  async limitReached(companyId: string, resource: EntitlementResource, limit: number): Promise<UpgradeRequiredException> {
+    const subscription = await this.companySubscriptionRepository.findLatest(companyId);
+
+    this.logger.log('Plan limit reached', { companyId, resource, limit });
+    return this.upgradeRequired(subscription, resource, limit);
+  }
+
+  /**
+   * Pushes the company's branch and staff counts to subscription-service.
+   */
+  async syncUsage(companyId: string): Promise<void> {
+    const [currentBranches, currentStaff] = await Promise.all([
+      this.countBranches(companyId),
+      this.branchStaffRepository.countActiveByCompany(companyId),
+    ]);
+
+    await this.subscriptionClient.reportUsage(companyId, { currentBranches, currentStaff });
+  }
+
+  private async assertWithinLimit(
+    companyId: string,
+    resource: EntitlementResource,
+    countUsed: () => Promise<number>,
+  ): Promise<number | null> {
+    const subscription = await this.companySubscriptionRepository.findLatest(companyId);
+    const limit = this.toLimits(subscription)[resource];
+    if (limit === null) {
+      return null;
+    }
+
+    if (!this.isCurrent(subscription)) {
+      throw new UpgradeRequiredException(
+        `the ${subscription.planName} plan is no longer active. Renew your subscription to add ${resource}.`,
+        resource,
+        limit,
+      );
+    }
+
+    const used = await countUsed();
+    if (used + 1 > limit) {
+      this.logger.log('Plan limit reached', { companyId, resource, used, limit });
+      throw this.upgradeRequired(subscription, resource, limit);
+    }
+
+    return limit;
+  }
+
+  private upgradeRequired(
+    subscription: CompanySubscriptionEntity,
+    resource: EntitlementResource,
+    limit: number,
+  ): UpgradeRequiredException {
+    return new UpgradeRequiredException(
+      `the ${subscription.planName} plan allows ${limit} ${resource}. Upgrade your subscription to add more.`,
+      resource,
+      limit,
+    );
+  }
+
+  private toLimits(subscription: CompanySubscriptionEntity | null): PlanLimits {
+    if (!subscription) {
+      return {
+        [EntitlementResource.BRANCHES]: null,
+        [EntitlementResource.STAFF]: null,
+        [EntitlementResource.MEMBERS]: null,
+      };
+    }
+
+    // A lapsed plan keeps what the company has but allows nothing new
+    const current = this.isCurrent(subscription);
+
+    return {
+      [EntitlementResource.BRANCHES]: current ? subscription.maxBranches : 0,
+      [EntitlementResource.STAFF]: current ? subscription.maxStaff : 0,
+      [EntitlementResource.MEMBERS]: current ? subscription.maxMembers : 0,
+    };
+  }
+
+  private isCurrent(subscription: CompanySubscriptionEntity): boolean {
+    const now = new Date();
+    return subscription.isActive && subscription.startDate <= now && subscription.endDate >= now;
+  }
+
+  private countBranches(companyId: string): Promise<number> {
+    return this.branchRepository.countByCompany(companyId, COUNTED_BRANCH_STATUSES);
+  }
+}
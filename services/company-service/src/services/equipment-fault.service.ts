@@ -0,0 +1,129 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { EquipmentFaultStatus, MaintenanceType } from '@prisma/client';
+import { EquipmentFaultRepository } from '../repositories/equipment-fault.repository';
+import { BranchService } from './branch.service';
+import { EquipmentService } from './equipment.service';
+import { NotificationClientService } from './notification-client.service';
+import { EquipmentFaultEntity } from '../entities/equipment.entity';
+import { CloseFaultDto, FaultFiltersDto, ReportFaultDto } from '../dto/equipment.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import { assertCanReadCompany } from '../utils/tenant-access.util';
+
+/**
+ * Fault reports from members and staff. Reported equipment is out of
+ * service until staff resolve or dismiss the report.
+ */
+@Injectable()
+export class EquipmentFaultService {
+  private readonly logger = new Logger(EquipmentFaultService.name);
+
+  constructor(
+    private readonly equipmentFaultRepository: EquipmentFaultRepository,
+    private readonly branchService: BranchService,
+    private readonly equipmentService: EquipmentService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  async reportFault(reportDto: ReportFaultDto, user: AuthenticatedUser): Promise<EquipmentFaultEntity> {
+    const equipment = await this.equipmentService.findEquipment(reportDto.equipmentId);
+    const branch = await this.branchService.findBranch(equipment.branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    if (!equipment.isActive) {
+      throw new BadRequestException('Equipment has been retired');
+    }
+
+    const open = await this.equipmentFaultRepository.findOpenForEquipment(equipment.id);
+    if (open) {
+      throw new ConflictException('A fault has already been reported for this equipment');
+    }
+
+    const fault = await this.equipmentFaultRepository.report({
+      equipmentId: equipment.id,
+      branchId: equipment.branchId,
+      description: reportDto.description,
+      reportedBy: user.id,
+    });
+
+    await this.notificationClient.publish('equipment.fault.reported', {
+      faultId: fault.id,
+      equipmentId: equipment.id,
+      equipmentName: equipment.name,
+      branchId: branch.id,
+      companyId: branch.companyId,
+      description: fault.description,
+      reportedBy: user.id,
+    });
+
+    return fault;
+  }
+
+  async getFaults(filters: FaultFiltersDto, user: AuthenticatedUser): Promise<EquipmentFaultEntity[]> {
+    const branch = await this.branchService.findBranch(filters.branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    return this.equipmentFaultRepository.findAll(filters);
+  }
+
+  /**
+   * Resolves (logging the repair) or dismisses an open fault.
+   */
+  async closeFault(id: string, closeDto: CloseFaultDto, user: AuthenticatedUser): Promise<EquipmentFaultEntity> {
+    const fault = await this.equipmentFaultRepository.findById(id);
+    if (!fault) {
+      throw new NotFoundException(`Fault report with ID ${id} not found`);
+    }
+
+    const branch = await this.branchService.findBranch(fault.branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    if (fault.status !== EquipmentFaultStatus.OPEN) {
+      throw new BadRequestException('Fault report is already closed');
+    }
+
+    const resolved = closeDto.status === EquipmentFaultStatus.RESOLVED;
+    const closed = await this.equipmentFaultRepository.close(
+      fault.id,
+      closeDto.status,
+      user.id,
+      closeDto.note,
+      resolved
+        ? {
+            equipmentId: fault.equipmentId,
+            faultId: fault.id,
+            type: MaintenanceType.REPAIR,
+            description: closeDto.note ?? fault.description,
+            cost: closeDto.cost,
+            conditionAfter: closeDto.conditionAfter,
+            performedBy: user.id,
+            performedAt: new Date(),
+          }
+        : undefined,
+      resolved ? closeDto.conditionAfter : undefined,
+    );
+
+    if (!closed) {
+      throw new ConflictException('Fault report was closed in the meantime');
+    }
+
+    this.logger.log('Fault report closed', { id, status: closed.status, closedBy: user.id });
+
+    await this.notificationClient.publish('equipment.fault.closed', {
+      faultId: closed.id,
+      equipmentId: closed.equipmentId,
+      branchId: branch.id,
+      companyId: branch.companyId,
+      status: closed.status,
+      reportedBy: closed.reportedBy,
+      resolvedBy: user.id,
+    });
+
+    return closed;
+  }
+}
@@ -0,0 +1,264 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { MaintenanceType } from '@prisma/client';
+import { EquipmentRepository } from '../repositories/equipment.repository';
+import { MaintenancePlanRepository } from '../repositories/maintenance-plan.repository';
+import { MaintenanceLogRepository } from '../repositories/maintenance-log.repository';
+import { BranchService } from './branch.service';
+import {
+  EquipmentEntity,
+  MaintenanceLogEntity,
+  UpdateEquipmentEntity,
+} from '../entities/equipment.entity';
+import {
+  CreateEquipmentDto,
+  CreateMaintenanceLogDto,
+  EquipmentFiltersDto,
+  UpdateEquipmentDto,
+} from '../dto/equipment.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  EquipmentAlerts,
+  MAINTENANCE_DUE_SOON_DAYS,
+  WARRANTY_ALERT_DAYS,
+} from '../types/equipment.types';
+import { assertCanManageBranch, assertCanReadCompany } from '../utils/tenant-access.util';
+import { nextMaintenanceDate, selectMaintenancePlan } from '../utils/maintenance.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Branch equipment, its maintenance history and when it is next due.
+ * Due dates follow the company's maintenance plans for the equipment's
+ * category unless a manager sets one by hand.
+ */
+@Injectable()
+export class EquipmentService {
+  private readonly logger = new Logger(EquipmentService.name);
+
+  constructor(
+    private readonly equipmentRepository: EquipmentRepository,
+    private readonly maintenancePlanRepository: MaintenancePlanRepository,
+    private readonly maintenanceLogRepository: MaintenanceLogRepository,
+    private readonly branchService: BranchService,
+  ) {}
+
+  // ===================
+  // EQUIPMENT
+  // ===================
+
+  async createEquipment(createDto: CreateEquipmentDto, user: AuthenticatedUser): Promise<EquipmentEntity> {
+    const branch = await this.branchService.findBranch(createDto.branchId);
+    assertCanManageBranch(user, branch);
+
+    const equipment = await this.equipmentRepository.create({
+      ...createDto,
+      purchaseDate: this.toDate(createDto.purchaseDate),
+      warrantyExpiry: this.toDate(createDto.warrantyExpiry),
+      lastMaintenance: this.toDate(createDto.lastMaintenance),
+      nextMaintenance: this.toDate(createDto.nextMaintenance),
+    });
+
+    if (createDto.nextMaintenance) {
+      return equipment;
+    }
+
+    return this.schedule(equipment, branch.companyId);
+  }
+
+  async getEquipment(filters: EquipmentFiltersDto, user: AuthenticatedUser): Promise<EquipmentEntity[]> {
+    const branch = await this.branchService.findBranch(filters.branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    return this.equipmentRepository.findAll(filters);
+  }
+
+  async getEquipmentById(id: string, user: AuthenticatedUser): Promise<EquipmentEntity> {
+    const equipment = await this.findEquipment(id);
+    const branch = await this.branchService.findBranch(equipment.branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    return equipment;
+  }
+
+  async updateEquipment(id: string, updateDto: UpdateEquipmentDto, user: AuthenticatedUser): Promise<EquipmentEntity> {
+    const equipment = await this.findEquipment(id);
+    const branch = await this.branchService.findBranch(equipment.branchId);
+    assertCanManageBranch(user, branch);
+
+    const data: UpdateEquipmentEntity = {
+      ...updateDto,
+      purchaseDate: this.toDate(updateDto.purchaseDate),
+      warrantyExpiry: this.toDate(updateDto.warrantyExpiry),
+      nextMaintenance: this.toDate(updateDto.nextMaintenance),
+    };
+
+    // Changed dates get a fresh alert
+    if (updateDto.warrantyExpiry) {
+      data.warrantyAlertedAt = null;
+    }
+    if (updateDto.nextMaintenance) {
+      data.maintenanceAlertedAt = null;
+    }
+
+    const updated = await this.equipmentRepository.update(equipment.id, data);
+
+    if (updateDto.category && updateDto.category !== equipment.category && !updateDto.nextMaintenance) {
+      return this.schedule(updated, branch.companyId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * What needs attention at the branch: overdue or upcoming maintenance,
+   * warranties about to expire and equipment out of service.
+   */
+  async getAlerts(branchId: string, user: AuthenticatedUser): Promise<EquipmentAlerts> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    const equipment = await this.equipmentRepository.findAll({ branchId });
+    const now = Date.now();
+    const dueSoon = now + MAINTENANCE_DUE_SOON_DAYS * DAY_MS;
+    const warrantyHorizon = now + WARRANTY_ALERT_DAYS * DAY_MS;
+
+    return {
+      branchId,
+      overdueMaintenance: equipment.filter(item => item.nextMaintenance && item.nextMaintenance.getTime() <= now),
+      maintenanceDueSoon: equipment.filter(
+        item => item.nextMaintenance && item.nextMaintenance.getTime() > now && item.nextMaintenance.getTime() <= dueSoon,
+      ),
+      warrantyExpiring: equipment.filter(
+        item => item.warrantyExpiry && item.warrantyExpiry.getTime() >= now && item.warrantyExpiry.getTime() <= warrantyHorizon,
+      ),
+      outOfService: equipment.filter(item => item.outOfService),
+    };
+  }
+
+  // ===================
+  // MAINTENANCE LOG
+  // ===================
+
+  async getMaintenanceLogs(id: string, user: AuthenticatedUser): Promise<MaintenanceLogEntity[]> {
+    const equipment = await this.getEquipmentById(id, user);
+    return this.maintenanceLogRepository.findByEquipment(equipment.id);
+  }
+
+  /**
+   * Records work on the equipment. Scheduled maintenance also moves the
+   * last and next maintenance dates.
+   */
+  async recordMaintenance(
+    id: string,
+    logDto: CreateMaintenanceLogDto,
+    user: AuthenticatedUser,
+  ): Promise<MaintenanceLogEntity> {
+    const equipment = await this.findEquipment(id);
+    const branch = await this.branchService.findBranch(equipment.branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    const performedAt = logDto.performedAt ? new Date(logDto.performedAt) : new Date();
+    if (performedAt > new Date()) {
+      throw new BadRequestException('performedAt cannot be in the future');
+    }
+
+    const plans = await this.maintenancePlanRepository.findApplicable(branch.companyId, equipment.category, equipment.branchId);
+    const plan = selectMaintenancePlan(plans, equipment);
+
+    const log = await this.maintenanceLogRepository.create({
+      equipmentId: equipment.id,
+      planId: logDto.type === MaintenanceType.SCHEDULED ? plan?.id : undefined,
+      type: logDto.type,
+      description: logDto.description,
+      cost: logDto.cost,
+      conditionAfter: logDto.conditionAfter,
+      performedBy: user.id,
+      performedAt,
+    });
+
+    const update: UpdateEquipmentEntity = {
+      ...(logDto.conditionAfter && { condition: logDto.conditionAfter }),
+    };
+
+    // Back-dated entries older than the last service don't move the schedule
+    if (
+      logDto.type === MaintenanceType.SCHEDULED &&
+      (!equipment.lastMaintenance || performedAt > equipment.lastMaintenance)
+    ) {
+      update.lastMaintenance = performedAt;
+      update.nextMaintenance = plan ? nextMaintenanceDate({ ...equipment, lastMaintenance: performedAt }, plan) : null;
+      update.maintenanceAlertedAt = null;
+    }
+
+    if (Object.keys(update).length > 0) {
+      await this.equipmentRepository.update(equipment.id, update);
+    }
+
+    this.logger.log('Maintenance recorded', { equipmentId: equipment.id, type: logDto.type, performedBy: user.id });
+    return log;
+  }
+
+  // ===================
+  // SCHEDULING
+  // ===================
+
+  /**
+   * Re-derives the next due date of the company's equipment in the
+   * category after its maintenance plans changed. Equipment no plan
+   * applies to keeps its current date.
+   */
+  async applyPlans(companyId: string, category: string, branchId?: string): Promise<number> {
+    const [equipment, plans] = await Promise.all([
+      this.equipmentRepository.findForPlan(companyId, category, branchId),
+      this.maintenancePlanRepository.findByCompany(companyId),
+    ]);
+
+    let rescheduled = 0;
+    for (const item of equipment) {
+      const plan = selectMaintenancePlan(plans, item);
+      if (!plan) {
+        continue;
+      }
+
+      const next = nextMaintenanceDate(item, plan);
+      if (item.nextMaintenance?.getTime() !== next.getTime()) {
+        await this.equipmentRepository.update(item.id, { nextMaintenance: next, maintenanceAlertedAt: null });
+        rescheduled++;
+      }
+    }
+
+    this.logger.log('Maintenance schedule updated', { companyId, category, rescheduled });
+    return rescheduled;
+  }
+
+  async findEquipment(id: string): Promise<EquipmentEntity> {
+    const equipment = await this.equipmentRepository.findById(id);
+    if (!equipment) {
+      throw new NotFoundException(`Equipment with ID ${id} not found`);
+    }
+
+    return equipment;
+  }
+
+  private async schedule(equipment: EquipmentEntity, companyId: string): Promise<EquipmentEntity> {
+    const plans = await this.maintenancePlanRepository.findApplicable(companyId, equipment.category, equipment.branchId);
+    const plan = selectMaintenancePlan(plans, equipment);
+    if (!plan) {
+      return equipment;
+    }
+
+    return this.equipmentRepository.update(equipment.id, {
+      nextMaintenance: nextMaintenanceDate(equipment, plan),
+      maintenanceAlertedAt: null,
+    });
+  }
+
+  private toDate(value?: string): Date | undefined {
+    return value ? new Date(value) : undefined;
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EquipmentRepository } from '../repositories/equipment.repository';
+import { BranchRepository } from '../repositories/branch.repository';
+import { NotificationClientService } from './notification-client.service';
+import { EquipmentEntity } from '../entities/equipment.entity';
+import { WARRANTY_ALERT_DAYS } from '../types/equipment.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Periodically flags equipment whose maintenance is overdue or whose
+ * warranty is about to expire. Each is announced once per due date.
+ */
+@Injectable()
+export class MaintenanceAlertService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MaintenanceAlertService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly equipmentRepository: EquipmentRepository,
+    private readonly branchRepository: BranchRepository,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('EQUIPMENT_ALERT_JOB_INTERVAL_MS', 60 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('Equipment alert job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.checkEquipment(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async checkEquipment(): Promise<{ overdueMaintenance: number; expiringWarranties: number }> {
+    const result = { overdueMaintenance: 0, expiringWarranties: 0 };
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const [overdue, expiring] = await Promise.all([
+        this.equipmentRepository.findMaintenanceDueUnalerted(now),
+        this.equipmentRepository.findWarrantyExpiringUnalerted(now, new Date(now.getTime() + WARRANTY_ALERT_DAYS * DAY_MS)),
+      ]);
+      const companies = new Map<string, string | undefined>();
+
+      for (const equipment of overdue) {
+        await this.announce('equipment.maintenance.overdue', equipment, companies, {
+          nextMaintenance: equipment.nextMaintenance,
+          lastMaintenance: equipment.lastMaintenance,
+        });
+        await this.equipmentRepository.update(equipment.id, { maintenanceAlertedAt: now });
+        result.overdueMaintenance++;
+      }
+
+      for (const equipment of expiring) {
+        await this.announce('equipment.warranty.expiring', equipment, companies, {
+          warrantyExpiry: equipment.warrantyExpiry,
+        });
+        await this.equipmentRepository.update(equipment.id, { warrantyAlertedAt: now });
+        result.expiringWarranties++;
+      }
+
+      if (result.overdueMaintenance > 0 || result.expiringWarranties > 0) {
+        this.logger.log('Equipment alerts sent', result);
+      }
+    } catch (error) {
+      this.logger.error('Equipment alert check failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return result;
+  }
+
+  private async announce(
+    event: string,
+    equipment: EquipmentEntity,
+    companies: Map<string, string | undefined>,
+    details: Record<string, any>,
+  ): Promise<void> {
+    if (!companies.has(equipment.branchId)) {
+      const branch = await this.branchRepository.findById(equipment.branchId);
+      companies.set(equipment.branchId, branch?.companyId);
+    }
+
+    await this.notificationClient.publish(event, {
+      equipmentId: equipment.id,
+      equipmentName: equipment.name,
+      category: equipment.category,
+      branchId: equipment.branchId,
+      companyId: companies.get(equipment.branchId),
+      ...details,
+    });
+  }
+}
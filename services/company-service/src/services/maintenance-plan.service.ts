@@ -0,0 +1,113 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { MaintenancePlanRepository } from '../repositories/maintenance-plan.repository';
+import { BranchService } from './branch.service';
+import { CompanyService } from './company.service';
+import { EquipmentService } from './equipment.service';
+import { MaintenancePlanEntity } from '../entities/equipment.entity';
+import {
+  CreateMaintenancePlanDto,
+  MaintenancePlanQueryDto,
+  UpdateMaintenancePlanDto,
+} from '../dto/maintenance-plan.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  assertCanManageBranch,
+  assertCanManageCompany,
+  assertCanReadCompany,
+} from '../utils/tenant-access.util';
+
+/**
+ * Recurring maintenance plans per equipment category, company-wide or for
+ * a single branch. Changing a plan reschedules the equipment it covers.
+ */
+@Injectable()
+export class MaintenancePlanService {
+  private readonly logger = new Logger(MaintenancePlanService.name);
+
+  constructor(
+    private readonly maintenancePlanRepository: MaintenancePlanRepository,
+    private readonly branchService: BranchService,
+    private readonly companyService: CompanyService,
+    private readonly equipmentService: EquipmentService,
+  ) {}
+
+  async createPlan(createDto: CreateMaintenancePlanDto, user: AuthenticatedUser): Promise<MaintenancePlanEntity> {
+    await this.assertCanManagePlan(user, createDto.companyId, createDto.branchId);
+
+    const plan = await this.maintenancePlanRepository.create({
+      ...createDto,
+      category: createDto.category.trim(),
+      createdBy: user.id,
+    });
+
+    await this.equipmentService.applyPlans(plan.companyId, plan.category, plan.branchId);
+    return plan;
+  }
+
+  async getPlans(query: MaintenancePlanQueryDto, user: AuthenticatedUser): Promise<MaintenancePlanEntity[]> {
+    await this.companyService.findCompany(query.companyId);
+    assertCanReadCompany(user, query.companyId);
+
+    return this.maintenancePlanRepository.findByCompany(query.companyId, !!query.includeInactive);
+  }
+
+  async updatePlan(id: string, updateDto: UpdateMaintenancePlanDto, user: AuthenticatedUser): Promise<MaintenancePlanEntity> {
+    const plan = await this.findManagedPlan(id, user);
+
+    if (!plan.isActive) {
+      throw new BadRequestException('Maintenance plan is deactivated');
+    }
+
+    const updated = await this.maintenancePlanRepository.update(plan.id, updateDto);
+
+    if (updateDto.intervalDays && updateDto.intervalDays !== plan.intervalDays) {
+      await this.equipmentService.applyPlans(plan.companyId, plan.category, plan.branchId);
+    }
+
+    return updated;
+  }
+
+  async deactivatePlan(id: string, user: AuthenticatedUser): Promise<MaintenancePlanEntity> {
+    const plan = await this.findManagedPlan(id, user);
+
+    if (!plan.isActive) {
+      throw new BadRequestException('Maintenance plan is already deactivated');
+    }
+
+    this.logger.log('Deactivating maintenance plan', { id, deactivatedBy: user.id });
+
+    const updated = await this.maintenancePlanRepository.update(plan.id, { isActive: false });
+    await this.equipmentService.applyPlans(plan.companyId, plan.category, plan.branchId);
+
+    return updated;
+  }
+
+  private async findManagedPlan(id: string, user: AuthenticatedUser): Promise<MaintenancePlanEntity> {
+    const plan = await this.maintenancePlanRepository.findById(id);
+    if (!plan) {
+      throw new NotFoundException(`Maintenance plan with ID ${id} not found`);
+    }
+
+    await this.assertCanManagePlan(user, plan.companyId, plan.branchId);
+    return plan;
+  }
+
+  /**
+   * Company-wide plans belong to the owner; branch plans may also be
+   * managed by the branch's facility manager.
+   */
+  private async assertCanManagePlan(user: AuthenticatedUser, companyId: string, branchId?: string): Promise<void> {
+    if (!branchId) {
+      await this.companyService.findCompany(companyId);
+      assertCanManageCompany(user, companyId);
+      return;
+    }
+
+    const branch = await this.branchService.findBranch(branchId);
+    if (branch.companyId !== companyId) {
+      throw new BadRequestException('Branch does not belong to the company');
+    }
+
+    assertCanManageBranch(user, branch);
+  }
+}
@@ -0,0 +1,360 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PayrollRunStatus } from '@prisma/client';
+import { PayrollRepository } from '../repositories/payroll.repository';
+import { BranchStaffRepository } from '../repositories/branch-staff.repository';
+import { TimeEntryRepository } from '../repositories/time-entry.repository';
+import { BranchService } from './branch.service';
+import { CompanyService } from './company.service';
+import { AttendanceClientService } from './attendance-client.service';
+import { BranchEntity } from '../entities/branch.entity';
+import { CreatePayslipEntity, PayrollRunEntity, PayslipEntity } from '../entities/payroll.entity';
+import { CreatePayrollRunDto, PayrollRunFiltersDto } from '../dto/payroll.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  DEFAULT_PAYROLL_POLICY,
+  MAX_PAYROLL_PERIOD_DAYS,
+  PayrollExport,
+  PayrollExportFormat,
+  PayrollPolicy,
+} from '../types/payroll.types';
+import { assertCanManageBranch } from '../utils/tenant-access.util';
+import { formatInTimeZone, getLocalDayBounds } from '../utils/timezone.util';
+import { calculatePayslip, isEmployedDuring, roundMoney } from '../utils/payroll.util';
+import { toHours } from '../utils/shift.util';
+import { buildCsv } from '../utils/csv.util';
+import { buildTextPdf, PdfLine, PDF_LINE_CHARS } from '../utils/pdf.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Payroll runs per branch and pay period: gross pay from salaries, clocked
+ * hours and trainer commissions on what attendance-service recorded as
+ * taught. Drafts can be recalculated until they are finalized.
+ */
+@Injectable()
+export class PayrollService {
+  private readonly logger = new Logger(PayrollService.name);
+
+  constructor(
+    private readonly payrollRepository: PayrollRepository,
+    private readonly branchStaffRepository: BranchStaffRepository,
+    private readonly timeEntryRepository: TimeEntryRepository,
+    private readonly branchService: BranchService,
+    private readonly companyService: CompanyService,
+    private readonly attendanceClient: AttendanceClientService,
+  ) {}
+
+  async getPolicy(companyId: string): Promise<PayrollPolicy> {
+    const company = await this.companyService.findCompany(companyId);
+    const overrides = company.settings?.payrollPolicy ?? {};
+
+    const policy = { ...DEFAULT_PAYROLL_POLICY };
+    for (const key of ['ptSessionCommission', 'classCommission', 'classAttendeeCommission'] as const) {
+      const value = overrides[key];
+      if (typeof value === 'number' && value >= 0) {
+        policy[key] = value;
+      }
+    }
+
+    if (typeof overrides.currency === 'string' && /^[A-Z]{3}$/.test(overrides.currency)) {
+      policy.currency = overrides.currency;
+    }
+
+    return policy;
+  }
+
+  // ===================
+  // RUNS
+  // ===================
+
+  async createRun(createDto: CreatePayrollRunDto, user: AuthenticatedUser): Promise<PayrollRunEntity> {
+    const branch = await this.branchService.findBranch(createDto.branchId);
+    assertCanManageBranch(user, branch);
+
+    const timezone = this.branchService.resolveTimezone(branch);
+    const today = formatInTimeZone(new Date(), timezone).slice(0, 10);
+
+    if (createDto.periodEnd < createDto.periodStart) {
+      throw new BadRequestException('periodEnd cannot be before periodStart');
+    }
+
+    if (createDto.periodStart > today) {
+      throw new BadRequestException('Pay period cannot start in the future');
+    }
+
+    const days = (Date.parse(createDto.periodEnd) - Date.parse(createDto.periodStart)) / DAY_MS + 1;
+    if (days > MAX_PAYROLL_PERIOD_DAYS) {
+      throw new BadRequestException(`Pay period cannot exceed ${MAX_PAYROLL_PERIOD_DAYS} days`);
+    }
+
+    const overlapping = await this.payrollRepository.findOverlapping(branch.id, createDto.periodStart, createDto.periodEnd);
+    if (overlapping.length > 0) {
+      throw new ConflictException(
+        `Pay period overlaps the run for ${overlapping[0].periodStart} to ${overlapping[0].periodEnd}`,
+      );
+    }
+
+    const policy = await this.getPolicy(branch.companyId);
+    const payslips = await this.calculatePayslips(branch, createDto.periodStart, createDto.periodEnd, policy);
+
+    this.logger.log('Creating payroll run', { branchId: branch.id, payslips: payslips.length, createdBy: user.id });
+
+    return this.payrollRepository.create(
+      {
+        companyId: branch.companyId,
+        branchId: branch.id,
+        periodStart: createDto.periodStart,
+        periodEnd: createDto.periodEnd,
+        currency: policy.currency,
+        createdBy: user.id,
+      },
+      payslips,
+      this.sumGross(payslips),
+    );
+  }
+
+  async getRuns(filters: PayrollRunFiltersDto, user: AuthenticatedUser): Promise<PayrollRunEntity[]> {
+    const branch = await this.branchService.findBranch(filters.branchId);
+    assertCanManageBranch(user, branch);
+
+    return this.payrollRepository.findAll(filters);
+  }
+
+  async getRun(id: string, user: AuthenticatedUser): Promise<PayrollRunEntity> {
+    const { run } = await this.findManagedRun(id, user);
+    return run;
+  }
+
+  /**
+   * Recalculates a draft from current staff rates, time entries and
+   * teaching activity, e.g. after late corrections.
+   */
+  async recalculate(id: string, user: AuthenticatedUser): Promise<PayrollRunEntity> {
+    const { run, branch } = await this.findManagedRun(id, user);
+    this.assertDraft(run);
+
+    const policy = await this.getPolicy(branch.companyId);
+    const payslips = await this.calculatePayslips(branch, run.periodStart, run.periodEnd, policy);
+
+    const updated = await this.payrollRepository.replacePayslips(run.id, payslips, this.sumGross(payslips));
+    if (!updated) {
+      throw new ConflictException('Payroll run was finalized in the meantime');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Locks the run once the period is over and every time entry in it has
+   * been clocked out.
+   */
+  async finalize(id: string, user: AuthenticatedUser): Promise<PayrollRunEntity> {
+    const { run, branch } = await this.findManagedRun(id, user);
+    this.assertDraft(run);
+
+    const today = formatInTimeZone(new Date(), this.branchService.resolveTimezone(branch)).slice(0, 10);
+    if (run.periodEnd >= today) {
+      throw new BadRequestException('Pay period has not ended yet');
+    }
+
+    const openEntries = run.payslips.reduce((total, payslip) => total + payslip.openEntries, 0);
+    if (openEntries > 0) {
+      throw new BadRequestException(
+        `${openEntries} time entries in this period are still open; correct them and recalculate first`,
+      );
+    }
+
+    const finalized = await this.payrollRepository.finalize(run.id, user.id);
+    if (!finalized) {
+      throw new ConflictException('Payroll run is already finalized');
+    }
+
+    return finalized;
+  }
+
+  async deleteRun(id: string, user: AuthenticatedUser): Promise<void> {
+    const { run } = await this.findManagedRun(id, user);
+    this.assertDraft(run);
+
+    const deleted = await this.payrollRepository.deleteDraft(run.id);
+    if (!deleted) {
+      throw new ConflictException('Payroll run was finalized in the meantime');
+    }
+  }
+
+  async getMyPayslips(user: AuthenticatedUser): Promise<(PayslipEntity & { run: PayrollRunEntity })[]> {
+    const employments = await this.branchStaffRepository.findByUser(user.id, true);
+    if (employments.length === 0) {
+      return [];
+    }
+
+    return this.payrollRepository.findFinalizedPayslips(employments.map(staff => staff.id));
+  }
+
+  // ===================
+  // EXPORT
+  // ===================
+
+  async exportRun(id: string, format: PayrollExportFormat, user: AuthenticatedUser): Promise<PayrollExport> {
+    const { run, branch } = await this.findManagedRun(id, user);
+    const filename = `payroll-${branch.slug}-${run.periodStart}-${run.periodEnd}`;
+
+    if (format === PayrollExportFormat.PDF) {
+      return {
+        filename: `${filename}.pdf`,
+        contentType: 'application/pdf',
+        content: buildTextPdf(`Payroll ${branch.name} ${run.periodStart} - ${run.periodEnd}`, this.buildPdfLines(run, branch)),
+      };
+    }
+
+    const csv = buildCsv(
+      [
+        'staffId', 'userId', 'position', 'periodStart', 'periodEnd', 'currency',
+        'salaryPay', 'workedHours', 'hourlyRate', 'hourlyPay', 'openEntries',
+        'ptSessions', 'ptSessionRate', 'ptCommission',
+        'classesTaught', 'classAttendees', 'classRate', 'classAttendeeRate', 'classCommission',
+        'grossPay', 'status',
+      ],
+      run.payslips.map(payslip => [
+        payslip.staffId, payslip.userId, payslip.position, run.periodStart, run.periodEnd, run.currency,
+        payslip.salaryPay, toHours(payslip.workedMinutes), payslip.hourlyRate, payslip.hourlyPay, payslip.openEntries,
+        payslip.ptSessions, payslip.ptSessionRate, payslip.ptCommission,
+        payslip.classesTaught, payslip.classAttendees, payslip.classRate, payslip.classAttendeeRate, payslip.classCommission,
+        payslip.grossPay, run.status,
+      ]),
+    );
+
+    return {
+      filename: `${filename}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content: Buffer.from(csv, 'utf8'),
+    };
+  }
+
+  // ===================
+  // HELPERS
+  // ===================
+
+  /**
+   * One payslip per staff member employed in the period, plus anyone who
+   * clocked time or taught there regardless of employment dates.
+   */
+  private async calculatePayslips(
+    branch: BranchEntity,
+    periodStart: string,
+    periodEnd: string,
+    policy: PayrollPolicy,
+  ): Promise<CreatePayslipEntity[]> {
+    const timezone = this.branchService.resolveTimezone(branch);
+    const from = getLocalDayBounds(periodStart, timezone).start;
+    const to = getLocalDayBounds(periodEnd, timezone).end;
+
+    const [staff, entries, activity] = await Promise.all([
+      this.branchStaffRepository.findByBranch(branch.id, true),
+      this.timeEntryRepository.findAll({ branchId: branch.id, from, to }),
+      this.attendanceClient.getTeachingActivity(branch.id, from, to),
+    ]);
+
+    const activityByTrainer = new Map(activity.map(trainer => [trainer.trainerId, trainer]));
+    const payslips: CreatePayslipEntity[] = [];
+
+    for (const member of staff) {
+      const memberEntries = entries.filter(entry => entry.staffId === member.id);
+      const taught = activityByTrainer.get(member.userId);
+      activityByTrainer.delete(member.userId);
+
+      if (!isEmployedDuring(member, periodStart, periodEnd) && memberEntries.length === 0 && !taught) {
+        continue;
+      }
+
+      payslips.push(calculatePayslip(member, { start: periodStart, end: periodEnd }, memberEntries, taught, policy));
+    }
+
+    if (activityByTrainer.size > 0) {
+      this.logger.warn('Trainers without a staff record at the branch were left out of payroll', {
+        branchId: branch.id,
+        trainerIds: [...activityByTrainer.keys()],
+      });
+    }
+
+    return payslips;
+  }
+
+  private buildPdfLines(run: PayrollRunEntity, branch: BranchEntity): PdfLine[] {
+    const money = (amount: number) => amount.toFixed(2);
+    const row = (label: string, amount?: number) => {
+      const value = amount === undefined ? '' : money(amount);
+      return `  ${label}`.padEnd(PDF_LINE_CHARS - value.length) + value;
+    };
+
+    const lines: PdfLine[] = [
+      { text: `Payroll summary - ${branch.name}`, bold: true },
+      { text: `Period ${run.periodStart} to ${run.periodEnd}   Currency ${run.currency}   Status ${run.status}` },
+      { text: `Calculated ${run.calculatedAt.toISOString()}` },
+      { text: '' },
+    ];
+
+    for (const payslip of run.payslips) {
+      lines.push({ text: `${payslip.position} - staff ${payslip.staffId}`, bold: true });
+
+      if (payslip.salaryPay > 0) {
+        lines.push({ text: row('Salary (prorated)', payslip.salaryPay) });
+      }
+      if (payslip.hourlyPay > 0 || payslip.workedMinutes > 0) {
+        lines.push({
+          text: row(`Hours worked: ${toHours(payslip.workedMinutes)} h x ${money(payslip.hourlyRate ?? 0)}`, payslip.hourlyPay),
+        });
+      }
+      if (payslip.ptSessions > 0) {
+        lines.push({
+          text: row(`PT sessions: ${payslip.ptSessions} x ${money(payslip.ptSessionRate)}`, payslip.ptCommission),
+        });
+      }
+      if (payslip.classesTaught > 0) {
+        lines.push({
+          text: row(
+            `Classes: ${payslip.classesTaught} x ${money(payslip.classRate)}` +
+              ` + ${payslip.classAttendees} attendees x ${money(payslip.classAttendeeRate)}`,
+            payslip.classCommission,
+          ),
+        });
+      }
+      if (payslip.openEntries > 0) {
+        lines.push({ text: row(`Note: ${payslip.openEntries} open time entries not paid`) });
+      }
+
+      lines.push({ text: row('Gross pay', payslip.grossPay), bold: true }, { text: '' });
+    }
+
+    lines.push({ text: row(`Total gross pay (${run.payslips.length} staff)`, run.totalGross), bold: true });
+    return lines;
+  }
+
+  private sumGross(payslips: CreatePayslipEntity[]): number {
+    return roundMoney(payslips.reduce((total, payslip) => total + payslip.grossPay, 0));
+  }
+
+  private assertDraft(run: PayrollRunEntity): void {
+    if (run.status !== PayrollRunStatus.DRAFT) {
+      throw new BadRequestException('Payroll run is finalized');
+    }
+  }
+
+  private async findManagedRun(id: string, user: AuthenticatedUser): Promise<{ run: PayrollRunEntity; branch: BranchEntity }> {
+    const run = await this.payrollRepository.findById(id);
+    if (!run) {
+      throw new NotFoundException(`Payroll run with ID ${id} not found`);
+    }
+
+    const branch = await this.branchService.findBranch(run.branchId);
+    assertCanManageBranch(user, branch);
+
+    return { run, branch };
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { SetupTemplateRepository } from '../repositories/setup-template.repository';
+import { BranchService } from './branch.service';
+import { BranchSetupService } from './branch-setup.service';
+import { CompanyService } from './company.service';
+import { SetupTemplateEntity } from '../entities/branch-setup.entity';
+import {
+  CreateSetupTemplateDto,
+  SetupTemplateQueryDto,
+  UpdateSetupTemplateDto,
+} from '../dto/branch-setup.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import { WeeklyOperatingHours } from '../types/operating-hours.types';
+import { isPlatformAdmin } from '../constants/roles.constants';
+import { assertCanManageCompany, assertCanReadCompany } from '../utils/tenant-access.util';
+import { normalizeWeeklyHours, validateWeeklyHours } from '../utils/operating-hours.util';
+
+/**
+ * Reusable setups for new branches. Companies keep their own; platform
+ * templates (no company) are offered to every tenant.
+ */
+@Injectable()
+export class SetupTemplateService {
+  private readonly logger = new Logger(SetupTemplateService.name);
+
+  constructor(
+    private readonly setupTemplateRepository: SetupTemplateRepository,
+    private readonly branchService: BranchService,
+    private readonly branchSetupService: BranchSetupService,
+    private readonly companyService: CompanyService,
+  ) {}
+
+  /**
+   * With a source branch, anything not given explicitly is captured from
+   * that branch.
+   */
+  async createTemplate(createDto: CreateSetupTemplateDto, user: AuthenticatedUser): Promise<SetupTemplateEntity> {
+    const { sourceBranchId, classScheduleIds, ...fields } = createDto;
+
+    if (fields.companyId) {
+      await this.companyService.findCompany(fields.companyId);
+      assertCanManageCompany(user, fields.companyId);
+    } else if (!isPlatformAdmin(user)) {
+      throw new ForbiddenException('Only platform admins can create platform templates');
+    }
+
+    if (classScheduleIds?.length && !sourceBranchId) {
+      throw new BadRequestException('classScheduleIds require a sourceBranchId');
+    }
+
+    let captured: Partial<SetupTemplateEntity> = {};
+    if (sourceBranchId) {
+      const branch = await this.branchService.findBranch(sourceBranchId);
+      if (fields.companyId && branch.companyId !== fields.companyId) {
+        throw new BadRequestException('Source branch does not belong to the company');
+      }
+      assertCanManageCompany(user, branch.companyId);
+
+      const classes = await this.branchSetupService.selectClasses(branch.id, classScheduleIds);
+      captured = {
+        amenities: branch.amenities,
+        operatingHours: branch.operatingHours,
+        settings: branch.settings,
+        equipment: await this.branchSetupService.captureEquipment(branch.id),
+        // Trainers belong to the source branch, not the template
+        classes: classes.map(({ trainerId: _trainerId, ...definition }) => definition),
+      };
+    }
+
+    this.logger.log('Creating setup template', { companyId: fields.companyId, name: fields.name, sourceBranchId, userId: user.id });
+
+    return this.setupTemplateRepository.create({
+      companyId: fields.companyId,
+      name: fields.name,
+      description: fields.description,
+      amenities: fields.amenities ?? captured.amenities ?? [],
+      operatingHours: fields.operatingHours ? this.normalizeHours(fields.operatingHours) : captured.operatingHours,
+      settings: fields.settings ?? captured.settings,
+      equipment: fields.equipment ?? captured.equipment ?? [],
+      classes: fields.classes ?? captured.classes ?? [],
+      createdBy: user.id,
+    });
+  }
+
+  /**
+   * Templates the company can use: its own and the platform's.
+   */
+  async getTemplates(query: SetupTemplateQueryDto, user: AuthenticatedUser): Promise<SetupTemplateEntity[]> {
+    const companyId = query.companyId ?? user.companyId;
+    if (companyId) {
+      assertCanReadCompany(user, companyId);
+    }
+
+    return this.setupTemplateRepository.findAvailable(companyId, !!query.includeInactive);
+  }
+
+  async getTemplate(id: string, user: AuthenticatedUser): Promise<SetupTemplateEntity> {
+    const template = await this.findTemplate(id);
+    if (template.companyId) {
+      assertCanReadCompany(user, template.companyId);
+    }
+
+    return template;
+  }
+
+  async updateTemplate(id: string, updateDto: UpdateSetupTemplateDto, user: AuthenticatedUser): Promise<SetupTemplateEntity> {
+    const template = await this.findManagedTemplate(id, user);
+
+    if (!template.isActive) {
+      throw new BadRequestException('Setup template is deactivated');
+    }
+
+    return this.setupTemplateRepository.update(template.id, {
+      ...updateDto,
+      ...(updateDto.operatingHours && { operatingHours: this.normalizeHours(updateDto.operatingHours) }),
+    });
+  }
+
+  async deactivateTemplate(id: string, user: AuthenticatedUser): Promise<SetupTemplateEntity> {
+    const template = await this.findManagedTemplate(id, user);
+
+    if (!template.isActive) {
+      throw new BadRequestException('Setup template is already deactivated');
+    }
+
+    this.logger.log('Deactivating setup template', { id, deactivatedBy: user.id });
+    return this.setupTemplateRepository.update(template.id, { isActive: false });
+  }
+
+  private async findTemplate(id: string): Promise<SetupTemplateEntity> {
+    const template = await this.setupTemplateRepository.findById(id);
+    if (!template) {
+      throw new NotFoundException(`Setup template with ID ${id} not found`);
+    }
+
+    return template;
+  }
+
+  /**
+   * Company templates belong to the owner; platform templates to platform admins.
+   */
+  private async findManagedTemplate(id: string, user: AuthenticatedUser): Promise<SetupTemplateEntity> {
+    const template = await this.findTemplate(id);
+
+    if (template.companyId) {
+      assertCanManageCompany(user, template.companyId);
+    } else if (!isPlatformAdmin(user)) {
+      throw new ForbiddenException('Only platform admins can change platform templates');
+    }
+
+    return template;
+  }
+
+  private normalizeHours(hours: WeeklyOperatingHours): WeeklyOperatingHours {
+    const errors = validateWeeklyHours(hours);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    return normalizeWeeklyHours(hours);
+  }
+}
@@ -0,0 +1,499 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ShiftStatus, ShiftSwapStatus } from '@prisma/client';
+import { ShiftRepository } from '../repositories/shift.repository';
+import { ShiftSwapRepository } from '../repositories/shift-swap.repository';
+import { BranchStaffRepository } from '../repositories/branch-staff.repository';
+import { BranchService } from './branch.service';
+import { BranchStaffService } from './branch-staff.service';
+import { ShiftEntity, ShiftSwapRequestEntity, ShiftTemplateEntity } from '../entities/shift.entity';
+import {
+  AssignShiftDto,
+  CreateShiftDto,
+  CreateShiftSwapDto,
+  CreateShiftTemplateDto,
+  GenerateShiftsDto,
+  MyShiftsQueryDto,
+  RespondShiftSwapDto,
+  ReviewShiftSwapDto,
+  ShiftFiltersDto,
+  ShiftSwapFiltersDto,
+} from '../dto/shift.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import { MAX_SCHEDULE_DAYS } from '../types/shift.types';
+import { assertCanManageBranch, assertCanReadCompany } from '../utils/tenant-access.util';
+import { expandShiftTemplate, intervalsOverlap } from '../utils/shift.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SHIFT_HOURS = 16;
+const DEFAULT_MY_SHIFTS_DAYS = 14;
+
+/**
+ * Shift planning per branch: recurring templates, one-off shifts,
+ * assignment, and swaps agreed between staff then approved by a manager.
+ */
+@Injectable()
+export class ShiftService {
+  private readonly logger = new Logger(ShiftService.name);
+
+  constructor(
+    private readonly shiftRepository: ShiftRepository,
+    private readonly shiftSwapRepository: ShiftSwapRepository,
+    private readonly branchStaffRepository: BranchStaffRepository,
+    private readonly branchService: BranchService,
+    private readonly branchStaffService: BranchStaffService,
+  ) {}
+
+  // ===================
+  // TEMPLATES
+  // ===================
+
+  async createTemplate(createDto: CreateShiftTemplateDto, user: AuthenticatedUser): Promise<ShiftTemplateEntity> {
+    const branch = await this.branchService.findBranch(createDto.branchId);
+    assertCanManageBranch(user, branch);
+
+    if (createDto.startTime === createDto.endTime) {
+      throw new BadRequestException('startTime and endTime cannot be equal');
+    }
+
+    if (createDto.validUntil && createDto.validUntil < createDto.validFrom) {
+      throw new BadRequestException('validUntil cannot be before validFrom');
+    }
+
+    if (createDto.defaultStaffId) {
+      await this.branchStaffService.findActiveAtBranch(createDto.defaultStaffId, branch.id);
+    }
+
+    return this.shiftRepository.createTemplate({
+      ...createDto,
+      daysOfWeek: [...new Set(createDto.daysOfWeek)].sort(),
+      createdBy: user.id,
+    });
+  }
+
+  async getTemplates(branchId: string, user: AuthenticatedUser): Promise<ShiftTemplateEntity[]> {
+    const branch = await this.branchService.findBranch(branchId);
+    assertCanManageBranch(user, branch);
+
+    return this.shiftRepository.findTemplates(branchId);
+  }
+
+  /**
+   * Stops the template from generating shifts; shifts already generated are
+   * kept.
+   */
+  async deactivateTemplate(id: string, user: AuthenticatedUser): Promise<ShiftTemplateEntity> {
+    const template = await this.findTemplate(id);
+    const branch = await this.branchService.findBranch(template.branchId);
+    assertCanManageBranch(user, branch);
+
+    return this.shiftRepository.deactivateTemplate(id);
+  }
+
+  /**
+   * Creates the template's shifts for the date range. Dates already
+   * generated are skipped, so re-running a range is safe. The default staff
+   * member is only assigned where they have no overlapping shift.
+   */
+  async generateShifts(
+    templateId: string,
+    generateDto: GenerateShiftsDto,
+    user: AuthenticatedUser,
+  ): Promise<{ created: number; skipped: number }> {
+    const template = await this.findTemplate(templateId);
+    const branch = await this.branchService.findBranch(template.branchId);
+    assertCanManageBranch(user, branch);
+
+    if (!template.isActive) {
+      throw new BadRequestException('Template is inactive');
+    }
+
+    this.assertDateRange(generateDto.from, generateDto.to);
+
+    const timezone = this.branchService.resolveTimezone(branch);
+    const occurrences = expandShiftTemplate(template, generateDto.from, generateDto.to, timezone);
+
+    const defaultStaff = template.defaultStaffId
+      ? await this.branchStaffRepository.findById(template.defaultStaffId)
+      : null;
+    const assignable = !!defaultStaff?.isActive && defaultStaff.branchId === template.branchId;
+    const busy =
+      assignable && occurrences.length > 0
+        ? await this.shiftRepository.findOverlapping(
+            defaultStaff.id,
+            occurrences[0].startTime,
+            occurrences[occurrences.length - 1].endTime,
+          )
+        : [];
+
+    const created = await this.shiftRepository.createMany(
+      occurrences.map(occurrence => {
+        const free = !busy.some(shift =>
+          intervalsOverlap(shift.startTime, shift.endTime, occurrence.startTime, occurrence.endTime),
+        );
+
+        return {
+          branchId: template.branchId,
+          templateId: template.id,
+          position: template.position,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          breakMinutes: template.breakMinutes,
+          staffId: assignable && free ? defaultStaff.id : undefined,
+          createdBy: user.id,
+        };
+      }),
+    );
+
+    this.logger.log('Generated shifts from template', { templateId, created, total: occurrences.length });
+
+    return { created, skipped: occurrences.length - created };
+  }
+
+  // ===================
+  // SHIFTS
+  // ===================
+
+  async createShift(createDto: CreateShiftDto, user: AuthenticatedUser): Promise<ShiftEntity> {
+    const branch = await this.branchService.findBranch(createDto.branchId);
+    assertCanManageBranch(user, branch);
+
+    const startTime = new Date(createDto.startTime);
+    const endTime = new Date(createDto.endTime);
+    this.assertShiftTimes(startTime, endTime);
+
+    if (createDto.staffId) {
+      await this.branchStaffService.findActiveAtBranch(createDto.staffId, branch.id);
+      await this.assertNoOverlap(createDto.staffId, startTime, endTime);
+    }
+
+    return this.shiftRepository.create({
+      ...createDto,
+      startTime,
+      endTime,
+      createdBy: user.id,
+    });
+  }
+
+  /**
+   * Branch roster; any staff member of the company may view it.
+   */
+  async getShifts(filters: ShiftFiltersDto, user: AuthenticatedUser): Promise<ShiftEntity[]> {
+    const branch = await this.branchService.findBranch(filters.branchId);
+    assertCanReadCompany(user, branch.companyId);
+
+    const from = new Date(filters.from);
+    const to = new Date(filters.to);
+    this.assertInstantRange(from, to);
+
+    return this.shiftRepository.findAll({
+      branchId: filters.branchId,
+      staffIds: filters.staffId ? [filters.staffId] : undefined,
+      status: filters.status,
+      unassigned: filters.unassigned,
+      from,
+      to,
+    });
+  }
+
+  async getMyShifts(query: MyShiftsQueryDto, user: AuthenticatedUser): Promise<ShiftEntity[]> {
+    const from = query.from ? new Date(query.from) : new Date();
+    const to = query.to ? new Date(query.to) : new Date(from.getTime() + DEFAULT_MY_SHIFTS_DAYS * DAY_MS);
+    this.assertInstantRange(from, to);
+
+    const employments = await this.branchStaffRepository.findByUser(user.id);
+    if (employments.length === 0) {
+      return [];
+    }
+
+    return this.shiftRepository.findAll({
+      staffIds: employments.map(staff => staff.id),
+      status: ShiftStatus.SCHEDULED,
+      from,
+      to,
+    });
+  }
+
+  async assignShift(id: string, assignDto: AssignShiftDto, user: AuthenticatedUser): Promise<ShiftEntity> {
+    const shift = await this.findManagedShift(id, user);
+    this.assertChangeable(shift);
+
+    const staffId = assignDto.staffId ?? null;
+    if (staffId) {
+      await this.branchStaffService.findActiveAtBranch(staffId, shift.branchId);
+      await this.assertNoOverlap(staffId, shift.startTime, shift.endTime, [shift.id]);
+    }
+
+    if (await this.shiftSwapRepository.findOpenForShift(shift.id)) {
+      throw new ConflictException('Resolve the open swap request for this shift first');
+    }
+
+    return this.shiftRepository.assign(shift.id, staffId);
+  }
+
+  async cancelShift(id: string, user: AuthenticatedUser): Promise<ShiftEntity> {
+    const shift = await this.findManagedShift(id, user);
+    this.assertChangeable(shift);
+
+    const openSwap = await this.shiftSwapRepository.findOpenForShift(shift.id);
+    if (openSwap) {
+      await this.shiftSwapRepository.transition(openSwap.id, [ShiftSwapStatus.PENDING, ShiftSwapStatus.ACCEPTED], {
+        status: ShiftSwapStatus.CANCELLED,
+      });
+    }
+
+    return this.shiftRepository.cancel(shift.id);
+  }
+
+  // ===================
+  // SWAPS
+  // ===================
+
+  /**
+   * The assigned staff member offers their shift to a colleague, optionally
+   * taking one of the colleague's shifts in return.
+   */
+  async requestSwap(
+    shiftId: string,
+    swapDto: CreateShiftSwapDto,
+    user: AuthenticatedUser,
+  ): Promise<ShiftSwapRequestEntity> {
+    const shift = await this.findShift(shiftId);
+    this.assertChangeable(shift);
+
+    const requester = shift.staffId ? await this.branchStaffRepository.findById(shift.staffId) : null;
+    if (!requester || requester.userId !== user.id) {
+      throw new ForbiddenException('You can only swap your own shifts');
+    }
+
+    const target = await this.branchStaffService.findActiveAtBranch(swapDto.targetStaffId, shift.branchId);
+    if (target.id === requester.id) {
+      throw new BadRequestException('Choose a colleague to swap with');
+    }
+
+    if (swapDto.targetShiftId) {
+      const targetShift = await this.findShift(swapDto.targetShiftId);
+      if (targetShift.staffId !== target.id) {
+        throw new BadRequestException("The exchanged shift must be the colleague's own");
+      }
+      this.assertChangeable(targetShift);
+
+      if (await this.shiftSwapRepository.findOpenForShift(targetShift.id)) {
+        throw new ConflictException("The colleague's shift already has an open swap request");
+      }
+    }
+
+    if (await this.shiftSwapRepository.findOpenForShift(shift.id)) {
+      throw new ConflictException('This shift already has an open swap request');
+    }
+
+    return this.shiftSwapRepository.create({
+      shiftId: shift.id,
+      requesterId: requester.id,
+      targetStaffId: target.id,
+      targetShiftId: swapDto.targetShiftId,
+      reason: swapDto.reason,
+    });
+  }
+
+  async respondToSwap(
+    id: string,
+    respondDto: RespondShiftSwapDto,
+    user: AuthenticatedUser,
+  ): Promise<ShiftSwapRequestEntity> {
+    const request = await this.findSwap(id);
+    const target = await this.branchStaffRepository.findById(request.targetStaffId);
+    if (target?.userId !== user.id) {
+      throw new ForbiddenException('Only the colleague asked can respond to this swap');
+    }
+
+    const updated = await this.shiftSwapRepository.transition(id, [ShiftSwapStatus.PENDING], {
+      status: respondDto.accept ? ShiftSwapStatus.ACCEPTED : ShiftSwapStatus.REJECTED,
+      respondedAt: new Date(),
+    });
+    if (!updated) {
+      throw new ConflictException('Swap request is no longer pending');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Manager decision on a swap both staff members agreed to. Approval
+   * re-checks that neither side ends up double-booked.
+   */
+  async reviewSwap(id: string, reviewDto: ReviewShiftSwapDto, user: AuthenticatedUser): Promise<ShiftSwapRequestEntity> {
+    const request = await this.findSwap(id);
+    const shift = await this.findShift(request.shiftId);
+    const branch = await this.branchService.findBranch(shift.branchId);
+    assertCanManageBranch(user, branch);
+
+    if (request.status !== ShiftSwapStatus.ACCEPTED) {
+      throw new BadRequestException('Only swaps the colleague has accepted can be reviewed');
+    }
+
+    if (!reviewDto.approve) {
+      const rejected = await this.shiftSwapRepository.transition(id, [ShiftSwapStatus.ACCEPTED], {
+        status: ShiftSwapStatus.REJECTED,
+        reviewedBy: user.id,
+        reviewedAt: new Date(),
+        reviewNote: reviewDto.note,
+      });
+      if (!rejected) {
+        throw new ConflictException('Swap request was changed by someone else');
+      }
+      return rejected;
+    }
+
+    this.assertChangeable(shift);
+    const exchanged = request.targetShiftId ? await this.findShift(request.targetShiftId) : null;
+    if (exchanged) {
+      this.assertChangeable(exchanged);
+    }
+
+    const ignore = [shift.id, ...(exchanged ? [exchanged.id] : [])];
+    await this.assertNoOverlap(request.targetStaffId, shift.startTime, shift.endTime, ignore);
+    if (exchanged) {
+      await this.assertNoOverlap(request.requesterId, exchanged.startTime, exchanged.endTime, ignore);
+    }
+
+    const approved = await this.shiftSwapRepository.approve(request, user.id, reviewDto.note);
+    if (!approved) {
+      throw new ConflictException('The shifts were reassigned since the swap was requested');
+    }
+
+    this.logger.log('Shift swap approved', { id, shiftId: shift.id, reviewedBy: user.id });
+    return approved;
+  }
+
+  async cancelSwap(id: string, user: AuthenticatedUser): Promise<ShiftSwapRequestEntity> {
+    const request = await this.findSwap(id);
+    const requester = await this.branchStaffRepository.findById(request.requesterId);
+    if (requester?.userId !== user.id) {
+      throw new ForbiddenException('Only the requester can cancel this swap');
+    }
+
+    const cancelled = await this.shiftSwapRepository.transition(
+      id,
+      [ShiftSwapStatus.PENDING, ShiftSwapStatus.ACCEPTED],
+      { status: ShiftSwapStatus.CANCELLED },
+    );
+    if (!cancelled) {
+      throw new ConflictException('Swap request is already closed');
+    }
+
+    return cancelled;
+  }
+
+  async getSwaps(filters: ShiftSwapFiltersDto, user: AuthenticatedUser): Promise<ShiftSwapRequestEntity[]> {
+    const branch = await this.branchService.findBranch(filters.branchId);
+    assertCanManageBranch(user, branch);
+
+    return this.shiftSwapRepository.findAll({ branchId: branch.id, status: filters.status });
+  }
+
+  /**
+   * Swap requests the caller made or was asked to take.
+   */
+  async getMySwaps(user: AuthenticatedUser): Promise<ShiftSwapRequestEntity[]> {
+    const employments = await this.branchStaffRepository.findByUser(user.id);
+    const requests = await Promise.all(
+      employments.map(staff => this.shiftSwapRepository.findAll({ staffId: staff.id })),
+    );
+
+    return requests.flat().sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // ===================
+  // HELPERS
+  // ===================
+
+  async findShift(id: string): Promise<ShiftEntity> {
+    const shift = await this.shiftRepository.findById(id);
+    if (!shift) {
+      throw new NotFoundException(`Shift with ID ${id} not found`);
+    }
+
+    return shift;
+  }
+
+  private async findManagedShift(id: string, user: AuthenticatedUser): Promise<ShiftEntity> {
+    const shift = await this.findShift(id);
+    const branch = await this.branchService.findBranch(shift.branchId);
+    assertCanManageBranch(user, branch);
+
+    return shift;
+  }
+
+  private async findTemplate(id: string): Promise<ShiftTemplateEntity> {
+    const template = await this.shiftRepository.findTemplateById(id);
+    if (!template) {
+      throw new NotFoundException(`Shift template with ID ${id} not found`);
+    }
+
+    return template;
+  }
+
+  private async findSwap(id: string): Promise<ShiftSwapRequestEntity> {
+    const request = await this.shiftSwapRepository.findById(id);
+    if (!request) {
+      throw new NotFoundException(`Swap request with ID ${id} not found`);
+    }
+
+    return request;
+  }
+
+  private async assertNoOverlap(staffId: string, start: Date, end: Date, excludeIds: string[] = []): Promise<void> {
+    const overlapping = await this.shiftRepository.findOverlapping(staffId, start, end, excludeIds);
+    if (overlapping.length > 0) {
+      throw new ConflictException('Staff member already has a shift at that time');
+    }
+  }
+
+  private assertChangeable(shift: ShiftEntity): void {
+    if (shift.status !== ShiftStatus.SCHEDULED) {
+      throw new BadRequestException('Shift is cancelled');
+    }
+
+    if (shift.startTime <= new Date()) {
+      throw new BadRequestException('Shift has already started');
+    }
+  }
+
+  private assertShiftTimes(startTime: Date, endTime: Date): void {
+    if (endTime <= startTime) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+
+    if (endTime.getTime() - startTime.getTime() > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+      throw new BadRequestException(`Shifts cannot be longer than ${MAX_SHIFT_HOURS} hours`);
+    }
+  }
+
+  private assertDateRange(from: string, to: string): void {
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS + 1;
+    if (days < 1) {
+      throw new BadRequestException('to cannot be before from');
+    }
+
+    if (days > MAX_SCHEDULE_DAYS) {
+      throw new BadRequestException(`Date range cannot exceed ${MAX_SCHEDULE_DAYS} days`);
+    }
+  }
+
+  private assertInstantRange(from: Date, to: Date): void {
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    if (to.getTime() - from.getTime() > MAX_SCHEDULE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Date range cannot exceed ${MAX_SCHEDULE_DAYS} days`);
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { TimeEntryRepository } from '../repositories/time-entry.repository';
+import { ShiftRepository } from '../repositories/shift.repository';
+import { BranchStaffRepository } from '../repositories/branch-staff.repository';
+import { BranchService } from './branch.service';
+import { TimeEntryEntity } from '../entities/shift.entity';
+import {
+  ClockInDto,
+  ClockOutDto,
+  CorrectTimeEntryDto,
+  MyTimeEntriesQueryDto,
+  TimesheetQueryDto,
+} from '../dto/time-clock.dto';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  CLOCK_IN_EARLY_MINUTES,
+  LATE_GRACE_MINUTES,
+  MAX_SCHEDULE_DAYS,
+  TimesheetReport,
+  TimesheetTotals,
+} from '../types/shift.types';
+import { assertCanManageBranch } from '../utils/tenant-access.util';
+import { getLocalDayBounds } from '../utils/timezone.util';
+import { summarizeTimesheet } from '../utils/shift.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MY_ENTRIES_DAYS = 30;
+
+/**
+ * Staff clock-in/clock-out and timesheets comparing scheduled with worked
+ * hours.
+ */
+@Injectable()
+export class TimeClockService {
+  private readonly logger = new Logger(TimeClockService.name);
+
+  constructor(
+    private readonly timeEntryRepository: TimeEntryRepository,
+    private readonly shiftRepository: ShiftRepository,
+    private readonly branchStaffRepository: BranchStaffRepository,
+    private readonly branchService: BranchService,
+  ) {}
+
+  // ===================
+  // CLOCK IN / OUT
+  // ===================
+
+  /**
+   * Starts a time entry at the branch, linked to the caller's current shift
+   * (or one starting within the next two hours) when there is one.
+   */
+  async clockIn(clockInDto: ClockInDto, user: AuthenticatedUser): Promise<TimeEntryEntity> {
+    const staff = await this.branchStaffRepository.findByBranchAndUser(clockInDto.branchId, user.id);
+    if (!staff?.isActive) {
+      throw new ForbiddenException('You are not on the staff of this branch');
+    }
+
+    const employments = await this.branchStaffRepository.findByUser(user.id);
+    const open = await this.timeEntryRepository.findOpen(employments.map(employment => employment.id));
+    if (open) {
+      throw new ConflictException('You are already clocked in');
+    }
+
+    const now = new Date();
+    const shift = await this.shiftRepository.findCurrentForStaff(staff.id, now, CLOCK_IN_EARLY_MINUTES);
+
+    return this.timeEntryRepository.create({
+      branchId: staff.branchId,
+      staffId: staff.id,
+      shiftId: shift?.id,
+      clockIn: now,
+      notes: clockInDto.notes,
+    });
+  }
+
+  async clockOut(clockOutDto: ClockOutDto, user: AuthenticatedUser): Promise<TimeEntryEntity> {
+    const employments = await this.branchStaffRepository.findByUser(user.id, true);
+    const open = await this.timeEntryRepository.findOpen(employments.map(employment => employment.id));
+    if (!open) {
+      throw new BadRequestException('You are not clocked in');
+    }
+
+    const now = new Date();
+    const shift = open.shiftId ? await this.shiftRepository.findById(open.shiftId) : null;
+    const elapsedMinutes = Math.floor((now.getTime() - open.clockIn.getTime()) / 60000);
+    const breakMinutes = Math.min(clockOutDto.breakMinutes ?? shift?.breakMinutes ?? 0, elapsedMinutes);
+
+    const closed = await this.timeEntryRepository.clockOut(open.id, now, breakMinutes, clockOutDto.notes);
+    if (!closed) {
+      throw new ConflictException('You have already clocked out');
+    }
+
+    return closed;
+  }
+
+  async getOpenEntry(user: AuthenticatedUser): Promise<TimeEntryEntity | null> {
+    const employments = await this.branchStaffRepository.findByUser(user.id, true);
+    return employments.length > 0
+      ? this.timeEntryRepository.findOpen(employments.map(employment => employment.id))
+      : null;
+  }
+
+  async getMyEntries(query: MyTimeEntriesQueryDto, user: AuthenticatedUser): Promise<TimeEntryEntity[]> {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - DEFAULT_MY_ENTRIES_DAYS * DAY_MS);
+
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const employments = await this.branchStaffRepository.findByUser(user.id, true);
+    if (employments.length === 0) {
+      return [];
+    }
+
+    return this.timeEntryRepository.findAll({
+      staffIds: employments.map(employment => employment.id),
+      from,
+      to,
+    });
+  }
+
+  /**
+   * Manager fix for a forgotten or wrong clock-in/out; the editor is kept on
+   * the entry.
+   */
+  async correctEntry(id: string, correctDto: CorrectTimeEntryDto, user: AuthenticatedUser): Promise<TimeEntryEntity> {
+    const entry = await this.timeEntryRepository.findById(id);
+    if (!entry) {
+      throw new NotFoundException(`Time entry with ID ${id} not found`);
+    }
+
+    const branch = await this.branchService.findBranch(entry.branchId);
+    assertCanManageBranch(user, branch);
+
+    const staff = await this.branchStaffRepository.findById(entry.staffId);
+    if (staff?.userId === user.id) {
+      throw new ForbiddenException('You cannot correct your own time entries');
+    }
+
+    const clockIn = correctDto.clockIn ? new Date(correctDto.clockIn) : entry.clockIn;
+    const clockOut = correctDto.clockOut ? new Date(correctDto.clockOut) : entry.clockOut;
+    const now = new Date();
+
+    if (clockIn > now || (clockOut && clockOut > now)) {
+      throw new BadRequestException('Time entries cannot be in the future');
+    }
+
+    if (clockOut && clockOut <= clockIn) {
+      throw new BadRequestException('clockOut must be after clockIn');
+    }
+
+    if (correctDto.shiftId) {
+      const shift = await this.shiftRepository.findById(correctDto.shiftId);
+      if (!shift || shift.staffId !== entry.staffId) {
+        throw new BadRequestException("Shift must be one of the staff member's own");
+      }
+    }
+
+    this.logger.log('Correcting time entry', { id, editedBy: user.id });
+
+    return this.timeEntryRepository.correct(
+      id,
+      {
+        ...(correctDto.clockIn && { clockIn }),
+        ...(correctDto.clockOut && { clockOut }),
+        ...(correctDto.breakMinutes !== undefined && { breakMinutes: correctDto.breakMinutes }),
+        ...(correctDto.shiftId && { shiftId: correctDto.shiftId }),
+        ...(correctDto.notes && { notes: correctDto.notes }),
+      },
+      user.id,
+    );
+  }
+
+  // ===================
+  // TIMESHEETS
+  // ===================
+
+  /**
+   * Scheduled against worked hours per staff member for branch-local days
+   * from..to. Shifts count by start time and entries by clock-in time.
+   */
+  async getTimesheet(query: TimesheetQueryDto, user: AuthenticatedUser): Promise<TimesheetReport> {
+    const branch = await this.branchService.findBranch(query.branchId);
+    assertCanManageBranch(user, branch);
+
+    const timezone = this.branchService.resolveTimezone(branch);
+    const from = getLocalDayBounds(query.from, timezone).start;
+    const to = getLocalDayBounds(query.to, timezone).end;
+
+    if (from >= to) {
+      throw new BadRequestException('to cannot be before from');
+    }
+
+    if (to.getTime() - from.getTime() > (MAX_SCHEDULE_DAYS + 1) * DAY_MS) {
+      throw new BadRequestException(`Date range cannot exceed ${MAX_SCHEDULE_DAYS} days`);
+    }
+
+    const staffIds = query.staffId ? [query.staffId] : undefined;
+    const [staff, shifts, entries] = await Promise.all([
+      this.branchStaffRepository.findByBranch(branch.id, true),
+      this.shiftRepository.findAll({ branchId: branch.id, staffIds, from, to }),
+      this.timeEntryRepository.findAll({ branchId: branch.id, staffIds, from, to }),
+    ]);
+
+    const now = new Date();
+    const rows = staff
+      .filter(member => !query.staffId || member.id === query.staffId)
+      .map(member => ({
+        staffId: member.id,
+        userId: member.userId,
+        position: member.position,
+        isActive: member.isActive,
+        ...summarizeTimesheet(
+          shifts.filter(shift => shift.staffId === member.id),
+          entries.filter(entry => entry.staffId === member.id),
+          now,
+          LATE_GRACE_MINUTES,
+        ),
+      }))
+      // Former staff only appear for periods they had shifts or entries in
+      .filter(row => row.isActive || row.scheduledShifts > 0 || row.unscheduledEntries > 0 || row.workedHours > 0)
+      .map(({ isActive, ...row }) => row);
+
+    return {
+      branchId: branch.id,
+      timezone,
+      from: query.from,
+      to: query.to,
+      totals: this.sumTotals(rows),
+      staff: rows,
+    };
+  }
+
+  private sumTotals(rows: TimesheetTotals[]): TimesheetTotals {
+    const totals: TimesheetTotals = {
+      scheduledShifts: 0,
+      scheduledHours: 0,
+      workedHours: 0,
+      varianceHours: 0,
+      lateArrivals: 0,
+      missedShifts: 0,
+      unscheduledEntries: 0,
+      openEntries: 0,
+    };
+
+    for (const row of rows) {
+      for (const key of Object.keys(totals) as (keyof TimesheetTotals)[]) {
+        totals[key] += row[key];
+      }
+    }
+
+    for (const key of ['scheduledHours', 'workedHours', 'varianceHours'] as const) {
+      totals[key] = Math.round(totals[key] * 100) / 100;
+    }
+
+    return totals;
+  }
+}
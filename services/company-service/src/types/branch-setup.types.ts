@@ -0,0 +1,50 @@
+import { BranchEntity } from '../entities/branch.entity';
+import { EquipmentChecklistItemEntity } from '../entities/branch-setup.entity';
+
+// ===================
+// BRANCH SETUP
+// ===================
+
+export interface EquipmentChecklistEntry {
+  name: string;
+  category: string;
+  brand?: string;
+  model?: string;
+  quantity: number;
+}
+
+/**
+ * A recurring class as attendance-service exports it: no branch or dates,
+ * start time in branch-local "HH:mm". Setup templates store these without
+ * id and trainerId.
+ */
+export interface ClassTemplateDefinition {
+  id?: string;
+  trainerId?: string;
+  className: string;
+  description?: string;
+  category?: string;
+  localStartTime: string;
+  duration: number;
+  maxCapacity: number;
+  roomNumber?: string;
+  equipmentNeeded?: string[];
+  level?: string;
+  recurringType: string;
+  recurringDays?: number[];
+  dayOfMonth?: number;
+  price?: number;
+  notes?: string;
+}
+
+/**
+ * Everything set up at a new branch. Class schedules live in
+ * attendance-service; if they could not be created the branch is kept and
+ * the reason is listed in warnings.
+ */
+export interface BranchSetupResult {
+  branch: BranchEntity;
+  equipmentChecklist: EquipmentChecklistItemEntity[];
+  classesCreated: number;
+  warnings: string[];
+}
@@ -0,0 +1,47 @@
+import { BranchStatus, CompanyStatus } from '@prisma/client';
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  roles: string[];
+  permissions: string[];
+  companyId?: string;
+  userType?: string;
+}
+
+export interface CompanyFilters {
+  status?: CompanyStatus;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface BranchFilters {
+  companyId?: string;
+  status?: BranchStatus;
+  city?: string;
+  managerId?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedResult<T> {
+  records: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Allowed status changes; anything else is rejected
+export const COMPANY_STATUS_TRANSITIONS: Record<CompanyStatus, CompanyStatus[]> = {
+  [CompanyStatus.ACTIVE]: [CompanyStatus.INACTIVE, CompanyStatus.SUSPENDED],
+  [CompanyStatus.SUSPENDED]: [CompanyStatus.ACTIVE, CompanyStatus.INACTIVE],
+  [CompanyStatus.INACTIVE]: [CompanyStatus.ACTIVE],
+};
+
+export const BRANCH_STATUS_TRANSITIONS: Record<BranchStatus, BranchStatus[]> = {
+  [BranchStatus.ACTIVE]: [BranchStatus.INACTIVE, BranchStatus.UNDER_MAINTENANCE],
+  [BranchStatus.UNDER_MAINTENANCE]: [BranchStatus.ACTIVE, BranchStatus.INACTIVE],
+  [BranchStatus.INACTIVE]: [BranchStatus.ACTIVE],
+};
@@ -0,0 +1,35 @@
+import { BranchStatus } from '@prisma/client';
+
+// Inactive branches don't count towards the plan
+export const COUNTED_BRANCH_STATUSES = [BranchStatus.ACTIVE, BranchStatus.UNDER_MAINTENANCE];
+
+export enum EntitlementResource {
+  BRANCHES = 'branches',
+  STAFF = 'staff',
+  MEMBERS = 'members',
+}
+
+// Null limits mean unrestricted
+export type PlanLimits = Record<EntitlementResource, number | null>;
+
+export interface CompanyEntitlements {
+  companyId: string;
+  plan?: {
+    name: string;
+    type: string;
+    endDate: Date;
+    isCurrent: boolean;
+  };
+  limits: PlanLimits;
+  usage: {
+    branches: number;
+    staff: number;
+  };
+}
+
+// Usage counters kept by subscription-service
+export interface SubscriptionUsage {
+  currentBranches?: number;
+  currentStaff?: number;
+  currentMembers?: number;
+}
@@ -0,0 +1,28 @@
+import { EquipmentFaultStatus } from '@prisma/client';
+import { EquipmentEntity } from '../entities/equipment.entity';
+
+export interface EquipmentFilters {
+  branchId?: string;
+  category?: string;
+  outOfService?: boolean;
+  includeInactive?: boolean;
+}
+
+export interface EquipmentFaultFilters {
+  branchId?: string;
+  equipmentId?: string;
+  status?: EquipmentFaultStatus;
+}
+
+export const MAINTENANCE_DUE_SOON_DAYS = 7;
+export const WARRANTY_ALERT_DAYS = 30;
+
+export interface EquipmentAlerts {
+  branchId: string;
+  overdueMaintenance: EquipmentEntity[];
+  maintenanceDueSoon: EquipmentEntity[];
+  warrantyExpiring: EquipmentEntity[];
+  outOfService: EquipmentEntity[];
+}
+
+export const EQUIPMENT_CONDITIONS = ['excellent', 'good', 'fair', 'poor'];
@@ -0,0 +1,48 @@
+// ===================
+// OPERATING HOURS
+// ===================
+// Times are branch-local "HH:mm". A range whose close is earlier than its
+// open runs past midnight into the next day; "24:00" closes at midnight.
+
+export interface OpeningRange {
+  open: string;
+  close: string;
+}
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// Days left out are closed
+export type WeeklyOperatingHours = Partial<Record<Weekday, OpeningRange[]>>;
+
+// Branches that never configured hours are treated as always open
+export const ALWAYS_OPEN_HOURS: WeeklyOperatingHours = Object.fromEntries(
+  WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]]),
+);
+
+export enum BranchClosedReason {
+  BRANCH_INACTIVE = 'branch_inactive',
+  UNDER_MAINTENANCE = 'under_maintenance',
+  HOLIDAY = 'holiday',
+  OUTSIDE_HOURS = 'outside_hours',
+}
+
+export interface OpenInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface BranchOpenStatus {
+  branchId: string;
+  timezone: string;
+  at: Date;
+  localTime: string;
+  isOpen: boolean;
+  reason?: BranchClosedReason;
+  holiday?: string;
+  opensAt?: Date; // Start of the current opening
+  closesAt?: Date; // End of the current opening
+  nextOpening?: Date; // Next opening after now, or after closesAt when open
+  hoursConfigured: boolean;
+}
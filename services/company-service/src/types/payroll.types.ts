@@ -0,0 +1,61 @@
+import { PayrollRunStatus } from '@prisma/client';
+
+export interface PayrollRunFilters {
+  branchId?: string;
+  status?: PayrollRunStatus;
+}
+
+/**
+ * Company-wide payroll defaults, overridable in company.settings.payrollPolicy.
+ * Commission rates can also be set per staff member.
+ */
+export interface PayrollPolicy {
+  currency: string;
+  ptSessionCommission: number;
+  classCommission: number;
+  classAttendeeCommission: number;
+}
+
+export const DEFAULT_PAYROLL_POLICY: PayrollPolicy = {
+  currency: 'USD',
+  ptSessionCommission: 0,
+  classCommission: 0,
+  classAttendeeCommission: 0,
+};
+
+export const MAX_PAYROLL_PERIOD_DAYS = 62;
+
+export enum PayrollExportFormat {
+  CSV = 'csv',
+  PDF = 'pdf',
+}
+
+export interface PayrollExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// Teaching activity as reported by attendance-service
+
+export interface TaughtPersonalTraining {
+  id: string;
+  userId: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface TaughtClass {
+  id: string;
+  className: string;
+  category?: string;
+  startTime: string;
+  endTime: string;
+  attendees: number;
+}
+
+export interface TrainerTeachingActivity {
+  trainerId: string;
+  personalTraining: TaughtPersonalTraining[];
+  classes: TaughtClass[];
+}
@@ -0,0 +1,53 @@
+import { ShiftStatus, ShiftSwapStatus } from '@prisma/client';
+
+export interface ShiftFilters {
+  branchId?: string;
+  staffIds?: string[];
+  from?: Date;
+  to?: Date;
+  status?: ShiftStatus;
+  unassigned?: boolean;
+}
+
+export interface ShiftSwapFilters {
+  branchId?: string;
+  staffId?: string; // Requester or target
+  status?: ShiftSwapStatus;
+}
+
+export interface TimeEntryFilters {
+  branchId?: string;
+  staffIds?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export const CLOCK_IN_EARLY_MINUTES = 120; // Clock-ins this early still count towards the shift
+export const LATE_GRACE_MINUTES = 5;
+export const MAX_SCHEDULE_DAYS = 62; // Longest range for shift generation and timesheets
+
+export interface TimesheetTotals {
+  scheduledShifts: number;
+  scheduledHours: number;
+  workedHours: number;
+  varianceHours: number; // Worked minus scheduled
+  lateArrivals: number;
+  missedShifts: number;
+  unscheduledEntries: number;
+  openEntries: number; // Clocked in without clocking out
+}
+
+export interface TimesheetRow extends TimesheetTotals {
+  staffId: string;
+  userId: string;
+  position: string;
+}
+
+export interface TimesheetReport {
+  branchId: string;
+  timezone: string;
+  from: string;
+  to: string;
+  totals: TimesheetTotals;
+  staff: TimesheetRow[];
+}
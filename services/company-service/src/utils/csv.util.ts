@@ -0,0 +1,26 @@
+// ===================
+// CSV (RFC 4180)
+// ===================
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function buildCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Quotes values containing separators, and prefixes text a spreadsheet
+ * would evaluate as a formula.
+ */
+function escapeValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,32 @@
+import { EquipmentEntity, MaintenancePlanEntity } from '../entities/equipment.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The active plan that governs the equipment: plans for its branch take
+ * precedence over company-wide ones, and the shortest interval wins.
+ */
+export function selectMaintenancePlan(
+  plans: MaintenancePlanEntity[],
+  equipment: Pick<EquipmentEntity, 'branchId' | 'category'>,
+): MaintenancePlanEntity | undefined {
+  const matching = plans.filter(
+    plan => plan.isActive && plan.category.toLowerCase() === equipment.category.toLowerCase(),
+  );
+  const branchPlans = matching.filter(plan => plan.branchId === equipment.branchId);
+  const candidates = branchPlans.length > 0 ? branchPlans : matching.filter(plan => !plan.branchId);
+
+  return candidates.sort((a, b) => a.intervalDays - b.intervalDays)[0];
+}
+
+/**
+ * Next due date under the plan, counted from the last maintenance or,
+ * for equipment never serviced, from its purchase or registration.
+ */
+export function nextMaintenanceDate(
+  equipment: Pick<EquipmentEntity, 'lastMaintenance' | 'purchaseDate' | 'createdAt'>,
+  plan: Pick<MaintenancePlanEntity, 'intervalDays'>,
+): Date {
+  const base = equipment.lastMaintenance ?? equipment.purchaseDate ?? equipment.createdAt;
+  return new Date(base.getTime() + plan.intervalDays * DAY_MS);
+}
@@ -0,0 +1,221 @@
+import {
+  OpenInterval,
+  OpeningRange,
+  WeeklyOperatingHours,
+  WEEKDAYS,
+} from '../types/operating-hours.types';
+import { getZonedParts, zonedTimeToUtc } from './timezone.util';
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+const TIME_PATTERN = /^(?:([01]\d|2[0-3]):([0-5]\d)|(24):(00))$/;
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  iso: string; // YYYY-MM-DD
+}
+
+/**
+ * Minutes after midnight for "HH:mm", or null when malformed.
+ */
+export function parseTime(value: string): number | null {
+  const match = TIME_PATTERN.exec(value ?? '');
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1] ?? match[3]);
+  const minutes = Number(match[2] ?? match[4]);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Problems with a single day's ranges; empty when valid.
+ */
+export function validateOpeningRanges(ranges: OpeningRange[], label: string): string[] {
+  const errors: string[] = [];
+  const spans: [number, number][] = [];
+
+  ranges.forEach((range, index) => {
+    const open = parseTime(range.open);
+    const close = parseTime(range.close);
+
+    if (open === null || close === null || open === DAY_MINUTES) {
+      errors.push(`${label}[${index}]: times must be HH:mm between 00:00 and 24:00`);
+      return;
+    }
+
+    if (open === close) {
+      errors.push(`${label}[${index}]: open and close cannot be equal; use 00:00-24:00 for all day`);
+      return;
+    }
+
+    spans.push([open, close < open ? close + DAY_MINUTES : close]);
+  });
+
+  if (hasOverlap(spans)) {
+    errors.push(`${label}: ranges overlap`);
+  }
+
+  return errors;
+}
+
+/**
+ * Problems with a weekly schedule, including overnight ranges running into
+ * the next day's first range (and Saturday into Sunday).
+ */
+export function validateWeeklyHours(hours: WeeklyOperatingHours): string[] {
+  const errors: string[] = [];
+  const spans: [number, number][] = [];
+
+  WEEKDAYS.forEach((day, dayIndex) => {
+    const ranges = hours[day] ?? [];
+    const dayErrors = validateOpeningRanges(ranges, day);
+    errors.push(...dayErrors);
+
+    if (dayErrors.length > 0) {
+      return;
+    }
+
+    for (const range of ranges) {
+      const open = parseTime(range.open);
+      const close = parseTime(range.close);
+      const start = dayIndex * DAY_MINUTES + open;
+      const end = dayIndex * DAY_MINUTES + (close < open ? close + DAY_MINUTES : close);
+
+      if (end > WEEK_MINUTES) {
+        spans.push([start, WEEK_MINUTES], [0, end - WEEK_MINUTES]);
+      } else {
+        spans.push([start, end]);
+      }
+    }
+  });
+
+  if (errors.length === 0 && hasOverlap(spans)) {
+    errors.push('Overnight hours overlap the next day\'s opening');
+  }
+
+  return errors;
+}
+
+/**
+ * Sorted copy with days' ranges ordered by opening time and empty days
+ * dropped.
+ */
+export function normalizeWeeklyHours(hours: WeeklyOperatingHours): WeeklyOperatingHours {
+  const normalized: WeeklyOperatingHours = {};
+
+  for (const day of WEEKDAYS) {
+    const ranges = hours[day] ?? [];
+    if (ranges.length > 0) {
+      normalized[day] = sortRanges(ranges);
+    }
+  }
+
+  return normalized;
+}
+
+export function sortRanges(ranges: OpeningRange[]): OpeningRange[] {
+  return ranges
+    .map(range => ({ open: range.open, close: range.close }))
+    .sort((a, b) => parseTime(a.open) - parseTime(b.open));
+}
+
+/**
+ * Branch-local calendar dates starting the day before the instant's local
+ * date, so overnight hours from the previous evening are included.
+ */
+export function getLocalDates(from: Date, days: number, timeZone: string): CalendarDate[] {
+  const local = getZonedParts(from, timeZone);
+  const dates: CalendarDate[] = [];
+
+  for (let offset = -1; offset < days; offset++) {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    dates.push({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday: date.getUTCDay(),
+      iso: date.toISOString().slice(0, 10),
+    });
+  }
+
+  return dates;
+}
+
+/**
+ * Opening ranges for one local date as UTC instants. Ranges belong to the
+ * date they open on, so an overnight range ends on the following day.
+ */
+export function toIntervals(date: CalendarDate, ranges: OpeningRange[], timeZone: string): OpenInterval[] {
+  return ranges.map(range => {
+    const open = parseTime(range.open);
+    const close = parseTime(range.close);
+    const closeDay = close <= open ? date.day + 1 : date.day;
+
+    return {
+      start: zonedTimeToUtc(date.year, date.month, date.day, Math.floor(open / 60), open % 60, timeZone),
+      end: zonedTimeToUtc(date.year, date.month, closeDay, Math.floor(close / 60), close % 60, timeZone),
+    };
+  });
+}
+
+/**
+ * Sorts and joins intervals that touch or overlap, so 18:00-24:00 followed
+ * by 00:00-06:00 reads as one opening.
+ */
+export function mergeIntervals(intervals: OpenInterval[]): OpenInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: OpenInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Whether a holiday spanning startDate..endDate (inclusive, YYYY-MM-DD)
+ * covers the date; annual ones match on month and day from their first year.
+ */
+export function coversDate(
+  holiday: { startDate: string; endDate: string; recursAnnually: boolean },
+  date: string,
+): boolean {
+  if (!holiday.recursAnnually) {
+    return holiday.startDate <= date && date <= holiday.endDate;
+  }
+
+  if (date < holiday.startDate) {
+    return false;
+  }
+
+  const start = holiday.startDate.slice(5);
+  const end = holiday.endDate.slice(5);
+  const monthDay = date.slice(5);
+
+  // Ranges such as Dec 31 - Jan 1 wrap around the new year
+  return start <= end ? start <= monthDay && monthDay <= end : monthDay >= start || monthDay <= end;
+}
+
+function hasOverlap(spans: [number, number][]): boolean {
+  const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i][0] < sorted[i - 1][1]) {
+      return true;
+    }
+  }
+
+  return false;
+}
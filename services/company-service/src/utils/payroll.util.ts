@@ -0,0 +1,105 @@
+import { BranchStaffEntity } from '../entities/branch-staff.entity';
+import { TimeEntryEntity } from '../entities/shift.entity';
+import { CreatePayslipEntity } from '../entities/payroll.entity';
+import { PayrollPolicy, TrainerTeachingActivity } from '../types/payroll.types';
+import { paidMinutes } from './shift.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Whether the staff member was employed on any day of start..end
+ * (YYYY-MM-DD, inclusive).
+ */
+export function isEmployedDuring(staff: Pick<BranchStaffEntity, 'startDate' | 'endDate'>, start: string, end: string): boolean {
+  return toIsoDate(staff.startDate) <= end && (!staff.endDate || toIsoDate(staff.endDate) >= start);
+}
+
+/**
+ * Monthly salary earned over start..end (inclusive) while employed. Each
+ * day earns the salary divided by the days in its month, so a full
+ * calendar month always pays exactly one salary.
+ */
+export function proratedSalary(
+  monthlySalary: number,
+  start: string,
+  end: string,
+  employedFrom: Date,
+  employedUntil?: Date,
+): number {
+  const from = Math.max(toTime(start), toTime(toIsoDate(employedFrom)));
+  const until = Math.min(toTime(end), employedUntil ? toTime(toIsoDate(employedUntil)) : Infinity);
+
+  let pay = 0;
+  for (let time = from; time <= until; time += DAY_MS) {
+    const date = new Date(time);
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    pay += monthlySalary / daysInMonth;
+  }
+
+  return roundMoney(pay);
+}
+
+/**
+ * Gross pay of one staff member for the period: prorated salary, closed
+ * time entries at the hourly rate, and commissions for what they taught.
+ * Staff rates override the company's policy.
+ */
+export function calculatePayslip(
+  staff: BranchStaffEntity,
+  period: { start: string; end: string },
+  entries: TimeEntryEntity[],
+  activity: TrainerTeachingActivity | undefined,
+  policy: PayrollPolicy,
+): CreatePayslipEntity {
+  const salaryPay = staff.salary
+    ? proratedSalary(staff.salary, period.start, period.end, staff.startDate, staff.endDate)
+    : 0;
+
+  const workedMinutes = entries
+    .filter(entry => entry.clockOut)
+    .reduce((total, entry) => total + paidMinutes(entry.clockIn, entry.clockOut, entry.breakMinutes), 0);
+  const hourlyPay = staff.hourlyRate ? roundMoney((workedMinutes / 60) * staff.hourlyRate) : 0;
+
+  const ptSessionRate = staff.ptSessionCommission ?? policy.ptSessionCommission;
+  const classRate = staff.classCommission ?? policy.classCommission;
+  const classAttendeeRate = staff.classAttendeeCommission ?? policy.classAttendeeCommission;
+
+  const ptSessions = activity?.personalTraining.length ?? 0;
+  const classesTaught = activity?.classes.length ?? 0;
+  const classAttendees = activity?.classes.reduce((total, taught) => total + taught.attendees, 0) ?? 0;
+
+  const ptCommission = roundMoney(ptSessions * ptSessionRate);
+  const classCommission = roundMoney(classesTaught * classRate + classAttendees * classAttendeeRate);
+
+  return {
+    staffId: staff.id,
+    userId: staff.userId,
+    position: staff.position,
+    salaryPay,
+    hourlyRate: staff.hourlyRate,
+    workedMinutes,
+    hourlyPay,
+    openEntries: entries.filter(entry => !entry.clockOut).length,
+    ptSessions,
+    ptSessionRate,
+    ptCommission,
+    classesTaught,
+    classAttendees,
+    classRate,
+    classAttendeeRate,
+    classCommission,
+    grossPay: roundMoney(salaryPay + hourlyPay + ptCommission + classCommission),
+  };
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toTime(date: string): number {
+  return new Date(`${date}T00:00:00.000Z`).getTime();
+}
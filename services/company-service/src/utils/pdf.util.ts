@@ -0,0 +1,90 @@
+// ===================
+// PDF (text documents)
+// ===================
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+}
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 9;
+const LEADING = 13;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING) - 2; // Leaves room for the footer
+
+// Courier glyphs are 0.6 em wide
+export const PDF_LINE_CHARS = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6));
+
+/**
+ * Paginated PDF of monospaced text lines with page numbers. Uses the
+ * standard Courier fonts so nothing is embedded; characters outside
+ * Latin-1 are replaced with '?' and long lines are cut off.
+ */
+export function buildTextPdf(title: string, lines: PdfLine[]): Buffer {
+  const pages: PdfLine[][] = [];
+  for (let index = 0; index < Math.max(lines.length, 1); index += LINES_PER_PAGE) {
+    pages.push(lines.slice(index, index + LINES_PER_PAGE));
+  }
+
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapeText(title)}) /Producer (Devsfit Company Service) >>`,
+  ];
+
+  pages.forEach((pageLines, index) => {
+    const content = buildPageContent(pageLines, `Page ${index + 1} of ${pages.length}`);
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  // Every character is Latin-1 by now, so string length equals byte length
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function buildPageContent(lines: PdfLine[], footer: string): string {
+  const operations = ['BT', `${LEADING} TL`, `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`];
+  let font = '';
+
+  for (const line of lines) {
+    const lineFont = line.bold ? '/F2' : '/F1';
+    if (lineFont !== font) {
+      operations.push(`${lineFont} ${FONT_SIZE} Tf`);
+      font = lineFont;
+    }
+    operations.push(`(${escapeText(line.text.slice(0, PDF_LINE_CHARS))}) '`);
+  }
+
+  operations.push('ET', 'BT', `/F1 ${FONT_SIZE - 1} Tf`, `${MARGIN} ${MARGIN / 2} Td`, `(${escapeText(footer)}) Tj`, 'ET');
+  return operations.join('\n');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
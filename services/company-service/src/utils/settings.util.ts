@@ -0,0 +1,20 @@
+/**
+ * Shallow merge of a settings patch; keys set to null are removed so a
+ * client can clear one policy without resending the others.
+ */
+export function mergeSettings(
+  current: Record<string, any> | undefined,
+  patch: Record<string, any>,
+): Record<string, any> {
+  const merged = { ...(current ?? {}) };
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
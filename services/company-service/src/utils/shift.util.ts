@@ -0,0 +1,115 @@
+import { ShiftStatus } from '@prisma/client';
+import { ShiftTemplateEntity, ShiftEntity, TimeEntryEntity } from '../entities/shift.entity';
+import { TimesheetTotals } from '../types/shift.types';
+import { parseTime } from './operating-hours.util';
+import { zonedTimeToUtc } from './timezone.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shift times produced by a template for the local dates from..to
+ * (YYYY-MM-DD, inclusive) that fall inside its validity period.
+ */
+export function expandShiftTemplate(
+  template: Pick<ShiftTemplateEntity, 'startTime' | 'endTime' | 'daysOfWeek' | 'validFrom' | 'validUntil'>,
+  from: string,
+  to: string,
+  timeZone: string,
+): { startTime: Date; endTime: Date }[] {
+  const start = parseTime(template.startTime);
+  const end = parseTime(template.endTime);
+  const occurrences: { startTime: Date; endTime: Date }[] = [];
+
+  const last = new Date(`${to}T00:00:00.000Z`).getTime();
+  for (let time = new Date(`${from}T00:00:00.000Z`).getTime(); time <= last; time += DAY_MS) {
+    const date = new Date(time);
+    const iso = date.toISOString().slice(0, 10);
+
+    if (
+      iso < template.validFrom ||
+      (template.validUntil && iso > template.validUntil) ||
+      !template.daysOfWeek.includes(date.getUTCDay())
+    ) {
+      continue;
+    }
+
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    const endDay = end <= start ? day + 1 : day;
+
+    occurrences.push({
+      startTime: zonedTimeToUtc(year, month, day, Math.floor(start / 60), start % 60, timeZone),
+      endTime: zonedTimeToUtc(year, month, endDay, Math.floor(end / 60), end % 60, timeZone),
+    });
+  }
+
+  return occurrences;
+}
+
+export function intervalsOverlap(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Paid minutes of a shift or closed time entry, never negative.
+ */
+export function paidMinutes(start: Date, end: Date, breakMinutes: number): number {
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000) - breakMinutes);
+}
+
+/**
+ * Scheduled versus worked time for one staff member. Cancelled shifts are
+ * ignored, and a shift counts as missed once it has ended without any
+ * time entry linked to it.
+ */
+export function summarizeTimesheet(
+  shifts: ShiftEntity[],
+  entries: TimeEntryEntity[],
+  now: Date,
+  lateGraceMinutes: number,
+): TimesheetTotals {
+  let scheduledMinutes = 0;
+  let workedMinutes = 0;
+  let lateArrivals = 0;
+  let missedShifts = 0;
+
+  const scheduled = shifts.filter(shift => shift.status === ShiftStatus.SCHEDULED);
+  for (const shift of scheduled) {
+    scheduledMinutes += paidMinutes(shift.startTime, shift.endTime, shift.breakMinutes);
+
+    const linked = entries.filter(entry => entry.shiftId === shift.id);
+    if (linked.length === 0) {
+      if (shift.endTime <= now) {
+        missedShifts++;
+      }
+      continue;
+    }
+
+    const firstClockIn = Math.min(...linked.map(entry => entry.clockIn.getTime()));
+    if (firstClockIn > shift.startTime.getTime() + lateGraceMinutes * 60000) {
+      lateArrivals++;
+    }
+  }
+
+  for (const entry of entries) {
+    if (entry.clockOut) {
+      workedMinutes += paidMinutes(entry.clockIn, entry.clockOut, entry.breakMinutes);
+    }
+  }
+
+  return {
+    scheduledShifts: scheduled.length,
+    scheduledHours: toHours(scheduledMinutes),
+    workedHours: toHours(workedMinutes),
+    varianceHours: toHours(workedMinutes - scheduledMinutes),
+    lateArrivals,
+    missedShifts,
+    unscheduledEntries: entries.filter(entry => !entry.shiftId).length,
+    openEntries: entries.filter(entry => !entry.clockOut).length,
+  };
+}
+
+export function toHours(minutes: number): number {
+  return Math.round((minutes / 60) * 100) / 100;
+}
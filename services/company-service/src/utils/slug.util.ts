@@ -0,0 +1,40 @@
+const MAX_SLUG_LENGTH = 100;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * URL-safe slug: lowercase ASCII letters and digits separated by single
+ * hyphens, with accents folded ("Café Nord" -> "cafe-nord").
+ */
+export function slugify(value: string, maxLength = MAX_SLUG_LENGTH): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+}
+
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug) && slug.length <= MAX_SLUG_LENGTH;
+}
+
+/**
+ * First of base, base-2, base-3... not in the taken set, trimming the base
+ * so the suffix still fits the column.
+ */
+export function nextAvailableSlug(base: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+  if (!used.has(base)) {
+    return base;
+  }
+
+  for (let suffix = 2; ; suffix++) {
+    const tail = `-${suffix}`;
+    const candidate = `${base.slice(0, MAX_SLUG_LENGTH - tail.length).replace(/-+$/, '')}${tail}`;
+    if (!used.has(candidate)) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { ForbiddenException } from '@nestjs/common';
+import { AuthenticatedUser } from '../types/company.types';
+import {
+  COMPANY_OWNER_ROLE,
+  FACILITY_MANAGER_ROLE,
+  hasRole,
+  isPlatformAdmin,
+} from '../constants/roles.constants';
+
+// A missing user means an internal service caller, which routes only allow for reads.
+
+export function canReadCompany(user: AuthenticatedUser | undefined, companyId: string): boolean {
+  return !user || isPlatformAdmin(user) || user.companyId === companyId;
+}
+
+export function canManageCompany(user: AuthenticatedUser, companyId: string): boolean {
+  return isPlatformAdmin(user) || (hasRole(user, COMPANY_OWNER_ROLE) && user.companyId === companyId);
+}
+
+/**
+ * Owners manage every branch of their company; facility managers only the
+ * branches they are assigned to.
+ */
+export function canManageBranch(
+  user: AuthenticatedUser,
+  branch: { companyId: string; managerId?: string },
+): boolean {
+  if (canManageCompany(user, branch.companyId)) {
+    return true;
+  }
+
+  return (
+    hasRole(user, FACILITY_MANAGER_ROLE) &&
+    user.companyId === branch.companyId &&
+    !!branch.managerId &&
+    branch.managerId === user.id
+  );
+}
+
+export function assertCanReadCompany(user: AuthenticatedUser | undefined, companyId: string): void {
+  if (!canReadCompany(user, companyId)) {
+    throw new ForbiddenException('You do not have access to this company');
+  }
+}
+
+export function assertCanManageCompany(user: AuthenticatedUser, companyId: string): void {
+  if (!canManageCompany(user, companyId)) {
+    throw new ForbiddenException('You cannot manage this company');
+  }
+}
+
+export function assertCanManageBranch(
+  user: AuthenticatedUser,
+  branch: { companyId: string; managerId?: string },
+): void {
+  if (!canManageBranch(user, branch)) {
+    throw new ForbiddenException('You cannot manage this branch');
+  }
+}
@@ -303,6 +303,30 @@ export class SubscriptionController {
     }
   }
 
+  @Put('company/:companyId/usage')
+  @ApiOperation({ summary: "Update usage metrics of a company's active subscription" })
+  @ApiParam({ name: 'companyId', description: 'Company ID' })
+  @ApiResponse({ status: 200, description: 'Usage updated successfully', type: SubscriptionResponseDto })
+  async updateCompanyUsage(
+    @Param('companyId', ParseUUIDPipe) companyId: string,
+    @Body() usageDto: UpdateUsageDto,
+  ) {
+    this.logger.log('Updating company usage', { companyId, usage: usageDto });
+
+    try {
+      const subscription = await this.subscriptionService.updateCompanyUsage(companyId, usageDto);
+      
+      return {
+        success: true,
+        data: subscription,
+        message: 'Usage updated successfully',
+      };
+    } catch (error) {
+      this.logger.error('Failed to update company usage', { companyId, error: error.message });
+      throw new BadRequestException(error.message);
+    }
+  }
+
   // ===================
   // ANALYTICS & REPORTS
   // ===================
@@ -156,6 +156,21 @@ export class SubscriptionService {
     return subscription;
   }
 
+  /**
+   * Usage reported by the services that own each resource, applied to the
+   * company's active subscription.
+   */
+  async updateCompanyUsage(companyId: string, usageDto: UpdateUsageDto): Promise<CompanySubscriptionEntity> {
+    this.logger.log('Updating company usage', { companyId, usage: usageDto });
+
+    const subscription = await this.subscriptionRepository.findByCompanyId(companyId);
+    if (!subscription) {
+      throw new Error('No active subscription found for this company');
+    }
+
+    return this.subscriptionRepository.updateUsage(subscription.id, usageDto);
+  }
+
   async getSubscriptions(filters: any = {}): Promise<{
     subscriptions: CompanySubscriptionEntity[];
     total: number;
@@ -7,6 +7,28 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaService } from './services/prisma.service';
 import { HealthController } from './controllers/health.controller';
+import { ProfileController } from './controllers/profile.controller';
+import { BodyMeasurementController } from './controllers/body-measurement.controller';
+import { FitnessGoalController } from './controllers/fitness-goal.controller';
+import { HealthDataKeyController } from './controllers/health-data-key.controller';
+import { MembershipFreezeController } from './controllers/membership-freeze.controller';
+import { ProfileService } from './services/profile.service';
+import { MemberEntitlementService } from './services/member-entitlement.service';
+import { MemberBranchService } from './services/member-branch.service';
+import { BodyMeasurementService } from './services/body-measurement.service';
+import { FitnessGoalService } from './services/fitness-goal.service';
+import { HealthDataEncryptionService } from './services/health-data-encryption.service';
+import { MembershipFreezeService } from './services/membership-freeze.service';
+import { CompanyClientService } from './services/company-client.service';
+import { SubscriptionClientService } from './services/subscription-client.service';
+import { NotificationClientService } from './services/notification-client.service';
+import { AttendanceClientService } from './services/attendance-client.service';
+import { UserProfileRepository } from './repositories/user-profile.repository';
+import { BodyMeasurementRepository } from './repositories/body-measurement.repository';
+import { FitnessGoalRepository } from './repositories/fitness-goal.repository';
+import { HealthDataKeyRepository } from './repositories/health-data-key.repository';
+import { HealthDataAccessLogRepository } from './repositories/health-data-access-log.repository';
+import { MembershipFreezeRepository } from './repositories/membership-freeze.repository';
 
 @Module({
   imports: [
@@ -32,8 +54,50 @@ import { HealthController } from './controllers/health.controller';
     // Health checks
     TerminusModule,
   ],
-  controllers: [AppController, HealthController],
-  providers: [AppService, PrismaService],
+  controllers: [
+    AppController,
+    HealthController,
+    ProfileController,
+    BodyMeasurementController,
+    FitnessGoalController,
+    HealthDataKeyController,
+    MembershipFreezeController,
+  ],
+  providers: [
+    AppService,
+    PrismaService,
+
+    // Profiles
+    ProfileService,
+    MemberBranchService,
+    UserProfileRepository,
+
+    // Health data encryption
+    HealthDataEncryptionService,
+    HealthDataKeyRepository,
+    HealthDataAccessLogRepository,
+
+    // Body measurements
+    BodyMeasurementService,
+    BodyMeasurementRepository,
+
+    // Fitness goals
+    FitnessGoalService,
+    FitnessGoalRepository,
+
+    // Membership freezes
+    MembershipFreezeService,
+    MembershipFreezeRepository,
+
+    // Plan limits
+    MemberEntitlementService,
+
+    // Service clients
+    CompanyClientService,
+    SubscriptionClientService,
+    NotificationClientService,
+    AttendanceClientService,
+  ],
   exports: [PrismaService],
 })
 export class AppModule {}
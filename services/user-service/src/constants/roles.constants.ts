@@ -0,0 +1,23 @@
+// Role names issued by auth-service (see PROFESSIONAL_ROLES there)
+export const PLATFORM_ADMIN_ROLES = ['SUPER_ADMIN', 'SYSTEM_ADMIN'];
+
+export const COMPANY_OWNER_ROLE = 'COMPANY_OWNER';
+export const FACILITY_MANAGER_ROLE = 'FACILITY_MANAGER';
+
+// Staff who may manage a company's branches and configuration
+export const MANAGER_ROLES = [...PLATFORM_ADMIN_ROLES, COMPANY_OWNER_ROLE, FACILITY_MANAGER_ROLE];
+
+export const TRAINER_ROLES = ['HEAD_TRAINER', 'PERSONAL_TRAINER'];
+
+export const STAFF_ROLES = [...MANAGER_ROLES, ...TRAINER_ROLES, 'RECEPTIONIST'];
+
+// Staff who may see members' health data; receptionists may not
+export const HEALTH_DATA_ROLES = [...MANAGER_ROLES, ...TRAINER_ROLES];
+
+export function isPlatformAdmin(user: { roles?: string[] } | undefined): boolean {
+  return !!user?.roles?.some(role => PLATFORM_ADMIN_ROLES.includes(role));
+}
+
+export function hasRole(user: { roles?: string[] } | undefined, role: string): boolean {
+  return !!user?.roles?.includes(role);
+}
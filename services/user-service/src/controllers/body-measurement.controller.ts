@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { BodyMeasurementService } from '../services/body-measurement.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser } from '../decorators/auth.decorators';
+import { AuthenticatedUser } from '../types/profile.types';
+import {
+  CreateBodyMeasurementDto,
+  MeasurementQueryDto,
+  MeasurementTrendsQueryDto,
+} from '../dto/body-measurement.dto';
+
+@ApiTags('Body Measurements')
+@Controller('profiles/:userId/measurements')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+@ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+export class BodyMeasurementController {
+  constructor(private readonly bodyMeasurementService: BodyMeasurementService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Record a body measurement; BMI, BMR, waist-to-hip ratio and lean mass are derived' })
+  @ApiResponse({ status: 201, description: 'Measurement recorded successfully' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async recordMeasurement(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() createDto: CreateBodyMeasurementDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const measurement = await this.bodyMeasurementService.recordMeasurement(userId, createDto, user);
+
+    return {
+      success: true,
+      data: measurement,
+      message: 'Measurement recorded successfully',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: "Member's body measurements, oldest first" })
+  @ApiResponse({ status: 200, description: 'Measurements retrieved successfully' })
+  async getMeasurements(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: MeasurementQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const measurements = await this.bodyMeasurementService.getMeasurements(userId, query, user);
+
+    return {
+      success: true,
+      data: measurements,
+    };
+  }
+
+  @Get('trends')
+  @ApiOperation({ summary: 'Progress per metric: time series, moving averages and changes' })
+  @ApiResponse({ status: 200, description: 'Trends retrieved successfully' })
+  async getTrends(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: MeasurementTrendsQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const trends = await this.bodyMeasurementService.getTrends(userId, query, user);
+
+    return {
+      success: true,
+      data: trends,
+    };
+  }
+}
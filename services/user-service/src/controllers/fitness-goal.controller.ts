@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { FitnessGoalService } from '../services/fitness-goal.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser } from '../decorators/auth.decorators';
+import { AuthenticatedUser } from '../types/profile.types';
+import {
+  CreateFitnessGoalDto,
+  FitnessGoalQueryDto,
+  RecordGoalProgressDto,
+  UpdateFitnessGoalDto,
+} from '../dto/fitness-goal.dto';
+
+@ApiTags('Fitness Goals')
+@Controller('profiles/:userId/goals')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+@ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+export class FitnessGoalController {
+  constructor(private readonly fitnessGoalService: FitnessGoalService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Set a fitness goal for the member' })
+  @ApiResponse({ status: 201, description: 'Goal created successfully' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async createGoal(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() createDto: CreateFitnessGoalDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const goal = await this.fitnessGoalService.createGoal(userId, createDto, user);
+
+    return {
+      success: true,
+      data: goal,
+      message: 'Goal created successfully',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: "Member's goals with percent complete and on-track projections" })
+  @ApiResponse({ status: 200, description: 'Goals retrieved successfully' })
+  async getGoals(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: FitnessGoalQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const goals = await this.fitnessGoalService.getGoals(userId, query, user);
+
+    return {
+      success: true,
+      data: goals,
+    };
+  }
+
+  @Get(':goalId')
+  @ApiOperation({ summary: 'Get a goal with its progress' })
+  @ApiParam({ name: 'goalId', description: 'Goal ID' })
+  @ApiResponse({ status: 200, description: 'Goal retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Goal not found' })
+  async getGoal(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('goalId', ParseUUIDPipe) goalId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const goal = await this.fitnessGoalService.getGoal(userId, goalId, user);
+
+    return {
+      success: true,
+      data: goal,
+    };
+  }
+
+  @Put(':goalId')
+  @ApiOperation({ summary: 'Update an open goal' })
+  @ApiParam({ name: 'goalId', description: 'Goal ID' })
+  @ApiResponse({ status: 200, description: 'Goal updated successfully' })
+  @ApiResponse({ status: 400, description: 'Goal is already completed' })
+  async updateGoal(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('goalId', ParseUUIDPipe) goalId: string,
+    @Body() updateDto: UpdateFitnessGoalDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const goal = await this.fitnessGoalService.updateGoal(userId, goalId, updateDto, user);
+
+    return {
+      success: true,
+      data: goal,
+      message: 'Goal updated successfully',
+    };
+  }
+
+  @Post(':goalId/progress')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Record progress on a goal that doesn't update automatically" })
+  @ApiParam({ name: 'goalId', description: 'Goal ID' })
+  @ApiResponse({ status: 200, description: 'Progress recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Goal updates automatically or is already completed' })
+  async recordProgress(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('goalId', ParseUUIDPipe) goalId: string,
+    @Body() progressDto: RecordGoalProgressDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const goal = await this.fitnessGoalService.recordProgress(userId, goalId, progressDto, user);
+
+    return {
+      success: true,
+      data: goal,
+      message: 'Progress recorded successfully',
+    };
+  }
+
+  @Delete(':goalId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a goal' })
+  @ApiParam({ name: 'goalId', description: 'Goal ID' })
+  @ApiResponse({ status: 200, description: 'Goal deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Goal not found' })
+  async deleteGoal(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('goalId', ParseUUIDPipe) goalId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.fitnessGoalService.deleteGoal(userId, goalId, user);
+
+    return {
+      success: true,
+      message: 'Goal deleted successfully',
+    };
+  }
+}
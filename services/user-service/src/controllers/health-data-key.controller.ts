@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Post,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { HealthDataEncryptionService } from '../services/health-data-encryption.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles } from '../decorators/auth.decorators';
+import { PLATFORM_ADMIN_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/profile.types';
+
+@ApiTags('Health Data Keys')
+@Controller('health-data-keys')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@Roles(...PLATFORM_ADMIN_ROLES)
+@ApiBearerAuth('JWT-auth')
+export class HealthDataKeyController {
+  constructor(private readonly healthDataEncryption: HealthDataEncryptionService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Health data encryption keys and re-encryption progress' })
+  @ApiResponse({ status: 200, description: 'Key status retrieved successfully' })
+  async getStatus() {
+    const status = await this.healthDataEncryption.getStatus();
+
+    return {
+      success: true,
+      data: status,
+    };
+  }
+
+  @Post('rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start encrypting with a new data key; existing data is re-encrypted in the background' })
+  @ApiResponse({ status: 200, description: 'Data key rotated successfully' })
+  @ApiResponse({ status: 503, description: 'Health data encryption is not configured' })
+  async rotate(@CurrentUser() user: AuthenticatedUser) {
+    const key = await this.healthDataEncryption.rotateDataKey(user);
+
+    return {
+      success: true,
+      data: key,
+      message: 'Data key rotated successfully',
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { MembershipFreezeService } from '../services/membership-freeze.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser } from '../decorators/auth.decorators';
+import { AuthenticatedUser } from '../types/profile.types';
+import { CreateMembershipFreezeDto } from '../dto/membership-freeze.dto';
+
+@ApiTags('Membership Freezes')
+@Controller('profiles/:userId/freezes')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+@ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+export class MembershipFreezeController {
+  constructor(private readonly membershipFreezeService: MembershipFreezeService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Freeze the membership for a date range' })
+  @ApiResponse({ status: 201, description: 'Freeze scheduled successfully' })
+  @ApiResponse({ status: 400, description: 'Membership not active, or not enough freeze days left' })
+  @ApiResponse({ status: 409, description: 'Membership already has a scheduled or active freeze' })
+  async requestFreeze(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() createDto: CreateMembershipFreezeDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const freeze = await this.membershipFreezeService.requestFreeze(userId, createDto, user);
+
+    return {
+      success: true,
+      data: freeze,
+      message: 'Freeze scheduled successfully',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: "Member's freezes with the company's freeze policy and days left this year" })
+  @ApiResponse({ status: 200, description: 'Freezes retrieved successfully' })
+  async getFreezes(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const overview = await this.membershipFreezeService.getFreezes(userId, user);
+
+    return {
+      success: true,
+      data: overview,
+    };
+  }
+
+  @Post(':freezeId/end')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'End an active freeze today, or cancel one that has not started' })
+  @ApiParam({ name: 'freezeId', description: 'Freeze ID' })
+  @ApiResponse({ status: 200, description: 'Freeze ended successfully' })
+  @ApiResponse({ status: 404, description: 'Freeze not found' })
+  async endFreeze(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('freezeId', ParseUUIDPipe) freezeId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const freeze = await this.membershipFreezeService.endFreeze(userId, freezeId, user);
+
+    return {
+      success: true,
+      data: freeze,
+      message: 'Freeze ended successfully',
+    };
+  }
+}
@@ -0,0 +1,257 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ProfileService } from '../services/profile.service';
+import { MemberBranchService } from '../services/member-branch.service';
+import { ServiceOrJwtAuthGuard } from '../guards/service-or-jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { AllowInternalServices, CurrentUser, Roles } from '../decorators/auth.decorators';
+import { MANAGER_ROLES, STAFF_ROLES } from '../constants/roles.constants';
+import { AuthenticatedUser } from '../types/profile.types';
+import {
+  CreateProfileDto,
+  HealthDataAccessQueryDto,
+  ProfileFiltersDto,
+  TransferMemberDto,
+  UpdateBranchAccessDto,
+  UpdateMembershipStatusDto,
+  UpdateProfileDto,
+} from '../dto/profile.dto';
+
+@ApiTags('Profiles')
+@Controller('profiles')
+@UseGuards(ServiceOrJwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class ProfileController {
+  constructor(
+    private readonly profileService: ProfileService,
+    private readonly memberBranchService: MemberBranchService,
+  ) {}
+
+  @Post()
+  @Roles(...STAFF_ROLES)
+  @AllowInternalServices()
+  @ApiOperation({ summary: 'Enrol a member with a company' })
+  @ApiResponse({ status: 201, description: 'Profile created successfully' })
+  @ApiResponse({ status: 402, description: "The company's plan member limit is reached" })
+  @ApiResponse({ status: 409, description: 'User already has a profile' })
+  async createProfile(
+    @Body() createDto: CreateProfileDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const profile = await this.profileService.createProfile(createDto, user);
+
+    return {
+      success: true,
+      data: profile,
+      message: 'Profile created successfully',
+    };
+  }
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: "Search the company's members by name or phone" })
+  @ApiResponse({ status: 200, description: 'Profiles retrieved successfully' })
+  async getProfiles(
+    @Query() filters: ProfileFiltersDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const result = await this.profileService.getProfiles(filters, user);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Get(':userId')
+  @AllowInternalServices()
+  @ApiOperation({ summary: 'Get a member profile by auth-service user ID' })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Profile retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async getProfile(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const profile = await this.profileService.getProfile(userId, user);
+
+    return {
+      success: true,
+      data: profile,
+    };
+  }
+
+  @Put(':userId')
+  @AllowInternalServices()
+  @ApiOperation({ summary: 'Update a member profile; health data needs a manager or trainer' })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Profile updated successfully' })
+  @ApiResponse({ status: 403, description: 'Not allowed to change these fields' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async updateProfile(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() updateDto: UpdateProfileDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const profile = await this.profileService.updateProfile(userId, updateDto, user);
+
+    return {
+      success: true,
+      data: profile,
+      message: 'Profile updated successfully',
+    };
+  }
+
+  @Patch(':userId/status')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Change the membership status' })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Membership status updated successfully' })
+  @ApiResponse({ status: 400, description: 'Status transition not allowed' })
+  @ApiResponse({ status: 402, description: "The company's plan member limit is reached" })
+  @ApiResponse({ status: 409, description: 'Status was changed in the meantime' })
+  async changeStatus(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() statusDto: UpdateMembershipStatusDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const profile = await this.profileService.changeStatus(userId, statusDto, user);
+
+    return {
+      success: true,
+      data: profile,
+      message: 'Membership status updated successfully',
+    };
+  }
+
+  @Get(':userId/audit')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Who changed the profile and what' })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Audit log retrieved successfully' })
+  async getAuditLog(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const entries = await this.profileService.getAuditLog(userId, user);
+
+    return {
+      success: true,
+      data: entries,
+    };
+  }
+
+  @Get(':userId/health-data-access')
+  @ApiOperation({ summary: "Who was shown the member's decrypted health data" })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Health data access retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Only the member and managers can view health data access' })
+  async getHealthDataAccessLog(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: HealthDataAccessQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const result = await this.profileService.getHealthDataAccessLog(userId, query, user);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Put(':userId/branch-access')
+  @Roles(...MANAGER_ROLES)
+  @ApiOperation({ summary: 'Set which branches the membership gives access to' })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Branch access updated successfully' })
+  async updateBranchAccess(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() accessDto: UpdateBranchAccessDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const profile = await this.memberBranchService.updateBranchAccess(userId, accessDto, user);
+
+    return {
+      success: true,
+      data: profile,
+      message: 'Branch access updated successfully',
+    };
+  }
+
+  @Post(':userId/transfer')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Move the member's home branch; managers of both branches are notified" })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Member transferred successfully' })
+  @ApiResponse({ status: 409, description: 'Member was transferred in the meantime' })
+  async transferMember(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() transferDto: TransferMemberDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const profile = await this.memberBranchService.transferMember(userId, transferDto, user);
+
+    return {
+      success: true,
+      data: profile,
+      message: 'Member transferred successfully',
+    };
+  }
+
+  @Get(':userId/transfers')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Home branch transfer history of a member' })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Transfers retrieved successfully' })
+  async getTransfers(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const transfers = await this.memberBranchService.getTransfers(userId, user);
+
+    return {
+      success: true,
+      data: transfers,
+    };
+  }
+
+  @Delete(':userId')
+  @Roles(...MANAGER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a member profile' })
+  @ApiParam({ name: 'userId', description: 'User ID from auth-service' })
+  @ApiResponse({ status: 200, description: 'Profile deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async deleteProfile(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    await this.profileService.deleteProfile(userId, user);
+
+    return {
+      success: true,
+      message: 'Profile deleted successfully',
+    };
+  }
+}
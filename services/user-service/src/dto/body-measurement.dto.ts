@@ -0,0 +1,133 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsDateString,
+  IsInt,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { DEFAULT_MOVING_AVERAGE_WINDOW } from '../types/body-metrics.types';
+
+/**
+ * BMI, BMR, waist-to-hip ratio and lean mass are derived from these.
+ */
+export class CreateBodyMeasurementDto {
+  @ApiPropertyOptional({ description: 'When the measurement was taken; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  measurementDate?: string;
+
+  @ApiPropertyOptional({ description: 'Weight in kg', minimum: 20, maximum: 500 })
+  @IsOptional()
+  @IsNumber()
+  @Min(20)
+  @Max(500)
+  weight?: number;
+
+  @ApiPropertyOptional({ description: "Height in cm; defaults to the profile's height", minimum: 50, maximum: 272 })
+  @IsOptional()
+  @IsNumber()
+  @Min(50)
+  @Max(272)
+  height?: number;
+
+  @ApiPropertyOptional({ description: 'Body fat percentage', minimum: 2, maximum: 75 })
+  @IsOptional()
+  @IsNumber()
+  @Min(2)
+  @Max(75)
+  bodyFat?: number;
+
+  @ApiPropertyOptional({ description: 'Muscle mass in kg', minimum: 5, maximum: 200 })
+  @IsOptional()
+  @IsNumber()
+  @Min(5)
+  @Max(200)
+  muscleMass?: number;
+
+  @ApiPropertyOptional({ description: 'Visceral fat rating', minimum: 1, maximum: 60 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(60)
+  visceralFat?: number;
+
+  @ApiPropertyOptional({ description: 'Chest circumference in cm', minimum: 10, maximum: 300 })
+  @IsOptional()
+  @IsNumber()
+  @Min(10)
+  @Max(300)
+  chest?: number;
+
+  @ApiPropertyOptional({ description: 'Waist circumference in cm', minimum: 10, maximum: 300 })
+  @IsOptional()
+  @IsNumber()
+  @Min(10)
+  @Max(300)
+  waist?: number;
+
+  @ApiPropertyOptional({ description: 'Hip circumference in cm', minimum: 10, maximum: 300 })
+  @IsOptional()
+  @IsNumber()
+  @Min(10)
+  @Max(300)
+  hips?: number;
+
+  @ApiPropertyOptional({ description: 'Thigh circumference in cm', minimum: 10, maximum: 300 })
+  @IsOptional()
+  @IsNumber()
+  @Min(10)
+  @Max(300)
+  thigh?: number;
+
+  @ApiPropertyOptional({ description: 'Arm circumference in cm', minimum: 10, maximum: 300 })
+  @IsOptional()
+  @IsNumber()
+  @Min(10)
+  @Max(300)
+  arm?: number;
+
+  @ApiPropertyOptional({ description: 'Neck circumference in cm', minimum: 10, maximum: 300 })
+  @IsOptional()
+  @IsNumber()
+  @Min(10)
+  @Max(300)
+  neck?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class MeasurementQueryDto {
+  @ApiPropertyOptional({ description: 'Measurements taken on or after' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Measurements taken on or before' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class MeasurementTrendsQueryDto extends MeasurementQueryDto {
+  @ApiPropertyOptional({
+    description: 'Measurements per moving average',
+    minimum: 1,
+    maximum: 12,
+    default: DEFAULT_MOVING_AVERAGE_WINDOW,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  window?: number;
+}
@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsBoolean,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { FitnessGoalType } from '../types/fitness-goal.types';
+
+export class CreateFitnessGoalDto {
+  @ApiProperty({
+    description: 'weight_loss and muscle_gain follow body measurements, endurance and visits follow check-ins',
+    enum: FitnessGoalType,
+  })
+  @IsEnum(FitnessGoalType)
+  goalType: FitnessGoalType;
+
+  @ApiProperty({ description: 'What the member wants to achieve' })
+  @IsString()
+  @MaxLength(500)
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Target value, in the goal unit' })
+  @IsOptional()
+  @IsNumber()
+  targetValue?: number;
+
+  @ApiPropertyOptional({
+    description: 'Starting value; measurement goals default to the latest measurement, visit goals start at 0',
+  })
+  @IsOptional()
+  @IsNumber()
+  startValue?: number;
+
+  @ApiPropertyOptional({ description: 'Unit; kg for measurement goals and visits for visit goals', example: 'kg' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  unit?: string;
+
+  @ApiPropertyOptional({ description: 'When the member wants to reach the target' })
+  @IsOptional()
+  @IsDateString()
+  targetDate?: string;
+
+  @ApiPropertyOptional({ description: 'Priority', minimum: 1, maximum: 5, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  priority?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class UpdateFitnessGoalDto extends PartialType(
+  OmitType(CreateFitnessGoalDto, ['goalType', 'startValue', 'unit'] as const),
+) {}
+
+export class RecordGoalProgressDto {
+  @ApiProperty({ description: 'Current value, in the goal unit' })
+  @IsNumber()
+  currentValue: number;
+}
+
+export class FitnessGoalQueryDto {
+  @ApiPropertyOptional({ description: 'Include completed goals', default: true })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeCompleted?: boolean;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateMembershipFreezeDto {
+  @ApiProperty({ description: 'First frozen day (YYYY-MM-DD); today or later' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Last frozen day (YYYY-MM-DD), included in the freeze' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({ description: 'Why the membership is frozen, e.g. travel or injury' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,278 @@
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsDateString,
+  IsEnum,
+  IsUUID,
+  IsArray,
+  IsInt,
+  ArrayMaxSize,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { BranchAccessScope, Gender, MembershipStatus } from '@prisma/client';
+
+export class CreateProfileDto {
+  @ApiProperty({ description: 'User ID from auth-service' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Company the member joins' })
+  @IsUUID()
+  companyId: string;
+
+  @ApiPropertyOptional({ description: 'First name, as registered with auth-service' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ApiPropertyOptional({ description: 'Last name, as registered with auth-service' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  lastName?: string;
+
+  @ApiPropertyOptional({ description: "Member's home branch" })
+  @IsOptional()
+  @IsUUID()
+  homeBranchId?: string;
+
+  @ApiPropertyOptional({ description: 'Branches the membership gives access to', enum: BranchAccessScope, default: BranchAccessScope.ALL_BRANCHES })
+  @IsOptional()
+  @IsEnum(BranchAccessScope)
+  branchAccess?: BranchAccessScope;
+
+  @ApiPropertyOptional({ description: 'Branches besides the home branch, for SELECTED_BRANCHES', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('4', { each: true })
+  accessibleBranchIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Date of birth', example: '1990-04-21' })
+  @IsOptional()
+  @IsDateString()
+  dateOfBirth?: string;
+
+  @ApiPropertyOptional({ description: 'Gender', enum: Gender })
+  @IsOptional()
+  @IsEnum(Gender)
+  gender?: Gender;
+
+  @ApiPropertyOptional({ description: 'Phone number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @ApiPropertyOptional({ description: 'Street address' })
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @ApiPropertyOptional({ description: 'City' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'State or region' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  state?: string;
+
+  @ApiPropertyOptional({ description: 'Country' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  country?: string;
+
+  @ApiPropertyOptional({ description: 'Postal code' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  postalCode?: string;
+
+  @ApiPropertyOptional({ description: 'Emergency contact name' })
+  @IsOptional()
+  @IsString()
+  emergencyContact?: string;
+
+  @ApiPropertyOptional({ description: 'Emergency contact phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  emergencyPhone?: string;
+
+  @ApiPropertyOptional({ description: 'Medical conditions' })
+  @IsOptional()
+  @IsString()
+  medicalConditions?: string;
+
+  @ApiPropertyOptional({ description: 'Allergies' })
+  @IsOptional()
+  @IsString()
+  allergies?: string;
+
+  @ApiPropertyOptional({ description: 'Medications' })
+  @IsOptional()
+  @IsString()
+  medications?: string;
+
+  @ApiPropertyOptional({ description: 'Height in cm', minimum: 50, maximum: 272 })
+  @IsOptional()
+  @IsNumber()
+  @Min(50)
+  @Max(272)
+  height?: number;
+
+  @ApiPropertyOptional({ description: 'Weight in kg', minimum: 20, maximum: 500 })
+  @IsOptional()
+  @IsNumber()
+  @Min(20)
+  @Max(500)
+  weight?: number;
+
+  @ApiPropertyOptional({ description: 'Body fat percentage', minimum: 2, maximum: 75 })
+  @IsOptional()
+  @IsNumber()
+  @Min(2)
+  @Max(75)
+  bodyFatPercentage?: number;
+
+  @ApiPropertyOptional({ description: 'Blood type', example: 'O+' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5)
+  bloodType?: string;
+
+  @ApiPropertyOptional({ description: 'Fitness goals in the member\'s words' })
+  @IsOptional()
+  @IsString()
+  fitnessGoals?: string;
+
+  @ApiPropertyOptional({ description: 'Preferred trainer user ID' })
+  @IsOptional()
+  @IsUUID()
+  preferredTrainer?: string;
+
+  @ApiPropertyOptional({ description: 'Join date; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  joinDate?: string;
+
+  @ApiPropertyOptional({ description: 'Last day of the membership; freezes extend it', example: '2026-12-31' })
+  @IsOptional()
+  @IsDateString()
+  membershipEndDate?: string;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+/**
+ * Company and branch access change through their own endpoints.
+ */
+export class UpdateProfileDto extends PartialType(
+  OmitType(CreateProfileDto, ['userId', 'companyId', 'homeBranchId', 'branchAccess', 'accessibleBranchIds'] as const),
+) {}
+
+export class UpdateMembershipStatusDto {
+  @ApiProperty({ description: 'New membership status', enum: MembershipStatus })
+  @IsEnum(MembershipStatus)
+  status: MembershipStatus;
+
+  @ApiPropertyOptional({ description: 'Reason, kept in the audit log' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class ProfileFiltersDto {
+  @ApiPropertyOptional({ description: "Filter by company ID; defaults to the caller's company" })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiPropertyOptional({ description: 'Search by name or phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by membership status', enum: MembershipStatus })
+  @IsOptional()
+  @IsEnum(MembershipStatus)
+  membershipStatus?: MembershipStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by home branch' })
+  @IsOptional()
+  @IsUUID()
+  homeBranchId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class HealthDataAccessQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class UpdateBranchAccessDto {
+  @ApiProperty({ description: 'Branches the membership gives access to', enum: BranchAccessScope })
+  @IsEnum(BranchAccessScope)
+  branchAccess: BranchAccessScope;
+
+  @ApiPropertyOptional({ description: 'Branches besides the home branch, for SELECTED_BRANCHES', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('4', { each: true })
+  accessibleBranchIds?: string[];
+}
+
+export class TransferMemberDto {
+  @ApiProperty({ description: 'New home branch' })
+  @IsUUID()
+  toBranchId: string;
+
+  @ApiPropertyOptional({ description: 'Reason for the transfer' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
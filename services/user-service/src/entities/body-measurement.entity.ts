@@ -0,0 +1,45 @@
+export class BodyMeasurementEntity {
+  id: string;
+  userProfileId: string;
+  measurementDate: Date;
+  weight?: number;
+  height?: number;
+  bodyFat?: number;
+  muscleMass?: number;
+  visceralFat?: number;
+  bmr?: number;
+  bmi?: number;
+  waistToHipRatio?: number;
+  leanMass?: number;
+  chest?: number;
+  waist?: number;
+  hips?: number;
+  thigh?: number;
+  arm?: number;
+  neck?: number;
+  notes?: string;
+  recordedBy?: string;
+  createdAt: Date;
+}
+
+export class CreateBodyMeasurementEntity {
+  userProfileId: string;
+  measurementDate: Date;
+  weight?: number;
+  height?: number;
+  bodyFat?: number;
+  muscleMass?: number;
+  visceralFat?: number;
+  bmr?: number;
+  bmi?: number;
+  waistToHipRatio?: number;
+  leanMass?: number;
+  chest?: number;
+  waist?: number;
+  hips?: number;
+  thigh?: number;
+  arm?: number;
+  neck?: number;
+  notes?: string;
+  recordedBy?: string;
+}
@@ -0,0 +1,32 @@
+export class FitnessGoalEntity {
+  id: string;
+  userProfileId: string;
+  goalType: string;
+  description: string;
+  startValue?: number;
+  targetValue?: number;
+  currentValue?: number;
+  unit?: string;
+  targetDate?: Date;
+  isCompleted: boolean;
+  completedDate?: Date;
+  priority: number;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateFitnessGoalEntity {
+  userProfileId: string;
+  goalType: string;
+  description: string;
+  startValue?: number;
+  targetValue?: number;
+  currentValue?: number;
+  unit?: string;
+  targetDate?: Date;
+  priority?: number;
+  notes?: string;
+}
+
+export type UpdateFitnessGoalEntity = Partial<Omit<CreateFitnessGoalEntity, 'userProfileId' | 'goalType'>>;
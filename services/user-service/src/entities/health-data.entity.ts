@@ -0,0 +1,29 @@
+import { HealthDataKeyStatus } from '@prisma/client';
+
+export class HealthDataKeyEntity {
+  id: string;
+  kekId: string;
+  wrappedKey: string;
+  status: HealthDataKeyStatus;
+  createdAt: Date;
+  retiredAt?: Date;
+  rewrappedAt?: Date;
+}
+
+export class HealthDataAccessLogEntity {
+  id: string;
+  userId: string;
+  companyId?: string;
+  accessedBy: string;
+  fields: string[];
+  action: string;
+  createdAt: Date;
+}
+
+export class CreateHealthDataAccessLogEntity {
+  userId: string;
+  companyId?: string;
+  accessedBy: string;
+  fields: string[];
+  action: string;
+}
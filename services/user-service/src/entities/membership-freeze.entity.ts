@@ -0,0 +1,26 @@
+import { MembershipFreezeStatus } from '@prisma/client';
+
+export class MembershipFreezeEntity {
+  id: string;
+  userProfileId: string;
+  companyId: string;
+  startDate: Date;
+  endDate: Date;
+  status: MembershipFreezeStatus;
+  reason?: string;
+  frozenDays?: number;
+  endedAt?: Date;
+  requestedBy?: string;
+  endedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateMembershipFreezeEntity {
+  userProfileId: string;
+  companyId: string;
+  startDate: Date;
+  endDate: Date;
+  reason?: string;
+  requestedBy?: string;
+}
@@ -0,0 +1,109 @@
+import { BranchAccessScope, Gender, MembershipStatus, ProfileAuditAction } from '@prisma/client';
+
+export class UserProfileEntity {
+  id: string;
+  userId: string;
+  companyId?: string;
+  firstName?: string;
+  lastName?: string;
+  homeBranchId?: string;
+  branchAccess: BranchAccessScope;
+  accessibleBranchIds: string[];
+  dateOfBirth?: Date;
+  gender?: Gender;
+  phone?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  postalCode?: string;
+  emergencyContact?: string;
+  emergencyPhone?: string;
+  medicalConditions?: string;
+  allergies?: string;
+  medications?: string;
+  height?: number;
+  weight?: number;
+  bodyFatPercentage?: number;
+  bloodType?: string;
+  healthDataKeyId?: string;
+  fitnessGoals?: string;
+  preferredTrainer?: string;
+  joinDate: Date;
+  membershipStatus: MembershipStatus;
+  membershipEndDate?: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CreateUserProfileEntity {
+  userId: string;
+  companyId: string;
+  firstName?: string;
+  lastName?: string;
+  homeBranchId?: string;
+  branchAccess?: BranchAccessScope;
+  accessibleBranchIds?: string[];
+  dateOfBirth?: Date;
+  gender?: Gender;
+  phone?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  postalCode?: string;
+  emergencyContact?: string;
+  emergencyPhone?: string;
+  medicalConditions?: string;
+  allergies?: string;
+  medications?: string;
+  height?: number;
+  weight?: number;
+  bodyFatPercentage?: number;
+  bloodType?: string;
+  healthDataKeyId?: string;
+  fitnessGoals?: string;
+  preferredTrainer?: string;
+  joinDate?: Date;
+  membershipEndDate?: Date;
+  notes?: string;
+}
+
+export type UpdateUserProfileEntity = Partial<
+  Omit<CreateUserProfileEntity, 'userId' | 'companyId' | 'homeBranchId' | 'branchAccess' | 'accessibleBranchIds'>
+>;
+
+export class MemberTransferEntity {
+  id: string;
+  userProfileId: string;
+  fromBranchId?: string;
+  toBranchId: string;
+  reason?: string;
+  transferredBy: string;
+  createdAt: Date;
+}
+
+export class ProfileAuditEntryEntity {
+  id: string;
+  userId: string;
+  companyId?: string;
+  action: ProfileAuditAction;
+  changedFields: string[];
+  fromStatus?: MembershipStatus;
+  toStatus?: MembershipStatus;
+  reason?: string;
+  changedBy?: string;
+  createdAt: Date;
+}
+
+export class CreateProfileAuditEntity {
+  userId: string;
+  companyId?: string;
+  action: ProfileAuditAction;
+  changedFields?: string[];
+  fromStatus?: MembershipStatus;
+  toStatus?: MembershipStatus;
+  reason?: string;
+  changedBy?: string;
+}
@@ -0,0 +1,20 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * The company's plan does not allow adding more members. Sent as 402 so
+ * clients can offer an upgrade instead of a generic error.
+ */
+export class UpgradeRequiredException extends HttpException {
+  constructor(reason: string, limit: number) {
+    super(
+      {
+        statusCode: HttpStatus.PAYMENT_REQUIRED,
+        error: 'Upgrade Required',
+        message: `Upgrade required: ${reason}`,
+        resource: 'members',
+        limit,
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { InternalServiceGuard } from './internal-service.guard';
+import { INTERNAL_SERVICE_ACCESS } from '../decorators/auth.decorators';
+
+/**
+ * JWT authentication that also accepts a service token on routes marked
+ * with @AllowInternalServices(), so other services can reach member data.
+ */
+@Injectable()
+export class ServiceOrJwtAuthGuard implements CanActivate {
+  private readonly jwtGuard = new JwtAuthGuard();
+  private readonly internalServiceGuard: InternalServiceGuard;
+
+  constructor(
+    private readonly reflector: Reflector,
+    configService: ConfigService,
+  ) {
+    this.internalServiceGuard = new InternalServiceGuard(configService);
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const allowServices = this.reflector.getAllAndOverride<boolean>(INTERNAL_SERVICE_ACCESS, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (allowServices && request.headers['x-service-token']) {
+      return this.internalServiceGuard.canActivate(context);
+    }
+
+    return this.jwtGuard.canActivate(context) as boolean;
+  }
+}
@@ -70,6 +70,11 @@ async function bootstrap() {
         'JWT-auth',
       )
       .addTag('Users', 'User management endpoints')
+      .addTag('Profiles', 'Member profiles')
+      .addTag('Body Measurements', 'Body measurements and progress trends')
+      .addTag('Fitness Goals', 'Member goals and their progress')
+      .addTag('Health Data Keys', 'Encryption keys for member health data')
+      .addTag('Membership Freezes', 'Membership freezes and reactivation')
       .build();
 
     const document = SwaggerModule.createDocument(app, swaggerConfig);
@@ -0,0 +1,76 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { BodyMeasurementEntity, CreateBodyMeasurementEntity } from '../entities/body-measurement.entity';
+import { MeasurementFilters } from '../types/body-metrics.types';
+
+@Injectable()
+export class BodyMeasurementRepository {
+  private readonly logger = new Logger(BodyMeasurementRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateBodyMeasurementEntity): Promise<BodyMeasurementEntity> {
+    this.logger.log('Recording body measurement', { userProfileId: data.userProfileId, measurementDate: data.measurementDate });
+
+    const measurement = await this.prisma.bodyMeasurement.create({ data });
+    return this.mapToEntity(measurement);
+  }
+
+  /**
+   * The member's measurements, oldest first.
+   */
+  async findByProfile(userProfileId: string, filters: MeasurementFilters = {}): Promise<BodyMeasurementEntity[]> {
+    const measurements = await this.prisma.bodyMeasurement.findMany({
+      where: {
+        userProfileId,
+        ...((filters.from || filters.to) && {
+          measurementDate: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lte: filters.to }),
+          },
+        }),
+      },
+      orderBy: [{ measurementDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return measurements.map(measurement => this.mapToEntity(measurement));
+  }
+
+  /**
+   * The most recent measurement that includes the given value.
+   */
+  async findLatestWith(userProfileId: string, field: 'weight' | 'muscleMass'): Promise<BodyMeasurementEntity | null> {
+    const measurement = await this.prisma.bodyMeasurement.findFirst({
+      where: { userProfileId, [field]: { not: null } },
+      orderBy: [{ measurementDate: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return measurement ? this.mapToEntity(measurement) : null;
+  }
+
+  private mapToEntity(data: any): BodyMeasurementEntity {
+    return {
+      id: data.id,
+      userProfileId: data.userProfileId,
+      measurementDate: data.measurementDate,
+      weight: data.weight,
+      height: data.height,
+      bodyFat: data.bodyFat,
+      muscleMass: data.muscleMass,
+      visceralFat: data.visceralFat,
+      bmr: data.bmr,
+      bmi: data.bmi,
+      waistToHipRatio: data.waistToHipRatio,
+      leanMass: data.leanMass,
+      chest: data.chest,
+      waist: data.waist,
+      hips: data.hips,
+      thigh: data.thigh,
+      arm: data.arm,
+      neck: data.neck,
+      notes: data.notes,
+      recordedBy: data.recordedBy,
+      createdAt: data.createdAt,
+    };
+  }
+}
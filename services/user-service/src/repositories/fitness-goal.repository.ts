@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  CreateFitnessGoalEntity,
+  FitnessGoalEntity,
+  UpdateFitnessGoalEntity,
+} from '../entities/fitness-goal.entity';
+
+@Injectable()
+export class FitnessGoalRepository {
+  private readonly logger = new Logger(FitnessGoalRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateFitnessGoalEntity): Promise<FitnessGoalEntity> {
+    this.logger.log('Creating fitness goal', { userProfileId: data.userProfileId, goalType: data.goalType });
+
+    const goal = await this.prisma.fitnessGoal.create({ data });
+    return this.mapToEntity(goal);
+  }
+
+  async findById(id: string): Promise<FitnessGoalEntity | null> {
+    const goal = await this.prisma.fitnessGoal.findUnique({ where: { id } });
+    return goal ? this.mapToEntity(goal) : null;
+  }
+
+  /**
+   * Open goals first, most important first.
+   */
+  async findByProfile(userProfileId: string, includeCompleted = true): Promise<FitnessGoalEntity[]> {
+    const goals = await this.prisma.fitnessGoal.findMany({
+      where: {
+        userProfileId,
+        ...(!includeCompleted && { isCompleted: false }),
+      },
+      orderBy: [{ isCompleted: 'asc' }, { priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return goals.map(goal => this.mapToEntity(goal));
+  }
+
+  /**
+   * Open goals of the given types, optionally of one member only.
+   */
+  async findOpenByTypes(goalTypes: string[], userProfileId?: string): Promise<FitnessGoalEntity[]> {
+    const goals = await this.prisma.fitnessGoal.findMany({
+      where: {
+        goalType: { in: goalTypes },
+        isCompleted: false,
+        ...(userProfileId && { userProfileId }),
+      },
+      orderBy: [{ userProfileId: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return goals.map(goal => this.mapToEntity(goal));
+  }
+
+  async update(id: string, data: UpdateFitnessGoalEntity): Promise<FitnessGoalEntity> {
+    this.logger.log('Updating fitness goal', { id, updateFields: Object.keys(data) });
+
+    const goal = await this.prisma.fitnessGoal.update({ where: { id }, data });
+    return this.mapToEntity(goal);
+  }
+
+  /**
+   * Marks the goal reached; returns null if it was completed in the meantime.
+   */
+  async complete(id: string, currentValue: number, completedDate: Date): Promise<FitnessGoalEntity | null> {
+    const completed = await this.prisma.fitnessGoal.updateMany({
+      where: { id, isCompleted: false },
+      data: { currentValue, isCompleted: true, completedDate },
+    });
+
+    if (completed.count === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.logger.log('Deleting fitness goal', { id });
+    await this.prisma.fitnessGoal.delete({ where: { id } });
+  }
+
+  private mapToEntity(data: any): FitnessGoalEntity {
+    return {
+      id: data.id,
+      userProfileId: data.userProfileId,
+      goalType: data.goalType,
+      description: data.description,
+      startValue: data.startValue,
+      targetValue: data.targetValue,
+      currentValue: data.currentValue,
+      unit: data.unit,
+      targetDate: data.targetDate,
+      isCompleted: data.isCompleted,
+      completedDate: data.completedDate,
+      priority: data.priority,
+      notes: data.notes,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
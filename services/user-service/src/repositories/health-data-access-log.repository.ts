@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { CreateHealthDataAccessLogEntity, HealthDataAccessLogEntity } from '../entities/health-data.entity';
+import { HealthDataAccessFilters } from '../types/health-data.types';
+import { PaginatedResult } from '../types/profile.types';
+
+@Injectable()
+export class HealthDataAccessLogRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateHealthDataAccessLogEntity): Promise<HealthDataAccessLogEntity> {
+    const entry = await this.prisma.healthDataAccessLog.create({ data });
+    return this.mapToEntity(entry);
+  }
+
+  /**
+   * Accesses to the member's health data, newest first.
+   */
+  async findByUser(userId: string, filters: HealthDataAccessFilters = {}): Promise<PaginatedResult<HealthDataAccessLogEntity>> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const [records, total] = await Promise.all([
+      this.prisma.healthDataAccessLog.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.healthDataAccessLog.count({ where: { userId } }),
+    ]);
+
+    return {
+      records: records.map(record => this.mapToEntity(record)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  private mapToEntity(data: any): HealthDataAccessLogEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      accessedBy: data.accessedBy,
+      fields: data.fields ?? [],
+      action: data.action,
+      createdAt: data.createdAt,
+    };
+  }
+}
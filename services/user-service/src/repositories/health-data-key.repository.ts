@@ -0,0 +1,79 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HealthDataKeyStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { HealthDataKeyEntity } from '../entities/health-data.entity';
+
+@Injectable()
+export class HealthDataKeyRepository {
+  private readonly logger = new Logger(HealthDataKeyRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Stores a new active data key and retires the previous one.
+   */
+  async createActive(data: { id: string; kekId: string; wrappedKey: string }): Promise<HealthDataKeyEntity> {
+    this.logger.log('Activating health data key', { id: data.id, kekId: data.kekId });
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.healthDataKey.updateMany({
+        where: { status: HealthDataKeyStatus.ACTIVE },
+        data: { status: HealthDataKeyStatus.RETIRED, retiredAt: new Date() },
+      });
+
+      const key = await tx.healthDataKey.create({ data: { ...data, status: HealthDataKeyStatus.ACTIVE } });
+      return this.mapToEntity(key);
+    });
+  }
+
+  async findActive(): Promise<HealthDataKeyEntity | null> {
+    const key = await this.prisma.healthDataKey.findFirst({
+      where: { status: HealthDataKeyStatus.ACTIVE },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return key ? this.mapToEntity(key) : null;
+  }
+
+  async findById(id: string): Promise<HealthDataKeyEntity | null> {
+    const key = await this.prisma.healthDataKey.findUnique({ where: { id } });
+    return key ? this.mapToEntity(key) : null;
+  }
+
+  async findAll(): Promise<HealthDataKeyEntity[]> {
+    const keys = await this.prisma.healthDataKey.findMany({ orderBy: { createdAt: 'desc' } });
+    return keys.map(key => this.mapToEntity(key));
+  }
+
+  /**
+   * Data keys wrapped with a key-encryption key other than the given one.
+   */
+  async findWrappedWithOtherKek(kekId: string): Promise<HealthDataKeyEntity[]> {
+    const keys = await this.prisma.healthDataKey.findMany({ where: { kekId: { not: kekId } } });
+    return keys.map(key => this.mapToEntity(key));
+  }
+
+  /**
+   * Replaces the wrapped key, unless it was rewrapped in the meantime.
+   */
+  async rewrap(id: string, fromKekId: string, kekId: string, wrappedKey: string): Promise<boolean> {
+    const rewrapped = await this.prisma.healthDataKey.updateMany({
+      where: { id, kekId: fromKekId },
+      data: { kekId, wrappedKey, rewrappedAt: new Date() },
+    });
+
+    return rewrapped.count > 0;
+  }
+
+  private mapToEntity(data: any): HealthDataKeyEntity {
+    return {
+      id: data.id,
+      kekId: data.kekId,
+      wrappedKey: data.wrappedKey,
+      status: data.status,
+      createdAt: data.createdAt,
+      retiredAt: data.retiredAt,
+      rewrappedAt: data.rewrappedAt,
+    };
+  }
+}
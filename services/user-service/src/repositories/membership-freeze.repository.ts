@@ -0,0 +1,186 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MembershipFreezeStatus, MembershipStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import { CreateMembershipFreezeEntity, MembershipFreezeEntity } from '../entities/membership-freeze.entity';
+import { CreateProfileAuditEntity } from '../entities/user-profile.entity';
+
+@Injectable()
+export class MembershipFreezeRepository {
+  private readonly logger = new Logger(MembershipFreezeRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateMembershipFreezeEntity): Promise<MembershipFreezeEntity> {
+    this.logger.log('Creating membership freeze', {
+      userProfileId: data.userProfileId,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    });
+
+    const freeze = await this.prisma.membershipFreeze.create({
+      data: { ...data, status: MembershipFreezeStatus.SCHEDULED },
+    });
+    return this.mapToEntity(freeze);
+  }
+
+  async findById(id: string): Promise<MembershipFreezeEntity | null> {
+    const freeze = await this.prisma.membershipFreeze.findUnique({ where: { id } });
+    return freeze ? this.mapToEntity(freeze) : null;
+  }
+
+  /**
+   * Latest first.
+   */
+  async findByProfile(userProfileId: string): Promise<MembershipFreezeEntity[]> {
+    const freezes = await this.prisma.membershipFreeze.findMany({
+      where: { userProfileId },
+      orderBy: { startDate: 'desc' },
+    });
+
+    return freezes.map(freeze => this.mapToEntity(freeze));
+  }
+
+  /**
+   * Scheduled freezes whose first day has come.
+   */
+  async findDueToStart(today: Date): Promise<MembershipFreezeEntity[]> {
+    const freezes = await this.prisma.membershipFreeze.findMany({
+      where: { status: MembershipFreezeStatus.SCHEDULED, startDate: { lte: today } },
+      orderBy: { startDate: 'asc' },
+    });
+
+    return freezes.map(freeze => this.mapToEntity(freeze));
+  }
+
+  /**
+   * Active freezes whose last day has passed.
+   */
+  async findDueToEnd(today: Date): Promise<MembershipFreezeEntity[]> {
+    const freezes = await this.prisma.membershipFreeze.findMany({
+      where: { status: MembershipFreezeStatus.ACTIVE, endDate: { lt: today } },
+      orderBy: { endDate: 'asc' },
+    });
+
+    return freezes.map(freeze => this.mapToEntity(freeze));
+  }
+
+  /**
+   * Starts the freeze and freezes the membership. Returns null if the freeze
+   * is no longer scheduled or the membership is no longer active.
+   */
+  async activate(
+    id: string,
+    userProfileId: string,
+    audit: CreateProfileAuditEntity,
+  ): Promise<MembershipFreezeEntity | null> {
+    this.logger.log('Activating membership freeze', { id, userProfileId });
+
+    return this.prisma.$transaction(async (tx) => {
+      const frozen = await tx.userProfile.updateMany({
+        where: { id: userProfileId, membershipStatus: MembershipStatus.ACTIVE },
+        data: { membershipStatus: MembershipStatus.FROZEN },
+      });
+      if (frozen.count === 0) {
+        return null;
+      }
+
+      const started = await tx.membershipFreeze.updateMany({
+        where: { id, status: MembershipFreezeStatus.SCHEDULED },
+        data: { status: MembershipFreezeStatus.ACTIVE },
+      });
+      if (started.count === 0) {
+        // Undoes the status change above
+        throw new Error(`Membership freeze ${id} is no longer scheduled`);
+      }
+
+      await tx.profileAuditEntry.create({ data: audit });
+
+      const freeze = await tx.membershipFreeze.findUnique({ where: { id } });
+      return this.mapToEntity(freeze);
+    });
+  }
+
+  /**
+   * Ends the freeze, reactivates the membership and moves its end date.
+   * Returns null if the freeze was ended in the meantime.
+   */
+  async complete(
+    id: string,
+    userProfileId: string,
+    data: { frozenDays: number; endedAt: Date; endedBy?: string; membershipEndDate?: Date },
+    audit: CreateProfileAuditEntity,
+  ): Promise<MembershipFreezeEntity | null> {
+    this.logger.log('Completing membership freeze', { id, userProfileId, frozenDays: data.frozenDays });
+
+    return this.prisma.$transaction(async (tx) => {
+      const ended = await tx.membershipFreeze.updateMany({
+        where: { id, status: MembershipFreezeStatus.ACTIVE },
+        data: {
+          status: MembershipFreezeStatus.COMPLETED,
+          frozenDays: data.frozenDays,
+          endedAt: data.endedAt,
+          endedBy: data.endedBy,
+        },
+      });
+      if (ended.count === 0) {
+        return null;
+      }
+
+      // Staff may have moved the membership on while it was frozen
+      const reactivated = await tx.userProfile.updateMany({
+        where: { id: userProfileId, membershipStatus: MembershipStatus.FROZEN },
+        data: { membershipStatus: MembershipStatus.ACTIVE },
+      });
+      if (reactivated.count > 0) {
+        await tx.profileAuditEntry.create({ data: audit });
+      }
+
+      if (data.membershipEndDate) {
+        await tx.userProfile.update({
+          where: { id: userProfileId },
+          data: { membershipEndDate: data.membershipEndDate },
+        });
+      }
+
+      const freeze = await tx.membershipFreeze.findUnique({ where: { id } });
+      return this.mapToEntity(freeze);
+    });
+  }
+
+  /**
+   * Cancels a freeze that has not started; returns null if it started or
+   * was cancelled in the meantime.
+   */
+  async cancel(id: string, endedBy?: string): Promise<MembershipFreezeEntity | null> {
+    this.logger.log('Cancelling membership freeze', { id, endedBy });
+
+    const cancelled = await this.prisma.membershipFreeze.updateMany({
+      where: { id, status: MembershipFreezeStatus.SCHEDULED },
+      data: { status: MembershipFreezeStatus.CANCELLED, frozenDays: 0, endedAt: new Date(), endedBy },
+    });
+
+    if (cancelled.count === 0) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  private mapToEntity(data: any): MembershipFreezeEntity {
+    return {
+      id: data.id,
+      userProfileId: data.userProfileId,
+      companyId: data.companyId,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      status: data.status,
+      reason: data.reason,
+      frozenDays: data.frozenDays,
+      endedAt: data.endedAt,
+      requestedBy: data.requestedBy,
+      endedBy: data.endedBy,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,367 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BranchAccessScope, MembershipStatus } from '@prisma/client';
+import { PrismaService } from '../services/prisma.service';
+import {
+  CreateProfileAuditEntity,
+  CreateUserProfileEntity,
+  MemberTransferEntity,
+  ProfileAuditEntryEntity,
+  UpdateUserProfileEntity,
+  UserProfileEntity,
+} from '../entities/user-profile.entity';
+import {
+  COUNTED_MEMBERSHIP_STATUSES,
+  HEALTH_DATA_FIELDS,
+  MembershipStatusChangeResult,
+  PaginatedResult,
+  ProfileFilters,
+} from '../types/profile.types';
+import { HealthDataValues } from '../types/health-data.types';
+
+@Injectable()
+export class UserProfileRepository {
+  private readonly logger = new Logger(UserProfileRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Creates the profile unless the company already has maxMembers counted
+   * members; returns null in that case. Null maxMembers means unlimited.
+   */
+  async create(
+    data: CreateUserProfileEntity,
+    audit: CreateProfileAuditEntity,
+    maxMembers: number | null = null,
+  ): Promise<UserProfileEntity | null> {
+    this.logger.log('Creating user profile', { userId: data.userId, companyId: data.companyId });
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.hasMemberSeat(tx, data.companyId, maxMembers))) {
+        return null;
+      }
+
+      const profile = await tx.userProfile.create({ data });
+      await tx.profileAuditEntry.create({ data: audit });
+
+      return this.mapToEntity(profile);
+    });
+  }
+
+  async findByUserId(userId: string): Promise<UserProfileEntity | null> {
+    const profile = await this.prisma.userProfile.findUnique({ where: { userId } });
+    return profile ? this.mapToEntity(profile) : null;
+  }
+
+  async findById(id: string): Promise<UserProfileEntity | null> {
+    const profile = await this.prisma.userProfile.findUnique({ where: { id } });
+    return profile ? this.mapToEntity(profile) : null;
+  }
+
+  /**
+   * Every word of the search must match the first name, last name or phone.
+   */
+  async findAll(filters: ProfileFilters = {}): Promise<PaginatedResult<UserProfileEntity>> {
+    this.logger.log('Finding user profiles', { filters });
+
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const terms = filters.search?.trim().split(/\s+/).filter(Boolean) ?? [];
+    const where: any = {
+      ...(filters.companyId && { companyId: filters.companyId }),
+      ...(filters.membershipStatus && { membershipStatus: filters.membershipStatus }),
+      ...(filters.homeBranchId && { homeBranchId: filters.homeBranchId }),
+      ...(terms.length > 0 && {
+        AND: terms.map(term => ({
+          OR: [
+            { firstName: { contains: term, mode: 'insensitive' } },
+            { lastName: { contains: term, mode: 'insensitive' } },
+            { phone: { contains: term } },
+          ],
+        })),
+      }),
+    };
+
+    const [records, total] = await Promise.all([
+      this.prisma.userProfile.findMany({
+        where,
+        orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.userProfile.count({ where }),
+    ]);
+
+    return {
+      records: records.map(record => this.mapToEntity(record)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async update(id: string, data: UpdateUserProfileEntity, audit: CreateProfileAuditEntity): Promise<UserProfileEntity> {
+    this.logger.log('Updating user profile', { id, updateFields: Object.keys(data) });
+
+    return this.prisma.$transaction(async (tx) => {
+      const profile = await tx.userProfile.update({ where: { id }, data });
+      await tx.profileAuditEntry.create({ data: audit });
+
+      return this.mapToEntity(profile);
+    });
+  }
+
+  /**
+   * Moves the membership from one status to another, unless the status
+   * changed in the meantime. When maxMembers is given (the member counts
+   * towards the plan again), the company must have a member left on it.
+   */
+  async updateStatus(
+    id: string,
+    from: MembershipStatus,
+    to: MembershipStatus,
+    audit: CreateProfileAuditEntity,
+    maxMembers: number | null = null,
+  ): Promise<MembershipStatusChangeResult> {
+    this.logger.log('Changing membership status', { id, from, to });
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.hasMemberSeat(tx, audit.companyId, maxMembers))) {
+        return { limitReached: true };
+      }
+
+      const changed = await tx.userProfile.updateMany({
+        where: { id, membershipStatus: from },
+        data: { membershipStatus: to },
+      });
+
+      if (changed.count === 0) {
+        return { stale: true };
+      }
+
+      await tx.profileAuditEntry.create({ data: audit });
+
+      const profile = await tx.userProfile.findUnique({ where: { id } });
+      return { profile: this.mapToEntity(profile) };
+    });
+  }
+
+  async delete(id: string, audit: CreateProfileAuditEntity): Promise<void> {
+    this.logger.log('Deleting user profile', { id });
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.userProfile.delete({ where: { id } });
+      await tx.profileAuditEntry.create({ data: audit });
+    });
+  }
+
+  async findAuditEntries(userId: string): Promise<ProfileAuditEntryEntity[]> {
+    const entries = await this.prisma.profileAuditEntry.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return entries.map(entry => this.mapAuditToEntity(entry));
+  }
+
+  async updateBranchAccess(
+    id: string,
+    data: { branchAccess: BranchAccessScope; accessibleBranchIds: string[] },
+  ): Promise<UserProfileEntity> {
+    const profile = await this.prisma.userProfile.update({ where: { id }, data });
+    return this.mapToEntity(profile);
+  }
+
+  /**
+   * Moves the home branch and records the move, unless the member was
+   * moved in the meantime. The new home branch is dropped from the
+   * member's selected branches, which only list branches besides home.
+   */
+  async transfer(
+    id: string,
+    fromBranchId: string | null,
+    data: { toBranchId: string; reason?: string; transferredBy: string },
+  ): Promise<UserProfileEntity | null> {
+    this.logger.log('Transferring member', { id, fromBranchId, toBranchId: data.toBranchId });
+
+    return this.prisma.$transaction(async (tx) => {
+      const moved = await tx.userProfile.updateMany({
+        where: { id, homeBranchId: fromBranchId },
+        data: { homeBranchId: data.toBranchId },
+      });
+
+      if (moved.count === 0) {
+        return null;
+      }
+
+      await tx.memberTransfer.create({
+        data: {
+          userProfileId: id,
+          fromBranchId,
+          toBranchId: data.toBranchId,
+          reason: data.reason,
+          transferredBy: data.transferredBy,
+        },
+      });
+
+      const profile = await tx.userProfile.findUnique({ where: { id } });
+      if (
+        profile.branchAccess === BranchAccessScope.SELECTED_BRANCHES &&
+        profile.accessibleBranchIds.includes(data.toBranchId)
+      ) {
+        const updated = await tx.userProfile.update({
+          where: { id },
+          data: { accessibleBranchIds: profile.accessibleBranchIds.filter(branchId => branchId !== data.toBranchId) },
+        });
+        return this.mapToEntity(updated);
+      }
+
+      return this.mapToEntity(profile);
+    });
+  }
+
+  async findTransfers(userProfileId: string): Promise<MemberTransferEntity[]> {
+    const transfers = await this.prisma.memberTransfer.findMany({
+      where: { userProfileId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return transfers.map(transfer => this.mapTransferToEntity(transfer));
+  }
+
+  /**
+   * Profiles with health data not encrypted with the given data key: under
+   * a retired key, or written before encryption.
+   */
+  async findHealthDataToReencrypt(activeKeyId: string, limit: number): Promise<UserProfileEntity[]> {
+    const profiles = await this.prisma.userProfile.findMany({
+      where: this.healthDataToReencryptWhere(activeKeyId),
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+
+    return profiles.map(profile => this.mapToEntity(profile));
+  }
+
+  async countHealthDataToReencrypt(activeKeyId: string): Promise<number> {
+    return this.prisma.userProfile.count({ where: this.healthDataToReencryptWhere(activeKeyId) });
+  }
+
+  /**
+   * Replaces the encrypted health data, unless it was re-encrypted or
+   * changed in the meantime.
+   */
+  async updateHealthData(
+    id: string,
+    fromKeyId: string | null,
+    data: HealthDataValues & { healthDataKeyId: string },
+  ): Promise<boolean> {
+    const updated = await this.prisma.userProfile.updateMany({
+      where: { id, healthDataKeyId: fromKeyId },
+      data,
+    });
+
+    return updated.count > 0;
+  }
+
+  /**
+   * Members counting towards the company's plan.
+   */
+  async countMembers(companyId: string): Promise<number> {
+    return this.prisma.userProfile.count({
+      where: { companyId, membershipStatus: { in: COUNTED_MEMBERSHIP_STATUSES } },
+    });
+  }
+
+  /**
+   * Counts the company's members under a per-company lock, so concurrent
+   * enrolments and reactivations cannot exceed the plan together.
+   */
+  private async hasMemberSeat(tx: any, companyId: string, maxMembers: number | null): Promise<boolean> {
+    if (maxMembers === null) {
+      return true;
+    }
+
+    await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${`members:${companyId}`}))`;
+
+    const members = await tx.userProfile.count({
+      where: { companyId, membershipStatus: { in: COUNTED_MEMBERSHIP_STATUSES } },
+    });
+
+    return members < maxMembers;
+  }
+
+  private mapToEntity(data: any): UserProfileEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      homeBranchId: data.homeBranchId,
+      branchAccess: data.branchAccess,
+      accessibleBranchIds: data.accessibleBranchIds ?? [],
+      dateOfBirth: data.dateOfBirth,
+      gender: data.gender,
+      phone: data.phone,
+      address: data.address,
+      city: data.city,
+      state: data.state,
+      country: data.country,
+      postalCode: data.postalCode,
+      emergencyContact: data.emergencyContact,
+      emergencyPhone: data.emergencyPhone,
+      medicalConditions: data.medicalConditions,
+      allergies: data.allergies,
+      medications: data.medications,
+      height: data.height,
+      weight: data.weight,
+      bodyFatPercentage: data.bodyFatPercentage,
+      bloodType: data.bloodType,
+      healthDataKeyId: data.healthDataKeyId,
+      fitnessGoals: data.fitnessGoals,
+      preferredTrainer: data.preferredTrainer,
+      joinDate: data.joinDate,
+      membershipStatus: data.membershipStatus,
+      membershipEndDate: data.membershipEndDate,
+      notes: data.notes,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+
+  private healthDataToReencryptWhere(activeKeyId: string): any {
+    return {
+      AND: [
+        { OR: [{ healthDataKeyId: null }, { healthDataKeyId: { not: activeKeyId } }] },
+        { OR: HEALTH_DATA_FIELDS.map(field => ({ [field]: { not: null } })) },
+      ],
+    };
+  }
+
+  private mapTransferToEntity(data: any): MemberTransferEntity {
+    return {
+      id: data.id,
+      userProfileId: data.userProfileId,
+      fromBranchId: data.fromBranchId,
+      toBranchId: data.toBranchId,
+      reason: data.reason,
+      transferredBy: data.transferredBy,
+      createdAt: data.createdAt,
+    };
+  }
+
+  private mapAuditToEntity(data: any): ProfileAuditEntryEntity {
+    return {
+      id: data.id,
+      userId: data.userId,
+      companyId: data.companyId,
+      action: data.action,
+      changedFields: data.changedFields ?? [],
+      fromStatus: data.fromStatus,
+      toStatus: data.toStatus,
+      reason: data.reason,
+      changedBy: data.changedBy,
+      createdAt: data.createdAt,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Read-only client for member visits recorded by attendance-service.
+ */
+@Injectable()
+export class AttendanceClientService {
+  private readonly logger = new Logger(AttendanceClientService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Visits of the member to the company's branches since the given time.
+   * Returns null when attendance-service cannot be reached.
+   */
+  async countVisits(userId: string, companyId: string, since: Date): Promise<number | null> {
+    const baseUrl = this.configService.get<string>('ATTENDANCE_SERVICE_URL', 'http://attendance-service:3009/api/v1');
+    const query = new URLSearchParams({ userId, companyId, since: since.toISOString() });
+
+    try {
+      const response = await fetch(`${baseUrl}/member-visits?${query}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-service-token': this.configService.get<string>('INTERNAL_SERVICE_TOKEN', ''),
+          'x-service-id': 'user-service',
+        },
+        signal: AbortSignal.timeout(Number(this.configService.get('INTERNAL_REQUEST_TIMEOUT_MS', 10000))),
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Member visit count failed', { userId, status: response.status });
+        return null;
+      }
+
+      const body = await response.json();
+      return (body?.data ?? body)?.visits ?? null;
+    } catch (error) {
+      this.logger.warn('Attendance service unavailable', { userId, error: error.message });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { BodyMeasurementRepository } from '../repositories/body-measurement.repository';
+import { ProfileService } from './profile.service';
+import { FitnessGoalService } from './fitness-goal.service';
+import { BodyMeasurementEntity, CreateBodyMeasurementEntity } from '../entities/body-measurement.entity';
+import { UserProfileEntity } from '../entities/user-profile.entity';
+import {
+  CreateBodyMeasurementDto,
+  MeasurementQueryDto,
+  MeasurementTrendsQueryDto,
+} from '../dto/body-measurement.dto';
+import { AuthenticatedUser } from '../types/profile.types';
+import {
+  DEFAULT_MOVING_AVERAGE_WINDOW,
+  MeasurementFilters,
+  MeasurementTrends,
+  TREND_METRICS,
+} from '../types/body-metrics.types';
+import {
+  ageOn,
+  buildMetricTrend,
+  calculateBmi,
+  calculateBmr,
+  calculateLeanMass,
+  calculateWaistToHipRatio,
+} from '../utils/body-metrics.util';
+
+type DerivedMetrics = Pick<CreateBodyMeasurementEntity, 'bmi' | 'bmr' | 'waistToHipRatio' | 'leanMass'>;
+
+/**
+ * Body measurements of a member and the metrics derived from them. Members
+ * record and read their own; staff those of members in their company. New
+ * measurements move the member's weight and muscle goals.
+ */
+@Injectable()
+export class BodyMeasurementService {
+  private readonly logger = new Logger(BodyMeasurementService.name);
+
+  constructor(
+    private readonly bodyMeasurementRepository: BodyMeasurementRepository,
+    private readonly profileService: ProfileService,
+    private readonly fitnessGoalService: FitnessGoalService,
+  ) {}
+
+  async recordMeasurement(
+    userId: string,
+    createDto: CreateBodyMeasurementDto,
+    user: AuthenticatedUser,
+  ): Promise<BodyMeasurementEntity> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+
+    const measurementDate = createDto.measurementDate ? new Date(createDto.measurementDate) : new Date();
+    if (measurementDate > new Date()) {
+      throw new BadRequestException('measurementDate cannot be in the future');
+    }
+
+    const measurement = await this.bodyMeasurementRepository.create({
+      ...createDto,
+      ...this.deriveMetrics(createDto, profile, measurementDate),
+      userProfileId: profile.id,
+      measurementDate,
+      recordedBy: user.id,
+    });
+
+    this.logger.log('Body measurement recorded', { userId, measurementId: measurement.id, recordedBy: user.id });
+
+    // The measurement is kept even if goal progress cannot be updated
+    try {
+      await this.fitnessGoalService.applyMeasurements(profile);
+    } catch (error) {
+      this.logger.error('Failed to update goal progress', { userId, measurementId: measurement.id, error: error.message });
+    }
+
+    return measurement;
+  }
+
+  async getMeasurements(
+    userId: string,
+    query: MeasurementQueryDto,
+    user: AuthenticatedUser,
+  ): Promise<BodyMeasurementEntity[]> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    return this.bodyMeasurementRepository.findByProfile(profile.id, this.toFilters(query));
+  }
+
+  /**
+   * Time series of every measured metric with its moving average and how
+   * far it moved since the first and the previous measurement.
+   */
+  async getTrends(userId: string, query: MeasurementTrendsQueryDto, user: AuthenticatedUser): Promise<MeasurementTrends> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    const filters = this.toFilters(query);
+    const window = query.window ?? DEFAULT_MOVING_AVERAGE_WINDOW;
+
+    const measurements = await this.bodyMeasurementRepository.findByProfile(profile.id, filters);
+
+    const trends: MeasurementTrends = {
+      userId,
+      from: filters.from,
+      to: filters.to,
+      movingAverageWindow: window,
+      measurementCount: measurements.length,
+      metrics: {},
+    };
+
+    for (const metric of TREND_METRICS) {
+      const trend = buildMetricTrend(metric, measurements, window);
+      if (trend) {
+        trends.metrics[metric] = trend;
+      }
+    }
+
+    return trends;
+  }
+
+  /**
+   * Height falls back to the profile's. BMR also needs the member's date
+   * of birth and gender; metrics missing an input are left empty.
+   */
+  private deriveMetrics(
+    createDto: CreateBodyMeasurementDto,
+    profile: UserProfileEntity,
+    measurementDate: Date,
+  ): DerivedMetrics {
+    const { weight, bodyFat, waist, hips } = createDto;
+    const height = createDto.height ?? profile.height;
+    const metrics: DerivedMetrics = {};
+
+    if (weight && height) {
+      metrics.bmi = calculateBmi(weight, height);
+
+      if (profile.dateOfBirth && profile.gender) {
+        metrics.bmr = calculateBmr(weight, height, ageOn(profile.dateOfBirth, measurementDate), profile.gender);
+      }
+    }
+
+    if (waist && hips) {
+      metrics.waistToHipRatio = calculateWaistToHipRatio(waist, hips);
+    }
+
+    if (weight && bodyFat) {
+      metrics.leanMass = calculateLeanMass(weight, bodyFat);
+    }
+
+    return metrics;
+  }
+
+  private toFilters(query: MeasurementQueryDto): MeasurementFilters {
+    const filters: MeasurementFilters = {
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+    };
+
+    if (filters.from && filters.to && filters.from > filters.to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    return filters;
+  }
+}
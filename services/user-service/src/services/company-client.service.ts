@@ -0,0 +1,74 @@
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CompanyEntitlements } from '../types/entitlement.types';
+import { BranchInfo, CompanyInfo } from '../types/profile.types';
+
+/**
+ * Read-only client for company data owned by company-service.
+ */
+@Injectable()
+export class CompanyClientService {
+  private readonly logger = new Logger(CompanyClientService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Returns null when the branch does not exist.
+   */
+  async getBranch(branchId: string): Promise<BranchInfo | null> {
+    const response = await this.request(`/branches/${branchId}`, { branchId });
+    if (response.status === 404) {
+      return null;
+    }
+
+    return this.readBody(response, { branchId });
+  }
+
+  /**
+   * The company with its settings, where per-company policies live.
+   */
+  async getCompany(companyId: string): Promise<CompanyInfo> {
+    const response = await this.request(`/companies/${companyId}`, { companyId });
+    return this.readBody(response, { companyId });
+  }
+
+  /**
+   * The company's plan limits.
+   */
+  async getEntitlements(companyId: string): Promise<CompanyEntitlements> {
+    const response = await this.request(`/companies/${companyId}/entitlements`, { companyId });
+    return this.readBody(response, { companyId });
+  }
+
+  /**
+   * Company data is needed to make a decision, so failures throw instead of
+   * returning nothing.
+   */
+  private async request(path: string, context: Record<string, string>): Promise<Response> {
+    const baseUrl = this.configService.get<string>('COMPANY_SERVICE_URL', 'http://company-service:3030/api/v1');
+
+    try {
+      return await fetch(`${baseUrl}${path}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-service-token': this.configService.get<string>('INTERNAL_SERVICE_TOKEN', ''),
+          'x-service-id': 'user-service',
+        },
+        signal: AbortSignal.timeout(Number(this.configService.get('INTERNAL_REQUEST_TIMEOUT_MS', 10000))),
+      });
+    } catch (error) {
+      this.logger.warn('Company service unavailable', { ...context, error: error.message });
+      throw new ServiceUnavailableException('Could not reach company-service');
+    }
+  }
+
+  private async readBody<T>(response: Response, context: Record<string, string>): Promise<T> {
+    if (!response.ok) {
+      this.logger.warn('Company service lookup failed', { ...context, status: response.status });
+      throw new ServiceUnavailableException('Could not load data from company-service');
+    }
+
+    const body = await response.json();
+    return body?.data ?? body;
+  }
+}
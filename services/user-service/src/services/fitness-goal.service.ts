@@ -0,0 +1,372 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FitnessGoalRepository } from '../repositories/fitness-goal.repository';
+import { BodyMeasurementRepository } from '../repositories/body-measurement.repository';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { ProfileService } from './profile.service';
+import { AttendanceClientService } from './attendance-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { FitnessGoalEntity } from '../entities/fitness-goal.entity';
+import { UserProfileEntity } from '../entities/user-profile.entity';
+import {
+  CreateFitnessGoalDto,
+  FitnessGoalQueryDto,
+  RecordGoalProgressDto,
+  UpdateFitnessGoalDto,
+} from '../dto/fitness-goal.dto';
+import { AuthenticatedUser } from '../types/profile.types';
+import {
+  FitnessGoalType,
+  MEASUREMENT_GOAL_METRICS,
+  TRACKED_GOAL_UNITS,
+  TrackedFitnessGoal,
+  VISIT_GOAL_TYPES,
+} from '../types/fitness-goal.types';
+import { computeGoalProgress, isGoalReached } from '../utils/goal-progress.util';
+
+/**
+ * Member fitness goals and their progress. Weight loss and muscle gain goals
+ * follow the member's body measurements, endurance and visit goals count
+ * check-ins since the goal was set, and other goals are updated by hand.
+ * Reaching the target completes the goal and announces it.
+ */
+@Injectable()
+export class FitnessGoalService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(FitnessGoalService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fitnessGoalRepository: FitnessGoalRepository,
+    private readonly bodyMeasurementRepository: BodyMeasurementRepository,
+    private readonly userProfileRepository: UserProfileRepository,
+    private readonly profileService: ProfileService,
+    private readonly attendanceClient: AttendanceClientService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('GOAL_PROGRESS_JOB_INTERVAL_MS', 60 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('Goal progress job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.refreshAll(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  // ===================
+  // GOALS
+  // ===================
+
+  async createGoal(userId: string, createDto: CreateFitnessGoalDto, user: AuthenticatedUser): Promise<TrackedFitnessGoal> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+
+    const trackedUnit = TRACKED_GOAL_UNITS[createDto.goalType];
+    if (trackedUnit && createDto.unit && createDto.unit !== trackedUnit) {
+      throw new BadRequestException(`${createDto.goalType} goals are tracked in ${trackedUnit}`);
+    }
+
+    const targetDate = createDto.targetDate ? new Date(createDto.targetDate) : undefined;
+    if (targetDate && targetDate <= new Date()) {
+      throw new BadRequestException('targetDate must be in the future');
+    }
+
+    const startValue = await this.resolveStartValue(profile, createDto);
+    this.assertTargetDirection(createDto.goalType, startValue, createDto.targetValue);
+
+    const goal = await this.fitnessGoalRepository.create({
+      userProfileId: profile.id,
+      goalType: createDto.goalType,
+      description: createDto.description,
+      startValue,
+      targetValue: createDto.targetValue,
+      currentValue: startValue,
+      unit: trackedUnit ?? createDto.unit,
+      targetDate,
+      priority: createDto.priority,
+      notes: createDto.notes,
+    });
+
+    this.logger.log('Fitness goal created', { userId, goalId: goal.id, goalType: goal.goalType, createdBy: user.id });
+    return this.track(goal);
+  }
+
+  /**
+   * Visit goals are brought up to date before they are returned.
+   */
+  async getGoals(userId: string, query: FitnessGoalQueryDto, user: AuthenticatedUser): Promise<TrackedFitnessGoal[]> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    await this.refreshVisitGoals(profile);
+
+    const goals = await this.fitnessGoalRepository.findByProfile(profile.id, query.includeCompleted ?? true);
+    return goals.map(goal => this.track(goal));
+  }
+
+  async getGoal(userId: string, goalId: string, user: AuthenticatedUser): Promise<TrackedFitnessGoal> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    const goal = await this.findGoal(profile, goalId);
+
+    if (!goal.isCompleted && VISIT_GOAL_TYPES.includes(goal.goalType as FitnessGoalType)) {
+      const [refreshed] = await this.refreshVisitGoals(profile, [goal]);
+      return this.track(refreshed);
+    }
+
+    return this.track(goal);
+  }
+
+  async updateGoal(
+    userId: string,
+    goalId: string,
+    updateDto: UpdateFitnessGoalDto,
+    user: AuthenticatedUser,
+  ): Promise<TrackedFitnessGoal> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    const goal = await this.findOpenGoal(profile, goalId);
+
+    const targetDate = updateDto.targetDate ? new Date(updateDto.targetDate) : undefined;
+    if (targetDate && targetDate <= new Date()) {
+      throw new BadRequestException('targetDate must be in the future');
+    }
+
+    if (updateDto.targetValue !== undefined) {
+      this.assertTargetDirection(goal.goalType, goal.startValue, updateDto.targetValue);
+    }
+
+    const updated = await this.fitnessGoalRepository.update(goal.id, { ...updateDto, targetDate });
+
+    // A lowered target may already be reached
+    return this.track(await this.applyProgress(profile, updated, updated.currentValue));
+  }
+
+  /**
+   * Progress of goals that don't follow measurements or check-ins.
+   */
+  async recordProgress(
+    userId: string,
+    goalId: string,
+    progressDto: RecordGoalProgressDto,
+    user: AuthenticatedUser,
+  ): Promise<TrackedFitnessGoal> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    const goal = await this.findOpenGoal(profile, goalId);
+
+    if (TRACKED_GOAL_UNITS[goal.goalType]) {
+      throw new BadRequestException(`${goal.goalType} goals are updated automatically`);
+    }
+
+    this.logger.log('Recording goal progress', { userId, goalId, currentValue: progressDto.currentValue, recordedBy: user.id });
+    return this.track(await this.applyProgress(profile, goal, progressDto.currentValue));
+  }
+
+  async deleteGoal(userId: string, goalId: string, user: AuthenticatedUser): Promise<void> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    const goal = await this.findGoal(profile, goalId);
+
+    await this.fitnessGoalRepository.delete(goal.id);
+    this.logger.log('Fitness goal deleted', { userId, goalId, deletedBy: user.id });
+  }
+
+  // ===================
+  // PROGRESS
+  // ===================
+
+  /**
+   * Moves the member's measurement goals to their latest measurements.
+   * Called after a measurement is recorded; a back-dated measurement
+   * leaves goals on the newer one. Goals set before the member had any
+   * measurement take the first one as their starting value.
+   */
+  async applyMeasurements(profile: UserProfileEntity): Promise<void> {
+    const goals = await this.fitnessGoalRepository.findOpenByTypes(Object.keys(MEASUREMENT_GOAL_METRICS), profile.id);
+
+    for (const goal of goals) {
+      const metric = MEASUREMENT_GOAL_METRICS[goal.goalType];
+      const latest = await this.bodyMeasurementRepository.findLatestWith(profile.id, metric);
+      if (!latest) {
+        continue;
+      }
+
+      if (goal.startValue === undefined || goal.startValue === null) {
+        await this.fitnessGoalRepository.update(goal.id, { startValue: latest[metric], currentValue: latest[metric] });
+        continue;
+      }
+
+      await this.applyProgress(profile, goal, latest[metric]);
+    }
+  }
+
+  /**
+   * Counts the member's visits since each open visit goal was set. Goals
+   * keep their last count when attendance-service cannot be reached.
+   */
+  async refreshVisitGoals(profile: UserProfileEntity, goals?: FitnessGoalEntity[]): Promise<FitnessGoalEntity[]> {
+    const open = goals ?? await this.fitnessGoalRepository.findOpenByTypes(VISIT_GOAL_TYPES, profile.id);
+    if (!profile.companyId) {
+      return open;
+    }
+
+    const refreshed: FitnessGoalEntity[] = [];
+    for (const goal of open) {
+      const visits = await this.attendanceClient.countVisits(profile.userId, profile.companyId, goal.createdAt);
+      refreshed.push(visits === null ? goal : await this.applyProgress(profile, goal, visits));
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Refreshes every open visit goal, so goals are completed and announced
+   * without the member opening the app.
+   */
+  async refreshAll(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let refreshed = 0;
+
+    try {
+      const goals = await this.fitnessGoalRepository.findOpenByTypes(VISIT_GOAL_TYPES);
+      const byProfile = new Map<string, FitnessGoalEntity[]>();
+      for (const goal of goals) {
+        byProfile.set(goal.userProfileId, [...(byProfile.get(goal.userProfileId) ?? []), goal]);
+      }
+
+      for (const [userProfileId, profileGoals] of byProfile) {
+        try {
+          const profile = await this.userProfileRepository.findById(userProfileId);
+          if (profile) {
+            await this.refreshVisitGoals(profile, profileGoals);
+            refreshed += profileGoals.length;
+          }
+        } catch (error) {
+          this.logger.error('Goal progress refresh failed', { userProfileId, error: error.message });
+        }
+      }
+
+      if (refreshed > 0) {
+        this.logger.log('Goal progress refresh completed', { refreshed });
+      }
+    } catch (error) {
+      this.logger.error('Goal progress refresh failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Stores the new value, completing the goal once the target is reached.
+   */
+  private async applyProgress(
+    profile: UserProfileEntity,
+    goal: FitnessGoalEntity,
+    currentValue: number | undefined,
+  ): Promise<FitnessGoalEntity> {
+    if (goal.isCompleted || currentValue === undefined || currentValue === null) {
+      return goal;
+    }
+
+    if (!isGoalReached({ ...goal, currentValue })) {
+      return goal.currentValue === currentValue
+        ? goal
+        : this.fitnessGoalRepository.update(goal.id, { currentValue });
+    }
+
+    const completed = await this.fitnessGoalRepository.complete(goal.id, currentValue, new Date());
+    if (!completed) {
+      // Completed in the meantime, and already announced
+      return (await this.fitnessGoalRepository.findById(goal.id)) ?? goal;
+    }
+
+    this.logger.log('Fitness goal completed', { userId: profile.userId, goalId: goal.id, goalType: goal.goalType });
+
+    await this.notificationClient.publish('member.goal.completed', {
+      userId: profile.userId,
+      companyId: profile.companyId,
+      goalId: completed.id,
+      goalType: completed.goalType,
+      description: completed.description,
+      startValue: completed.startValue,
+      targetValue: completed.targetValue,
+      currentValue: completed.currentValue,
+      unit: completed.unit,
+      targetDate: completed.targetDate,
+      completedAt: completed.completedDate,
+      recipientIds: [profile.userId, profile.preferredTrainer].filter(Boolean),
+    });
+
+    return completed;
+  }
+
+  /**
+   * Measurement goals start from the latest measurement (or the profile's
+   * weight) unless given a start value; visit goals start at zero.
+   */
+  private async resolveStartValue(profile: UserProfileEntity, createDto: CreateFitnessGoalDto): Promise<number | undefined> {
+    if (VISIT_GOAL_TYPES.includes(createDto.goalType)) {
+      return 0;
+    }
+
+    const metric = MEASUREMENT_GOAL_METRICS[createDto.goalType];
+    if (!metric || createDto.startValue !== undefined) {
+      return createDto.startValue;
+    }
+
+    const latest = await this.bodyMeasurementRepository.findLatestWith(profile.id, metric);
+    return latest?.[metric] ?? (metric === 'weight' ? profile.weight : undefined);
+  }
+
+  private assertTargetDirection(goalType: string, startValue: number | undefined, targetValue: number | undefined): void {
+    if (startValue === undefined || startValue === null || targetValue === undefined) {
+      return;
+    }
+
+    if (goalType === FitnessGoalType.WEIGHT_LOSS && targetValue >= startValue) {
+      throw new BadRequestException(`Target weight must be below the starting weight of ${startValue} kg`);
+    }
+
+    if (TRACKED_GOAL_UNITS[goalType] && goalType !== FitnessGoalType.WEIGHT_LOSS && targetValue <= startValue) {
+      throw new BadRequestException(`Target must be above the starting value of ${startValue}`);
+    }
+  }
+
+  private async findGoal(profile: UserProfileEntity, goalId: string): Promise<FitnessGoalEntity> {
+    const goal = await this.fitnessGoalRepository.findById(goalId);
+    if (!goal || goal.userProfileId !== profile.id) {
+      throw new NotFoundException(`Fitness goal with ID ${goalId} not found`);
+    }
+
+    return goal;
+  }
+
+  private async findOpenGoal(profile: UserProfileEntity, goalId: string): Promise<FitnessGoalEntity> {
+    const goal = await this.findGoal(profile, goalId);
+    if (goal.isCompleted) {
+      throw new BadRequestException('Completed goals cannot be changed');
+    }
+
+    return goal;
+  }
+
+  private track(goal: FitnessGoalEntity): TrackedFitnessGoal {
+    return { ...goal, progress: computeGoalProgress(goal, new Date()) };
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HealthDataKeyStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { HealthDataKeyRepository } from '../repositories/health-data-key.repository';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { HealthDataKeyEntity } from '../entities/health-data.entity';
+import { UserProfileEntity } from '../entities/user-profile.entity';
+import { AuthenticatedUser, HEALTH_DATA_FIELDS } from '../types/profile.types';
+import {
+  HealthDataKeyInfo,
+  HealthDataKeyStatusSummary,
+  HealthDataValues,
+  REENCRYPTION_BATCH_SIZE,
+} from '../types/health-data.types';
+import {
+  decryptValue,
+  encryptValue,
+  generateDataKey,
+  isEncryptedValue,
+  parseKeyEncryptionKeys,
+  unwrapDataKey,
+  wrapDataKey,
+} from '../utils/envelope-encryption.util';
+
+type EncryptedProfileFields = Pick<UserProfileEntity, 'userId' | 'healthDataKeyId' | (typeof HEALTH_DATA_FIELDS)[number]>;
+
+/**
+ * Envelope encryption of member health data. Values are encrypted with a
+ * data key stored in the database, which is itself wrapped with a
+ * key-encryption key (KEK) from HEALTH_DATA_KEKS. Rotating the data key, or
+ * configuring a new active KEK, is followed by a background job that moves
+ * existing data over.
+ */
+@Injectable()
+export class HealthDataEncryptionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HealthDataEncryptionService.name);
+  private readonly dataKeys = new Map<string, Buffer>(); // Unwrapped data keys by ID
+  private keks = new Map<string, Buffer>();
+  private activeKekId?: string;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly healthDataKeyRepository: HealthDataKeyRepository,
+    private readonly userProfileRepository: UserProfileRepository,
+  ) {}
+
+  onModuleInit() {
+    try {
+      this.keks = parseKeyEncryptionKeys(this.configService.get<string>('HEALTH_DATA_KEKS'));
+    } catch (error) {
+      this.logger.error('Invalid health data key-encryption keys', { error: error.message });
+    }
+
+    const activeKekId = this.configService.get<string>('HEALTH_DATA_ACTIVE_KEK') ?? [...this.keks.keys()].pop();
+    if (!activeKekId || !this.keks.has(activeKekId)) {
+      this.logger.error('Health data encryption is not configured; health data cannot be read or written');
+      return;
+    }
+
+    this.activeKekId = activeKekId;
+
+    const interval = Number(this.configService.get('HEALTH_DATA_REENCRYPTION_INTERVAL_MS', 10 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('Health data re-encryption job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.reencryptAll(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  // ===================
+  // VALUES
+  // ===================
+
+  /**
+   * Encrypts the given fields with the active data key. Null clears a field.
+   */
+  async encrypt(userId: string, values: HealthDataValues): Promise<{ values: HealthDataValues; healthDataKeyId: string }> {
+    const dataKey = await this.getActiveDataKey();
+
+    return {
+      values: this.encryptWith(dataKey.key, userId, values),
+      healthDataKeyId: dataKey.id,
+    };
+  }
+
+  /**
+   * Plaintext health data of the profile. Values written before encryption
+   * are returned as stored.
+   */
+  async decrypt(profile: EncryptedProfileFields): Promise<HealthDataValues> {
+    const encrypted = HEALTH_DATA_FIELDS.filter(field => isEncryptedValue(profile[field]));
+    const key = encrypted.length > 0 ? await this.getDataKey(profile.healthDataKeyId) : undefined;
+    const values: HealthDataValues = {};
+
+    for (const field of HEALTH_DATA_FIELDS) {
+      const value = profile[field];
+
+      try {
+        values[field] = isEncryptedValue(value) ? decryptValue(key, value, `${profile.userId}:${field}`) : value;
+      } catch (error) {
+        this.logger.error('Health data decryption failed', { userId: profile.userId, field, error: error.message });
+        throw new InternalServerErrorException('Health data could not be decrypted');
+      }
+    }
+
+    return values;
+  }
+
+  // ===================
+  // KEYS
+  // ===================
+
+  async getStatus(): Promise<HealthDataKeyStatusSummary> {
+    const keys = await this.healthDataKeyRepository.findAll();
+    const active = keys.find(key => key.status === HealthDataKeyStatus.ACTIVE);
+
+    return {
+      configured: !!this.activeKekId,
+      activeKekId: this.activeKekId,
+      kekIds: [...this.keks.keys()],
+      keys: keys.map(key => this.toKeyInfo(key)),
+      pendingProfiles: active ? await this.userProfileRepository.countHealthDataToReencrypt(active.id) : 0,
+    };
+  }
+
+  /**
+   * Starts encrypting with a new data key and re-encrypts existing data in
+   * the background. The retired key keeps decrypting until then.
+   */
+  async rotateDataKey(user: AuthenticatedUser): Promise<HealthDataKeyInfo> {
+    const key = await this.createDataKey();
+    this.logger.log('Health data key rotated', { id: key.id, rotatedBy: user.id });
+
+    this.reencryptAll().catch(error =>
+      this.logger.error('Health data re-encryption failed', { error: error.message }),
+    );
+
+    return this.toKeyInfo(key);
+  }
+
+  /**
+   * Rewraps data keys still wrapped with an old KEK, then re-encrypts
+   * profiles not on the active data key in batches. Profiles that fail are
+   * retried on the next run.
+   */
+  async reencryptAll(): Promise<number> {
+    if (this.running || !this.activeKekId) {
+      return 0;
+    }
+
+    this.running = true;
+    let reencrypted = 0;
+
+    try {
+      await this.rewrapDataKeys();
+
+      const active = await this.getActiveDataKey();
+
+      for (;;) {
+        const profiles = await this.userProfileRepository.findHealthDataToReencrypt(active.id, REENCRYPTION_BATCH_SIZE);
+        let batch = 0;
+
+        for (const profile of profiles) {
+          try {
+            const values = this.encryptWith(active.key, profile.userId, await this.decrypt(profile));
+            const updated = await this.userProfileRepository.updateHealthData(profile.id, profile.healthDataKeyId ?? null, {
+              ...values,
+              healthDataKeyId: active.id,
+            });
+
+            if (updated) {
+              batch++;
+            }
+          } catch (error) {
+            this.logger.error('Health data re-encryption failed', { userId: profile.userId, error: error.message });
+          }
+        }
+
+        reencrypted += batch;
+
+        // Stop on the last batch, or when nothing in it could be moved
+        if (profiles.length < REENCRYPTION_BATCH_SIZE || batch === 0) {
+          break;
+        }
+      }
+
+      if (reencrypted > 0) {
+        this.logger.log('Health data re-encryption completed', { reencrypted, dataKeyId: active.id });
+      }
+    } catch (error) {
+      this.logger.error('Health data re-encryption failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return reencrypted;
+  }
+
+  private async rewrapDataKeys(): Promise<void> {
+    const keys = await this.healthDataKeyRepository.findWrappedWithOtherKek(this.activeKekId);
+
+    for (const key of keys) {
+      try {
+        const dataKey = await this.getDataKey(key.id);
+        const wrappedKey = wrapDataKey(this.keks.get(this.activeKekId), dataKey, key.id);
+
+        if (await this.healthDataKeyRepository.rewrap(key.id, key.kekId, this.activeKekId, wrappedKey)) {
+          this.logger.log('Health data key rewrapped', { id: key.id, fromKekId: key.kekId, kekId: this.activeKekId });
+        }
+      } catch (error) {
+        this.logger.error('Health data key rewrap failed', { id: key.id, kekId: key.kekId, error: error.message });
+      }
+    }
+  }
+
+  private async getActiveDataKey(): Promise<{ id: string; key: Buffer }> {
+    this.assertConfigured();
+
+    const active = (await this.healthDataKeyRepository.findActive()) ?? (await this.createDataKey());
+    return { id: active.id, key: await this.getDataKey(active.id, active) };
+  }
+
+  private async createDataKey(): Promise<HealthDataKeyEntity> {
+    this.assertConfigured();
+
+    const id = randomUUID();
+    const dataKey = generateDataKey();
+    const key = await this.healthDataKeyRepository.createActive({
+      id,
+      kekId: this.activeKekId,
+      wrappedKey: wrapDataKey(this.keks.get(this.activeKekId), dataKey, id),
+    });
+
+    this.dataKeys.set(id, dataKey);
+    this.logger.log('Health data key created', { id, kekId: this.activeKekId });
+
+    return key;
+  }
+
+  private async getDataKey(id: string | undefined, known?: HealthDataKeyEntity): Promise<Buffer> {
+    const cached = id && this.dataKeys.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const key = known ?? (id ? await this.healthDataKeyRepository.findById(id) : null);
+    if (!key) {
+      this.logger.error('Health data key not found', { id });
+      throw new InternalServerErrorException('Health data could not be decrypted');
+    }
+
+    const kek = this.keks.get(key.kekId);
+    if (!kek) {
+      this.logger.error('Key-encryption key not configured', { id: key.id, kekId: key.kekId });
+      throw new ServiceUnavailableException('Health data encryption is not configured');
+    }
+
+    const dataKey = unwrapDataKey(kek, key.wrappedKey, key.id);
+    this.dataKeys.set(key.id, dataKey);
+
+    return dataKey;
+  }
+
+  private encryptWith(key: Buffer, userId: string, values: HealthDataValues): HealthDataValues {
+    const encrypted: HealthDataValues = {};
+
+    for (const field of HEALTH_DATA_FIELDS) {
+      const value = values[field];
+      if (value !== undefined) {
+        encrypted[field] = value === null ? null : encryptValue(key, value, `${userId}:${field}`);
+      }
+    }
+
+    return encrypted;
+  }
+
+  private assertConfigured(): void {
+    if (!this.activeKekId) {
+      throw new ServiceUnavailableException('Health data encryption is not configured');
+    }
+  }
+
+  private toKeyInfo(key: HealthDataKeyEntity): HealthDataKeyInfo {
+    return {
+      id: key.id,
+      kekId: key.kekId,
+      status: key.status,
+      createdAt: key.createdAt,
+      retiredAt: key.retiredAt,
+      rewrappedAt: key.rewrappedAt,
+    };
+  }
+}
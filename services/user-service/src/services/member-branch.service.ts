@@ -0,0 +1,158 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { BranchAccessScope } from '@prisma/client';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { CompanyClientService } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { MemberTransferEntity, UserProfileEntity } from '../entities/user-profile.entity';
+import { TransferMemberDto, UpdateBranchAccessDto } from '../dto/profile.dto';
+import { AuthenticatedUser, BranchInfo } from '../types/profile.types';
+import { assertCanAccessCompany } from '../utils/tenant-access.util';
+import { withoutHealthData } from '../utils/profile-visibility.util';
+
+/**
+ * Which of the company's branches a member may use, and transfers of their
+ * home branch. Visits stay recorded against the branch they happened at, so
+ * a transfer keeps the member's history intact.
+ */
+@Injectable()
+export class MemberBranchService {
+  private readonly logger = new Logger(MemberBranchService.name);
+
+  constructor(
+    private readonly userProfileRepository: UserProfileRepository,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  /**
+   * Checks the branches exist and belong to the company, and returns the
+   * extra branches to store: only SELECTED_BRANCHES keeps any, and never the
+   * home branch itself.
+   */
+  async resolveBranchAccess(
+    companyId: string,
+    branchAccess: BranchAccessScope,
+    homeBranchId?: string,
+    accessibleBranchIds: string[] = [],
+  ): Promise<string[]> {
+    if (branchAccess !== BranchAccessScope.ALL_BRANCHES && !homeBranchId) {
+      throw new BadRequestException(`${branchAccess} access requires a home branch`);
+    }
+
+    const extra = branchAccess === BranchAccessScope.SELECTED_BRANCHES
+      ? [...new Set(accessibleBranchIds)].filter(id => id !== homeBranchId)
+      : [];
+
+    for (const branchId of [homeBranchId, ...extra].filter(Boolean)) {
+      await this.findCompanyBranch(companyId, branchId);
+    }
+
+    return extra;
+  }
+
+  async updateBranchAccess(
+    userId: string,
+    accessDto: UpdateBranchAccessDto,
+    user: AuthenticatedUser,
+  ): Promise<UserProfileEntity> {
+    const profile = await this.findMember(userId, user);
+
+    const accessibleBranchIds = await this.resolveBranchAccess(
+      profile.companyId,
+      accessDto.branchAccess,
+      profile.homeBranchId,
+      accessDto.accessibleBranchIds,
+    );
+
+    this.logger.log('Updating branch access', { userId, branchAccess: accessDto.branchAccess, updatedBy: user.id });
+
+    const updated = await this.userProfileRepository.updateBranchAccess(profile.id, {
+      branchAccess: accessDto.branchAccess,
+      accessibleBranchIds,
+    });
+
+    return withoutHealthData(updated);
+  }
+
+  /**
+   * Moves the member's home branch and lets the managers of both branches know.
+   */
+  async transferMember(userId: string, transferDto: TransferMemberDto, user: AuthenticatedUser): Promise<UserProfileEntity> {
+    const profile = await this.findMember(userId, user);
+
+    if (profile.homeBranchId === transferDto.toBranchId) {
+      throw new BadRequestException('Member already belongs to this branch');
+    }
+
+    const toBranch = await this.findCompanyBranch(profile.companyId, transferDto.toBranchId);
+    if (toBranch.status === 'INACTIVE') {
+      throw new BadRequestException('Members cannot be transferred to an inactive branch');
+    }
+
+    const fromBranch = profile.homeBranchId ? await this.companyClient.getBranch(profile.homeBranchId) : null;
+
+    const transferred = await this.userProfileRepository.transfer(profile.id, profile.homeBranchId ?? null, {
+      toBranchId: toBranch.id,
+      reason: transferDto.reason,
+      transferredBy: user.id,
+    });
+
+    if (!transferred) {
+      throw new ConflictException('Member was transferred in the meantime');
+    }
+
+    this.logger.log('Member transferred', { userId, fromBranchId: profile.homeBranchId, toBranchId: toBranch.id });
+
+    await this.notificationClient.publish('member.transferred', {
+      userId,
+      companyId: profile.companyId,
+      fromBranchId: fromBranch?.id,
+      fromBranchName: fromBranch?.name,
+      toBranchId: toBranch.id,
+      toBranchName: toBranch.name,
+      reason: transferDto.reason,
+      transferredBy: user.id,
+      recipientIds: [...new Set([fromBranch?.managerId, toBranch.managerId].filter(Boolean))],
+    });
+
+    return withoutHealthData(transferred);
+  }
+
+  async getTransfers(userId: string, user: AuthenticatedUser): Promise<MemberTransferEntity[]> {
+    const profile = await this.findMember(userId, user);
+    return this.userProfileRepository.findTransfers(profile.id);
+  }
+
+  private async findMember(userId: string, user: AuthenticatedUser): Promise<UserProfileEntity> {
+    const profile = await this.userProfileRepository.findByUserId(userId);
+    if (!profile) {
+      throw new NotFoundException(`Profile for user ${userId} not found`);
+    }
+
+    if (!profile.companyId) {
+      throw new BadRequestException('Member is not enrolled with a company');
+    }
+
+    assertCanAccessCompany(user, profile.companyId);
+    return profile;
+  }
+
+  private async findCompanyBranch(companyId: string, branchId: string): Promise<BranchInfo> {
+    const branch = await this.companyClient.getBranch(branchId);
+    if (!branch) {
+      throw new NotFoundException(`Branch with ID ${branchId} not found`);
+    }
+
+    if (branch.companyId !== companyId) {
+      throw new BadRequestException('Branch does not belong to the member\'s company');
+    }
+
+    return branch;
+  }
+}
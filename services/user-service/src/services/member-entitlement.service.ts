@@ -0,0 +1,73 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { CompanyClientService } from './company-client.service';
+import { SubscriptionClientService } from './subscription-client.service';
+import { UpgradeRequiredException } from '../exceptions/upgrade-required.exception';
+
+/**
+ * Enforces the member limit of the company's plan, which company-service
+ * owns, against the members this service holds.
+ */
+@Injectable()
+export class MemberEntitlementService {
+  private readonly logger = new Logger(MemberEntitlementService.name);
+
+  constructor(
+    private readonly userProfileRepository: UserProfileRepository,
+    private readonly companyClient: CompanyClientService,
+    private readonly subscriptionClient: SubscriptionClientService,
+  ) {}
+
+  /**
+   * Returns the member limit, null when unlimited. The repository checks it
+   * again under a lock when saving, since this check alone can race.
+   */
+  async assertCanAddMember(companyId: string): Promise<number | null> {
+    const entitlements = await this.companyClient.getEntitlements(companyId);
+    const limit = entitlements.limits?.members;
+    if (limit === null || limit === undefined) {
+      return null;
+    }
+
+    const plan = entitlements.plan;
+    if (plan && !plan.isCurrent) {
+      throw new UpgradeRequiredException(
+        `the ${plan.name} plan is no longer active. Renew your subscription to add members.`,
+        limit,
+      );
+    }
+
+    const members = await this.userProfileRepository.countMembers(companyId);
+    if (members + 1 > limit) {
+      this.logger.log('Plan limit reached', { companyId, resource: 'members', used: members, limit });
+      throw this.upgradeRequired(plan?.name, limit);
+    }
+
+    return limit;
+  }
+
+  /**
+   * The error for a limit found reached when saving.
+   */
+  async limitReached(companyId: string, limit: number): Promise<UpgradeRequiredException> {
+    const entitlements = await this.companyClient.getEntitlements(companyId);
+
+    this.logger.log('Plan limit reached', { companyId, resource: 'members', limit });
+    return this.upgradeRequired(entitlements.plan?.name, limit);
+  }
+
+  /**
+   * Pushes the company's member count to subscription-service.
+   */
+  async syncUsage(companyId: string): Promise<void> {
+    const members = await this.userProfileRepository.countMembers(companyId);
+    await this.subscriptionClient.reportMemberCount(companyId, members);
+  }
+
+  private upgradeRequired(planName: string | undefined, limit: number): UpgradeRequiredException {
+    return new UpgradeRequiredException(
+      `the ${planName ?? 'current'} plan allows ${limit} members. Upgrade your subscription to add more.`,
+      limit,
+    );
+  }
+}
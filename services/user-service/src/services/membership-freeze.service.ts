@@ -0,0 +1,382 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MembershipFreezeStatus, MembershipStatus, ProfileAuditAction } from '@prisma/client';
+import { MembershipFreezeRepository } from '../repositories/membership-freeze.repository';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { ProfileService } from './profile.service';
+import { CompanyClientService } from './company-client.service';
+import { NotificationClientService } from './notification-client.service';
+import { MembershipFreezeEntity } from '../entities/membership-freeze.entity';
+import { UserProfileEntity } from '../entities/user-profile.entity';
+import { CreateMembershipFreezeDto } from '../dto/membership-freeze.dto';
+import { AuthenticatedUser } from '../types/profile.types';
+import {
+  DEFAULT_FREEZE_POLICY,
+  FreezeAllowance,
+  MembershipFreezeOverview,
+  MembershipFreezePolicy,
+  OPEN_FREEZE_STATUSES,
+} from '../types/membership-freeze.types';
+import {
+  addDays,
+  countDays,
+  countDaysInYear,
+  freezeDaysInYear,
+  toUtcDate,
+} from '../utils/membership-freeze.util';
+
+/**
+ * Membership freezes. A member pauses their membership for a date range
+ * within the company's yearly allowance; while frozen they cannot check in.
+ * When the freeze ends the membership is reactivated and its end date moves
+ * by the days actually frozen. Freezes start and end on their dates through
+ * a periodic job.
+ */
+@Injectable()
+export class MembershipFreezeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MembershipFreezeService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly membershipFreezeRepository: MembershipFreezeRepository,
+    private readonly userProfileRepository: UserProfileRepository,
+    private readonly profileService: ProfileService,
+    private readonly companyClient: CompanyClientService,
+    private readonly notificationClient: NotificationClientService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('MEMBERSHIP_FREEZE_JOB_INTERVAL_MS', 15 * 60 * 1000));
+    if (interval <= 0) {
+      this.logger.log('Membership freeze job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.processDueFreezes(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async getPolicy(companyId: string): Promise<MembershipFreezePolicy> {
+    const company = await this.companyClient.getCompany(companyId);
+    const overrides = company?.settings?.membershipFreezePolicy ?? {};
+
+    const policy = { ...DEFAULT_FREEZE_POLICY };
+    for (const key of Object.keys(DEFAULT_FREEZE_POLICY) as (keyof MembershipFreezePolicy)[]) {
+      const value = overrides[key];
+      if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+        policy[key] = value;
+      }
+    }
+
+    return policy;
+  }
+
+  // ===================
+  // FREEZES
+  // ===================
+
+  async getFreezes(userId: string, user: AuthenticatedUser): Promise<MembershipFreezeOverview> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    const [freezes, policy] = await Promise.all([
+      this.membershipFreezeRepository.findByProfile(profile.id),
+      this.getPolicy(profile.companyId),
+    ]);
+
+    return {
+      membershipStatus: profile.membershipStatus,
+      membershipEndDate: profile.membershipEndDate,
+      policy,
+      allowance: this.getAllowance(freezes, policy, toUtcDate(new Date()).getUTCFullYear()),
+      freezes,
+    };
+  }
+
+  /**
+   * Schedules a freeze of an active membership. Every calendar year the
+   * freeze touches must have enough days left; a freeze starting today
+   * takes effect immediately.
+   */
+  async requestFreeze(
+    userId: string,
+    createDto: CreateMembershipFreezeDto,
+    user: AuthenticatedUser,
+  ): Promise<MembershipFreezeEntity> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    if (!profile.companyId) {
+      throw new BadRequestException('Only company members can freeze their membership');
+    }
+    if (profile.membershipStatus !== MembershipStatus.ACTIVE) {
+      throw new BadRequestException(`A ${profile.membershipStatus.toLowerCase()} membership cannot be frozen`);
+    }
+
+    const today = toUtcDate(new Date());
+    const startDate = toUtcDate(createDto.startDate);
+    const endDate = toUtcDate(createDto.endDate);
+
+    if (startDate < today) {
+      throw new BadRequestException('startDate cannot be in the past');
+    }
+    if (endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    if (profile.membershipEndDate && startDate > toUtcDate(profile.membershipEndDate)) {
+      throw new BadRequestException('The membership ends before the freeze would start');
+    }
+
+    const policy = await this.getPolicy(profile.companyId);
+    if (policy.maxFreezeDaysPerYear === 0) {
+      throw new BadRequestException('Membership freezes are not available');
+    }
+
+    const days = countDays(startDate, endDate);
+    if (days < policy.minFreezeDays) {
+      throw new BadRequestException(`A freeze must last at least ${policy.minFreezeDays} days`);
+    }
+    if (days > policy.maxFreezeDays) {
+      throw new BadRequestException(`A freeze can last at most ${policy.maxFreezeDays} days`);
+    }
+
+    const freezes = await this.membershipFreezeRepository.findByProfile(profile.id);
+    if (freezes.some(freeze => OPEN_FREEZE_STATUSES.includes(freeze.status))) {
+      throw new ConflictException('Membership already has a scheduled or active freeze');
+    }
+
+    for (let year = startDate.getUTCFullYear(); year <= endDate.getUTCFullYear(); year++) {
+      const allowance = this.getAllowance(freezes, policy, year);
+      if (countDaysInYear(startDate, endDate, year) > allowance.remainingDays) {
+        throw new BadRequestException(`Only ${allowance.remainingDays} freeze days are left in ${year}`);
+      }
+    }
+
+    const freeze = await this.membershipFreezeRepository.create({
+      userProfileId: profile.id,
+      companyId: profile.companyId,
+      startDate,
+      endDate,
+      reason: createDto.reason,
+      requestedBy: user.id,
+    });
+
+    this.logger.log('Membership freeze scheduled', { userId, freezeId: freeze.id, days, requestedBy: user.id });
+
+    if (startDate <= today) {
+      const started = await this.startFreeze(freeze, profile, user.id);
+      if (!started) {
+        throw new ConflictException('Membership status was changed in the meantime');
+      }
+
+      return started;
+    }
+
+    return freeze;
+  }
+
+  /**
+   * Ends an active freeze today, or cancels one that has not started yet.
+   */
+  async endFreeze(userId: string, freezeId: string, user: AuthenticatedUser): Promise<MembershipFreezeEntity> {
+    const profile = await this.profileService.findViewableProfile(userId, user);
+    const freeze = await this.membershipFreezeRepository.findById(freezeId);
+    if (!freeze || freeze.userProfileId !== profile.id) {
+      throw new NotFoundException(`Membership freeze with ID ${freezeId} not found`);
+    }
+
+    if (freeze.status === MembershipFreezeStatus.SCHEDULED) {
+      const cancelled = await this.membershipFreezeRepository.cancel(freeze.id, user.id);
+      if (!cancelled) {
+        throw new ConflictException('Membership freeze was changed in the meantime');
+      }
+
+      this.logger.log('Membership freeze cancelled', { userId, freezeId, cancelledBy: user.id });
+      return cancelled;
+    }
+
+    if (freeze.status !== MembershipFreezeStatus.ACTIVE) {
+      throw new BadRequestException(`Membership freeze is already ${freeze.status.toLowerCase()}`);
+    }
+
+    // Today is the first day back
+    const lastFrozenDay = addDays(toUtcDate(new Date()), -1);
+    const completed = await this.completeFreeze(
+      freeze,
+      profile,
+      lastFrozenDay < freeze.endDate ? lastFrozenDay : freeze.endDate,
+      user.id,
+    );
+    if (!completed) {
+      throw new ConflictException('Membership freeze was changed in the meantime');
+    }
+
+    return completed;
+  }
+
+  // ===================
+  // SCHEDULING
+  // ===================
+
+  /**
+   * Reactivates memberships whose freeze has run its course, then freezes
+   * those whose freeze starts today.
+   */
+  async processDueFreezes(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let processed = 0;
+
+    try {
+      const today = toUtcDate(new Date());
+      const [dueToEnd, dueToStart] = await Promise.all([
+        this.membershipFreezeRepository.findDueToEnd(today),
+        this.membershipFreezeRepository.findDueToStart(today),
+      ]);
+
+      for (const freeze of [...dueToEnd, ...dueToStart]) {
+        try {
+          const profile = await this.userProfileRepository.findById(freeze.userProfileId);
+          const changed = freeze.status === MembershipFreezeStatus.ACTIVE
+            ? await this.completeFreeze(freeze, profile, freeze.endDate)
+            : await this.startFreeze(freeze, profile);
+
+          if (changed) {
+            processed++;
+          }
+        } catch (error) {
+          this.logger.error('Membership freeze processing failed', { freezeId: freeze.id, error: error.message });
+        }
+      }
+
+      if (processed > 0) {
+        this.logger.log('Membership freezes processed', { processed });
+      }
+    } catch (error) {
+      this.logger.error('Membership freeze processing failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Freezes the membership. A freeze whose membership is no longer active
+   * when it is due is cancelled instead, and null is returned.
+   */
+  private async startFreeze(
+    freeze: MembershipFreezeEntity,
+    profile: UserProfileEntity,
+    startedBy?: string,
+  ): Promise<MembershipFreezeEntity | null> {
+    const started = await this.membershipFreezeRepository.activate(freeze.id, profile.id, {
+      userId: profile.userId,
+      companyId: profile.companyId,
+      action: ProfileAuditAction.STATUS_CHANGED,
+      changedFields: ['membershipStatus'],
+      fromStatus: MembershipStatus.ACTIVE,
+      toStatus: MembershipStatus.FROZEN,
+      reason: freeze.reason ?? 'Membership freeze started',
+      changedBy: startedBy,
+    });
+
+    if (!started) {
+      await this.membershipFreezeRepository.cancel(freeze.id);
+      this.logger.warn('Membership freeze cancelled, membership is not active', {
+        userId: profile.userId,
+        freezeId: freeze.id,
+        membershipStatus: profile.membershipStatus,
+      });
+      return null;
+    }
+
+    this.logger.log('Membership frozen', { userId: profile.userId, freezeId: freeze.id });
+
+    await this.notificationClient.publish('member.membership.frozen', {
+      userId: profile.userId,
+      companyId: profile.companyId,
+      freezeId: freeze.id,
+      startDate: started.startDate,
+      endDate: started.endDate,
+      reason: started.reason,
+    });
+
+    return started;
+  }
+
+  /**
+   * Reactivates the membership and extends its end date by the days frozen
+   * up to and including lastFrozenDay. Returns null if the freeze was ended
+   * in the meantime.
+   */
+  private async completeFreeze(
+    freeze: MembershipFreezeEntity,
+    profile: UserProfileEntity,
+    lastFrozenDay: Date,
+    endedBy?: string,
+  ): Promise<MembershipFreezeEntity | null> {
+    const frozenDays = countDays(freeze.startDate, lastFrozenDay);
+    const membershipEndDate = profile.membershipEndDate && frozenDays > 0
+      ? addDays(toUtcDate(profile.membershipEndDate), frozenDays)
+      : undefined;
+
+    const completed = await this.membershipFreezeRepository.complete(
+      freeze.id,
+      profile.id,
+      { frozenDays, endedAt: new Date(), endedBy, membershipEndDate },
+      {
+        userId: profile.userId,
+        companyId: profile.companyId,
+        action: ProfileAuditAction.STATUS_CHANGED,
+        changedFields: membershipEndDate ? ['membershipStatus', 'membershipEndDate'] : ['membershipStatus'],
+        fromStatus: MembershipStatus.FROZEN,
+        toStatus: MembershipStatus.ACTIVE,
+        reason: endedBy ? 'Membership freeze ended early' : 'Membership freeze ended',
+        changedBy: endedBy,
+      },
+    );
+
+    if (!completed) {
+      return null;
+    }
+
+    this.logger.log('Membership reactivated', { userId: profile.userId, freezeId: freeze.id, frozenDays, endedBy });
+
+    await this.notificationClient.publish('member.membership.reactivated', {
+      userId: profile.userId,
+      companyId: profile.companyId,
+      freezeId: freeze.id,
+      frozenDays,
+      membershipEndDate: membershipEndDate ?? profile.membershipEndDate,
+      endedEarly: !!endedBy,
+    });
+
+    return completed;
+  }
+
+  private getAllowance(freezes: MembershipFreezeEntity[], policy: MembershipFreezePolicy, year: number): FreezeAllowance {
+    const usedDays = freezes.reduce((total, freeze) => total + freezeDaysInYear(freeze, year), 0);
+
+    return {
+      year,
+      maxDays: policy.maxFreezeDaysPerYear,
+      usedDays,
+      remainingDays: Math.max(0, policy.maxFreezeDaysPerYear - usedDays),
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Publishes member domain events to the notification service.
+ * Delivery is best-effort: failures are logged and never fail the caller.
+ */
+@Injectable()
+export class NotificationClientService {
+  private readonly logger = new Logger(NotificationClientService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async publish(event: string, payload: Record<string, any>): Promise<void> {
+    const baseUrl = this.configService.get<string>('NOTIFICATION_SERVICE_URL');
+
+    if (!baseUrl) {
+      this.logger.log(`Notification event: ${event}`, payload);
+      return;
+    }
+
+    try {
+      const response = await fetch(`${baseUrl}/notifications/events`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-service-token': this.configService.get<string>('INTERNAL_SERVICE_TOKEN', ''),
+          'x-service-id': 'user-service',
+        },
+        signal: AbortSignal.timeout(Number(this.configService.get('INTERNAL_REQUEST_TIMEOUT_MS', 10000))),
+        body: JSON.stringify({
+          event,
+          source: 'user-service',
+          occurredAt: new Date().toISOString(),
+          payload,
+        }),
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Notification event rejected', { event, status: response.status });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to publish notification event', { event, error: error.message });
+    }
+  }
+}
@@ -0,0 +1,421 @@
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { BranchAccessScope, MembershipStatus, ProfileAuditAction } from '@prisma/client';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { MemberEntitlementService } from './member-entitlement.service';
+import { MemberBranchService } from './member-branch.service';
+import { NotificationClientService } from './notification-client.service';
+import { HealthDataEncryptionService } from './health-data-encryption.service';
+import { HealthDataAccessLogRepository } from '../repositories/health-data-access-log.repository';
+import { HealthDataAccessLogEntity } from '../entities/health-data.entity';
+import {
+  ProfileAuditEntryEntity,
+  UpdateUserProfileEntity,
+  UserProfileEntity,
+} from '../entities/user-profile.entity';
+import {
+  CreateProfileDto,
+  HealthDataAccessQueryDto,
+  ProfileFiltersDto,
+  UpdateMembershipStatusDto,
+  UpdateProfileDto,
+} from '../dto/profile.dto';
+import {
+  AuthenticatedUser,
+  COUNTED_MEMBERSHIP_STATUSES,
+  HEALTH_DATA_FIELDS,
+  MEMBERSHIP_STATUS_TRANSITIONS,
+  PaginatedResult,
+} from '../types/profile.types';
+import { HealthDataAccessAction, HealthDataValues } from '../types/health-data.types';
+import { MANAGER_ROLES, STAFF_ROLES, isPlatformAdmin } from '../constants/roles.constants';
+import { assertCanAccessCompany } from '../utils/tenant-access.util';
+import { canAccessHealthData, canReadHealthData, withoutHealthData } from '../utils/profile-visibility.util';
+
+// Fields members cannot change on their own profile
+const STAFF_ONLY_FIELDS = ['joinDate', 'membershipEndDate', 'notes'];
+
+/**
+ * Member profiles, keyed by the auth-service user ID. Health data is stored
+ * encrypted, hidden from staff without a clinical reason to see it, and
+ * every time it is returned decrypted the access is logged. Every change is
+ * recorded in the audit log.
+ */
+@Injectable()
+export class ProfileService {
+  private readonly logger = new Logger(ProfileService.name);
+
+  constructor(
+    private readonly userProfileRepository: UserProfileRepository,
+    private readonly memberEntitlementService: MemberEntitlementService,
+    private readonly memberBranchService: MemberBranchService,
+    private readonly notificationClient: NotificationClientService,
+    private readonly healthDataEncryption: HealthDataEncryptionService,
+    private readonly healthDataAccessLogRepository: HealthDataAccessLogRepository,
+  ) {}
+
+  /**
+   * Enrols a member with the company, within the plan's member limit;
+   * user is undefined for internal service callers.
+   */
+  async createProfile(createDto: CreateProfileDto, user?: AuthenticatedUser): Promise<UserProfileEntity> {
+    assertCanAccessCompany(user, createDto.companyId);
+    this.assertCanChangeHealthData(createDto, createDto.userId, user);
+
+    const existing = await this.userProfileRepository.findByUserId(createDto.userId);
+    if (existing) {
+      throw new ConflictException('User already has a profile');
+    }
+
+    const branchAccess = createDto.branchAccess ?? BranchAccessScope.ALL_BRANCHES;
+    const accessibleBranchIds = await this.memberBranchService.resolveBranchAccess(
+      createDto.companyId,
+      branchAccess,
+      createDto.homeBranchId,
+      createDto.accessibleBranchIds,
+    );
+
+    const maxMembers = await this.memberEntitlementService.assertCanAddMember(createDto.companyId);
+
+    this.logger.log('Creating member profile', { userId: createDto.userId, companyId: createDto.companyId, createdBy: user?.id });
+
+    const healthData = await this.encryptHealthData(createDto.userId, createDto);
+
+    const profile = await this.userProfileRepository.create(
+      {
+        ...createDto,
+        ...healthData,
+        branchAccess,
+        accessibleBranchIds,
+        dateOfBirth: createDto.dateOfBirth ? new Date(createDto.dateOfBirth) : undefined,
+        joinDate: createDto.joinDate ? new Date(createDto.joinDate) : undefined,
+        membershipEndDate: createDto.membershipEndDate ? new Date(createDto.membershipEndDate) : undefined,
+      },
+      {
+        userId: createDto.userId,
+        companyId: createDto.companyId,
+        action: ProfileAuditAction.CREATED,
+        changedBy: user?.id,
+      },
+      maxMembers,
+    );
+
+    if (!profile) {
+      throw await this.memberEntitlementService.limitReached(createDto.companyId, maxMembers);
+    }
+
+    await this.memberEntitlementService.syncUsage(createDto.companyId);
+    return this.present(profile, user, HealthDataAccessAction.CREATE);
+  }
+
+  /**
+   * Members of a company, searchable by name or phone. Results never include
+   * health data; it is only returned for a single profile.
+   */
+  async getProfiles(filters: ProfileFiltersDto, user: AuthenticatedUser): Promise<PaginatedResult<UserProfileEntity>> {
+    const companyId = filters.companyId ?? user.companyId;
+    if (!companyId && !isPlatformAdmin(user)) {
+      throw new ForbiddenException('You are not assigned to a company');
+    }
+    if (companyId) {
+      assertCanAccessCompany(user, companyId);
+    }
+
+    const result = await this.userProfileRepository.findAll({ ...filters, companyId });
+
+    return {
+      ...result,
+      records: result.records.map(profile => withoutHealthData(profile)),
+    };
+  }
+
+  /**
+   * Members read their own profile; staff read profiles in their company.
+   * User is undefined for internal service callers.
+   */
+  async getProfile(userId: string, user?: AuthenticatedUser): Promise<UserProfileEntity> {
+    const profile = await this.findViewableProfile(userId, user);
+    return this.present(profile, user, HealthDataAccessAction.READ);
+  }
+
+  async updateProfile(userId: string, updateDto: UpdateProfileDto, user?: AuthenticatedUser): Promise<UserProfileEntity> {
+    const profile = await this.findViewableProfile(userId, user);
+    this.assertCanChangeHealthData(updateDto, userId, user);
+
+    const isSelfService = user?.id === userId && !this.isStaff(user);
+    const staffOnly = STAFF_ONLY_FIELDS.filter(field => updateDto[field] !== undefined);
+    if (isSelfService && staffOnly.length > 0) {
+      throw new ForbiddenException(`Only staff can change ${staffOnly.join(', ')}`);
+    }
+
+    const data: UpdateUserProfileEntity = {
+      ...updateDto,
+      dateOfBirth: updateDto.dateOfBirth ? new Date(updateDto.dateOfBirth) : undefined,
+      joinDate: updateDto.joinDate ? new Date(updateDto.joinDate) : undefined,
+      membershipEndDate: updateDto.membershipEndDate ? new Date(updateDto.membershipEndDate) : undefined,
+    };
+
+    // Health data is compared in plaintext
+    const changesHealthData = HEALTH_DATA_FIELDS.some(field => updateDto[field] !== undefined);
+    const currentHealthData = changesHealthData ? await this.healthDataEncryption.decrypt(profile) : {};
+    const current = { ...profile, ...currentHealthData };
+
+    const changedFields = Object.keys(data).filter(
+      field => data[field] !== undefined && !this.isSameValue(current[field], data[field]),
+    );
+
+    if (changedFields.length === 0) {
+      return this.present(profile, user, HealthDataAccessAction.UPDATE);
+    }
+
+    this.logger.log('Updating member profile', { userId, changedFields, updatedBy: user?.id });
+
+    const changes: UpdateUserProfileEntity = Object.fromEntries(changedFields.map(field => [field, data[field]]));
+
+    // All health fields move to the active key together
+    if (HEALTH_DATA_FIELDS.some(field => changedFields.includes(field))) {
+      Object.assign(changes, await this.encryptHealthData(userId, { ...currentHealthData, ...changes }));
+    }
+
+    const updated = await this.userProfileRepository.update(
+      profile.id,
+      changes,
+      {
+        userId,
+        companyId: profile.companyId,
+        action: ProfileAuditAction.UPDATED,
+        changedFields,
+        changedBy: user?.id,
+      },
+    );
+
+    return this.present(updated, user, HealthDataAccessAction.UPDATE);
+  }
+
+  /**
+   * Moves the membership through its allowed statuses. Reactivating a
+   * member counts against the plan's member limit again.
+   */
+  async changeStatus(
+    userId: string,
+    statusDto: UpdateMembershipStatusDto,
+    user: AuthenticatedUser,
+  ): Promise<UserProfileEntity> {
+    const profile = await this.findCompanyProfile(userId, user);
+
+    if (profile.membershipStatus === statusDto.status) {
+      return withoutHealthData(profile);
+    }
+
+    if (profile.membershipStatus === MembershipStatus.FROZEN || statusDto.status === MembershipStatus.FROZEN) {
+      throw new BadRequestException('Memberships are frozen and reactivated through membership freezes');
+    }
+
+    if (!MEMBERSHIP_STATUS_TRANSITIONS[profile.membershipStatus].includes(statusDto.status)) {
+      throw new BadRequestException(`Membership cannot change from ${profile.membershipStatus} to ${statusDto.status}`);
+    }
+
+    const wasCounted = COUNTED_MEMBERSHIP_STATUSES.includes(profile.membershipStatus);
+    const isCounted = COUNTED_MEMBERSHIP_STATUSES.includes(statusDto.status);
+    const maxMembers =
+      !wasCounted && isCounted ? await this.memberEntitlementService.assertCanAddMember(profile.companyId) : null;
+
+    this.logger.log('Changing membership status', {
+      userId,
+      from: profile.membershipStatus,
+      to: statusDto.status,
+      reason: statusDto.reason,
+      changedBy: user.id,
+    });
+
+    const result = await this.userProfileRepository.updateStatus(
+      profile.id,
+      profile.membershipStatus,
+      statusDto.status,
+      {
+        userId,
+        companyId: profile.companyId,
+        action: ProfileAuditAction.STATUS_CHANGED,
+        changedFields: ['membershipStatus'],
+        fromStatus: profile.membershipStatus,
+        toStatus: statusDto.status,
+        reason: statusDto.reason,
+        changedBy: user.id,
+      },
+      maxMembers,
+    );
+
+    if (result.limitReached) {
+      throw await this.memberEntitlementService.limitReached(profile.companyId, maxMembers);
+    }
+
+    if (result.stale) {
+      throw new ConflictException('Membership status was changed in the meantime');
+    }
+
+    if (wasCounted !== isCounted) {
+      await this.memberEntitlementService.syncUsage(profile.companyId);
+    }
+
+    await this.notificationClient.publish('member.status.changed', {
+      userId,
+      companyId: profile.companyId,
+      fromStatus: profile.membershipStatus,
+      toStatus: statusDto.status,
+      reason: statusDto.reason,
+      changedBy: user.id,
+    });
+
+    return withoutHealthData(result.profile);
+  }
+
+  async deleteProfile(userId: string, user: AuthenticatedUser): Promise<void> {
+    const profile = await this.findCompanyProfile(userId, user);
+
+    this.logger.log('Deleting member profile', { userId, companyId: profile.companyId, deletedBy: user.id });
+
+    await this.userProfileRepository.delete(profile.id, {
+      userId,
+      companyId: profile.companyId,
+      action: ProfileAuditAction.DELETED,
+      changedBy: user.id,
+    });
+
+    await this.memberEntitlementService.syncUsage(profile.companyId);
+  }
+
+  /**
+   * Who changed the profile and what, newest first. Kept after deletion.
+   */
+  async getAuditLog(userId: string, user: AuthenticatedUser): Promise<ProfileAuditEntryEntity[]> {
+    const entries = await this.userProfileRepository.findAuditEntries(userId);
+    if (entries.length === 0) {
+      throw new NotFoundException(`Profile for user ${userId} not found`);
+    }
+
+    assertCanAccessCompany(user, entries[0].companyId);
+    return entries;
+  }
+
+  /**
+   * Who saw the member's decrypted health data, newest first. Visible to
+   * the member and the company's managers.
+   */
+  async getHealthDataAccessLog(
+    userId: string,
+    query: HealthDataAccessQueryDto,
+    user: AuthenticatedUser,
+  ): Promise<PaginatedResult<HealthDataAccessLogEntity>> {
+    await this.findViewableProfile(userId, user);
+
+    if (user.id !== userId && !user.roles?.some(role => MANAGER_ROLES.includes(role))) {
+      throw new ForbiddenException('Only managers can view health data access');
+    }
+
+    return this.healthDataAccessLogRepository.findByUser(userId, query);
+  }
+
+  /**
+   * The profile as stored, with health data still encrypted. Members may
+   * view their own; staff those in their company.
+   */
+  async findViewableProfile(userId: string, user?: AuthenticatedUser): Promise<UserProfileEntity> {
+    const profile = await this.userProfileRepository.findByUserId(userId);
+    if (!profile) {
+      throw new NotFoundException(`Profile for user ${userId} not found`);
+    }
+
+    if (user && user.id !== userId) {
+      if (!this.isStaff(user)) {
+        throw new ForbiddenException('You cannot view this profile');
+      }
+
+      assertCanAccessCompany(user, profile.companyId);
+    }
+
+    return profile;
+  }
+
+  private async findCompanyProfile(userId: string, user: AuthenticatedUser): Promise<UserProfileEntity> {
+    const profile = await this.userProfileRepository.findByUserId(userId);
+    if (!profile) {
+      throw new NotFoundException(`Profile for user ${userId} not found`);
+    }
+
+    assertCanAccessCompany(user, profile.companyId);
+    return profile;
+  }
+
+  /**
+   * The profile as returned to the caller: health data decrypted for those
+   * allowed to see it, with the access logged, and removed for everyone else.
+   */
+  private async present(
+    profile: UserProfileEntity,
+    user: AuthenticatedUser | undefined,
+    action: HealthDataAccessAction,
+  ): Promise<UserProfileEntity> {
+    if (!canReadHealthData(user, profile.userId)) {
+      return withoutHealthData(profile);
+    }
+
+    const healthData = await this.healthDataEncryption.decrypt(profile);
+    const fields = HEALTH_DATA_FIELDS.filter(field => healthData[field] !== null && healthData[field] !== undefined);
+
+    if (fields.length > 0) {
+      await this.healthDataAccessLogRepository.create({
+        userId: profile.userId,
+        companyId: profile.companyId,
+        accessedBy: user.id,
+        fields,
+        action,
+      });
+    }
+
+    return { ...withoutHealthData(profile), ...healthData };
+  }
+
+  /**
+   * Encrypted health fields to store, with the key they were encrypted with.
+   * Empty when none are given.
+   */
+  private async encryptHealthData(
+    userId: string,
+    values: HealthDataValues,
+  ): Promise<HealthDataValues & { healthDataKeyId?: string }> {
+    const given = Object.fromEntries(
+      HEALTH_DATA_FIELDS.filter(field => values[field] !== undefined).map(field => [field, values[field]]),
+    );
+    if (Object.keys(given).length === 0) {
+      return {};
+    }
+
+    const encrypted = await this.healthDataEncryption.encrypt(userId, given);
+    return { ...encrypted.values, healthDataKeyId: encrypted.healthDataKeyId };
+  }
+
+  private assertCanChangeHealthData(dto: Record<string, any>, memberUserId: string, user?: AuthenticatedUser): void {
+    const healthFields = HEALTH_DATA_FIELDS.filter(field => dto[field] !== undefined);
+    if (healthFields.length > 0 && !canAccessHealthData(user, memberUserId)) {
+      throw new ForbiddenException(`You cannot change ${healthFields.join(', ')}`);
+    }
+  }
+
+  private isStaff(user: AuthenticatedUser): boolean {
+    return !!user.roles?.some(role => STAFF_ROLES.includes(role));
+  }
+
+  private isSameValue(current: unknown, next: unknown): boolean {
+    if (current instanceof Date && next instanceof Date) {
+      return current.getTime() === next.getTime();
+    }
+
+    return current === next;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Keeps the member counter in subscription-service up to date.
+ */
+@Injectable()
+export class SubscriptionClientService {
+  private readonly logger = new Logger(SubscriptionClientService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Best-effort: the count is recomputed on every change, so a missed
+   * update is corrected by the next one.
+   */
+  async reportMemberCount(companyId: string, currentMembers: number): Promise<void> {
+    const baseUrl = this.configService.get<string>('SUBSCRIPTION_SERVICE_URL', 'http://subscription-service:3006/api/v1');
+
+    try {
+      const response = await fetch(`${baseUrl}/subscriptions/company/${companyId}/usage`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-service-token': this.configService.get<string>('INTERNAL_SERVICE_TOKEN', ''),
+          'x-service-id': 'user-service',
+        },
+        signal: AbortSignal.timeout(Number(this.configService.get('INTERNAL_REQUEST_TIMEOUT_MS', 10000))),
+        body: JSON.stringify({ currentMembers }),
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Usage update rejected', { companyId, status: response.status });
+      }
+    } catch (error) {
+      this.logger.warn('Subscription service unavailable', { companyId, error: error.message });
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// Measurements charted by the trends endpoint
+export const TREND_METRICS = [
+  'weight',
+  'bmi',
+  'bodyFat',
+  'leanMass',
+  'muscleMass',
+  'visceralFat',
+  'bmr',
+  'waistToHipRatio',
+  'chest',
+  'waist',
+  'hips',
+  'thigh',
+  'arm',
+  'neck',
+] as const;
+
+export type TrendMetric = (typeof TREND_METRICS)[number];
+
+// Measurements averaged for the moving average, unless the caller asks otherwise
+export const DEFAULT_MOVING_AVERAGE_WINDOW = 3;
+
+export interface MeasurementFilters {
+  from?: Date;
+  to?: Date;
+}
+
+export interface TrendPoint {
+  measuredAt: Date;
+  value: number;
+  movingAverage: number; // Of this and up to window - 1 earlier values
+}
+
+export interface MetricTrend {
+  metric: TrendMetric;
+  series: TrendPoint[];
+  first: number;
+  latest: number;
+  changeSinceFirst: number;
+  changeSinceLast?: number; // Change from the measurement before the latest one
+}
+
+export interface MeasurementTrends {
+  userId: string;
+  from?: Date;
+  to?: Date;
+  movingAverageWindow: number;
+  measurementCount: number;
+  metrics: Partial<Record<TrendMetric, MetricTrend>>; // Only metrics measured at least once
+}
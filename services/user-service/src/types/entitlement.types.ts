@@ -0,0 +1,15 @@
+// Plan limits as reported by company-service; null means unrestricted
+export interface CompanyEntitlements {
+  companyId: string;
+  plan?: {
+    name: string;
+    type: string;
+    endDate: string;
+    isCurrent: boolean;
+  };
+  limits: {
+    branches: number | null;
+    staff: number | null;
+    members: number | null;
+  };
+}
@@ -0,0 +1,44 @@
+import { FitnessGoalEntity } from '../entities/fitness-goal.entity';
+
+export enum FitnessGoalType {
+  WEIGHT_LOSS = 'weight_loss',
+  MUSCLE_GAIN = 'muscle_gain',
+  STRENGTH = 'strength',
+  ENDURANCE = 'endurance',
+  VISITS = 'visits',
+}
+
+// Goals that follow a body measurement, and the measurement they follow
+export const MEASUREMENT_GOAL_METRICS: Partial<Record<FitnessGoalType, 'weight' | 'muscleMass'>> = {
+  [FitnessGoalType.WEIGHT_LOSS]: 'weight',
+  [FitnessGoalType.MUSCLE_GAIN]: 'muscleMass',
+};
+
+// Goals that count visits since the goal was set
+export const VISIT_GOAL_TYPES: FitnessGoalType[] = [FitnessGoalType.ENDURANCE, FitnessGoalType.VISITS];
+
+// Units progress is tracked in for goals that update automatically
+export const TRACKED_GOAL_UNITS: Partial<Record<FitnessGoalType, string>> = {
+  [FitnessGoalType.WEIGHT_LOSS]: 'kg',
+  [FitnessGoalType.MUSCLE_GAIN]: 'kg',
+  [FitnessGoalType.ENDURANCE]: 'visits',
+  [FitnessGoalType.VISITS]: 'visits',
+};
+
+export enum GoalProgressStatus {
+  COMPLETED = 'COMPLETED',
+  ON_TRACK = 'ON_TRACK',
+  BEHIND = 'BEHIND',
+  OVERDUE = 'OVERDUE', // Target date passed before the goal was reached
+  UNSCHEDULED = 'UNSCHEDULED', // No target value or date to measure against
+}
+
+export interface GoalProgress {
+  status: GoalProgressStatus;
+  percentComplete?: number; // 0-100; missing without a target value
+  expectedPercent?: number; // Where the member should be by now, progressing evenly to the target date
+  remaining?: number; // Distance to the target, in the goal's unit
+  projectedCompletionDate?: Date; // At the pace since the goal was set
+}
+
+export type TrackedFitnessGoal = FitnessGoalEntity & { progress: GoalProgress };
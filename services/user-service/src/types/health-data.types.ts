@@ -0,0 +1,41 @@
+import { HealthDataKeyStatus } from '@prisma/client';
+import { HEALTH_DATA_FIELDS } from './profile.types';
+
+export type HealthDataField = (typeof HEALTH_DATA_FIELDS)[number];
+
+export type HealthDataValues = Partial<Record<HealthDataField, string | null>>;
+
+// Why decrypted health data was returned
+export enum HealthDataAccessAction {
+  READ = 'read',
+  CREATE = 'create',
+  UPDATE = 'update',
+}
+
+// Marks encrypted values; anything else is plaintext written before encryption
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+
+// Profiles re-encrypted per batch by the background job
+export const REENCRYPTION_BATCH_SIZE = 100;
+
+export interface HealthDataKeyInfo {
+  id: string;
+  kekId: string;
+  status: HealthDataKeyStatus;
+  createdAt: Date;
+  retiredAt?: Date;
+  rewrappedAt?: Date;
+}
+
+export interface HealthDataKeyStatusSummary {
+  configured: boolean;
+  activeKekId?: string;
+  kekIds: string[]; // Configured key-encryption keys; retired ones can be removed once no data key uses them
+  keys: HealthDataKeyInfo[];
+  pendingProfiles: number; // Profiles still encrypted with a retired key, or not encrypted yet
+}
+
+export interface HealthDataAccessFilters {
+  page?: number;
+  limit?: number;
+}
@@ -0,0 +1,39 @@
+import { MembershipFreezeStatus, MembershipStatus } from '@prisma/client';
+import { MembershipFreezeEntity } from '../entities/membership-freeze.entity';
+
+/**
+ * Per-company freeze rules, read from Company.settings.membershipFreezePolicy
+ * in company-service. Missing keys fall back to DEFAULT_FREEZE_POLICY.
+ */
+export interface MembershipFreezePolicy {
+  maxFreezeDaysPerYear: number; // Frozen days allowed per calendar year; 0 disables freezes
+  minFreezeDays: number; // Shortest freeze that can be requested
+  maxFreezeDays: number; // Longest single freeze
+}
+
+export const DEFAULT_FREEZE_POLICY: MembershipFreezePolicy = {
+  maxFreezeDaysPerYear: 60,
+  minFreezeDays: 7,
+  maxFreezeDays: 60,
+};
+
+// Freezes that have not run their course yet
+export const OPEN_FREEZE_STATUSES: MembershipFreezeStatus[] = [
+  MembershipFreezeStatus.SCHEDULED,
+  MembershipFreezeStatus.ACTIVE,
+];
+
+export interface FreezeAllowance {
+  year: number;
+  maxDays: number;
+  usedDays: number; // Frozen, or booked by a scheduled or active freeze
+  remainingDays: number;
+}
+
+export interface MembershipFreezeOverview {
+  membershipStatus: MembershipStatus;
+  membershipEndDate?: Date;
+  policy: MembershipFreezePolicy;
+  allowance: FreezeAllowance; // For the current year
+  freezes: MembershipFreezeEntity[];
+}
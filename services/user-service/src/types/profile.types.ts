@@ -0,0 +1,74 @@
+import { MembershipStatus } from '@prisma/client';
+import { UserProfileEntity } from '../entities/user-profile.entity';
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  roles: string[];
+  permissions: string[];
+  companyId?: string;
+  userType?: string;
+}
+
+export interface PaginatedResult<T> {
+  records: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface ProfileFilters {
+  companyId?: string;
+  search?: string;
+  membershipStatus?: MembershipStatus;
+  homeBranchId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Health data only the member, trainers and managers may see or change
+export const HEALTH_DATA_FIELDS = ['medicalConditions', 'allergies', 'medications', 'bloodType'] as const;
+
+// Allowed status changes; anything else is rejected
+export const MEMBERSHIP_STATUS_TRANSITIONS: Record<MembershipStatus, MembershipStatus[]> = {
+  [MembershipStatus.ACTIVE]: [
+    MembershipStatus.SUSPENDED,
+    MembershipStatus.INACTIVE,
+    MembershipStatus.EXPIRED,
+    MembershipStatus.FROZEN,
+  ],
+  [MembershipStatus.SUSPENDED]: [MembershipStatus.ACTIVE, MembershipStatus.INACTIVE, MembershipStatus.EXPIRED],
+  [MembershipStatus.EXPIRED]: [MembershipStatus.ACTIVE, MembershipStatus.INACTIVE],
+  [MembershipStatus.INACTIVE]: [MembershipStatus.ACTIVE],
+  [MembershipStatus.FROZEN]: [MembershipStatus.ACTIVE], // Only through the freeze workflow
+};
+
+// Members who count towards the company's plan
+export const COUNTED_MEMBERSHIP_STATUSES: MembershipStatus[] = [
+  MembershipStatus.ACTIVE,
+  MembershipStatus.SUSPENDED,
+  MembershipStatus.FROZEN,
+];
+
+export interface MembershipStatusChangeResult {
+  profile?: UserProfileEntity;
+  stale?: boolean; // The status changed in the meantime
+  limitReached?: boolean; // No member left on the company's plan
+}
+
+// Branch as returned by company-service
+export interface BranchInfo {
+  id: string;
+  companyId: string;
+  name: string;
+  managerId?: string;
+  status: string;
+}
+
+// Company as returned by company-service
+export interface CompanyInfo {
+  id: string;
+  name: string;
+  status: string;
+  settings?: Record<string, any>;
+}
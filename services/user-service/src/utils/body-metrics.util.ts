@@ -0,0 +1,85 @@
+import { Gender } from '@prisma/client';
+import { BodyMeasurementEntity } from '../entities/body-measurement.entity';
+import { MetricTrend, TrendMetric, TrendPoint } from '../types/body-metrics.types';
+
+// Mifflin-St Jeor sex constants; OTHER uses the midpoint of the two
+const BMR_GENDER_OFFSET: Record<Gender, number> = {
+  [Gender.MALE]: 5,
+  [Gender.FEMALE]: -161,
+  [Gender.OTHER]: -78,
+};
+
+export function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function calculateBmi(weightKg: number, heightCm: number): number {
+  const heightM = heightCm / 100;
+  return round(weightKg / (heightM * heightM));
+}
+
+/**
+ * Basal metabolic rate in kcal/day (Mifflin-St Jeor).
+ */
+export function calculateBmr(weightKg: number, heightCm: number, ageYears: number, gender: Gender): number {
+  return Math.round(10 * weightKg + 6.25 * heightCm - 5 * ageYears + BMR_GENDER_OFFSET[gender]);
+}
+
+export function calculateWaistToHipRatio(waistCm: number, hipsCm: number): number {
+  return round(waistCm / hipsCm, 2);
+}
+
+export function calculateLeanMass(weightKg: number, bodyFatPercentage: number): number {
+  return round(weightKg * (1 - bodyFatPercentage / 100));
+}
+
+/**
+ * Whole years between the date of birth and the given date.
+ */
+export function ageOn(dateOfBirth: Date, date: Date): number {
+  const age = date.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const birthdayPassed =
+    date.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (date.getUTCMonth() === dateOfBirth.getUTCMonth() && date.getUTCDate() >= dateOfBirth.getUTCDate());
+
+  return birthdayPassed ? age : age - 1;
+}
+
+/**
+ * Time series of one metric over measurements sorted oldest first, with a
+ * trailing moving average. Null when the metric was never measured.
+ */
+export function buildMetricTrend(
+  metric: TrendMetric,
+  measurements: BodyMeasurementEntity[],
+  window: number,
+): MetricTrend | null {
+  const measured = measurements.filter(measurement => typeof measurement[metric] === 'number');
+  if (measured.length === 0) {
+    return null;
+  }
+
+  const series: TrendPoint[] = measured.map((measurement, index) => {
+    const recent = measured.slice(Math.max(0, index - window + 1), index + 1).map(item => item[metric] as number);
+
+    return {
+      measuredAt: measurement.measurementDate,
+      value: measurement[metric] as number,
+      movingAverage: round(recent.reduce((sum, value) => sum + value, 0) / recent.length, 2),
+    };
+  });
+
+  const first = series[0].value;
+  const latest = series[series.length - 1].value;
+  const previous = series.length > 1 ? series[series.length - 2].value : undefined;
+
+  return {
+    metric,
+    series,
+    first,
+    latest,
+    changeSinceFirst: round(latest - first, 2),
+    changeSinceLast: previous !== undefined ? round(latest - previous, 2) : undefined,
+  };
+}
@@ -0,0 +1,70 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { ENCRYPTED_VALUE_PREFIX } from '../types/health-data.types';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Reads "id:base64key" pairs separated by commas. Keys must be 32 bytes.
+ */
+export function parseKeyEncryptionKeys(config: string | undefined): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (config ?? '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+
+    if (separator <= 0 || key.length !== KEY_BYTES) {
+      throw new Error(`Key-encryption key "${id || entry.slice(0, 8)}" must be given as id:base64 with ${KEY_BYTES} bytes`);
+    }
+
+    keys.set(id, key);
+  }
+
+  return keys;
+}
+
+export function generateDataKey(): Buffer {
+  return randomBytes(KEY_BYTES);
+}
+
+export function isEncryptedValue(value: string | null | undefined): boolean {
+  return !!value?.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/**
+ * AES-256-GCM with a random IV. The associated data binds the ciphertext to
+ * where it is stored, so it cannot be moved to another member or field.
+ */
+export function encryptValue(key: Buffer, plaintext: string, associatedData: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(associatedData));
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return ENCRYPTED_VALUE_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptValue(key: Buffer, value: string, associatedData: string): string {
+  const [iv, tag, ciphertext] = value
+    .slice(ENCRYPTED_VALUE_PREFIX.length)
+    .split('.')
+    .map(part => Buffer.from(part, 'base64url'));
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+export function wrapDataKey(kek: Buffer, dataKey: Buffer, dataKeyId: string): string {
+  return encryptValue(kek, dataKey.toString('base64'), `health-data-key:${dataKeyId}`);
+}
+
+export function unwrapDataKey(kek: Buffer, wrappedKey: string, dataKeyId: string): Buffer {
+  return Buffer.from(decryptValue(kek, wrappedKey, `health-data-key:${dataKeyId}`), 'base64');
+}
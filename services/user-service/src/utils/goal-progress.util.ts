@@ -0,0 +1,77 @@
+import { FitnessGoalEntity } from '../entities/fitness-goal.entity';
+import { GoalProgress, GoalProgressStatus } from '../types/fitness-goal.types';
+import { round } from './body-metrics.util';
+
+type GoalValues = Pick<FitnessGoalEntity, 'startValue' | 'currentValue' | 'targetValue'>;
+
+/**
+ * Share of the way from the start value to the target, unclamped: negative
+ * when the member moved away from the target, 1 or more once reached.
+ * Undefined without a target value.
+ */
+export function progressRatio(goal: GoalValues): number | undefined {
+  if (goal.targetValue === null || goal.targetValue === undefined) {
+    return undefined;
+  }
+
+  const start = goal.startValue ?? 0;
+  const current = goal.currentValue ?? start;
+  if (goal.targetValue === start) {
+    return current === start ? 1 : 0;
+  }
+
+  return (current - start) / (goal.targetValue - start);
+}
+
+export function isGoalReached(goal: GoalValues): boolean {
+  return (progressRatio(goal) ?? 0) >= 1;
+}
+
+/**
+ * How far the member is and whether they will reach the target by the
+ * target date, assuming progress continues at the pace since the goal was
+ * set.
+ */
+export function computeGoalProgress(goal: FitnessGoalEntity, now: Date): GoalProgress {
+  if (goal.isCompleted) {
+    return { status: GoalProgressStatus.COMPLETED, percentComplete: 100, remaining: 0 };
+  }
+
+  const ratio = progressRatio(goal);
+  if (ratio === undefined) {
+    return { status: GoalProgressStatus.UNSCHEDULED };
+  }
+
+  const percentComplete = round(Math.min(Math.max(ratio, 0), 1) * 100);
+  const start = goal.startValue ?? 0;
+  const current = goal.currentValue ?? start;
+  const remaining = round(Math.max(0, (goal.targetValue - current) * Math.sign(goal.targetValue - start)), 2);
+
+  const elapsed = now.getTime() - goal.createdAt.getTime();
+  const projectedCompletionDate =
+    ratio > 0 && ratio < 1 && elapsed > 0 ? new Date(goal.createdAt.getTime() + elapsed / ratio) : undefined;
+
+  const progress: GoalProgress = {
+    status: GoalProgressStatus.UNSCHEDULED,
+    percentComplete,
+    remaining,
+    projectedCompletionDate,
+  };
+
+  if (!goal.targetDate) {
+    return progress;
+  }
+
+  if (now > goal.targetDate) {
+    return { ...progress, status: GoalProgressStatus.OVERDUE };
+  }
+
+  const duration = goal.targetDate.getTime() - goal.createdAt.getTime();
+  const expectedPercent = duration > 0 ? round(Math.min(Math.max(elapsed / duration, 0), 1) * 100) : 100;
+
+  return {
+    ...progress,
+    expectedPercent,
+    status: percentComplete >= expectedPercent ? GoalProgressStatus.ON_TRACK : GoalProgressStatus.BEHIND,
+  };
+}
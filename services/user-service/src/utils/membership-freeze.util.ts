@@ -0,0 +1,48 @@
+import { MembershipFreezeStatus } from '@prisma/client';
+import { MembershipFreezeEntity } from '../entities/membership-freeze.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Freeze dates are calendar days, kept as UTC midnight.
+
+export function toUtcDate(value: string | Date): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Days from..to, both included; zero when to is before from.
+ */
+export function countDays(from: Date, to: Date): number {
+  return Math.max(0, Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1);
+}
+
+/**
+ * Days of from..to (both included) that fall in the calendar year.
+ */
+export function countDaysInYear(from: Date, to: Date, year: number): number {
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+  const yearEnd = new Date(Date.UTC(year, 11, 31));
+
+  return countDays(from > yearStart ? from : yearStart, to < yearEnd ? to : yearEnd);
+}
+
+/**
+ * Days the freeze takes from the yearly allowance: the days actually frozen
+ * once it ended, otherwise every planned day. Cancelled freezes take none.
+ */
+export function freezeDaysInYear(freeze: MembershipFreezeEntity, year: number): number {
+  if (freeze.status === MembershipFreezeStatus.CANCELLED) {
+    return 0;
+  }
+
+  const lastDay = freeze.status === MembershipFreezeStatus.COMPLETED
+    ? addDays(freeze.startDate, (freeze.frozenDays ?? 0) - 1)
+    : freeze.endDate;
+
+  return countDaysInYear(freeze.startDate, lastDay, year);
+}
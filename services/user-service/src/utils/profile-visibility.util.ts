@@ -0,0 +1,34 @@
+import { UserProfileEntity } from '../entities/user-profile.entity';
+import { AuthenticatedUser, HEALTH_DATA_FIELDS } from '../types/profile.types';
+import { HEALTH_DATA_ROLES } from '../constants/roles.constants';
+
+// A missing user means an internal service caller.
+
+/**
+ * Whether the caller may change the member's health data. Internal
+ * services may, to enrol members with it.
+ */
+export function canAccessHealthData(user: AuthenticatedUser | undefined, memberUserId: string): boolean {
+  return !user || user.id === memberUserId || !!user.roles?.some(role => HEALTH_DATA_ROLES.includes(role));
+}
+
+/**
+ * Whether the caller may see the member's health data. Internal services
+ * never receive it; nothing they do needs it.
+ */
+export function canReadHealthData(user: AuthenticatedUser | undefined, memberUserId: string): boolean {
+  return !!user && canAccessHealthData(user, memberUserId);
+}
+
+/**
+ * The profile without its encrypted health data.
+ */
+export function withoutHealthData(profile: UserProfileEntity): UserProfileEntity {
+  const visible = { ...profile };
+  for (const field of HEALTH_DATA_FIELDS) {
+    delete visible[field];
+  }
+  delete visible.healthDataKeyId;
+
+  return visible;
+}
@@ -0,0 +1,15 @@
+import { ForbiddenException } from '@nestjs/common';
+import { AuthenticatedUser } from '../types/profile.types';
+import { isPlatformAdmin } from '../constants/roles.constants';
+
+// A missing user means an internal service caller.
+
+export function canAccessCompany(user: AuthenticatedUser | undefined, companyId: string): boolean {
+  return !user || isPlatformAdmin(user) || user.companyId === companyId;
+}
+
+export function assertCanAccessCompany(user: AuthenticatedUser | undefined, companyId: string): void {
+  if (!canAccessCompany(user, companyId)) {
+    throw new ForbiddenException('You do not have access to this company');
+  }
+}